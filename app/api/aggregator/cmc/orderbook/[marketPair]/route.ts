@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { loadMarket } from '@/lib/marketData'
+import { parseLimitParam } from '@/lib/requestParams'
+import {
+  DEFAULT_DEPTH, MAX_DEPTH, cmcOrderbook, feedChainId, handleAggregatorFeed, marketNotFound, parseTickerIdParam,
+} from '@/lib/aggregatorFeeds'
+
+/**
+ * GET /api/aggregator/cmc/orderbook/<base>_<quote>?depth=100&chainId=
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ marketPair: string }> }
+) {
+  return handleAggregatorFeed('CoinMarketCap orderbook', async () => {
+    const { searchParams } = new URL(request.url)
+    const chainId = feedChainId(searchParams)
+    const marketPair = parseTickerIdParam('market_pair', (await params).marketPair)
+    const depth = parseLimitParam('depth', searchParams.get('depth'), DEFAULT_DEPTH, MAX_DEPTH)
+
+    const market = await loadMarket(chainId, marketPair)
+    if (!market) return marketNotFound(marketPair)
+    return cmcOrderbook(market, depth)
+  })
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server'
+import { loadMarketStats, loadMarkets } from '@/lib/marketData'
+import { cmcSummary, feedChainId, handleAggregatorFeed } from '@/lib/aggregatorFeeds'
+
+/**
+ * GET /api/aggregator/cmc/summary?chainId=
+ */
+export async function GET(request: NextRequest) {
+  return handleAggregatorFeed('CoinMarketCap summary', async () => {
+    const { searchParams } = new URL(request.url)
+    const chainId = feedChainId(searchParams)
+    const markets = await loadMarkets(chainId)
+    return cmcSummary(markets, await loadMarketStats(chainId, markets))
+  })
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server'
+import { loadMarketStats, loadMarkets } from '@/lib/marketData'
+import { cmcTicker, feedChainId, handleAggregatorFeed } from '@/lib/aggregatorFeeds'
+
+/**
+ * GET /api/aggregator/cmc/ticker?chainId=
+ */
+export async function GET(request: NextRequest) {
+  return handleAggregatorFeed('CoinMarketCap ticker', async () => {
+    const { searchParams } = new URL(request.url)
+    const chainId = feedChainId(searchParams)
+    const markets = await loadMarkets(chainId)
+    return cmcTicker(markets, await loadMarketStats(chainId, markets))
+  })
+}
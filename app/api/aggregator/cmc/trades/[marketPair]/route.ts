@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { loadMarket, loadMarketTrades } from '@/lib/marketData'
+import { parseLimitParam } from '@/lib/requestParams'
+import {
+  DEFAULT_TRADES_LIMIT, MAX_TRADES_LIMIT, cmcTrades, feedChainId, handleAggregatorFeed, marketNotFound,
+  parseTickerIdParam,
+} from '@/lib/aggregatorFeeds'
+
+/**
+ * GET /api/aggregator/cmc/trades/<base>_<quote>?limit=500&chainId=
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ marketPair: string }> }
+) {
+  return handleAggregatorFeed('CoinMarketCap trades', async () => {
+    const { searchParams } = new URL(request.url)
+    const chainId = feedChainId(searchParams)
+    const marketPair = parseTickerIdParam('market_pair', (await params).marketPair)
+    const limit = parseLimitParam('limit', searchParams.get('limit'), DEFAULT_TRADES_LIMIT, MAX_TRADES_LIMIT)
+
+    const market = await loadMarket(chainId, marketPair)
+    if (!market) return marketNotFound(marketPair)
+    return cmcTrades(await loadMarketTrades(market, { type: null, limit, startTime: null, endTime: null }))
+  })
+}
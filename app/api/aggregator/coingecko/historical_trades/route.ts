@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server'
+import { loadMarket, loadMarketTrades } from '@/lib/marketData'
+import { parseEnumParam, parseLimitParam, parseTimestampParam } from '@/lib/requestParams'
+import {
+  DEFAULT_TRADES_LIMIT, MAX_TRADES_LIMIT, coingeckoTrades, feedChainId, handleAggregatorFeed, marketNotFound,
+  parseTickerIdParam,
+} from '@/lib/aggregatorFeeds'
+
+/**
+ * GET /api/aggregator/coingecko/historical_trades?ticker_id=<base>_<target>&type=buy|sell&limit=500
+ *     &start_time=<unix>&end_time=<unix>&chainId=
+ */
+export async function GET(request: NextRequest) {
+  return handleAggregatorFeed('CoinGecko historical trades', async () => {
+    const { searchParams } = new URL(request.url)
+    const chainId = feedChainId(searchParams)
+    const tickerId = parseTickerIdParam('ticker_id', searchParams.get('ticker_id'))
+    const type = parseEnumParam('type', searchParams.get('type'), ['buy', 'sell'] as const)
+    const limit = parseLimitParam('limit', searchParams.get('limit'), DEFAULT_TRADES_LIMIT, MAX_TRADES_LIMIT)
+    const startTime = parseTimestampParam('start_time', searchParams.get('start_time'))
+    const endTime = parseTimestampParam('end_time', searchParams.get('end_time'))
+
+    const market = await loadMarket(chainId, tickerId)
+    if (!market) return marketNotFound(tickerId)
+    return coingeckoTrades(await loadMarketTrades(market, { type, limit, startTime, endTime }))
+  })
+}
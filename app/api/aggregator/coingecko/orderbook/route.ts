@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server'
+import { loadMarket } from '@/lib/marketData'
+import { parseLimitParam } from '@/lib/requestParams'
+import {
+  DEFAULT_DEPTH, MAX_DEPTH, coingeckoOrderbook, feedChainId, handleAggregatorFeed, marketNotFound, parseTickerIdParam,
+} from '@/lib/aggregatorFeeds'
+
+/**
+ * GET /api/aggregator/coingecko/orderbook?ticker_id=<base>_<target>&depth=100&chainId=
+ * Depth is synthesized from the pair reserves or the bonding curve, 1% apart in price.
+ */
+export async function GET(request: NextRequest) {
+  return handleAggregatorFeed('CoinGecko orderbook', async () => {
+    const { searchParams } = new URL(request.url)
+    const chainId = feedChainId(searchParams)
+    const tickerId = parseTickerIdParam('ticker_id', searchParams.get('ticker_id'))
+    const depth = parseLimitParam('depth', searchParams.get('depth'), DEFAULT_DEPTH, MAX_DEPTH)
+
+    const market = await loadMarket(chainId, tickerId)
+    if (!market) return marketNotFound(tickerId)
+    return coingeckoOrderbook(market, depth)
+  })
+}
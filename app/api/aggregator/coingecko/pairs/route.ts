@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server'
+import { loadMarkets } from '@/lib/marketData'
+import { coingeckoPairs, feedChainId, handleAggregatorFeed } from '@/lib/aggregatorFeeds'
+
+/**
+ * GET /api/aggregator/coingecko/pairs?chainId=
+ */
+export async function GET(request: NextRequest) {
+  return handleAggregatorFeed('CoinGecko pairs', async () => {
+    const { searchParams } = new URL(request.url)
+    return coingeckoPairs(await loadMarkets(feedChainId(searchParams)))
+  })
+}
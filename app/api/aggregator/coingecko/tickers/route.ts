@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server'
+import { loadEthPriceUsd, loadMarketStats, loadMarkets } from '@/lib/marketData'
+import { coingeckoTickers, feedChainId, handleAggregatorFeed } from '@/lib/aggregatorFeeds'
+
+/**
+ * GET /api/aggregator/coingecko/tickers?chainId=
+ */
+export async function GET(request: NextRequest) {
+  return handleAggregatorFeed('CoinGecko tickers', async () => {
+    const { searchParams } = new URL(request.url)
+    const chainId = feedChainId(searchParams)
+    const markets = await loadMarkets(chainId)
+    const [stats, ethPriceUsd] = await Promise.all([loadMarketStats(chainId, markets), loadEthPriceUsd()])
+    return coingeckoTickers(markets, stats, ethPriceUsd)
+  })
+}
@@ -1,95 +1,92 @@
 import { NextRequest, NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import {
+  parseAddressParam, parseChainIdParam, parseEnumParam, parsePageParam, parsePageSizeParam, parseTextParam,
+  RequestParamError,
+} from '@/lib/requestParams'
+import { orderBy, sql, where } from '@/lib/sql'
+
+const TOKEN_SORTS = {
+  created_desc: sql`t.id DESC`,
+  created_asc: sql`t.id ASC`,
+  name: sql`t.name ASC`,
+  symbol: sql`t.symbol ASC`,
+}
+
+const STATUS_FILTERS = {
+  all: null,
+  in_progress: sql`t.is_graduated = false AND t.on_dex = false`,
+  graduated: sql`t.is_graduated = true`,
+  on_dex: sql`t.on_dex = true`,
+}
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url)
 
-  const search = searchParams.get('search') || ''
-  const creatorFilter = searchParams.get('creator') || 'all'
-  const statusFilter = searchParams.get('status') || 'all'
-  const sortFilter = searchParams.get('sort') || 'created_desc'
-  const chainId = searchParams.get('chainId')
-  
   // Pagination parameters
-  const page = parseInt(searchParams.get('page') || '1')
   const defaultPageSize = Number(process.env.TOKENS_PAGE_SIZE || process.env.NEXT_PUBLIC_TOKENS_PAGE_SIZE || '40')
-  const pageSizeParam = parseInt(searchParams.get('pageSize') || String(defaultPageSize))
-  const pageSize = Number.isFinite(pageSizeParam) && pageSizeParam > 0 ? pageSizeParam : 40
-  const offset = (page - 1) * pageSize
-
-  const values: (string | number | boolean | null)[] = []
-  const conditions: string[] = ['t.contract_address IS NOT NULL']
-
-  // ✅ Optional chain ID filter
-  if (chainId) {
-    values.push(Number(chainId))
-    conditions.push(`t.chain_id = $${values.length}`)
-  }
-
-  // ✅ Search filter
-  if (search) {
-    values.push(`%${search.toLowerCase()}%`)
-    conditions.push(`
-      (LOWER(t.name) LIKE $${values.length}
-      OR LOWER(t.symbol) LIKE $${values.length}
-      OR LOWER(t.contract_address) LIKE $${values.length}
-      OR LOWER(t.creator_wallet) LIKE $${values.length}
-      OR LOWER(p.display_name) LIKE $${values.length})
-    `)
-  }
-
-  // ✅ Creator filter
-  if (creatorFilter === 'mine' || creatorFilter === 'others') {
-    const isMine = creatorFilter === 'mine'
-    const userAddress = searchParams.get('address')?.toLowerCase() || ''
-    if (userAddress) {
-      values.push(userAddress)
-      conditions.push(
-        `LOWER(t.creator_wallet) ${isMine ? '=' : '!='} $${values.length}`
-      )
-    }
-  }
-
-  // ✅ Status filter
-  if (statusFilter === 'in_progress') {
-    conditions.push('t.is_graduated = false AND t.on_dex = false')
-  } else if (statusFilter === 'graduated') {
-    conditions.push('t.is_graduated = true')
-  } else if (statusFilter === 'on_dex') {
-    conditions.push('t.on_dex = true')
+  let chainId: number | null, page: number, pageSize: number, search: string
+  let creatorFilter: 'all' | 'mine' | 'others', userAddress: string | null
+  let statusFilter: keyof typeof STATUS_FILTERS, sortFilter: keyof typeof TOKEN_SORTS
+  try {
+    search = parseTextParam('search', searchParams.get('search')) ?? ''
+    chainId = parseChainIdParam(searchParams.get('chainId'))
+    page = parsePageParam(searchParams.get('page'))
+    pageSize = parsePageSizeParam(searchParams.get('pageSize'), defaultPageSize > 0 ? defaultPageSize : 40)
+    creatorFilter = parseEnumParam('creator', searchParams.get('creator'), ['all', 'mine', 'others'] as const) ?? 'all'
+    userAddress = parseAddressParam('address', searchParams.get('address'))
+    statusFilter = parseEnumParam('status', searchParams.get('status'), Object.keys(STATUS_FILTERS) as (keyof typeof STATUS_FILTERS)[]) ?? 'all'
+    sortFilter = parseEnumParam('sort', searchParams.get('sort'), Object.keys(TOKEN_SORTS) as (keyof typeof TOKEN_SORTS)[]) ?? 'created_desc'
+  } catch (err) {
+    if (err instanceof RequestParamError) return NextResponse.json({ error: err.message }, { status: 400 })
+    throw err
   }
-
-  // ✅ Sorting
-  let orderClause = 'ORDER BY t.id DESC'
-  if (sortFilter === 'created_asc') orderClause = 'ORDER BY t.id ASC'
-  if (sortFilter === 'name') orderClause = 'ORDER BY t.name ASC'
-  if (sortFilter === 'symbol') orderClause = 'ORDER BY t.symbol ASC'
+  const offset = (page - 1) * pageSize
+  const searchPattern = `%${search.toLowerCase()}%`
+
+  const whereClause = where([
+    sql`t.contract_address IS NOT NULL`,
+    // ✅ Optional chain ID filter
+    chainId !== null && sql`t.chain_id = ${chainId}`,
+    // ✅ Search filter
+    search !== '' && sql`
+      (LOWER(t.name) LIKE ${searchPattern}
+      OR LOWER(t.symbol) LIKE ${searchPattern}
+      OR LOWER(t.contract_address) LIKE ${searchPattern}
+      OR LOWER(t.creator_wallet) LIKE ${searchPattern}
+      OR LOWER(p.display_name) LIKE ${searchPattern})
+    `,
+    // ✅ Creator filter
+    creatorFilter === 'mine' && userAddress !== null && sql`LOWER(t.creator_wallet) = ${userAddress}`,
+    creatorFilter === 'others' && userAddress !== null && sql`LOWER(t.creator_wallet) != ${userAddress}`,
+    // ✅ Status filter
+    STATUS_FILTERS[statusFilter],
+  ])
 
   // First, get total count
-  const countQuery = `
+  const countQuery = sql`
     SELECT COUNT(*) as total FROM tokens t
     LEFT JOIN profiles p ON t.creator_wallet = p.wallet
-    WHERE ${conditions.join(' AND ')}
+    ${whereClause}
   `
 
   // Then get paginated results
-  const dataQuery = `
+  const dataQuery = sql`
     SELECT t.*, p.display_name FROM tokens t
     LEFT JOIN profiles p ON t.creator_wallet = p.wallet
-    WHERE ${conditions.join(' AND ')}
-    ${orderClause}
-    LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    ${whereClause}
+    ${orderBy(TOKEN_SORTS, sortFilter)}
+    LIMIT ${pageSize} OFFSET ${offset}
   `
 
   try {
     // Get total count
-    const countResult = await pool.query(countQuery, values)
+    const countResult = await pool.query(countQuery)
     const totalCount = parseInt(countResult.rows[0].total)
     const totalPages = Math.ceil(totalCount / pageSize)
 
     // Get paginated data
-    const dataValues = [...values, pageSize, offset]
-    const dataResult = await pool.query(dataQuery, dataValues)
+    const dataResult = await pool.query(dataQuery)
 
     return NextResponse.json({
       tokens: dataResult.rows,
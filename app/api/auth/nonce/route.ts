@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { createNonce, setNonceCookie } from '@/lib/auth'
+
+export async function GET() {
+  try {
+    const nonce = createNonce()
+    const res = NextResponse.json({ success: true, nonce })
+    setNonceCookie(res, nonce)
+    return res
+  } catch (error) {
+    console.error('[AUTH_NONCE] Failed to issue nonce:', error)
+    return NextResponse.json({ success: false, error: 'Failed to issue nonce' }, { status: 500 })
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, clearSessionCookie } from '@/lib/auth'
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = getSession(req)
+    return NextResponse.json({ success: true, wallet: session?.wallet ?? null })
+  } catch (error) {
+    console.error('[AUTH_SESSION] Failed to read session:', error)
+    return NextResponse.json({ success: false, error: 'Failed to read session' }, { status: 500 })
+  }
+}
+
+export async function DELETE() {
+  const res = NextResponse.json({ success: true })
+  clearSessionCookie(res)
+  return res
+}
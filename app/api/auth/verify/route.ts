@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifySignIn, setSessionCookie } from '@/lib/auth'
+
+export async function POST(req: NextRequest) {
+  try {
+    const { message, signature } = await req.json()
+
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      return NextResponse.json({ success: false, error: 'Missing message or signature' }, { status: 400 })
+    }
+
+    const result = verifySignIn(req, message, signature)
+    if ('error' in result) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 401 })
+    }
+
+    const res = NextResponse.json({ success: true, wallet: result.session.wallet })
+    setSessionCookie(res, result.session)
+    return res
+  } catch (error) {
+    console.error('[AUTH_VERIFY] Failed to verify sign-in:', error)
+    return NextResponse.json({ success: false, error: 'Failed to verify sign-in' }, { status: 500 })
+  }
+}
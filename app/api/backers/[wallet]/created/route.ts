@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import { parseChainIdParam, RequestParamError } from '@/lib/requestParams'
+import { empty, sql } from '@/lib/sql'
 
 export async function GET(
   req: NextRequest,
@@ -7,16 +9,16 @@ export async function GET(
 ) {
   try {
     const { wallet } = await params
-    const chainId = req.nextUrl.searchParams.get('chainId')
+    const chainId = parseChainIdParam(req.nextUrl.searchParams.get('chainId'))
 
     if (!wallet) {
       return NextResponse.json({ error: 'Wallet address is required' }, { status: 400 })
     }
 
     // Build chain filter condition
-    const chainFilter = chainId ? `AND t.chain_id = ${chainId}` : ''
+    const chainFilter = chainId !== null ? sql`AND t.chain_id = ${chainId}` : empty
 
-    const { rows: tokens } = await pool.query(`
+    const { rows: tokens } = await pool.query(sql`
       SELECT 
         t.id,
         t.symbol,
@@ -31,15 +33,18 @@ export async function GET(
         t.on_dex,
         epc.price_usd AS eth_price_usd
       FROM public.tokens t
-      CROSS JOIN public.eth_price_cache epc
-      WHERE LOWER(t.creator_wallet) = LOWER($1)
+      LEFT JOIN public.eth_price_latest epc ON true
+      WHERE LOWER(t.creator_wallet) = LOWER(${wallet})
         AND t.contract_address IS NOT NULL
         ${chainFilter}
       ORDER BY t.created_at DESC
-    `, [wallet])
+    `)
 
     return NextResponse.json(tokens)
   } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('[API] Failed to fetch created tokens:', error)
     return NextResponse.json({ error: 'Failed to fetch created tokens' }, { status: 500 })
   }
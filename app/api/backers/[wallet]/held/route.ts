@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import { parseChainIdParam, RequestParamError } from '@/lib/requestParams'
+import { empty, sql } from '@/lib/sql'
 
 export async function GET(
   req: NextRequest,
@@ -7,16 +9,16 @@ export async function GET(
 ) {
   try {
     const { wallet } = await params
-    const chainId = req.nextUrl.searchParams.get('chainId')
+    const chainId = parseChainIdParam(req.nextUrl.searchParams.get('chainId'))
 
     if (!wallet) {
       return NextResponse.json({ error: 'Wallet address is required' }, { status: 400 })
     }
 
     // Build chain filter condition
-    const chainFilter = chainId ? `AND t.chain_id = ${chainId}` : ''
+    const chainFilter = chainId !== null ? sql`AND t.chain_id = ${chainId}` : empty
 
-    const { rows: holdings } = await pool.query(`
+    const { rows: holdings } = await pool.query(sql`
       SELECT
         b.token_id,
         t.symbol,
@@ -27,11 +29,11 @@ export async function GET(
         ((b.balance_wei::numeric / 1e18) * t.current_price) AS value_eth
       FROM public.token_balances b
       JOIN public.tokens t ON t.id = b.token_id
-      WHERE LOWER(b.holder) = LOWER($1) 
+      WHERE LOWER(b.holder) = LOWER(${wallet}) 
         AND b.balance_wei::numeric > 0
         ${chainFilter}
       ORDER BY value_eth DESC
-    `, [wallet])
+    `)
 
     // Add logoUrl to each holding
     const holdingsWithLogos = holdings.map(h => ({
@@ -47,6 +49,9 @@ export async function GET(
 
     return NextResponse.json(holdingsWithLogos)
   } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('[API] Failed to fetch held tokens:', error)
     return NextResponse.json({ error: 'Failed to fetch held tokens' }, { status: 500 })
   }
@@ -2,27 +2,31 @@
 import { NextRequest, NextResponse } from 'next/server'
 import pool from '@/lib/db'
 import { DEX_ROUTER_BY_CHAIN } from '@/lib/dex'
+import { parseChainIdParam, RequestParamError } from '@/lib/requestParams'
+import { empty, sql } from '@/lib/sql'
 
 export async function GET(req: NextRequest) {
-  const chainId = req.nextUrl.searchParams.get('chainId')
   try {
+    const chainId = parseChainIdParam(req.nextUrl.searchParams.get('chainId'))
+
     // Get router addresses to exclude dynamically from dex.ts
-    const routerAddresses = Object.values(DEX_ROUTER_BY_CHAIN).map(addr => `'${addr.toLowerCase()}'`).join(',')
+    const routerAddresses = Object.values(DEX_ROUTER_BY_CHAIN).map(addr => addr.toLowerCase())
     console.log('[API] Router addresses to exclude:', routerAddresses)
     
     // Build the exclusion part of the query
-    const exclusionPart = `
+    const exclusionPart = sql`
       SELECT LOWER(contract_address) FROM public.tokens
       UNION ALL
       SELECT LOWER(pair_address) FROM public.dex_pools
-      ${routerAddresses ? routerAddresses.split(',').map(addr => `UNION ALL SELECT ${addr}`).join(' ') : ''}
+      UNION ALL
+      SELECT unnest(${routerAddresses}::text[])
     `
     
     // Build chain filter condition
-    const chainFilter = chainId ? `AND t.chain_id = ${chainId}` : ''
-    const chainFilterCreated = chainId ? `AND chain_id = ${chainId}` : ''
+    const chainFilter = chainId !== null ? sql`AND t.chain_id = ${chainId}` : empty
+    const chainFilterCreated = chainId !== null ? sql`AND chain_id = ${chainId}` : empty
     
-    const { rows: backers } = await pool.query(`
+    const { rows: backers } = await pool.query(sql`
       WITH portfolio AS (
         SELECT
           b.holder AS wallet,
@@ -56,7 +60,7 @@ export async function GET(req: NextRequest) {
         epc.price_usd AS eth_price_usd
       FROM portfolio p
       FULL OUTER JOIN created c ON c.wallet = p.wallet
-      CROSS JOIN public.eth_price_cache epc
+      LEFT JOIN public.eth_price_latest epc ON true
       WHERE COALESCE(p.tokens_held, 0) > 0 OR COALESCE(c.tokens_created, 0) > 0
     `)
 
@@ -78,7 +82,7 @@ export async function GET(req: NextRequest) {
 
       // Get top holdings
       const { rows: holdings } = await pool.query(
-        `
+        sql`
         SELECT
           b.holder,
           b.token_id,
@@ -89,12 +93,11 @@ export async function GET(req: NextRequest) {
           ((b.balance_wei::numeric / 1e18) * t.current_price) AS value_eth
         FROM public.token_balances b
         JOIN public.tokens t ON t.id = b.token_id
-        WHERE b.holder = $1 AND b.balance_wei::numeric > 0
-        ${chainId ? `AND t.chain_id = ${chainId}` : ''}
+        WHERE b.holder = ${b.wallet} AND b.balance_wei::numeric > 0
+        ${chainFilter}
         ORDER BY value_eth DESC
         LIMIT 3;
-        `,
-        [b.wallet]
+        `
       )
 
       const total = Number(b.portfolio_eth) || 0
@@ -113,6 +116,9 @@ export async function GET(req: NextRequest) {
     console.log('[API] Returning backers data')
     return NextResponse.json(backers)
   } catch (e) {
+    if (e instanceof RequestParamError) {
+      return NextResponse.json({ error: e.message }, { status: 400 })
+    }
     console.error('[API] Backers query failed:', e)
     return NextResponse.json({ error: 'Failed to load backers' }, { status: 500 })
   }
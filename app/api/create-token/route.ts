@@ -1,25 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import { requireWallet } from '@/lib/auth'
+import { verifyTokenDeployment } from '@/lib/verifyDeployment'
 
 interface CreateTokenRequest {
-  name: string
-  symbol: string
   description?: string
   image?: string
   twitter?: string
   telegram?: string
   website?: string
-  supply: number
-  raiseTarget: string
   dex: string
   curveType: string
   creatorAddress: string
-  contractAddress: string
   chainId: number
-  // NEW:
-  minTokenAgeForUnlockSeconds?: number
+  deploymentTxHash: string
   logoAssetId?: string
-  deploymentBlock?: number
+
+  // Optional client-side view of on-chain facts; rejected if they disagree with the chain
+  name?: string
+  symbol?: string
+  supply?: number
+  raiseTarget?: string | number
+  contractAddress?: string
 }
 
 export async function POST(req: NextRequest) {
@@ -27,44 +29,62 @@ export async function POST(req: NextRequest) {
     const body = (await req.json()) as CreateTokenRequest
 
     const {
-      name,
-      symbol,
       description,
       image,
       twitter,
       telegram,
       website,
-      supply,
-      raiseTarget,
       dex,
       curveType,
       creatorAddress,
-      contractAddress,
       chainId,
-      minTokenAgeForUnlockSeconds,
+      deploymentTxHash,
       logoAssetId,
-      deploymentBlock,
     } = body
 
     // Basic validation
     if (
-      !name ||
-      !symbol ||
-      !raiseTarget ||
       !dex ||
       !curveType ||
       !creatorAddress ||
-      !contractAddress ||
-      typeof chainId !== 'number'
+      typeof chainId !== 'number' ||
+      typeof deploymentTxHash !== 'string' ||
+      !/^0x[a-fA-F0-9]{64}$/.test(deploymentTxHash)
     ) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
-    // NEW: default to 2 days if not provided by client
-    const minAgeSecs =
-      typeof minTokenAgeForUnlockSeconds === 'number' && minTokenAgeForUnlockSeconds > 0
-        ? Math.floor(minTokenAgeForUnlockSeconds)
-        : 172800 // 2 * 24 * 60 * 60
+    const auth = requireWallet(req, creatorAddress)
+    if ('response' in auth) return auth.response
+
+    // Everything below comes from the chain, not from the request body
+    const verified = await verifyTokenDeployment(chainId, deploymentTxHash)
+    if ('error' in verified) {
+      return NextResponse.json({ error: verified.error }, { status: 400 })
+    }
+    const deployment = verified.deployment
+
+    if (deployment.creator !== auth.session.wallet) {
+      return NextResponse.json({ error: 'Token creator does not match signed-in wallet' }, { status: 403 })
+    }
+
+    const mismatch =
+      (body.contractAddress && body.contractAddress.toLowerCase() !== deployment.contractAddress.toLowerCase()) ||
+      (body.name && body.name !== deployment.name) ||
+      (body.symbol && body.symbol !== deployment.symbol) ||
+      (body.supply !== undefined && Number(body.supply) !== deployment.supply) ||
+      (body.raiseTarget !== undefined && Number(body.raiseTarget) !== deployment.raiseTarget)
+    if (mismatch) {
+      return NextResponse.json({ error: 'Submitted token details do not match the deployed contract' }, { status: 400 })
+    }
+
+    const { rows: existing } = await pool.query(
+      'SELECT id FROM tokens WHERE chain_id = $1 AND LOWER(contract_address) = LOWER($2)',
+      [chainId, deployment.contractAddress]
+    )
+    if (existing.length > 0) {
+      return NextResponse.json({ error: 'Token already registered', tokenId: existing[0].id }, { status: 409 })
+    }
 
     const result = await pool.query(
       `
@@ -72,35 +92,40 @@ export async function POST(req: NextRequest) {
         name, symbol, description, image, twitter, telegram, website,
         supply, raise_target, dex, curve_type,
         creator_wallet, contract_address, chain_id,
-        min_token_age_for_unlock_seconds, token_logo_asset_id, deployment_block, last_processed_block
+        min_token_age_for_unlock_seconds, token_logo_asset_id, deployment_block, last_processed_block,
+        creator_unlock_time, base_price, slope
       )
       VALUES (
         $1, $2, $3, $4, $5, $6, $7,
         $8, $9, $10, $11,
         $12, $13, $14,
-        $15, $16, $17, $18
+        $15, $16, $17, $18,
+        $19, $20, $21
       )
       RETURNING id
       `,
       [
-        name,
-        symbol,
+        deployment.name,
+        deployment.symbol,
         description ?? null,
         image ?? null,
         twitter ?? null,
         telegram ?? null,
         website ?? null,
-        supply,
-        raiseTarget,
+        deployment.supply,
+        deployment.raiseTarget,
         dex,
         curveType,
-        creatorAddress.toLowerCase(),
-        contractAddress,
+        deployment.creator,
+        deployment.contractAddress,
         chainId,
-        minAgeSecs,
+        deployment.minTokenAgeForUnlockSeconds,
         logoAssetId ?? null,
-        deploymentBlock ?? null,
-        deploymentBlock ?? null, // last_processed_block = deployment_block
+        deployment.deploymentBlock,
+        deployment.deploymentBlock - 1, // worker resumes at last_processed_block + 1, so the deployment block itself is indexed
+        deployment.creatorUnlockTime,
+        deployment.basePrice,
+        deployment.slope,
       ]
     )
 
@@ -110,13 +135,3 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Server error' }, { status: 500 })
   }
 }
-
-
-
-
-
-
-
-
-
-
@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
+import { parseChainIdParam, parseIdParam, RequestParamError } from '@/lib/requestParams'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const tokenId = searchParams.get('tokenId')
-    const chainId = searchParams.get('chainId')
+    const tokenId = parseIdParam('tokenId', searchParams.get('tokenId'))
+    const chainId = parseChainIdParam(searchParams.get('chainId'))
 
-    if (!tokenId || !chainId) {
+    if (chainId === null) {
       return NextResponse.json({ error: 'Missing tokenId or chainId' }, { status: 400 })
     }
 
@@ -15,7 +16,7 @@ export async function GET(request: NextRequest) {
       SELECT pair_address, token0, token1 
       FROM public.dex_pools 
       WHERE token_id = $1 AND chain_id = $2
-    `, [parseInt(tokenId), parseInt(chainId)])
+    `, [tokenId, chainId])
 
     if (rows.length === 0) {
       return NextResponse.json({ error: 'DEX pool not found' }, { status: 404 })
@@ -27,6 +28,9 @@ export async function GET(request: NextRequest) {
       token1: rows[0].token1
     })
   } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error fetching DEX pool info:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
@@ -1,38 +1,47 @@
 import { NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import { resolveTokenRef, readDexPriceState } from '@/lib/tokenStateReader'
 
+// Refreshes DEX price, FDV and market cap from the pair reserves; the request only identifies the token.
+// No session, like update-token: any trader may trigger it and the values are read from the pair.
 export async function POST(req: Request) {
   try {
     const body = await req.json()
-    const { contractAddress, dexPrice, fdv, marketCap } = body
+    const { tokenId, chainId, txHash } = body
 
     console.log('[DEX_UPDATE_PRICE] Received body:', body)
 
-    if (!contractAddress || !dexPrice) {
+    if (!tokenId && !(txHash && chainId)) {
       console.warn('[DEX_UPDATE_PRICE] Missing required fields')
-      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
+      return NextResponse.json({ error: 'Missing tokenId or txHash and chainId' }, { status: 400 })
     }
 
-    const result = await pool.query(
+    const token = await resolveTokenRef({ tokenId, chainId, txHash })
+    if (!token) {
+      console.warn('[DEX_UPDATE_PRICE] Token not found in DB:', body)
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+    }
+
+    const state = await readDexPriceState(token.contract_address, token.chain_id)
+    if (!state) {
+      console.warn('[DEX_UPDATE_PRICE] No DEX pair for token:', token.id)
+      return NextResponse.json({ error: 'Token has no DEX pair' }, { status: 409 })
+    }
+
+    await pool.query(
       `UPDATE tokens
        SET current_price = $1,
            fdv = $2,
            market_cap = $3,
            last_synced_at = NOW()
-       WHERE contract_address = $4`,
-      [dexPrice, fdv, marketCap, contractAddress]
+       WHERE id = $4`,
+      [state.price, state.fdv, state.marketCap, token.id]
     )
 
-    if (result.rowCount === 0) {
-      console.warn('[DEX_UPDATE_PRICE] Token not found in DB:', contractAddress)
-      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
-    }
-
-    console.log('[DEX_UPDATE_PRICE] Update successful for:', contractAddress)
-    return NextResponse.json({ success: true })
+    console.log('[DEX_UPDATE_PRICE] Update successful for token:', token.id)
+    return NextResponse.json({ success: true, price: state.price, fdv: state.fdv, marketCap: state.marketCap })
   } catch (err) {
     console.error('[DEX_UPDATE_PRICE] Internal error:', err)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
-
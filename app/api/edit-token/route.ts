@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import { requireTokenCreator } from '@/lib/auth'
 
 export async function POST(req: NextRequest) {
   try {
@@ -19,6 +20,9 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ message: 'Missing tokenId' }, { status: 400 })
     }
 
+    const auth = await requireTokenCreator(req, { tokenId })
+    if ('response' in auth) return auth.response
+
     await pool.query(
       `
       UPDATE tokens
@@ -1,12 +1,13 @@
 // /app/api/eth-price/route.ts
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import pool from '@/lib/db'
 
+// Read-only: eth_price_history is written by the worker's price source only (it prices transfers via eth_price_at)
 export async function GET() {
   try {
     //console.log('[API] GET /api/eth-price');
     const result = await pool.query(
-      `SELECT price_usd::float8 AS price_usd FROM eth_price_cache WHERE id=1`
+      `SELECT price_usd::float8 AS price_usd FROM eth_price_latest`
     );
     const latest = result.rows[0]?.price_usd || null;
     //console.log('[API] Returning ETH price from DB:', latest);
@@ -16,31 +17,3 @@ export async function GET() {
     return NextResponse.json({ price: null }, { status: 500 });
   }
 }
-
-export async function POST(req: NextRequest) {
-  try {
-    //console.log('[API] POST /api/eth-price');
-    const { price } = await req.json();
-   // console.log('[API] Received price to save:', price);
-
-    if (typeof price !== 'number' || isNaN(price)) {
-      //console.warn('[API] Invalid price payload');
-      return NextResponse.json({ error: 'Invalid price' }, { status: 400 });
-    }
-
-    await pool.query(
-      `INSERT INTO eth_price_cache (id, price_usd, fetched_at)
-       VALUES (1, $1, NOW())
-       ON CONFLICT (id) DO UPDATE
-       SET price_usd = EXCLUDED.price_usd,
-           fetched_at = NOW()`,
-      [price]
-    );
-
-    //console.log('[API] ETH price saved successfully');
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('[API] Error saving ETH price:', error);
-    return NextResponse.json({ error: 'Failed to save price' }, { status: 500 });
-  }
-}
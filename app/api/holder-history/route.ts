@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadHolderSnapshots } from '@/lib/holderSnapshots'
+import { parseIdParam, RequestParamError } from '@/lib/requestParams'
+
+const DEFAULT_DAYS = 90
+const MAX_DAYS = 365
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const tokenId = parseIdParam('tokenId', searchParams.get('tokenId'))
+    const days = Number(searchParams.get('days') || DEFAULT_DAYS)
+
+    if (!Number.isInteger(days) || days <= 0 || days > MAX_DAYS) {
+      return NextResponse.json({ success: false, error: `days must be between 1 and ${MAX_DAYS}` }, { status: 400 })
+    }
+
+    const snapshots = await loadHolderSnapshots(tokenId, days)
+
+    return NextResponse.json({ success: true, snapshots })
+  } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    console.error('Error fetching holder history:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch holder history' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Pool } from 'pg'
+import { parseIdParam, parsePageParam, parsePageSizeParam, RequestParamError } from '@/lib/requestParams'
 
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -8,15 +9,11 @@ const pool = new Pool({
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const tokenId = searchParams.get('tokenId')
-    const page = parseInt(searchParams.get('page') || '1')
-    const pageSize = parseInt(searchParams.get('pageSize') || '20')
+    const tokenId = parseIdParam('tokenId', searchParams.get('tokenId'))
+    const page = parsePageParam(searchParams.get('page'))
+    const pageSize = parsePageSizeParam(searchParams.get('pageSize'))
     const offset = (page - 1) * pageSize
 
-    if (!tokenId) {
-      return NextResponse.json({ success: false, error: 'Token ID is required' }, { status: 400 })
-    }
-
     // First, get total count and total supply
     const countQuery = `
       SELECT 
@@ -27,7 +24,7 @@ export async function GET(request: NextRequest) {
       LEFT JOIN tokens t ON b.token_id = t.id AND LOWER(b.holder) = LOWER(t.contract_address)
       LEFT JOIN tokens t2 ON b.token_id = t2.id
       LEFT JOIN profiles p ON b.holder = p.wallet
-      CROSS JOIN eth_price_cache e
+      LEFT JOIN eth_price_latest e ON true
       WHERE d.pair_address IS NULL 
         AND t.contract_address IS NULL 
         AND t2.id = $1
@@ -47,7 +44,7 @@ export async function GET(request: NextRequest) {
       LEFT JOIN tokens t ON b.token_id = t.id AND LOWER(b.holder) = LOWER(t.contract_address)
       LEFT JOIN tokens t2 ON b.token_id = t2.id
       LEFT JOIN profiles p ON b.holder = p.wallet
-      CROSS JOIN eth_price_cache e
+      LEFT JOIN eth_price_latest e ON true
       WHERE d.pair_address IS NULL 
         AND t.contract_address IS NULL 
         AND t2.id = $1
@@ -74,6 +71,9 @@ export async function GET(request: NextRequest) {
       pageSize,
     })
   } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
     console.error('Error fetching holders:', error)
     return NextResponse.json(
       { success: false, error: 'Failed to fetch holders' },
@@ -1,68 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
+import { parseChainIdParam, parseEnumParam, parsePageSizeParam, RequestParamError } from '@/lib/requestParams'
+import { orderBy, sql, where } from '@/lib/sql'
+import { LEADERBOARD_SORTS } from '@/lib/publicApi/dto'
+import { LEADERBOARD_ORDER } from '@/lib/publicApi/queries'
 
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url)
-    const sort = searchParams.get('sort') || 'gainers_24h'
-    const limit = parseInt(searchParams.get('limit') || '12')
+    const sort = parseEnumParam('sort', searchParams.get('sort'), LEADERBOARD_SORTS) ?? 'gainers_24h'
+    const limit = parsePageSizeParam(searchParams.get('limit'), 12)
     const excludeGraduated = searchParams.get('excludeGraduated') === 'true'
-    const chainId = searchParams.get('chainId')
+    const chainId = parseChainIdParam(searchParams.get('chainId'))
 
-    // Build the ORDER BY clause based on sort parameter
-    let orderBy = ''
-    switch (sort) {
-      case 'gainers_24h':
-        orderBy = 'ORDER BY tlf.price_change_24h_pct DESC NULLS LAST'
-        break
-      case 'volume_24h':
-        orderBy = 'ORDER BY tlf.volume_24h_usd DESC NULLS LAST'
-        break
-      case 'liquidity':
-        orderBy = 'ORDER BY tlf.liquidity_effective_usd DESC NULLS LAST'
-        break
-      case 'top_raise':
-        orderBy = 'ORDER BY t.eth_raised DESC NULLS LAST'
-        break
-      case 'raise_progress':
-        orderBy = 'ORDER BY tlf.raise_progress_pct DESC NULLS LAST'
-        break
-      case 'market_cap':
-        orderBy = 'ORDER BY t.market_cap DESC NULLS LAST'
-        break
-      case 'trades_24h':
-        orderBy = 'ORDER BY tlf.trades_24h DESC NULLS LAST'
-        break
-      case 'newcomers':
-        orderBy = 'ORDER BY t.created_at DESC NULLS LAST'
-        break
-      default:
-        orderBy = 'ORDER BY tlf.price_change_24h_pct DESC NULLS LAST'
-    }
-
-    // Build WHERE clause for graduated tokens and criteria-specific filtering
-    const whereConditions = []
-    
-    if (excludeGraduated) {
-      whereConditions.push('t.is_graduated = FALSE')
-    }
-    
-    // Add chain filtering
-    if (chainId) {
-      whereConditions.push(`t.chain_id = ${chainId}`)
-    }
-    
-    // Add criteria-specific filtering
-    switch (sort) {
-      case 'gainers_24h':
-        whereConditions.push('tlf.price_change_24h_pct IS NOT NULL AND tlf.price_change_24h_pct != 0')
-        break
-      // Other criteria don't need filtering - show all tokens
-    }
-    
-    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : ''
-
-    const query = `
+    const query = sql`
       SELECT 
         t.*,
         tlf.eth_usd, tlf.volume_24h_usd, tlf.liquidity_effective_usd, 
@@ -73,13 +24,18 @@ export async function GET(req: NextRequest) {
         END as market_cap_usd
       FROM public.tokens_leaderboard_fast tlf
       JOIN public.tokens t ON t.id = tlf.id
-      CROSS JOIN public.eth_price_cache epc
-      ${whereClause}
-      ${orderBy}
-      LIMIT $1
+      LEFT JOIN public.eth_price_latest epc ON true
+      ${where([
+        excludeGraduated && sql`t.is_graduated = FALSE`,
+        chainId !== null && sql`t.chain_id = ${chainId}`,
+        // Only gainers need filtering; other criteria show all tokens
+        sort === 'gainers_24h' && sql`tlf.price_change_24h_pct IS NOT NULL AND tlf.price_change_24h_pct != 0`,
+      ])}
+      ${orderBy(LEADERBOARD_ORDER, sort)}
+      LIMIT ${limit}
     `
 
-    const { rows } = await db.query(query, [limit])
+    const { rows } = await db.query(query)
 
     // Debug logging
     if (rows.length > 0) {
@@ -98,6 +54,9 @@ export async function GET(req: NextRequest) {
       excludeGraduated
     })
   } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Leaderboard API error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
@@ -1,7 +1,8 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import { requireTokenCreator } from '@/lib/auth'
 
-export async function POST(req: Request) {
+export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
     const { contractAddress, dexUrl } = body
@@ -10,6 +11,9 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
+    const auth = await requireTokenCreator(req, { contractAddress })
+    if ('response' in auth) return auth.response
+
     const result = await pool.query(
       `UPDATE tokens
        SET on_dex = true,
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
+import { parseChainIdParam, RequestParamError } from '@/lib/requestParams'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const chainId = searchParams.get('chainId')
+    const chainId = parseChainIdParam(searchParams.get('chainId'))
 
-    if (!chainId) {
+    if (chainId === null) {
       return NextResponse.json({ error: 'Chain ID is required' }, { status: 400 })
     }
 
@@ -93,6 +94,9 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error fetching newest transactions:', error)
     return NextResponse.json({ 
       error: 'Failed to fetch transactions' 
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadWalletPnl } from '@/lib/walletPnl'
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ wallet: string }> }
+) {
+  try {
+    const { wallet } = await params
+    const chainIdParam = req.nextUrl.searchParams.get('chainId')
+
+    if (!wallet || !/^0x[0-9a-fA-F]{40}$/.test(wallet)) {
+      return NextResponse.json({ error: 'A valid wallet address is required' }, { status: 400 })
+    }
+
+    const chainId = chainIdParam ? Number(chainIdParam) : null
+    if (chainId !== null && !Number.isInteger(chainId)) {
+      return NextResponse.json({ error: 'Invalid chainId' }, { status: 400 })
+    }
+
+    return NextResponse.json(await loadWalletPnl(wallet, chainId))
+  } catch (error) {
+    console.error('[API] Failed to fetch wallet PnL:', error)
+    return NextResponse.json({ error: 'Failed to fetch wallet PnL' }, { status: 500 })
+  }
+}
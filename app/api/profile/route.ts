@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
+import { requireWallet } from '@/lib/auth'
+import { sql } from '@/lib/sql'
+import { parseTextParam, RequestParamError } from '@/lib/requestParams'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const wallet = searchParams.get('wallet')
-    const wallets = searchParams.get('wallets') // For batch requests
+    const wallet = parseTextParam('wallet', searchParams.get('wallet'))
+    const wallets = parseTextParam('wallets', searchParams.get('wallets'), 10000) // For batch requests
     
     // Handle batch request
     if (wallets) {
@@ -15,12 +18,8 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ success: false, error: 'At least one wallet address is required' }, { status: 400 })
       }
 
-      // Create placeholders for the IN clause
-      const placeholders = walletList.map((_, index) => `$${index + 1}`).join(',')
-      
       const result = await db.query(
-        `SELECT wallet, display_name, bio, avatar_asset_id FROM profiles WHERE LOWER(wallet) IN (${placeholders})`,
-        walletList.map(w => w.toLowerCase())
+        sql`SELECT wallet, display_name, bio, avatar_asset_id FROM profiles WHERE LOWER(wallet) = ANY(${walletList.map(w => w.toLowerCase())}::text[])`
       )
 
       // Create a map of profiles by wallet
@@ -106,6 +105,9 @@ export async function GET(request: NextRequest) {
     
     return NextResponse.json({ success: true, profile })
   } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
     console.error('🔍 Failed to fetch profile:', error)
     return NextResponse.json({ success: false, error: 'Failed to fetch profile' }, { status: 500 })
   }
@@ -120,6 +122,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'Wallet address is required' }, { status: 400 })
     }
 
+    const auth = requireWallet(request, wallet)
+    if ('response' in auth) return auth.response
+
     // Normalize wallet address to lowercase
     const normalizedWallet = wallet.toLowerCase()
     
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { quoteTrade } from '@/lib/tradeQuote'
+
+const DEFAULT_SLIPPAGE_BPS = 100
+const MAX_SLIPPAGE_BPS = 5000
+
+// Positive integer wei amount, or null when missing/invalid
+function parseWei(value: string | null): bigint | null {
+  if (!value || !/^\d{1,78}$/.test(value)) return null
+  const amount = BigInt(value)
+  return amount > 0n ? amount : null
+}
+
+/**
+ * GET /api/quote?tokenId=1&side=buy|sell&amountIn=<wei> (or amountOut=<wei>)&slippageBps=100
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const tokenId = parseInt(searchParams.get('tokenId') || '')
+    const side = searchParams.get('side')
+    const amountInParam = searchParams.get('amountIn')
+    const amountOutParam = searchParams.get('amountOut')
+    const slippageBps = parseInt(searchParams.get('slippageBps') || String(DEFAULT_SLIPPAGE_BPS))
+
+    if (!Number.isInteger(tokenId) || tokenId <= 0) {
+      return NextResponse.json({ error: 'Token ID is required' }, { status: 400 })
+    }
+    if (side !== 'buy' && side !== 'sell') {
+      return NextResponse.json({ error: 'side must be buy or sell' }, { status: 400 })
+    }
+    if ((amountInParam === null) === (amountOutParam === null)) {
+      return NextResponse.json({ error: 'Provide exactly one of amountIn or amountOut' }, { status: 400 })
+    }
+    const amountIn = amountInParam === null ? undefined : parseWei(amountInParam)
+    const amountOut = amountOutParam === null ? undefined : parseWei(amountOutParam)
+    if (amountIn === null || amountOut === null) {
+      return NextResponse.json({ error: 'Amounts must be positive integers in wei' }, { status: 400 })
+    }
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > MAX_SLIPPAGE_BPS) {
+      return NextResponse.json({ error: `slippageBps must be between 0 and ${MAX_SLIPPAGE_BPS}` }, { status: 400 })
+    }
+
+    const result = await quoteTrade({ tokenId, side, amountIn, amountOut, slippageBps })
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json(result.quote)
+  } catch (error) {
+    console.error('[API] Failed to quote trade:', error)
+    return NextResponse.json({ error: 'Failed to quote trade' }, { status: 500 })
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { subscribeToStream } from '@/lib/streamHub'
+import type { StreamEvent } from '@/lib/streamEvents'
+import { parseChainIdParam, parseIdParam, RequestParamError } from '@/lib/requestParams'
+
+// Comment lines keep proxies from closing idle connections
+const KEEP_ALIVE_MS = 25000
+
+// Server-Sent Events: trades and token updates for a chain (?chainId=) or a single token (?tokenId=)
+export async function GET(req: NextRequest) {
+  let chainId: number | null, tokenId: number | null
+  try {
+    const tokenIdParam = req.nextUrl.searchParams.get('tokenId')
+    chainId = parseChainIdParam(req.nextUrl.searchParams.get('chainId'))
+    tokenId = tokenIdParam === null || tokenIdParam === '' ? null : parseIdParam('tokenId', tokenIdParam)
+  } catch (err) {
+    if (err instanceof RequestParamError) return NextResponse.json({ error: err.message }, { status: 400 })
+    throw err
+  }
+
+  if (chainId === null && tokenId === null) {
+    return NextResponse.json({ error: 'chainId or tokenId is required' }, { status: 400 })
+  }
+
+  const encoder = new TextEncoder()
+  let controller!: ReadableStreamDefaultController<Uint8Array>
+  let unsubscribe: (() => void) | null = null
+  let keepAlive: ReturnType<typeof setInterval> | null = null
+  let closed = false
+
+  const close = () => {
+    if (closed) return
+    closed = true
+    unsubscribe?.()
+    if (keepAlive) clearInterval(keepAlive)
+    try {
+      controller.close()
+    } catch {
+      // already closed by the client
+    }
+  }
+
+  const write = (chunk: string) => {
+    if (closed) return
+    try {
+      controller.enqueue(encoder.encode(chunk))
+    } catch {
+      close()
+    }
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c
+    },
+    cancel() {
+      close()
+    },
+  })
+
+  try {
+    unsubscribe = await subscribeToStream({ chainId, tokenId }, (event: StreamEvent) => {
+      write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    })
+  } catch (error) {
+    console.error('[API] Live stream unavailable:', error)
+    return NextResponse.json({ error: 'Live stream unavailable' }, { status: 503 })
+  }
+
+  write('retry: 5000\n\n')
+  keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS)
+  req.signal.addEventListener('abort', close)
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -1,16 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import { parseIdParam, RequestParamError } from '@/lib/requestParams'
 
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id: tokenId } = await params
-
-    if (!tokenId || isNaN(Number(tokenId))) {
-      return NextResponse.json({ error: 'Invalid token ID' }, { status: 400 })
-    }
+    const tokenId = parseIdParam('id', (await params).id)
 
     const result = await pool.query(
       'SELECT * FROM public.tokens WHERE id = $1',
@@ -23,6 +20,9 @@ export async function GET(
 
     return NextResponse.json(result.rows[0])
   } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('[API] Failed to fetch token:', error)
     return NextResponse.json({ error: 'Failed to fetch token' }, { status: 500 })
   }
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import { parseAddressParam, RequestParamError } from '@/lib/requestParams'
 
 export async function GET(req: NextRequest) {
-  const creator = req.nextUrl.searchParams.get('creator')
+  let creator: string | null
+  try {
+    creator = parseAddressParam('creator', req.nextUrl.searchParams.get('creator'))
+  } catch (err) {
+    if (err instanceof RequestParamError) return NextResponse.json({ error: err.message }, { status: 400 })
+    throw err
+  }
 
   if (!creator) {
     return NextResponse.json({ tokens: [] })
@@ -10,7 +17,7 @@ export async function GET(req: NextRequest) {
 
   const result = await pool.query(
     'SELECT * FROM tokens WHERE creator_wallet = $1 AND contract_address IS NOT NULL ORDER BY id DESC',
-    [creator.toLowerCase()]
+    [creator]
   )
 
   return NextResponse.json({ tokens: result.rows })
@@ -1,65 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import { parseEnumParam, parseIdParam, parsePageParam, parsePageSizeParam, parseTextParam, RequestParamError } from '@/lib/requestParams'
+import { sql, where } from '@/lib/sql'
+import { TRADE_SIDES } from '@/lib/publicApi/dto'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const tokenId = searchParams.get('tokenId')
-    const page = parseInt(searchParams.get('page') || '1')
-    const pageSize = parseInt(searchParams.get('pageSize') || '20')
-    const side = searchParams.get('side')
-    const maker = searchParams.get('maker')
-    const creatorWallet = searchParams.get('creatorWallet')
-
-    if (!tokenId) {
-      return NextResponse.json({ error: 'Token ID is required' }, { status: 400 })
-    }
+    const tokenId = parseIdParam('tokenId', searchParams.get('tokenId'))
+    const page = parsePageParam(searchParams.get('page'))
+    const pageSize = parsePageSizeParam(searchParams.get('pageSize'))
+    const side = parseEnumParam('side', searchParams.get('side'), TRADE_SIDES)
+    const maker = parseTextParam('maker', searchParams.get('maker'))
+    const creatorWallet = parseTextParam('creatorWallet', searchParams.get('creatorWallet'))
 
     const offset = (page - 1) * pageSize
 
     // Build WHERE clause
-    let whereClause = 'token_id = $1 AND side != \'MINT\''
-    const params: (string | number)[] = [tokenId]
-    let paramIndex = 2
-
-    if (side) {
-      whereClause += ` AND side = $${paramIndex}`
-      params.push(side)
-      paramIndex++
-    }
-
-    if (maker) {
-      whereClause += ` AND (
-        from_address ILIKE $${paramIndex} OR 
-        to_address ILIKE $${paramIndex} OR
-        $${paramIndex + 1} ILIKE $${paramIndex}
-      )`
-      params.push(`%${maker}%`, creatorWallet || '')
-      paramIndex += 2
-    }
+    const makerPattern = `%${maker}%`
+    const whereClause = where([
+      sql`token_id = ${tokenId}`,
+      sql`side != 'MINT'`,
+      side !== null && sql`side = ${side}`,
+      !!maker && sql`(
+        from_address ILIKE ${makerPattern} OR 
+        to_address ILIKE ${makerPattern} OR
+        ${creatorWallet || ''} ILIKE ${makerPattern}
+      )`,
+    ])
 
     // Get total count
-    const countQuery = `
+    const countQuery = sql`
       SELECT COUNT(*) as total
       FROM token_transfers
-      WHERE ${whereClause}
+      ${whereClause}
     `
     
-    const { rows: countRows } = await pool.query(countQuery, params)
+    const { rows: countRows } = await pool.query(countQuery)
     const totalCount = parseInt(countRows[0].total)
     
     console.log('🔍 Transaction API Debug:', {
       tokenId,
       side,
       maker,
-      whereClause,
-      params,
+      whereClause: whereClause.text,
+      params: whereClause.values,
       totalCount,
       hasSideFilter: !!side
     })
 
     // Get transactions with pagination
-    const transactionsQuery = `
+    const transactionsQuery = sql`
       SELECT 
         block_time,
         block_number,
@@ -74,13 +65,12 @@ export async function GET(request: NextRequest) {
         src,
         eth_price_usd
       FROM token_transfers
-      WHERE ${whereClause}
+      ${whereClause}
       ORDER BY block_number DESC, log_index DESC
-      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+      LIMIT ${pageSize} OFFSET ${offset}
     `
 
-    params.push(pageSize, offset)
-    const { rows: transactions } = await pool.query(transactionsQuery, params)
+    const { rows: transactions } = await pool.query(transactionsQuery)
     
     // Debug: log transaction types found
     const transactionTypes = transactions.map(tx => tx.side)
@@ -110,6 +100,9 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error fetching transactions:', error)
     return NextResponse.json(
       { error: 'Failed to fetch transactions' },
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { chainConfigs } from '@/lib/chains'
+import { UDF_SUPPORTED_RESOLUTIONS } from '@/lib/udf'
+
+// UDF datafeed configuration; each chain is exposed as an exchange
+export async function GET() {
+  return NextResponse.json({
+    supported_resolutions: UDF_SUPPORTED_RESOLUTIONS,
+    supports_group_request: false,
+    supports_marks: false,
+    supports_search: true,
+    supports_timescale_marks: false,
+    supports_time: true,
+    exchanges: [
+      { value: '', name: 'All chains', desc: '' },
+      ...chainConfigs.map(chain => ({ value: chain.name, name: chain.name, desc: chain.name })),
+    ],
+    symbols_types: [{ name: 'Token', value: 'crypto' }],
+  })
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadCandleSeries } from '@/lib/candleSeries'
+import { chartIntervalFromUdfResolution } from '@/lib/chartIntervals'
+import { parseUdfSymbol, resolveUdfSymbol, UDF_SUPPORTED_RESOLUTIONS } from '@/lib/udf'
+
+// Upper bound on bars per request; clients page back with smaller windows
+const MAX_BARS = 5000
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl
+    const interval = chartIntervalFromUdfResolution(searchParams.get('resolution') || '')
+    if (!interval) {
+      return NextResponse.json({ s: 'error', errmsg: `Invalid resolution. Supported: ${UDF_SUPPORTED_RESOLUTIONS.join(', ')}` }, { status: 400 })
+    }
+
+    const from = Number(searchParams.get('from'))
+    const to = Number(searchParams.get('to'))
+    const countback = searchParams.get('countback') ? Number(searchParams.get('countback')) : null
+    if (!Number.isFinite(to) || (countback === null && !Number.isFinite(from)) || (countback !== null && !(countback > 0))) {
+      return NextResponse.json({ s: 'error', errmsg: 'Invalid from/to/countback' }, { status: 400 })
+    }
+
+    const ref = parseUdfSymbol(searchParams.get('symbol') || '')
+    const token = ref ? await resolveUdfSymbol(ref) : null
+    if (!ref || !token) {
+      return NextResponse.json({ s: 'error', errmsg: 'unknown_symbol' }, { status: 404 })
+    }
+
+    // countback takes priority over `from`: the newest `countback` bars before `to`
+    const candles = await loadCandleSeries({
+      tokenId: token.id,
+      chainId: token.chain_id,
+      interval,
+      quote: ref.quote,
+      from: countback !== null ? new Date(0) : new Date(from * 1000),
+      to: new Date(to * 1000),
+      limit: Math.min(countback ?? MAX_BARS, MAX_BARS),
+    })
+
+    // Empty only when the token had no trades before `to`, so there is no earlier data to point at
+    if (candles.length === 0) {
+      return NextResponse.json({ s: 'no_data' })
+    }
+
+    return NextResponse.json({
+      s: 'ok',
+      t: candles.map(c => c.time),
+      o: candles.map(c => c.open),
+      h: candles.map(c => c.high),
+      l: candles.map(c => c.low),
+      c: candles.map(c => c.close),
+      v: candles.map(c => c.volume),
+    })
+  } catch (error) {
+    console.error('[UDF] Failed to fetch history:', error)
+    return NextResponse.json({ s: 'error', errmsg: 'Failed to fetch history' }, { status: 500 })
+  }
+}
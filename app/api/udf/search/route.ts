@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { searchUdfTokens, udfSearchResults } from '@/lib/udf'
+import { parseTextParam, RequestParamError } from '@/lib/requestParams'
+
+const MAX_RESULTS = 50
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl
+    const query = (parseTextParam('query', searchParams.get('query')) ?? '').trim()
+    const exchange = searchParams.get('exchange') || ''
+    const type = searchParams.get('type') || ''
+    const limitParam = parseInt(searchParams.get('limit') || String(MAX_RESULTS))
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_RESULTS) : MAX_RESULTS
+
+    // Only one symbol type is served
+    if (type && type !== 'crypto') {
+      return NextResponse.json([])
+    }
+
+    // Every token is listed once per quote, so fetch half as many tokens
+    const tokens = await searchUdfTokens(query, exchange, Math.ceil(limit / 2))
+    return NextResponse.json(udfSearchResults(tokens).slice(0, limit))
+  } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ s: 'error', errmsg: error.message }, { status: 400 })
+    }
+    console.error('[UDF] Failed to search symbols:', error)
+    return NextResponse.json({ s: 'error', errmsg: 'Failed to search symbols' }, { status: 500 })
+  }
+}
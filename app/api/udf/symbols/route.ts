@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseUdfSymbol, resolveUdfSymbol, udfSymbolInfo } from '@/lib/udf'
+
+export async function GET(req: NextRequest) {
+  try {
+    const symbol = req.nextUrl.searchParams.get('symbol') || ''
+    const ref = parseUdfSymbol(symbol)
+    const token = ref ? await resolveUdfSymbol(ref) : null
+
+    if (!ref || !token) {
+      return NextResponse.json({ s: 'error', errmsg: 'unknown_symbol' }, { status: 404 })
+    }
+
+    return NextResponse.json(udfSymbolInfo(token, ref.quote))
+  } catch (error) {
+    console.error('[UDF] Failed to resolve symbol:', error)
+    return NextResponse.json({ s: 'error', errmsg: 'Failed to resolve symbol' }, { status: 500 })
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server'
+
+// UDF server time: Unix seconds as plain text
+export async function GET() {
+  return new NextResponse(String(Math.floor(Date.now() / 1000)), {
+    headers: { 'Content-Type': 'text/plain' },
+  })
+}
@@ -1,26 +1,34 @@
 import { NextResponse } from 'next/server'
 import pool from '@/lib/db'
+import { resolveTokenRef, readCurveState } from '@/lib/tokenStateReader'
 
+// Refreshes eth_raised / is_graduated from the contract; the request only identifies the token.
+// No session: the buy/sell panels call this after every trade by any wallet, and nothing here comes from the caller.
 export async function POST(req: Request) {
   try {
-    const { contractAddress, chainId, graduated, totalRaised } = await req.json()
+    const { tokenId, chainId, txHash } = await req.json()
 
-    if (!contractAddress || !chainId) {
-      return NextResponse.json({ error: 'Missing contractAddress or chainId' }, { status: 400 })
+    if (!tokenId && !(txHash && chainId)) {
+      return NextResponse.json({ error: 'Missing tokenId or txHash and chainId' }, { status: 400 })
     }
 
+    const token = await resolveTokenRef({ tokenId, chainId, txHash })
+    if (!token) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+    }
+
+    const { totalRaised, graduated } = await readCurveState(token.contract_address, token.chain_id)
+
     await pool.query(
       `UPDATE tokens
        SET is_graduated = $1, eth_raised = $2, updated_at = NOW()
-       WHERE contract_address = $3`,
-      [graduated, totalRaised, contractAddress]
+       WHERE id = $3`,
+      [graduated, totalRaised, token.id]
     )
 
-    return NextResponse.json({ success: true })
+    return NextResponse.json({ success: true, graduated, totalRaised })
   } catch (err) {
     console.error('Error updating token:', err)
     return NextResponse.json({ success: false, error: 'Update failed' }, { status: 500 })
   }
 }
-
-
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { handlePublicApi, listResponse } from '@/lib/publicApi/http'
+import { listLeaderboard } from '@/lib/publicApi/queries'
+import { LEADERBOARD_SORTS } from '@/lib/publicApi/dto'
+import { parseBooleanParam, parseChainIdParam, parseEnumParam, parsePageSizeParam } from '@/lib/requestParams'
+
+export async function GET(request: NextRequest) {
+  return handlePublicApi('leaderboard', async () => {
+    const { searchParams } = new URL(request.url)
+    const pageSize = parsePageSizeParam(searchParams.get('pageSize'))
+
+    const page = await listLeaderboard({
+      sort: parseEnumParam('sort', searchParams.get('sort'), LEADERBOARD_SORTS) ?? 'gainers_24h',
+      chainId: parseChainIdParam(searchParams.get('chainId')),
+      excludeGraduated: parseBooleanParam('excludeGraduated', searchParams.get('excludeGraduated')) ?? false,
+      pageSize,
+      cursor: searchParams.get('cursor'),
+    })
+    return listResponse(page.data, page.nextCursor, pageSize)
+  })
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { buildOpenApiDocument } from '@/lib/publicApi/openapi'
+
+const document = buildOpenApiDocument()
+
+export async function GET() {
+  return NextResponse.json(document, {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  })
+}
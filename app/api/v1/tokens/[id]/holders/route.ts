@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server'
+import { errorResponse, handlePublicApi, listResponse } from '@/lib/publicApi/http'
+import { listHolders, tokenExists } from '@/lib/publicApi/queries'
+import { parseIdParam, parsePageSizeParam } from '@/lib/requestParams'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handlePublicApi('token holders', async () => {
+    const { searchParams } = new URL(request.url)
+    const tokenId = parseIdParam('id', (await params).id)
+    const pageSize = parsePageSizeParam(searchParams.get('pageSize'))
+
+    if (!(await tokenExists(tokenId))) return errorResponse(404, 'not_found', `Token ${tokenId} not found`)
+
+    const page = await listHolders({ tokenId, pageSize, cursor: searchParams.get('cursor') })
+    return listResponse(page.data, page.nextCursor, pageSize)
+  })
+}
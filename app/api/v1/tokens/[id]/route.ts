@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server'
+import { dataResponse, errorResponse, handlePublicApi } from '@/lib/publicApi/http'
+import { getToken } from '@/lib/publicApi/queries'
+import { parseIdParam } from '@/lib/requestParams'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handlePublicApi('token', async () => {
+    const id = parseIdParam('id', (await params).id)
+    const token = await getToken(id)
+    if (!token) return errorResponse(404, 'not_found', `Token ${id} not found`)
+    return dataResponse(token)
+  })
+}
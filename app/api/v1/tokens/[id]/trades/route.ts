@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server'
+import { errorResponse, handlePublicApi, listResponse } from '@/lib/publicApi/http'
+import { listTrades, tokenExists } from '@/lib/publicApi/queries'
+import { TRADE_SIDES } from '@/lib/publicApi/dto'
+import { parseAddressParam, parseEnumParam, parseIdParam, parsePageSizeParam } from '@/lib/requestParams'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handlePublicApi('token trades', async () => {
+    const { searchParams } = new URL(request.url)
+    const tokenId = parseIdParam('id', (await params).id)
+    const pageSize = parsePageSizeParam(searchParams.get('pageSize'))
+    const side = parseEnumParam('side', searchParams.get('side'), TRADE_SIDES)
+    const wallet = parseAddressParam('wallet', searchParams.get('wallet'))
+
+    if (!(await tokenExists(tokenId))) return errorResponse(404, 'not_found', `Token ${tokenId} not found`)
+
+    const page = await listTrades({ tokenId, side, wallet, pageSize, cursor: searchParams.get('cursor') })
+    return listResponse(page.data, page.nextCursor, pageSize)
+  })
+}
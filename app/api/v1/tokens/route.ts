@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { handlePublicApi, listResponse } from '@/lib/publicApi/http'
+import { listTokens } from '@/lib/publicApi/queries'
+import { TOKEN_STATUSES } from '@/lib/publicApi/dto'
+import { parseChainIdParam, parseEnumParam, parsePageSizeParam } from '@/lib/requestParams'
+
+export async function GET(request: NextRequest) {
+  return handlePublicApi('tokens', async () => {
+    const { searchParams } = new URL(request.url)
+    const pageSize = parsePageSizeParam(searchParams.get('pageSize'))
+
+    const page = await listTokens({
+      chainId: parseChainIdParam(searchParams.get('chainId')),
+      status: parseEnumParam('status', searchParams.get('status'), TOKEN_STATUSES),
+      order: parseEnumParam('order', searchParams.get('order'), ['newest', 'oldest'] as const) ?? 'newest',
+      pageSize,
+      cursor: searchParams.get('cursor'),
+    })
+    return listResponse(page.data, page.nextCursor, pageSize)
+  })
+}
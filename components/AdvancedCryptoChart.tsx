@@ -1,82 +1,105 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react'
 import { createChart, IChartApi, ISeriesApi, Time, CandlestickSeries, HistogramSeries } from 'lightweight-charts'
+import { CHART_INTERVALS, CHART_INTERVAL_LABELS, CHART_INTERVAL_UDF_RESOLUTIONS, type ChartInterval } from '@/lib/chartIntervals'
 
 interface AdvancedCryptoChartProps {
-  tokenId: number
+  chainId: number
+  contractAddress: string
   symbol: string
 }
 
 interface CandleData {
-  time: string
+  time: number
   open: number
   high: number
   low: number
   close: number
-  volume: number
   volumeUsd: number
-  tradesCount: number
 }
 
-const AdvancedCryptoChart: React.FC<AdvancedCryptoChartProps> = ({ tokenId, symbol }) => {
+// /api/udf/history response (UDF column arrays)
+interface UdfHistory {
+  s: 'ok' | 'no_data' | 'error'
+  t?: number[]
+  o?: number[]
+  h?: number[]
+  l?: number[]
+  c?: number[]
+  v?: number[]
+}
+
+// Bars requested per interval change
+const CHART_BARS = 1000
+
+const AdvancedCryptoChart: React.FC<AdvancedCryptoChartProps> = ({ chainId, contractAddress, symbol }) => {
   const chartContainerRef = useRef<HTMLDivElement>(null)
   const chartRef = useRef<IChartApi | null>(null)
   const candlestickSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null)
   const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null)
   const [data, setData] = useState<CandleData[]>([])
   const [loading, setLoading] = useState(true)
-  const [selectedInterval, setSelectedInterval] = useState('1d')
+  const [selectedInterval, setSelectedInterval] = useState<ChartInterval>('1d')
   const [stats, setStats] = useState({
     totalVolume: 0,
-    totalTrades: 0,
     priceChange: 0,
     priceChangePercent: 0
   })
 
-  const intervals = [
-    { value: '1h', label: '1H' },
-    { value: '4h', label: '4H' },
-    { value: '1d', label: '1D' },
-    { value: '1w', label: '1W' }
-  ]
+  const intervals = CHART_INTERVALS.map(value => ({ value, label: CHART_INTERVAL_LABELS[value] }))
 
-  // Fetch chart data from your API
-  const fetchChartData = useCallback(async (interval: string) => {
+  // Fetch gap-filled USD candles from the UDF datafeed
+  const fetchChartData = useCallback(async (interval: ChartInterval) => {
     try {
       setLoading(true)
-      const response = await fetch(`/api/chart-data/${tokenId}/${interval}`)
-      const result = await response.json()
-      
-      if (result.data) {
-        setData(result.data)
-        
-        // Calculate stats
-        if (result.data.length > 0) {
-          const firstCandle = result.data[result.data.length - 1] // Oldest
-          const lastCandle = result.data[0] // Newest
-          
-          const totalVolume = result.data.reduce((sum: number, candle: CandleData) => sum + candle.volumeUsd, 0)
-          const totalTrades = result.data.reduce((sum: number, candle: CandleData) => sum + candle.tradesCount, 0)
-          const priceChange = lastCandle.close - firstCandle.open
-          const priceChangePercent = firstCandle.open > 0 ? (priceChange / firstCandle.open) * 100 : 0
-          
-          setStats({
-            totalVolume,
-            totalTrades,
-            priceChange,
-            priceChangePercent
-          })
-        }
+      const params = new URLSearchParams({
+        symbol: `${chainId}:${contractAddress.toLowerCase()}/USD`,
+        resolution: CHART_INTERVAL_UDF_RESOLUTIONS[interval],
+        to: String(Math.floor(Date.now() / 1000) + 1),
+        countback: String(CHART_BARS),
+      })
+      const response = await fetch(`/api/udf/history?${params}`)
+      const result: UdfHistory = await response.json()
+
+      if (result.s !== 'ok' || !result.t) {
+        setData([])
+        return
+      }
+
+      const candles: CandleData[] = result.t.map((time, i) => ({
+        time,
+        open: result.o?.[i] ?? 0,
+        high: result.h?.[i] ?? 0,
+        low: result.l?.[i] ?? 0,
+        close: result.c?.[i] ?? 0,
+        volumeUsd: result.v?.[i] ?? 0,
+      }))
+      setData(candles)
+
+      // Calculate stats (candles are oldest first)
+      if (candles.length > 0) {
+        const firstCandle = candles[0]
+        const lastCandle = candles[candles.length - 1]
+
+        const totalVolume = candles.reduce((sum, candle) => sum + candle.volumeUsd, 0)
+        const priceChange = lastCandle.close - firstCandle.open
+        const priceChangePercent = firstCandle.open > 0 ? (priceChange / firstCandle.open) * 100 : 0
+
+        setStats({
+          totalVolume,
+          priceChange,
+          priceChangePercent
+        })
       }
     } catch (error) {
       console.error('Error fetching chart data:', error)
     } finally {
       setLoading(false)
     }
-  }, [tokenId])
+  }, [chainId, contractAddress])
 
   useEffect(() => {
     fetchChartData(selectedInterval)
-  }, [tokenId, selectedInterval, fetchChartData])
+  }, [selectedInterval, fetchChartData])
 
   useEffect(() => {
     if (!chartContainerRef.current || data.length === 0) return
@@ -185,7 +208,6 @@ const AdvancedCryptoChart: React.FC<AdvancedCryptoChartProps> = ({ tokenId, symb
           </h3>
           <div className="flex gap-4 text-sm text-gray-400">
             <span>Volume: ${stats.totalVolume.toFixed(2)} USD</span>
-            <span>Trades: {stats.totalTrades.toLocaleString()}</span>
             <span className={stats.priceChange >= 0 ? 'text-green-400' : 'text-red-400'}>
               {stats.priceChange >= 0 ? '+' : ''}{stats.priceChangePercent.toFixed(2)}%
             </span>
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import { Copy, Check, ArrowLeft } from 'lucide-react'
 import { useAccount } from 'wagmi'
 import { useRouter } from 'next/navigation'
+import WalletPnlPanel from './WalletPnlPanel'
 
 type BackerDetailsViewProps = {
   wallet: string
@@ -252,6 +253,12 @@ export default function BackerDetailsView({ wallet, onBack }: BackerDetailsViewP
       </div>
 
 
+        {/* Trading PnL */}
+        <div className="mb-6">
+          <h2 className="text-sm font-semibold mb-3">Trading PnL</h2>
+          <WalletPnlPanel wallet={wallet} chainId={chain?.id} />
+        </div>
+
         {/* Content - Side by side layout */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Created Tokens */}
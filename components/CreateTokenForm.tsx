@@ -10,12 +10,15 @@ import { ethers } from 'ethers'
 import { useRouter } from 'next/navigation'
 import { useSync } from '@/lib/SyncContext'
 import { DEX_ROUTER_BY_CHAIN } from '@/lib/dex'
+import { getChainConfig } from '@/lib/chains'
+import { useWalletSession } from '@/hooks/useWalletSession'
 
 export default function CreateTokenForm() {
   const { triggerSync } = useSync()
   const router = useRouter()
   const { address, isConnected } = useAccount()
   const { data: walletClient } = useWalletClient()
+  const { ensureSession } = useWalletSession()
   const chainId = walletClient?.chain.id
   // UI sections (collapsed by default)
   const [showProSettings, setShowProSettings] = useState(false)
@@ -225,6 +228,9 @@ export default function CreateTokenForm() {
 
     setIsSubmitting(true)
     try {
+      // Sign in before deploying so the DB insert can't be rejected after gas is spent
+      await ensureSession()
+
       const ethersProvider = new ethers.BrowserProvider(walletClient)
       const signer = await ethersProvider.getSigner()
 
@@ -253,12 +259,11 @@ export default function CreateTokenForm() {
       const platformFeeRecipient = process.env
         .NEXT_PUBLIC_PLATFORM_FEE_RECIPIENT as string
 
-      // ✅ NEW: get days for constructor + seconds for DB
+      // ✅ NEW: get days for constructor (the DB reads seconds back from the contract)
       const minUnlockDays = Number(form.minUnlockDays || 2)
-      const minTokenAgeForUnlockSeconds = minUnlockDays * 24 * 60 * 60
 
-      const isMegaEthTestnet = chainId === 6342
-      const deployOverrides = isMegaEthTestnet ? { gasLimit: 7_000_000n } : {}
+      const deployGasLimit = getChainConfig(activeChainId)?.deployGasLimit
+      const deployOverrides = deployGasLimit ? { gasLimit: BigInt(deployGasLimit) } : {}
 
       // ✅ NEW ARG ORDER: pass minUnlockDays (days) before overrides
       const contract = await factory.deploy(
@@ -276,10 +281,10 @@ export default function CreateTokenForm() {
       await contract.waitForDeployment()
       const contractAddress = await contract.getAddress()
       
-      // Get the deployment block number from the deployment transaction
+      // The server re-reads the deployment receipt, so only the tx hash is needed
       const deploymentTx = contract.deploymentTransaction()
-      const deploymentBlock = deploymentTx ? await deploymentTx.wait() : null
-      const deploymentBlockNumber = deploymentBlock?.blockNumber || null
+      if (!deploymentTx) throw new Error('Missing deployment transaction')
+      await deploymentTx.wait()
 
       const typedContract = new ethers.Contract(
         contract.target as string,
@@ -292,17 +297,16 @@ export default function CreateTokenForm() {
         console.error('❌ Failed to call tokenInfo():', err)
       }
 
-      // ✅ include seconds in payload for DB
+      // On-chain fields are verified server-side against the deployment tx
       const payload = {
         ...form,
         image: finalImage, // Use the prioritized image value
-        minTokenAgeForUnlockSeconds, // <— NEW (seconds)
         symbol: tokenSymbol,
         creatorAddress: address,
         contractAddress,
         chainId,
         logoAssetId: finalLogoAssetId, // <— NEW: include logo asset ID
-        deploymentBlock: deploymentBlockNumber, // <— NEW: include deployment block
+        deploymentTxHash: deploymentTx.hash,
       }
 
       const res = await fetch('/api/create-token', {
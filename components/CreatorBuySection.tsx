@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect } from 'react'
 import { usePublicClient, useWriteContract } from 'wagmi'
 import { ethers } from 'ethers'
 import TurboTokenABI from '@/lib/abi/TurboToken.json'
@@ -11,6 +11,8 @@ import { useSync } from '@/lib/SyncContext'
 import { formatPriceMetaMask } from '@/lib/ui-utils'
 import HashDisplay from '@/components/ui/HashDisplay'
 import { getUsdPrice } from '@/lib/getUsdPrice'
+import { maxCreatorLock, quoteBuyExactOut, readCurveSnapshot, saleCapRemaining } from '@/lib/bondingCurve'
+import type { BuyQuote, CurveSnapshot } from '@/lib/bondingCurve'
 
 type Props = {
   token: Token
@@ -20,8 +22,8 @@ type Props = {
 export default function CreatorBuySection({ token, onSuccess }: Props) {
   const { triggerSync } = useSync()
   const [amount, setAmount] = useState<number>(1.0)
-  const [price, setPrice] = useState<string>('0')
-  const [loadingPrice, setLoadingPrice] = useState(false)
+  const [curve, setCurve] = useState<CurveSnapshot | null>(null)
+  const [quote, setQuote] = useState<BuyQuote | null>(null)
   const [txHash, setTxHash] = useState<`0x${string}` | null>(null)
   const [isPending, setIsPending] = useState(false)
   const [showSuccess, setShowSuccess] = useState(false)
@@ -74,17 +76,13 @@ export default function CreatorBuySection({ token, onSuccess }: Props) {
           return
         }
 
-        // Read flags + caps
+        // Read flags + curve state (caps and prices are computed locally)
         const [
-          totalSupplyWei,
-          maxSaleWei,
-          maxCreatorLockWei,
+          snapshot,
           lockCumWeiRaw,
           closedRaw
         ] = await Promise.all([
-          contract.totalSupply(),
-          contract.maxSaleSupply(),
-          contract.maxCreatorLock(),
+          readCurveSnapshot(contract),
           // lifetime cumulative (fallback to lockedBalances for extreme legacy)
           (async () => {
             try { return await contract.creatorLockCumulative() } 
@@ -102,6 +100,7 @@ export default function CreatorBuySection({ token, onSuccess }: Props) {
 
         const closed = Boolean(closedRaw)
         setLockingClosed(closed)
+        setCurve(snapshot)
 
         if (closed) {
           // Once closed, disable the feature entirely
@@ -111,7 +110,8 @@ export default function CreatorBuySection({ token, onSuccess }: Props) {
           return
         }
 
-        const saleRemainingWei = maxSaleWei > totalSupplyWei ? (maxSaleWei - totalSupplyWei) : 0n
+        const saleRemainingWei = saleCapRemaining(snapshot)
+        const maxCreatorLockWei = maxCreatorLock(snapshot.maxSupply)
         const lifeRemainingWei = maxCreatorLockWei > lockCumWeiRaw ? (maxCreatorLockWei - lockCumWeiRaw) : 0n
 
         const saleRemaining = Number(ethers.formatUnits(saleRemainingWei, 18))
@@ -144,37 +144,21 @@ export default function CreatorBuySection({ token, onSuccess }: Props) {
     setErrorMessage('')
   }
 
-  const fetchPrice = useCallback(async () => {
-    if (!amount || amount <= 0 || !isCreatorWallet || lockingClosed) return
-    setShowSuccess(false)
-    setLoadingPrice(true)
-    setPrice('0')
+  // Quote locally with the same integer math as getPrice (no RPC per keystroke)
+  useEffect(() => {
+    if (!curve || !amount || amount <= 0 || !isCreatorWallet || lockingClosed) {
+      setQuote(null)
+      return
+    }
     try {
-      const provider = new ethers.BrowserProvider(window.ethereum)
-      const signer = await provider.getSigner()
-      const contract = new ethers.Contract(token.contract_address, TurboTokenABI.abi, signer)
-      const amountInt = ethers.parseUnits(amount.toString(), 18)
-      const priceBigInt: bigint = await contract.getPrice(amountInt)
-      setPrice(ethers.formatEther(priceBigInt))
+      setQuote(quoteBuyExactOut(curve, ethers.parseUnits(amount.toString(), 18)))
     } catch (err) {
-      console.error('Failed to fetch price:', err)
-      setPrice('0')
+      console.error('Failed to quote buy:', err)
+      setQuote(null)
     }
-    setLoadingPrice(false)
-  }, [amount, isCreatorWallet, lockingClosed, token.contract_address])
+  }, [amount, curve, isCreatorWallet, lockingClosed])
 
-  // Auto-fetch price when amount changes (with debounce to prevent input focus loss)
-  useEffect(() => {
-    if (amount > 0 && isCreatorWallet && !lockingClosed) {
-      const timeoutId = setTimeout(() => {
-        fetchPrice()
-      }, 500) // 500ms debounce
-      
-      return () => clearTimeout(timeoutId)
-    } else {
-      setPrice('0')
-    }
-  }, [amount, isCreatorWallet, lockingClosed, fetchPrice])
+  const price = quote ? ethers.formatEther(quote.cost) : '0'
 
   // Load USD price for ETH
   useEffect(() => {
@@ -182,18 +166,25 @@ export default function CreatorBuySection({ token, onSuccess }: Props) {
   }, [])
 
   const handleBuy = async () => {
-    if (!amount || price === '0' || !isCreatorWallet || lockingClosed) return
+    if (!amount || !quote || !isCreatorWallet || lockingClosed) return
     setShowSuccess(false)
     setErrorMessage('')
     setIsPending(true)
     try {
-      const amountWei = ethers.parseUnits(amount.toString(), 18)
+      // Re-quote against fresh supply so msg.value is exactly getPrice(amount) at send time
+      const provider = new ethers.BrowserProvider(window.ethereum)
+      const signer = await provider.getSigner()
+      const contract = new ethers.Contract(token.contract_address, TurboTokenABI.abi, signer)
+      const snapshot = await readCurveSnapshot(contract)
+      setCurve(snapshot)
+      const fresh = quoteBuyExactOut(snapshot, quote.amount)
+
       const hash = await writeContractAsync({
         address: token.contract_address as `0x${string}`,
         abi: TurboTokenABI.abi,
         functionName: 'creatorBuy',
-        args: [amountWei],
-        value: ethers.parseEther(price),
+        args: [fresh.amount],
+        value: fresh.cost,
       })
       setTxHash(hash)
     } catch (err) {
@@ -291,8 +282,6 @@ export default function CreatorBuySection({ token, onSuccess }: Props) {
     if (priceInfo.type === 'scientific') return priceInfo.value
     return '0'
   }
-  const isBusy = loadingPrice || isPending
-
   
   return (
     <div className="flex flex-col flex-grow w-full bg-[#232633]/40 p-4 rounded-lg shadow border border-[#2a2d3a]">
@@ -366,10 +355,10 @@ export default function CreatorBuySection({ token, onSuccess }: Props) {
         min={1}
         max={maxAllowedAmount}
         placeholder="e.g. 1.5"
-        disabled={isBusy || !isCreatorWallet || lockingClosed || maxAllowedAmount <= 0}
+        disabled={isPending || !isCreatorWallet || lockingClosed || maxAllowedAmount <= 0}
       />
 
-      {price !== '0' && (
+      {quote && price !== '0' && (
         <>
           <div className="mt-2 text-sm text-gray-300 text-center">
             Total cost: <strong>{renderPrice()} ETH</strong>
@@ -415,6 +404,14 @@ export default function CreatorBuySection({ token, onSuccess }: Props) {
                 })()}
               </div>
             )}
+            <div className="text-xs text-gray-500 mt-1">
+              incl. 1% fee: {ethers.formatEther(quote.fee)} ETH
+            </div>
+            {quote.graduates && (
+              <div className="text-xs text-purple-400 mt-1">
+                This buy reaches the raise target and graduates the token
+              </div>
+            )}
           </div>
 
           <button
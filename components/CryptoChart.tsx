@@ -1,5 +1,8 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react'
 import { createChart, IChartApi, ISeriesApi, Time, CandlestickSeries, HistogramSeries, LineSeries } from 'lightweight-charts'
+import { CHART_INTERVALS, CHART_INTERVAL_LABELS, CHART_INTERVAL_SECONDS, DEFAULT_CHART_INTERVAL, type ChartInterval } from '@/lib/chartIntervals'
+import { useTokenStream } from '@/hooks/useTokenStream'
+import type { StreamEvent } from '@/lib/streamEvents'
 
 interface CryptoChartProps {
   tokenId: number
@@ -25,18 +28,20 @@ const CryptoChart: React.FC<CryptoChartProps> = ({ tokenId, symbol }) => {
   const candlestickSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null)
   const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null)
   const lineSeriesRef = useRef<ISeriesApi<'Line'> | null>(null)
+  const lastCandleRef = useRef<CandleData | null>(null)
   const [data, setData] = useState<CandleData[]>([])
   const [loading, setLoading] = useState(true)
   const [selectedTimeRange, setSelectedTimeRange] = useState('Since Launch')
+  const [selectedInterval, setSelectedInterval] = useState<ChartInterval>(DEFAULT_CHART_INTERVAL)
 
   // Fetch chart data from your API
   const fetchChartData = useCallback(async () => {
     try {
       setLoading(true)
-      console.log(`Fetching chart data for tokenId: ${tokenId}, interval: 4h`)
+      console.log(`Fetching chart data for tokenId: ${tokenId}, interval: ${selectedInterval}`)
       
       // Try the regular endpoint first with time range parameter
-      const response = await fetch(`/api/chart-data/${tokenId}/4h?timeRange=${selectedTimeRange}`)
+      const response = await fetch(`/api/chart-data/${tokenId}/${selectedInterval}?timeRange=${selectedTimeRange}`)
       console.log('Response status:', response.status)
       
       if (!response.ok) {
@@ -58,12 +63,58 @@ const CryptoChart: React.FC<CryptoChartProps> = ({ tokenId, symbol }) => {
     } finally {
       setLoading(false)
     }
-  }, [tokenId, selectedTimeRange])
+  }, [tokenId, selectedTimeRange, selectedInterval])
 
   useEffect(() => {
     fetchChartData()
   }, [tokenId, fetchChartData])
 
+  // Fold live trades into the newest candle (or open the next one) without rebuilding the chart
+  const applyLiveTrade = useCallback((event: StreamEvent) => {
+    if (event.type === 'resync') {
+      fetchChartData()
+      return
+    }
+    if (event.type !== 'trade') return
+
+    const last = lastCandleRef.current
+    const candlestickSeries = candlestickSeriesRef.current
+    if (!last || !candlestickSeries || !event.amountEthWei || !event.priceEthPerToken || !event.ethPriceUsd) return
+
+    const ethAmount = Number(event.amountEthWei) / 1e18
+    const price = Number(event.priceEthPerToken) * Number(event.ethPriceUsd)
+    if (ethAmount === 0 || !(price > 0)) return
+
+    const seconds = CHART_INTERVAL_SECONDS[selectedInterval]
+    const time = Math.floor(Date.parse(event.blockTime) / 1000 / seconds) * seconds
+    if (time < last.time) return
+
+    const volumeUsd = ethAmount * Number(event.ethPriceUsd)
+    // Gap-filled candles have no trades yet, so the first trade opens them like the worker does
+    const candle: CandleData = time === last.time && last.tradesCount > 0
+      ? {
+          ...last,
+          high: Math.max(last.high, price),
+          low: Math.min(last.low, price),
+          close: price,
+          volume: last.volume + volumeUsd,
+          volumeUsd: last.volumeUsd + volumeUsd,
+          tradesCount: last.tradesCount + 1,
+        }
+      : { time, open: price, high: price, low: price, close: price, volume: volumeUsd, volumeEth: ethAmount, volumeUsd, tradesCount: 1 }
+
+    candlestickSeries.update({ time: candle.time as Time, open: candle.open, high: candle.high, low: candle.low, close: candle.close })
+    volumeSeriesRef.current?.update({
+      time: candle.time as Time,
+      value: Math.abs(candle.volumeUsd),
+      color: candle.close >= candle.open ? '#26a69a99' : '#ef535099',
+    })
+    lineSeriesRef.current?.update({ time: candle.time as Time, value: candle.close })
+    lastCandleRef.current = candle
+  }, [selectedInterval, fetchChartData])
+
+  useTokenStream({ tokenId }, applyLiveTrade)
+
   useEffect(() => {
     if (!chartContainerRef.current || data.length === 0) return
 
@@ -345,6 +396,7 @@ const CryptoChart: React.FC<CryptoChartProps> = ({ tokenId, symbol }) => {
     candlestickSeriesRef.current = candlestickSeries
     volumeSeriesRef.current = volumeSeries
     lineSeriesRef.current = lineSeries
+    lastCandleRef.current = data[data.length - 1]
 
 
     // Resize handling with proper padding calculation
@@ -368,6 +420,8 @@ const CryptoChart: React.FC<CryptoChartProps> = ({ tokenId, symbol }) => {
       if (chartRef.current) {
         chartRef.current.remove()
       }
+      candlestickSeriesRef.current = null
+      lastCandleRef.current = null
     }
   }, [data])
 
@@ -442,8 +496,21 @@ const CryptoChart: React.FC<CryptoChartProps> = ({ tokenId, symbol }) => {
               </button>
             ))}
           </div>
-          <div className="text-xs text-gray-500">
-            4-hour candles
+          <div className="text-sm text-gray-400 mb-1">Interval</div>
+          <div className="flex gap-1">
+            {CHART_INTERVALS.map((interval) => (
+              <button
+                key={interval}
+                onClick={() => setSelectedInterval(interval)}
+                className={`px-3 py-1 text-xs rounded transition-colors ${
+                  selectedInterval === interval
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {CHART_INTERVAL_LABELS[interval]}
+              </button>
+            ))}
           </div>
         </div>
       </div>
@@ -9,7 +9,7 @@ import { useWalletRefresh } from '@/lib/WalletRefreshContext'
 import { useSync } from '@/lib/SyncContext'
 import { formatPriceMetaMask } from '@/lib/ui-utils'
 import { getUsdPrice } from '@/lib/getUsdPrice'
-import { calculateAmountFromETH, calculateETHfromAmount, getDexPoolReserves, priceImpactBps, getAmountOut, withSlippageMin } from '@/lib/dexMath'
+import { fetchQuote } from '@/lib/fetchQuote'
 import { routerAbi, DEX_ROUTER_BY_CHAIN } from '@/lib/dex'
 import HashDisplay from '@/components/ui/HashDisplay'
 
@@ -40,6 +40,7 @@ export default function DexBuySection({
 
   const refreshWallet = useWalletRefresh()
   const isBusy = loadingPrice || isPending
+  const slippageBps = Math.min(5000, Math.round(slippagePct * 100))
   const { address } = useAccount()
   const { data: ethBalance } = useBalance({ address, query: { enabled: !!address, refetchInterval: 10_000 } })
 
@@ -81,29 +82,17 @@ export default function DexBuySection({
           // do not clear last good quote to avoid flicker
           return
         }
-        const provider = new ethers.BrowserProvider(window.ethereum)
-        const ethCost = await calculateETHfromAmount(amount, pairAddress, token.contract_address, provider)
+        // Exact-out quote (ETH in for token out) from the shared quote API
+        const quote = await fetchQuote({ tokenId: token.id, side: 'buy', amountOut: ethers.parseEther(String(amount)) })
         if (quoteReqIdRef.current === reqId) {
-          if (!Number.isNaN(ethCost) && ethCost > 0) setPrice(String(ethCost))
-          // else keep previous displayed price
-        }
-        // Compute price impact for exact-out (ETH in for token out)
-          const reserves = await getDexPoolReserves(pairAddress, token.contract_address, provider)
-        if (reserves && quoteReqIdRef.current === reqId) {
-          const inWei = ethers.parseEther(String(ethCost))
-          const outWei = ethers.parseEther(String(amount))
-          const impact = priceImpactBps(inWei, outWei, reserves.reserveETH, reserves.reserveToken)
-          setImpactBps(impact)
+          const ethCost = Number(ethers.formatEther(quote.amountIn))
+          if (ethCost > 0) setPrice(ethers.formatEther(quote.amountIn))
+          setImpactBps(quote.priceImpactBps)
           // Avg price (ETH per token) vs current
-          const pmid = Number(reserves.reserveETH) / Number(reserves.reserveToken) // ETH per token
+          const pmid = Number(ethers.formatEther(quote.spotPriceWei)) // ETH per token
           const pavg = ethCost / amount // ETH per token
           if (pmid > 0 && pavg > 0) setAvgRatio(pavg / pmid)
           else setAvgRatio(null)
-        } else {
-          if (quoteReqIdRef.current === reqId) {
-            setImpactBps(null)
-            setAvgRatio(null)
-          }
         }
       } catch (err) {
         console.error('Failed to calculate DEX price:', err)
@@ -124,7 +113,7 @@ export default function DexBuySection({
     } else {
       setPrice('0')
     }
-  }, [amount, pairAddress, token0, token.chain_id, token.contract_address])
+  }, [amount, pairAddress, token0, token.id])
 
   // Load USD price for ETH
   useEffect(() => {
@@ -144,16 +133,15 @@ export default function DexBuySection({
       const chainId = token.chain_id || (await signer.provider!.getNetwork()).chainId
       const router = new ethers.Contract(DEX_ROUTER_BY_CHAIN[Number(chainId)], routerAbi, signer)
 
-      // compute amountOutMin using exact getAmountOut with fee, then apply slippage
-      const reserves = await getDexPoolReserves(pairAddress, token.contract_address, provider)
-      if (!reserves) throw new Error('Pool reserves unavailable')
+      // amountOutMin from a fresh exact-in quote for the ETH being sent, less slippage
       const amountInWei = ethers.parseEther(String(price))
-      const amountOutWei = getAmountOut(amountInWei, BigInt(reserves.reserveETH), BigInt(reserves.reserveToken))
-      const amountOutMin = withSlippageMin(amountOutWei, slippagePct)
+      const quote = await fetchQuote({ tokenId: token.id, side: 'buy', amountIn: amountInWei, slippageBps })
+      if (quote.venue !== 'dex') throw new Error('Token is not trading on the DEX')
+      const amountOutMin = BigInt(quote.minAmountOut)
       const deadline = Math.floor(Date.now() / 1000) + 60
       const path = [await router.WETH(), token.contract_address]
 
-      const tx = await router.swapExactETHForTokens(amountOutMin, path, await signer.getAddress(), deadline, { value: ethers.parseEther(String(price)) })
+      const tx = await router.swapExactETHForTokens(amountOutMin, path, await signer.getAddress(), deadline, { value: amountInWei })
       setTxHash(tx.hash)
       await Promise.race([
         tx.wait(),
@@ -244,10 +232,10 @@ export default function DexBuySection({
                 return
               }
               
-              // Use real DEX calculation
-              const provider = new ethers.BrowserProvider(window.ethereum)
-              calculateAmountFromETH(ethValue, pairAddress, token.contract_address, provider)
-                .then(tokensToBuy => {
+              // Exact-in quote for the ETH amount
+              fetchQuote({ tokenId: token.id, side: 'buy', amountIn: ethers.parseEther(String(ethValue)) })
+                .then(quote => {
+                  const tokensToBuy = Number(ethers.formatEther(quote.amountOut))
                   setAmount(parseFloat(tokensToBuy.toFixed(2)))
                   setPrice('0') // Will be recalculated by useEffect
                 })
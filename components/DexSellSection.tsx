@@ -9,7 +9,7 @@ import { useWalletRefresh } from '@/lib/WalletRefreshContext'
 import { useSync } from '@/lib/SyncContext'
 import { formatPriceMetaMask } from '@/lib/ui-utils'
 import { getUsdPrice } from '@/lib/getUsdPrice'
-import { calculateETHOutFromTokens, getDexPoolReserves, priceImpactBps, getAmountOut, withSlippageMin } from '@/lib/dexMath'
+import { fetchQuote } from '@/lib/fetchQuote'
 import { routerAbi, DEX_ROUTER_BY_CHAIN } from '@/lib/dex'
 import HashDisplay from '@/components/ui/HashDisplay'
 
@@ -41,6 +41,7 @@ export default function DexSellSection({
 
   const refreshWallet = useWalletRefresh()
   const isBusy = loadingPrice || isPending
+  const slippageBps = Math.min(5000, Math.round(slippagePct * 100))
 
   const fetchBalance = useCallback(async () => {
     try {
@@ -93,31 +94,19 @@ export default function DexSellSection({
       let gotValidLocal = false
       try {
         if (!pairAddress) { setEthReceived('0'); return }
-        const provider = new ethers.BrowserProvider(window.ethereum)
-        const totalEth = await calculateETHOutFromTokens(amount, pairAddress, token.contract_address, provider)
+        // Exact-in quote (tokens in for ETH out) from the shared quote API
+        const quote = await fetchQuote({ tokenId: token.id, side: 'sell', amountIn: ethers.parseEther(String(amount)) })
         if (quoteReqIdRef.current === reqId) {
-          if (!Number.isNaN(totalEth) && totalEth >= 0) {
-            setEthReceived(String(totalEth))
-            setErrorMessage(null)
-            gotValidLocal = true
-          }
-        }
-        const reserves = await getDexPoolReserves(pairAddress, token.contract_address, provider)
-        if (reserves && quoteReqIdRef.current === reqId) {
-          const inWei = ethers.parseEther(String(amount))
-          const outWei = ethers.parseEther(String(totalEth))
-          const impact = priceImpactBps(inWei, outWei, reserves.reserveToken, reserves.reserveETH)
-          setImpactBps(impact)
+          const totalEth = Number(ethers.formatEther(quote.amountOut))
+          setEthReceived(ethers.formatEther(quote.amountOut))
+          setErrorMessage(null)
+          gotValidLocal = true
+          setImpactBps(quote.priceImpactBps)
           // Avg price (ETH per token) vs current
-          const pmid = Number(reserves.reserveETH) / Number(reserves.reserveToken) // ETH per token mid
+          const pmid = Number(ethers.formatEther(quote.spotPriceWei)) // ETH per token mid
           const pavg = totalEth / amount // ETH per token exec
           if (pmid > 0 && pavg > 0) setAvgRatio(pmid / pavg) // lower is worse -> ratio >1 shows how many times lower
           else setAvgRatio(null)
-        } else {
-          if (quoteReqIdRef.current === reqId) {
-            setImpactBps(null)
-            setAvgRatio(null)
-          }
         }
       } catch (err) {
         console.error('Failed to calculate DEX sell price:', err)
@@ -138,7 +127,7 @@ export default function DexSellSection({
     } else {
       setEthReceived('0')
     }
-  }, [amount, pairAddress, token0, token.chain_id, token.contract_address])
+  }, [amount, pairAddress, token0, token.id])
 
   const priceInfo = formatPriceMetaMask(Number(ethReceived || 0))
   const insufficientTokens = amount > maxSellable
@@ -187,11 +176,10 @@ export default function DexSellSection({
         ])
       }
 
-      // compute min out using proper getAmountOut
-      const reserves = await getDexPoolReserves(pairAddress, token.contract_address, provider)
-      if (!reserves) throw new Error('Pool reserves unavailable')
-      const outWei = getAmountOut(amountInWei, BigInt(reserves.reserveToken), BigInt(reserves.reserveETH))
-      const amountOutMin = withSlippageMin(outWei, slippagePct)
+      // amountOutMin from a fresh exact-in quote, less slippage
+      const quote = await fetchQuote({ tokenId: token.id, side: 'sell', amountIn: amountInWei, slippageBps })
+      if (quote.venue !== 'dex') throw new Error('Token is not trading on the DEX')
+      const amountOutMin = BigInt(quote.minAmountOut)
       const deadline = Math.floor(Date.now() / 1000) + 60
       const path = [token.contract_address, await router.WETH()]
 
@@ -6,6 +6,7 @@ import { Token } from '@/types/token'
 import { Input, TextArea } from '@/components/ui/FormInputs'
 import { useAccount } from 'wagmi'
 import LogoContainer from './LogoContainer'
+import { useWalletSession } from '@/hooks/useWalletSession'
 
 type Props = {
   token: Token
@@ -36,6 +37,7 @@ export default function EditTokenForm({ token, onCancel, onSuccess }: Props) {
   const [error, setError] = useState<string | null>(null)
   const on_dex = token.on_dex
   const { address } = useAccount()
+  const { ensureSession } = useWalletSession()
 
   useEffect(() => {
     if (!image) {
@@ -187,6 +189,8 @@ export default function EditTokenForm({ token, onCancel, onSuccess }: Props) {
     }
 
     try {
+      await ensureSession()
+
       const res = await fetch('/api/edit-token', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -204,7 +208,7 @@ export default function EditTokenForm({ token, onCancel, onSuccess }: Props) {
 
       if (!res.ok) {
         const err = await res.json()
-        throw new Error(err.message || 'Failed to save changes')
+        throw new Error(err.message || err.error || 'Failed to save changes')
       }
 
              if (onSuccess) onSuccess()
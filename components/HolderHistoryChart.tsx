@@ -0,0 +1,141 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { createChart, LineSeries, Time } from 'lightweight-charts'
+import type { HolderSnapshot } from '@/lib/holderSnapshots'
+
+interface HolderHistoryChartProps {
+  tokenId: number
+}
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(1)}%`
+
+export default function HolderHistoryChart({ tokenId }: HolderHistoryChartProps) {
+  const chartContainerRef = useRef<HTMLDivElement>(null)
+  const [snapshots, setSnapshots] = useState<HolderSnapshot[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchSnapshots = async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetch(`/api/holder-history?tokenId=${tokenId}`)
+        const data = await response.json()
+        if (!cancelled && data.success) {
+          setSnapshots(data.snapshots)
+        }
+      } catch (error) {
+        console.error('Error fetching holder history:', error)
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+    fetchSnapshots()
+    return () => {
+      cancelled = true
+    }
+  }, [tokenId])
+
+  useEffect(() => {
+    if (!chartContainerRef.current || snapshots.length === 0) return
+
+    const chart = createChart(chartContainerRef.current, {
+      autoSize: true,
+      layout: {
+        background: { color: '#151827' },
+        textColor: '#d1d5db',
+      },
+      grid: {
+        vertLines: { color: '#2a2d3a' },
+        horzLines: { color: '#2a2d3a' },
+      },
+      rightPriceScale: { borderColor: '#2a2d3a', visible: true },
+      leftPriceScale: { borderColor: '#2a2d3a', visible: true },
+      timeScale: { borderColor: '#2a2d3a', timeVisible: false },
+    })
+
+    // Holder count on the right axis, concentration (percent of circulating supply) on the left
+    const holdersSeries = chart.addSeries(LineSeries, {
+      color: '#a78bfa',
+      lineWidth: 2,
+      priceScaleId: 'right',
+      priceFormat: { type: 'price', precision: 0, minMove: 1 },
+      title: 'Holders',
+    })
+    const top10Series = chart.addSeries(LineSeries, {
+      color: '#22d3ee',
+      lineWidth: 1,
+      priceScaleId: 'left',
+      priceFormat: { type: 'percent', precision: 1 },
+      title: 'Top 10',
+    })
+    const creatorSeries = chart.addSeries(LineSeries, {
+      color: '#f59e0b',
+      lineWidth: 1,
+      lineStyle: 1,
+      priceScaleId: 'left',
+      priceFormat: { type: 'percent', precision: 1 },
+      title: 'Creator',
+    })
+
+    holdersSeries.setData(snapshots.map(s => ({ time: s.time as Time, value: s.holderCount })))
+    top10Series.setData(snapshots.map(s => ({ time: s.time as Time, value: s.top10Share * 100 })))
+    creatorSeries.setData(snapshots.map(s => ({ time: s.time as Time, value: s.creatorShare * 100 })))
+    chart.timeScale().fitContent()
+
+    return () => {
+      chart.remove()
+    }
+  }, [snapshots])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="text-gray-400">Loading holder history...</div>
+      </div>
+    )
+  }
+
+  if (snapshots.length === 0) {
+    return null
+  }
+
+  const latest = snapshots[snapshots.length - 1]
+  const stats = [
+    { label: 'Holders', value: latest.holderCount.toString() },
+    { label: 'Top 10', value: formatPercent(latest.top10Share) },
+    { label: 'Creator', value: formatPercent(latest.creatorShare) },
+    { label: 'Gini', value: latest.gini.toFixed(2) },
+  ]
+  const buckets = [
+    { label: '< 0.1%', value: latest.buckets.under0_1pct },
+    { label: '0.1–1%', value: latest.buckets.from0_1To1pct },
+    { label: '1–5%', value: latest.buckets.from1To5pct },
+    { label: '≥ 5%', value: latest.buckets.over5pct },
+  ]
+
+  return (
+    <div className="w-full bg-transparent text-xs">
+      <div className="mb-3 grid grid-cols-4 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="border border-[#2a2d3a] p-2">
+            <div className="text-gray-400">{stat.label}</div>
+            <div className="text-sm text-white">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div ref={chartContainerRef} className="h-56 w-full" />
+
+      <div className="mt-2 flex flex-wrap gap-3 text-gray-400">
+        <span>Holders by share of supply:</span>
+        {buckets.map(bucket => (
+          <span key={bucket.label}>
+            {bucket.label} <span className="text-white">{bucket.value}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react'
 import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, ExternalLink } from 'lucide-react'
-import { megaethTestnet, megaethMainnet, sepoliaTestnet } from '@/lib/chains'
+import { explorerAddressUrl } from '@/lib/chains'
 import { useChainId } from 'wagmi'
 import { formatLargeNumber } from '@/lib/displayFormats'
 import { formatPriceMetaMask } from '@/lib/ui-utils'
@@ -32,16 +32,7 @@ export default function HoldersTable({ tokenId }: HoldersTableProps) {
 
   // Get explorer URL based on chain
   const getExplorerUrl = (address: string) => {
-    switch (chainId) {
-      case megaethTestnet.id:
-        return `https://testnet.megaeth.org/address/${address}`
-      case megaethMainnet.id:
-        return `https://megaeth.org/address/${address}`
-      case sepoliaTestnet.id:
-        return `https://sepolia.etherscan.io/address/${address}`
-      default:
-        return `https://etherscan.io/address/${address}`
-    }
+    return explorerAddressUrl(chainId, address) ?? `https://etherscan.io/address/${address}`
   }
 
   // Format token amount using same logic as TransactionTable
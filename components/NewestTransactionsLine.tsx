@@ -3,7 +3,9 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { useChainId } from 'wagmi'
 import TransactionCard from './TransactionCard'
-import { useNewestTransactions } from '@/hooks/useSWR'
+import { useNewestTransactions, newestTransactionsKey } from '@/hooks/useSWR'
+import { useTokenStream, useTrailingCallback } from '@/hooks/useTokenStream'
+import type { StreamEvent } from '@/lib/streamEvents'
 import { mutate } from 'swr'
 
 interface Transaction {
@@ -28,8 +30,12 @@ export default function NewestTransactionsLine() {
   const previousTransactionsRef = useRef<Transaction[]>([])
   const isFirstRunRef = useRef(true)
 
-  // Use SWR for newest transactions
-  const { data: transactionData, isLoading } = useNewestTransactions(chainId)
+  // Live trades trigger a refetch; SWR polling takes over while the stream is down
+  const refreshOnTrade = useTrailingCallback(() => mutate(newestTransactionsKey(chainId)), 1000)
+  const streamConnected = useTokenStream({ chainId }, useCallback((event: StreamEvent) => {
+    if (event.type !== 'token') refreshOnTrade()
+  }, [refreshOnTrade]))
+  const { data: transactionData, isLoading } = useNewestTransactions(chainId, streamConnected)
   const transactions = useMemo(() => transactionData?.transactions || [], [transactionData?.transactions])
 
   // Handle sync logic when transactions data changes
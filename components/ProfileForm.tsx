@@ -4,6 +4,8 @@ import { useState, useEffect, useCallback } from 'react'
 import { useAccount } from 'wagmi'
 import { Input, TextArea } from '@/components/ui/FormInputs'
 import LogoContainer from './LogoContainer'
+import WalletPnlPanel from './WalletPnlPanel'
+import { useWalletSession } from '@/hooks/useWalletSession'
 
 type ProfileFormData = {
   displayName: string
@@ -11,7 +13,8 @@ type ProfileFormData = {
 }
 
 export default function ProfileForm() {
-  const { address } = useAccount()
+  const { address, chain } = useAccount()
+  const { ensureSession } = useWalletSession()
   
   const [form, setForm] = useState<ProfileFormData>({
     displayName: '',
@@ -182,6 +185,8 @@ export default function ProfileForm() {
         avatarAssetId: finalAvatarAssetId,
       })
       
+      await ensureSession()
+
       const res = await fetch('/api/profile', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -196,7 +201,7 @@ export default function ProfileForm() {
       if (!res.ok) {
         const err = await res.json()
         console.error('❌ Save profile failed:', err)
-        throw new Error(err.message || 'Failed to save profile')
+        throw new Error(err.message || err.error || 'Failed to save profile')
       }
 
       const saveResult = await res.json()
@@ -231,6 +236,8 @@ export default function ProfileForm() {
     
     setIsRemovingAvatar(true)
     try {
+      await ensureSession()
+
       // Update profile to remove avatar_asset_id
       const response = await fetch('/api/profile', {
         method: 'POST',
@@ -425,6 +432,13 @@ export default function ProfileForm() {
           {isSaving ? 'Saving...' : isUploading ? 'Uploading...' : 'Save Profile'}
         </button>
       </form>
+
+      {address && (
+        <div className="mt-8">
+          <h2 className="text-sm font-semibold text-white mb-3">Trading PnL</h2>
+          <WalletPnlPanel wallet={address} chainId={chain?.id} />
+        </div>
+      )}
     </div>
   )
 }
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { usePublicClient, useWriteContract } from 'wagmi'
 import { ethers } from 'ethers'
 import type { InterfaceAbi } from 'ethers'
@@ -12,6 +12,10 @@ import { useSync } from '@/lib/SyncContext'
 import { formatPriceMetaMask } from '@/lib/ui-utils'
 import HashDisplay from '@/components/ui/HashDisplay'
 import { getUsdPrice } from '@/lib/getUsdPrice'
+import { fetchQuote } from '@/lib/fetchQuote'
+import type { TradeQuote } from '@/lib/tradeQuote'
+import { readCurveSnapshot, saleCapRemaining } from '@/lib/bondingCurve'
+import type { CurveSnapshot } from '@/lib/bondingCurve'
 
 const TURBO_ABI_ETHERS = TurboTokenABI.abi as InterfaceAbi
 
@@ -24,51 +28,51 @@ export default function PublicBuySection({
 }) {
   const { triggerSync } = useSync()
   const [amount, setAmount] = useState<number>(1.0)
-  const [price, setPrice] = useState<string>('0')
-  const [loadingPrice, setLoadingPrice] = useState(false)
+  const [curve, setCurve] = useState<CurveSnapshot | null>(null)
+  const [quote, setQuote] = useState<TradeQuote | null>(null)
   const [txHash, setTxHash] = useState<`0x${string}` | null>(null)
   const [isPending, setIsPending] = useState(false)
   const [showSuccess, setShowSuccess] = useState(false)
   const [errorMessage, setErrorMessage] = useState<string>('')
   const [maxAvailableAmount, setMaxAvailableAmount] = useState<number>(0)
   const [usdPrice, setUsdPrice] = useState<number | null>(null)
+  const quoteReqIdRef = useRef(0)
 
   const { writeContractAsync } = useWriteContract()
   const publicClient = usePublicClient()
   const refreshWallet = useWalletRefresh()
 
-  // ✅ Load real sale cap from chain: maxSaleSupply - totalSupply
-  useEffect(() => {
-    const loadSaleRemaining = async () => {
-      try {
-        const provider = new ethers.BrowserProvider(window.ethereum)
-        const signer = await provider.getSigner()
-        const contract = new ethers.Contract(token.contract_address, TURBO_ABI_ETHERS, signer)
+  const readCurve = useCallback(async () => {
+    const provider = new ethers.BrowserProvider(window.ethereum)
+    const signer = await provider.getSigner()
+    const contract = new ethers.Contract(token.contract_address, TURBO_ABI_ETHERS, signer)
+    return readCurveSnapshot(contract)
+  }, [token.contract_address])
 
-        const [maxSaleSupplyWei, totalSupplyWei] = await Promise.all([
-          contract.maxSaleSupply(),
-          contract.totalSupply(),
-        ])
-
-        const remaining = Number(ethers.formatUnits(maxSaleSupplyWei - totalSupplyWei, 18))
-        const safe = Math.max(0, remaining)
-        setMaxAvailableAmount(safe)
-        setAmount(a => Math.min(a, safe || 0))
-      } catch (e) {
-        console.error('[PublicBuy] loadSaleRemaining failed', e)
-        setMaxAvailableAmount(0)
-      }
+  // ✅ Load curve state from chain for the sale cap (maxSaleSupply - totalSupply); prices come from /api/quote
+  const loadCurve = useCallback(async () => {
+    try {
+      const snapshot = await readCurve()
+      const safe = Number(ethers.formatUnits(saleCapRemaining(snapshot), 18))
+      setCurve(snapshot)
+      setMaxAvailableAmount(safe)
+      setAmount(a => Math.min(a, safe || 0))
+    } catch (e) {
+      console.error('[PublicBuy] loadCurve failed', e)
+      setCurve(null)
+      setMaxAvailableAmount(0)
     }
-    if (token?.contract_address) loadSaleRemaining()
-  }, [token?.contract_address])
+  }, [readCurve])
+
+  useEffect(() => {
+    if (token?.contract_address) loadCurve()
+  }, [token?.contract_address, loadCurve])
 
   // Load USD price for ETH
   useEffect(() => {
     getUsdPrice().then(setUsdPrice)
   }, [])
 
-  const isBusy = loadingPrice || isPending
-
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     let val = parseFloat(e.target.value)
     if (isNaN(val)) val = 1
@@ -79,58 +83,51 @@ export default function PublicBuySection({
     setErrorMessage('')
   }
 
-  const fetchPrice = useCallback(async () => {
-    if (!amount || amount <= 0) return
-    setLoadingPrice(true)
-    setPrice('0')
-    setShowSuccess(false)
-
-    try {
-      const provider = new ethers.BrowserProvider(window.ethereum)
-      const signer = await provider.getSigner()
-      const contract = new ethers.Contract(token.contract_address, TURBO_ABI_ETHERS, signer)
-      const amountInt = ethers.parseUnits(amount.toString(), 18)
-      const priceBigInt = await contract.getPrice(amountInt)
-      setPrice(ethers.formatEther(priceBigInt))
-    } catch (err) {
-      console.error('Failed to fetch price:', err)
-      setPrice('0')
-    }
-
-    setLoadingPrice(false)
-  }, [amount, token.contract_address])
-
-  // Auto-fetch price when amount changes (with debounce to prevent input focus loss)
+  // Exact-out quote from the shared quote API (debounced + anti-race); re-quoted whenever the curve is re-read
   useEffect(() => {
-    if (amount > 0) {
-      const timeoutId = setTimeout(() => {
-        fetchPrice()
-      }, 500) // 500ms debounce
-      
-      return () => clearTimeout(timeoutId)
-    } else {
-      setPrice('0')
+    if (!curve || !amount || amount <= 0) {
+      setQuote(null)
+      return
     }
-  }, [amount, fetchPrice])
+    const reqId = ++quoteReqIdRef.current
+    const timeoutId = setTimeout(() => {
+      fetchQuote({ tokenId: token.id, side: 'buy', amountOut: ethers.parseUnits(amount.toString(), 18) })
+        .then(next => {
+          if (quoteReqIdRef.current === reqId) setQuote(next.venue === 'bonding_curve' ? next : null)
+        })
+        .catch(err => {
+          console.error('Failed to quote buy:', err)
+          if (quoteReqIdRef.current === reqId) setQuote(null)
+        })
+    }, 300)
+    return () => clearTimeout(timeoutId)
+  }, [amount, curve, token.id])
+
+  const price = quote ? ethers.formatEther(quote.amountIn) : '0'
 
   const handleBuy = async () => {
-    if (!amount || price === '0') return
+    if (!amount || !quote) return
     setShowSuccess(false)
     setErrorMessage('')
     setIsPending(true)
 
     try {
-      const amountWei = ethers.parseUnits(amount.toString(), 18)
+      // Re-quote against fresh supply; msg.value covers getPrice(amount) plus slippage and the contract refunds the rest
+      const fresh = await fetchQuote({ tokenId: token.id, side: 'buy', amountOut: BigInt(quote.amountOut) })
+      if (fresh.venue !== 'bonding_curve') throw new Error('Token has graduated; trade it on the DEX')
+      if (fresh.exceedsSaleCap) throw new Error('Exceeds sale cap (70%)')
+
       const hash = await writeContractAsync({
         address: token.contract_address as `0x${string}`,
         abi: TurboTokenABI.abi, // wagmi accepts this fine
         functionName: 'buy',
-        args: [amountWei],
-        value: ethers.parseEther(price),
+        args: [BigInt(fresh.amountOut)],
+        value: BigInt(fresh.maxAmountIn),
       })
       setTxHash(hash)
     } catch (err) {
       console.error('Transaction failed:', err)
+      setErrorMessage(err instanceof Error && /sale cap|graduated/.test(err.message) ? err.message : '')
       setIsPending(false)
     }
   }
@@ -154,12 +151,13 @@ export default function PublicBuySection({
         setShowSuccess(true)
         setTxHash(null)
         if (refreshWallet) refreshWallet()
+        loadCurve()
 
         try {
           await fetch('/api/update-token', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ contractAddress: token.contract_address }),
+            body: JSON.stringify({ tokenId: token.id }),
           })
 
           await fetch('/api/sync', {
@@ -190,7 +188,7 @@ export default function PublicBuySection({
     }
 
     waitForTx()
-  }, [txHash, publicClient, refreshWallet, onSuccess, token, triggerSync])
+  }, [txHash, publicClient, refreshWallet, onSuccess, token, triggerSync, loadCurve])
 
   const priceInfo = formatPriceMetaMask(Number(price || 0))
   
@@ -283,10 +281,10 @@ export default function PublicBuySection({
         min={1}
         max={maxAvailableAmount}
         placeholder="e.g. 1.5"
-        disabled={isBusy}
+        disabled={isPending}
       />
 
-      {price !== '0' && (
+      {quote && price !== '0' && (
         <>
           <div className="mt-2 text-sm text-gray-300 text-center">
             Total cost: <strong>{renderPrice()} ETH</strong>
@@ -332,6 +330,14 @@ export default function PublicBuySection({
                 })()}
               </div>
             )}
+            <div className="text-xs text-gray-500 mt-1">
+              incl. 1% fee: {ethers.formatEther(quote.fee.amount)} ETH
+            </div>
+            {quote.willGraduate && (
+              <div className="text-xs text-purple-400 mt-1">
+                This buy reaches the raise target and graduates the token
+              </div>
+            )}
           </div>
 
           <button
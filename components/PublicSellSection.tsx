@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useState, useCallback, useRef } from 'react'
 import { usePublicClient, useWriteContract } from 'wagmi'
 import { ethers } from 'ethers'
 import TurboTokenABI from '@/lib/abi/TurboToken.json'
@@ -11,6 +11,8 @@ import { useSync } from '@/lib/SyncContext'
 import { formatPriceMetaMask } from '@/lib/ui-utils'
 import HashDisplay from '@/components/ui/HashDisplay'
 import { getUsdPrice } from '@/lib/getUsdPrice'
+import { fetchQuote } from '@/lib/fetchQuote'
+import type { TradeQuote } from '@/lib/tradeQuote'
 
 export default function PublicSellSection({
   token,
@@ -21,28 +23,29 @@ export default function PublicSellSection({
 }) {
   const { triggerSync } = useSync()
   const [amount, setAmount] = useState<number>(1)
-  const [ethReceived, setEthReceived] = useState<string>('0')
-  const [loadingPrice, setLoadingPrice] = useState(false)
+  const [balanceWei, setBalanceWei] = useState<bigint | null>(null)
+  const [quote, setQuote] = useState<TradeQuote | null>(null)
   const [txHash, setTxHash] = useState<`0x${string}` | null>(null)
   const [isPending, setIsPending] = useState(false)
   const [showSuccess, setShowSuccess] = useState(false)
   const [maxSellable, setMaxSellable] = useState<number>(0)
   const [usdPrice, setUsdPrice] = useState<number | null>(null)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const quoteReqIdRef = useRef(0)
 
   const { writeContractAsync } = useWriteContract()
   const publicClient = usePublicClient()
   const refreshWallet = useWalletRefresh()
-  const isBusy = loadingPrice || isPending
 
   const fetchBalance = useCallback(async () => {
     try {
       const provider = new ethers.BrowserProvider(window.ethereum)
       const signer = await provider.getSigner()
       const contract = new ethers.Contract(token.contract_address, TurboTokenABI.abi, signer)
-      const balance = await contract.balanceOf(signer.address)
+      const balance: bigint = await contract.balanceOf(signer.address)
       const formatted = parseFloat(ethers.formatUnits(balance, 18))
       setMaxSellable(formatted)
+      setBalanceWei(balance)
     } catch (err) {
       console.error('Failed to fetch token balance:', err)
     }
@@ -62,40 +65,28 @@ export default function PublicSellSection({
     setErrorMessage(null)
   }
 
-  const fetchSellPrice = useCallback(async () => {
-    if (!amount || amount <= 0 || isNaN(amount)) return
-    setLoadingPrice(true)
-    setEthReceived('0')
-    setShowSuccess(false)
-    setErrorMessage(null)
-
-    try {
-      const provider = new ethers.BrowserProvider(window.ethereum)
-      const signer = await provider.getSigner()
-      const contract = new ethers.Contract(token.contract_address, TurboTokenABI.abi, signer)
-      const amountInt = ethers.parseUnits(amount.toString(), 18)
-      const priceBigInt = await contract.getSellPrice(amountInt)
-      setEthReceived(ethers.formatEther(priceBigInt))
-    } catch (err) {
-      console.error('Failed to fetch sell price:', err)
-      setEthReceived('0')
-    }
-
-    setLoadingPrice(false)
-  }, [amount, token.contract_address])
-
-  // Auto-fetch sell price when amount changes (with debounce to prevent input focus loss)
+  // Exact-in quote from the shared quote API (debounced + anti-race); the payout is net of the 1.5% sell fee.
+  // Re-quoted whenever the balance is re-read (after trades)
   useEffect(() => {
-    if (amount > 0) {
-      const timeoutId = setTimeout(() => {
-        fetchSellPrice()
-      }, 500) // 500ms debounce
-      
-      return () => clearTimeout(timeoutId)
-    } else {
-      setEthReceived('0')
+    if (balanceWei === null || !amount || amount <= 0 || isNaN(amount)) {
+      setQuote(null)
+      return
     }
-  }, [amount, fetchSellPrice])
+    const reqId = ++quoteReqIdRef.current
+    const timeoutId = setTimeout(() => {
+      fetchQuote({ tokenId: token.id, side: 'sell', amountIn: ethers.parseUnits(amount.toString(), 18) })
+        .then(next => {
+          if (quoteReqIdRef.current === reqId) setQuote(next.venue === 'bonding_curve' ? next : null)
+        })
+        .catch(err => {
+          console.error('Failed to quote sell:', err)
+          if (quoteReqIdRef.current === reqId) setQuote(null)
+        })
+    }, 300)
+    return () => clearTimeout(timeoutId)
+  }, [amount, balanceWei, token.id])
+
+  const ethReceived = quote ? ethers.formatEther(quote.amountOut) : '0'
 
   // Load USD price for ETH
   useEffect(() => {
@@ -155,7 +146,7 @@ export default function PublicSellSection({
             await fetch('/api/update-token', {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ contractAddress: token.contract_address }),
+              body: JSON.stringify({ tokenId: token.id }),
             })
 
             await fetch('/api/sync', {
@@ -284,10 +275,10 @@ export default function PublicSellSection({
         min={0}
         max={maxSellable}
         placeholder="e.g. 10.0"
-        disabled={isBusy}
+        disabled={isPending}
       />
 
-      {ethReceived !== '0' && (
+      {quote && ethReceived !== '0' && (
         <>
           {!isNaN(Number(ethReceived)) && ethReceived !== '0' && (
             <div className="mt-2 text-sm text-gray-300 text-center">
@@ -334,6 +325,9 @@ export default function PublicSellSection({
                   })()}
                 </div>
               )}
+              <div className="text-xs text-gray-500 mt-1">
+                after 1.5% fee: {ethers.formatEther(quote.fee.amount)} ETH
+              </div>
             </div>
           )}
 
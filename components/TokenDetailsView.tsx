@@ -7,13 +7,13 @@ import {
   usePublicClient,
   useWriteContract,
 } from 'wagmi';
-import { useState, useEffect, useMemo, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import TurboTokenABI from '@/lib/abi/TurboToken.json';
 import CreatorBuySection from './CreatorBuySection';
 import PublicBuySection from './PublicBuySection';
 import AirdropForm from './AirdropForm';
 import AirdropClaimForm from './AirdropClaimForm';
-import { megaethTestnet, megaethMainnet, sepoliaTestnet } from '@/lib/chains';
+import { chainsById } from '@/lib/chains';
 import {
   Copy,
   Check,
@@ -29,6 +29,7 @@ import DexBuySection from './DexBuySection';
 import DexSellSection from './DexSellSection';
 import TransactionTable from './TransactionTable';
 import HoldersTable from './HoldersTable';
+import HolderHistoryChart from './HolderHistoryChart';
 import { useSync } from '@/lib/SyncContext';
 import { formatLargeNumber } from '@/lib/displayFormats';
 import { checkIfTokenOnDex } from '@/lib/checkDexListing';
@@ -37,6 +38,8 @@ import LogoContainer from './LogoContainer';
 import ExternalImageContainer from './ExternalImageContainer';
 import UserProfile from './UserProfile';
 import { formatPriceMetaMask } from '@/lib/ui-utils';
+import { useTokenStream } from '@/hooks/useTokenStream';
+import type { StreamEvent } from '@/lib/streamEvents';
 
 type TokenDetailsViewProps = {
   token: Token;
@@ -46,7 +49,7 @@ type TokenDetailsViewProps = {
 };
 
 export default function TokenDetailsView({
-  token,
+  token: fetchedToken,
   usdPrice,
   onBack,
   onRefresh,
@@ -57,6 +60,24 @@ export default function TokenDetailsView({
   const { writeContractAsync } = useWriteContract();
   const { triggerSync } = useSync();
 
+  // Market fields pushed by the live stream, shown over the last fetched token until it is refetched
+  const [liveFields, setLiveFields] = useState<Partial<Token>>({});
+  useEffect(() => setLiveFields({}), [fetchedToken]);
+  useTokenStream({ tokenId: fetchedToken.id }, useCallback((event: StreamEvent) => {
+    if (event.type !== 'token') return;
+    setLiveFields({
+      ...(event.currentPrice !== null && { current_price: event.currentPrice }),
+      ...(event.marketCap !== null && { market_cap: event.marketCap }),
+      ...(event.fdv !== null && { fdv: event.fdv }),
+      ...(event.ethRaised !== null && { eth_raised: event.ethRaised }),
+      ...(event.holderCount !== null && { holder_count: event.holderCount }),
+      ...(event.volume24hEth !== null && { volume_24h_eth: event.volume24hEth }),
+      is_graduated: event.isGraduated,
+      on_dex: event.onDex,
+    });
+  }, []));
+  const token = useMemo(() => ({ ...fetchedToken, ...liveFields }), [fetchedToken, liveFields]);
+
   const [copied, setCopied] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [isUnlocking, setIsUnlocking] = useState(false);
@@ -79,13 +100,7 @@ export default function TokenDetailsView({
     !!address && address.toLowerCase() === token.creator_wallet.toLowerCase();
   const contract_address = token.contract_address;
 
-  const chainMap = {
-    [megaethTestnet.id]: megaethTestnet,
-    [megaethMainnet.id]: megaethMainnet,
-    [sepoliaTestnet.id]: sepoliaTestnet,
-  } as const;
-
-  const chain = chainMap[chainId as keyof typeof chainMap];
+  const chain = chainsById[chainId];
   const explorerBaseUrl = chain?.blockExplorers?.default.url ?? '';
   const explorerLink = `${explorerBaseUrl}/address/${token.contract_address}`;
 
@@ -855,7 +870,10 @@ export default function TokenDetailsView({
               {/* Holders Table - appears below buttons */}
               {showHolders && (
                 <div className="mt-3 border border-[#2a2d3a] bg-transparent p-3">
-                  <HoldersTable tokenId={token.id} />
+                  <HolderHistoryChart tokenId={token.id} />
+                  <div className="mt-4">
+                    <HoldersTable tokenId={token.id} />
+                  </div>
                 </div>
               )}
 
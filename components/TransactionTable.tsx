@@ -2,10 +2,15 @@
 
 import React, { useState, useEffect, useCallback, memo } from 'react'
 import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, ExternalLink } from 'lucide-react'
-import { megaethTestnet, megaethMainnet, sepoliaTestnet } from '@/lib/chains'
+import { chainsById } from '@/lib/chains'
 import { useChainId } from 'wagmi'
 import { formatLargeNumber } from '@/lib/displayFormats'
 import { formatPriceMetaMask } from '@/lib/ui-utils'
+import { useTokenStream, useTrailingCallback } from '@/hooks/useTokenStream'
+import type { StreamEvent } from '@/lib/streamEvents'
+
+// Refresh interval while the live trade stream is unavailable
+const FALLBACK_POLL_MS = 60000
 
 interface Transaction {
   block_time: string
@@ -48,13 +53,7 @@ export default function TransactionTable({ tokenId, tokenSymbol, creatorWallet }
   })
 
   // Chain explorer setup
-  const chainMap = {
-    [megaethTestnet.id]: megaethTestnet,
-    [megaethMainnet.id]: megaethMainnet,
-    [sepoliaTestnet.id]: sepoliaTestnet,
-  } as const
-
-  const chain = chainMap[chainId as keyof typeof chainMap]
+  const chain = chainsById[chainId]
   const explorerBaseUrl = chain?.blockExplorers?.default.url ?? ''
 
   const pageSize = 20
@@ -71,9 +70,9 @@ export default function TransactionTable({ tokenId, tokenSymbol, creatorWallet }
   TraderDisplay.displayName = 'TraderDisplay'
 
 
-  // Fetch transactions
-  const fetchTransactions = useCallback(async (page: number = 1) => {
-    setLoading(true)
+  // Fetch transactions (`showLoading` false for background refreshes)
+  const fetchTransactions = useCallback(async (page: number = 1, showLoading: boolean = true) => {
+    if (showLoading) setLoading(true)
     try {
       const params = new URLSearchParams({
         tokenId: tokenId.toString(),
@@ -96,7 +95,7 @@ export default function TransactionTable({ tokenId, tokenSymbol, creatorWallet }
     } catch (error) {
       console.error('Failed to fetch transactions:', error)
     } finally {
-      setLoading(false)
+      if (showLoading) setLoading(false)
     }
   }, [tokenId, creatorWallet, filters.side, filters.maker])
 
@@ -104,6 +103,18 @@ export default function TransactionTable({ tokenId, tokenSymbol, creatorWallet }
     fetchTransactions(1)
   }, [tokenId, filters, fetchTransactions])
 
+  // New trades refresh the current page in place; poll while the live stream is down
+  const refreshCurrentPage = useTrailingCallback(() => fetchTransactions(currentPage, false), 1000)
+  const streamConnected = useTokenStream({ tokenId }, useCallback((event: StreamEvent) => {
+    if (event.type !== 'token') refreshCurrentPage()
+  }, [refreshCurrentPage]))
+
+  useEffect(() => {
+    if (streamConnected) return
+    const id = setInterval(refreshCurrentPage, FALLBACK_POLL_MS)
+    return () => clearInterval(id)
+  }, [streamConnected, refreshCurrentPage])
+
 
   // Get trader address based on transaction type
   const getTraderAddress = (transaction: Transaction): string => {
@@ -0,0 +1,106 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useWalletPnl } from '@/hooks/useSWR'
+import { formatLargeNumber } from '@/lib/displayFormats'
+
+type WalletPnlPanelProps = {
+  wallet: string
+  chainId?: number
+  className?: string
+}
+
+const formatUsd = (value: number) => `${value < 0 ? '-' : ''}$${formatLargeNumber(Math.abs(value))}`
+
+const formatSignedUsd = (value: number) => `${value > 0 ? '+' : ''}${formatUsd(value)}`
+
+const pnlColor = (value: number) => (value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-white')
+
+export default function WalletPnlPanel({ wallet, chainId, className = '' }: WalletPnlPanelProps) {
+  const router = useRouter()
+  const { data, error, isLoading } = useWalletPnl(wallet, chainId)
+
+  if (isLoading) {
+    return <div className={`text-sm text-zinc-400 ${className}`}>Loading PnL...</div>
+  }
+
+  if (error || !data) {
+    return <div className={`text-sm text-red-400 ${className}`}>Failed to load PnL</div>
+  }
+
+  const { totals, positions } = data
+
+  const stats = [
+    { label: 'Holdings Value', value: formatUsd(totals.valueUsd), color: 'text-white' },
+    { label: 'Realized PnL', value: formatSignedUsd(totals.realizedPnlUsd), color: pnlColor(totals.realizedPnlUsd) },
+    { label: 'Unrealized PnL', value: formatSignedUsd(totals.unrealizedPnlUsd), color: pnlColor(totals.unrealizedPnlUsd) },
+    { label: 'Fees Paid', value: formatUsd(totals.feesPaidUsd), color: 'text-white' },
+  ]
+
+  return (
+    <div className={className}>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="rounded-lg border border-[#2a2d3a] bg-[#1b1e2b] p-3">
+            <div className="text-[11px] text-zinc-400">{stat.label}</div>
+            <div className={`text-sm font-semibold ${stat.color}`}>{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {positions.length === 0 ? (
+        <div className="text-center py-8 text-zinc-400">No trades found</div>
+      ) : (
+        <div className="space-y-2">
+          {positions.map(position => (
+            <div
+              key={`${position.chainId}:${position.tokenId}`}
+              onClick={() => router.push(`/?selected=${position.tokenId}`)}
+              className="flex items-center gap-3 p-3 rounded-lg border border-[#2a2d3a] bg-[#1b1e2b] cursor-pointer hover:border-purple-400/50 hover:bg-[#2a2d3a] transition-all duration-200"
+            >
+              {/* Token Logo */}
+              <div className="relative h-10 w-10 overflow-hidden rounded-lg bg-[#0f111a] ring-1 ring-[#2a2d3a] flex-shrink-0">
+                {position.logoUrl ? (
+                  <img src={position.logoUrl} alt={position.symbol} className="h-full w-full object-cover" />
+                ) : (
+                  <div className="h-full w-full flex items-center justify-center text-white font-bold text-sm">
+                    {position.symbol[0]}
+                  </div>
+                )}
+              </div>
+
+              {/* Token Info */}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-semibold text-white truncate">{position.symbol}</div>
+                <div className="text-[11px] text-zinc-400">
+                  {position.buys} buys · {position.sells} sells
+                  {position.position > 0 && ` · ${formatLargeNumber(position.position)} held`}
+                </div>
+              </div>
+
+              {/* Values */}
+              <div className="flex gap-6 text-right flex-shrink-0">
+                <div className="w-20">
+                  <div className="text-[11px] text-zinc-400">Value</div>
+                  <div className="text-sm font-medium text-white">{formatUsd(position.valueUsd)}</div>
+                </div>
+                <div className="w-20">
+                  <div className="text-[11px] text-zinc-400">Realized</div>
+                  <div className={`text-sm font-medium ${pnlColor(position.realizedPnlUsd)}`}>
+                    {formatSignedUsd(position.realizedPnlUsd)}
+                  </div>
+                </div>
+                <div className="w-20">
+                  <div className="text-[11px] text-zinc-400">Unrealized</div>
+                  <div className={`text-sm font-medium ${pnlColor(position.unrealizedPnlUsd)}`}>
+                    {position.position > 0 ? formatSignedUsd(position.unrealizedPnlUsd) : '—'}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,23 +2,22 @@
 
 import { ReactNode, useState } from 'react'
 import { WagmiProvider } from 'wagmi'
-import { http } from 'wagmi'
+import { http, fallback } from 'wagmi'
+import type { Chain } from 'viem'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { RainbowKitProvider, getDefaultConfig } from '@rainbow-me/rainbowkit'
 import '@rainbow-me/rainbowkit/styles.css'
 
-import { megaethTestnet, megaethMainnet, sepoliaTestnet } from '@/lib/chains'
-import { getRpcUrl } from '@/lib/providers'
+import { supportedChains, defaultChain } from '@/lib/chains'
 
 const config = getDefaultConfig({
   appName: 'Turbo Launch',
   projectId: 'YOUR_WALLETCONNECT_PROJECT_ID', // replace this!
-  chains: [megaethMainnet, megaethTestnet, sepoliaTestnet],
-  transports: {
-    [megaethMainnet.id]: http(getRpcUrl(megaethMainnet.id)),
-    [megaethTestnet.id]: http(getRpcUrl(megaethTestnet.id)),
-    [sepoliaTestnet.id]: http(getRpcUrl(sepoliaTestnet.id)),
-  },
+  chains: supportedChains as [Chain, ...Chain[]],
+  // Every registry RPC, tried in order
+  transports: Object.fromEntries(
+    supportedChains.map(chain => [chain.id, fallback(chain.rpcUrls.default.http.map(url => http(url)))])
+  ),
 
 })
 
@@ -28,7 +27,7 @@ export function Web3Providers({ children }: { children: ReactNode }) {
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
-        <RainbowKitProvider initialChain={megaethTestnet}>
+        <RainbowKitProvider initialChain={defaultChain}>
           {children}
         </RainbowKitProvider>
       </QueryClientProvider>
@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+// Test-only stand-in for the UniswapV2 router + factory used at graduation.
+// Pulls the LP tokens, mints 1 LP per wei of ETH and registers the pair.
+
+contract MockUniswapV2Pair is ERC20 {
+    address public immutable router;
+
+    constructor() ERC20("Mock LP", "MLP") {
+        router = msg.sender;
+    }
+
+    function mint(address to, uint256 amount) external {
+        require(msg.sender == router, "Not router");
+        _mint(to, amount);
+    }
+}
+
+contract MockUniswapV2Router {
+    address public constant WETH = address(0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2);
+
+    mapping(address => address) public pairs;
+
+    function factory() external view returns (address) {
+        return address(this);
+    }
+
+    function getPair(address tokenA, address tokenB) external view returns (address) {
+        return tokenB == WETH ? pairs[tokenA] : pairs[tokenB];
+    }
+
+    function addLiquidityETH(
+        address token,
+        uint amountTokenDesired,
+        uint,
+        uint,
+        address to,
+        uint
+    ) external payable returns (uint amountToken, uint amountETH, uint liquidity) {
+        IERC20(token).transferFrom(msg.sender, address(this), amountTokenDesired);
+
+        MockUniswapV2Pair pair = new MockUniswapV2Pair();
+        pairs[token] = address(pair);
+        pair.mint(to, msg.value);
+
+        return (amountTokenDesired, msg.value, msg.value);
+    }
+}
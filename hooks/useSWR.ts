@@ -1,4 +1,5 @@
 import useSWR from 'swr'
+import type { WalletPnl } from '@/lib/walletPnl'
 
 // Generic fetcher function for SWR
 const fetcher = async (url: string) => {
@@ -21,12 +22,17 @@ export function useTokenList(params: URLSearchParams) {
   })
 }
 
+export function newestTransactionsKey(chainId: number) {
+  return chainId ? `/api/newest-transactions?chainId=${chainId}` : null
+}
+
 // Custom hook for newest transactions with SWR
-export function useNewestTransactions(chainId: number) {
-  const key = chainId ? `/api/newest-transactions?chainId=${chainId}` : null
+// `live`: the trade stream is connected and triggers refetches, so polling pauses
+export function useNewestTransactions(chainId: number, live = false) {
+  const key = newestTransactionsKey(chainId)
   
   return useSWR(key, fetcher, {
-    refreshInterval: 60000, // 1 minute
+    refreshInterval: live ? 0 : 60000, // 1 minute (fallback when not live)
     revalidateOnFocus: true,
     revalidateOnReconnect: true,
     dedupingInterval: 2000,
@@ -45,4 +51,17 @@ export function useTokenData(tokenId: number, chainId: number) {
   })
 }
 
+// Custom hook for a wallet's PnL (stored by the aggregation worker, valued at current prices)
+export function useWalletPnl(wallet: string | undefined, chainId?: number) {
+  const params = chainId ? `?chainId=${chainId}` : ''
+  const key = wallet ? `/api/pnl/${wallet}${params}` : null
+
+  return useSWR<WalletPnl>(key, fetcher, {
+    refreshInterval: 120000, // 2 minutes
+    revalidateOnFocus: true,
+    revalidateOnReconnect: true,
+    dedupingInterval: 2000,
+  })
+}
+
 export { fetcher }
@@ -0,0 +1,144 @@
+'use client'
+
+import { useEffect, useRef, useState, useCallback } from 'react'
+import { STREAM_EVENT_TYPES, type StreamEvent } from '@/lib/streamEvents'
+
+// Reopen delay after the server refused the stream (EventSource only retries dropped connections itself)
+const STREAM_RETRY_MS = 30000
+
+interface TokenStreamFilter {
+  chainId?: number
+  tokenId?: number
+}
+
+interface StreamSubscriber {
+  onEvent: (event: StreamEvent) => void
+  onStatus: (connected: boolean) => void
+}
+
+// One EventSource per filter, shared by every component on the page that subscribes to it
+interface SharedStream {
+  source: EventSource | null
+  retryTimer: ReturnType<typeof setTimeout> | null
+  connected: boolean
+  subscribers: Set<StreamSubscriber>
+}
+
+const sharedStreams = new Map<string, SharedStream>()
+
+function setStatus(stream: SharedStream, connected: boolean) {
+  stream.connected = connected
+  for (const subscriber of stream.subscribers) subscriber.onStatus(connected)
+}
+
+function openStream(key: string, stream: SharedStream) {
+  const source = new EventSource(`/api/stream?${key}`)
+  stream.source = source
+  source.onopen = () => setStatus(stream, true)
+  source.onerror = () => {
+    setStatus(stream, false)
+    if (source.readyState === EventSource.CLOSED && sharedStreams.get(key) === stream) {
+      stream.retryTimer = setTimeout(() => openStream(key, stream), STREAM_RETRY_MS)
+    }
+  }
+  for (const type of STREAM_EVENT_TYPES) {
+    source.addEventListener(type, message => {
+      let event: StreamEvent
+      try {
+        event = JSON.parse((message as MessageEvent<string>).data) as StreamEvent
+      } catch (error) {
+        console.error('[useTokenStream] Failed to parse event:', error)
+        return
+      }
+      for (const subscriber of stream.subscribers) {
+        try {
+          subscriber.onEvent(event)
+        } catch (error) {
+          console.error('[useTokenStream] Failed to handle event:', error)
+        }
+      }
+    })
+  }
+}
+
+/**
+ * Join the shared stream for `key` (opened by the first subscriber); the returned function leaves it and closes
+ * the connection once nobody is subscribed
+ */
+function subscribe(key: string, subscriber: StreamSubscriber): () => void {
+  let stream = sharedStreams.get(key)
+  if (!stream) {
+    stream = { source: null, retryTimer: null, connected: false, subscribers: new Set() }
+    sharedStreams.set(key, stream)
+    openStream(key, stream)
+  }
+  stream.subscribers.add(subscriber)
+  subscriber.onStatus(stream.connected)
+
+  const joined = stream
+  return () => {
+    joined.subscribers.delete(subscriber)
+    if (joined.subscribers.size > 0) return
+    sharedStreams.delete(key)
+    if (joined.retryTimer) clearTimeout(joined.retryTimer)
+    joined.source?.close()
+  }
+}
+
+/**
+ * Subscribe to /api/stream for a chain or a token. Returns whether the stream is connected,
+ * so callers can keep polling while it is not. Components with the same filter share one connection.
+ */
+export function useTokenStream({ chainId, tokenId }: TokenStreamFilter, onEvent: (event: StreamEvent) => void): boolean {
+  const [connected, setConnected] = useState(false)
+  const onEventRef = useRef(onEvent)
+
+  useEffect(() => {
+    onEventRef.current = onEvent
+  }, [onEvent])
+
+  useEffect(() => {
+    if (!chainId && !tokenId) return
+    if (typeof EventSource === 'undefined') return
+
+    const params = new URLSearchParams()
+    if (chainId) params.set('chainId', String(chainId))
+    if (tokenId) params.set('tokenId', String(tokenId))
+
+    const unsubscribe = subscribe(params.toString(), {
+      onEvent: event => onEventRef.current(event),
+      onStatus: setConnected,
+    })
+
+    return () => {
+      unsubscribe()
+      setConnected(false)
+    }
+  }, [chainId, tokenId])
+
+  return connected
+}
+
+/**
+ * Collapse bursts of calls into one trailing call `delayMs` after the first (e.g. one refetch per block of trades)
+ */
+export function useTrailingCallback(callback: () => void, delayMs: number): () => void {
+  const callbackRef = useRef(callback)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    callbackRef.current = callback
+  }, [callback])
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+  }, [])
+
+  return useCallback(() => {
+    if (timerRef.current) return
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null
+      callbackRef.current()
+    }, delayMs)
+  }, [delayMs])
+}
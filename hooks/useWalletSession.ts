@@ -0,0 +1,18 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useAccount, useSignMessage } from 'wagmi'
+import { ensureWalletSession } from '@/lib/siwe'
+
+// Signs the connected wallet in on demand, before calling a mutating API route
+export function useWalletSession() {
+  const { address, chainId } = useAccount()
+  const { signMessageAsync } = useSignMessage()
+
+  const ensureSession = useCallback(async () => {
+    if (!address || !chainId) throw new Error('Connect your wallet first')
+    await ensureWalletSession(address, chainId, message => signMessageAsync({ message }))
+  }, [address, chainId, signMessageAsync])
+
+  return { ensureSession }
+}
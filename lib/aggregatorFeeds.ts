@@ -0,0 +1,193 @@
+// Response formats for market-data aggregators, built on lib/marketData
+//   CoinGecko: /api/aggregator/coingecko/{pairs,tickers,orderbook,historical_trades}
+//   CoinMarketCap: /api/aggregator/cmc/{summary,ticker,orderbook/<pair>,trades/<pair>}
+//
+// Pairs are identified by `<token>_<quote>` contract addresses; curve markets quote against the native
+// pseudo-address NATIVE_ETH_ADDRESS, graduated ones against the pair's WETH. Prices and amounts are
+// decimal strings in whole tokens / ETH, like both aggregators ask for.
+
+import { NextResponse } from 'next/server'
+import { formatUnits } from 'ethers'
+import { defaultChain } from './chains'
+import { RequestParamError, parseChainIdParam } from './requestParams'
+import {
+  bestBidAsk, synthesizeOrderbook,
+  type DepthLevel, type Market, type MarketStats, type MarketTrade,
+} from './marketData'
+
+export const DEFAULT_DEPTH = 100
+export const MAX_DEPTH = 500
+export const DEFAULT_TRADES_LIMIT = 500
+export const MAX_TRADES_LIMIT = 1000
+
+const TICKER_ID_RE = /^0x[0-9a-fA-F]{40}_0x[0-9a-fA-F]{40}$/
+
+function decimal(wei: bigint): string {
+  return formatUnits(wei, 18)
+}
+
+function optionalDecimal(wei: bigint | null): string | null {
+  return wei === null ? null : decimal(wei)
+}
+
+/** Chain of the feed: ?chainId=, else the default chain */
+export function feedChainId(searchParams: URLSearchParams): number {
+  return parseChainIdParam(searchParams.get('chainId')) ?? defaultChain.id
+}
+
+/** Required `<base>_<target>` pair id, lowercased */
+export function parseTickerIdParam(name: string, value: string | null): string {
+  if (value === null || value === '') throw new RequestParamError(name, `${name} is required`)
+  if (!TICKER_ID_RE.test(value)) throw new RequestParamError(name, `${name} must be <base address>_<target address>`)
+  return value.toLowerCase()
+}
+
+/**
+ * Runs a feed handler: bad params are a 400, anything else is logged and a 500. Responses are cached
+ * briefly since aggregators poll every pair on a schedule.
+ */
+export async function handleAggregatorFeed(label: string, handler: () => Promise<unknown>) {
+  try {
+    const body = await handler()
+    if (body instanceof NextResponse) return body
+    return NextResponse.json(body, { headers: { 'Cache-Control': 'public, max-age=15, stale-while-revalidate=30' } })
+  } catch (error) {
+    if (error instanceof RequestParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error(`[API] Failed to build ${label} feed:`, error)
+    return NextResponse.json({ error: `Failed to build ${label} feed` }, { status: 500 })
+  }
+}
+
+export function marketNotFound(tickerId: string) {
+  return NextResponse.json({ error: `Unknown market ${tickerId}` }, { status: 404 })
+}
+
+/** Pool TVL in USD: both sides of a pair, or the ETH held by the curve */
+function liquidityUsd(market: Market, ethPriceUsd: number | null): number | null {
+  if (ethPriceUsd === null) return null
+  const eth = Number(decimal(market.liquidityWei))
+  return (market.venue === 'dex' ? eth * 2 : eth) * ethPriceUsd
+}
+
+function priceChangePercent(market: Market, stats: MarketStats | undefined): number | null {
+  if (!stats?.openWei) return null
+  return Number(((market.priceWei - stats.openWei) * 1_000_000n) / stats.openWei) / 10_000
+}
+
+function depthPairs(levels: DepthLevel[]): [string, string][] {
+  return levels.map(level => [decimal(level.priceWei), decimal(level.amountWei)])
+}
+
+/** Orderbook `depth` counts both sides, like CoinGecko's parameter */
+function orderbookLevels(market: Market, depth: number) {
+  return synthesizeOrderbook(market, Math.max(1, Math.ceil(depth / 2)))
+}
+
+// CoinGecko
+
+export function coingeckoPairs(markets: Market[]) {
+  return markets.map(market => ({
+    ticker_id: market.tickerId,
+    base: market.base.address,
+    target: market.target.address,
+    pool_id: market.poolId,
+  }))
+}
+
+export function coingeckoTickers(markets: Market[], stats: Map<string, MarketStats>, ethPriceUsd: number | null) {
+  return markets.map(market => {
+    const day = stats.get(market.tickerId)
+    const { bidWei, askWei } = bestBidAsk(market)
+    return {
+      ticker_id: market.tickerId,
+      base_currency: market.base.address,
+      target_currency: market.target.address,
+      pool_id: market.poolId,
+      last_price: decimal(market.priceWei),
+      base_volume: decimal(day?.baseVolumeWei ?? 0n),
+      target_volume: decimal(day?.targetVolumeWei ?? 0n),
+      liquidity_in_usd: liquidityUsd(market, ethPriceUsd),
+      bid: decimal(bidWei),
+      ask: decimal(askWei),
+      high: optionalDecimal(day?.highWei ?? null),
+      low: optionalDecimal(day?.lowWei ?? null),
+    }
+  })
+}
+
+export function coingeckoOrderbook(market: Market, depth: number) {
+  const { bids, asks } = orderbookLevels(market, depth)
+  return {
+    ticker_id: market.tickerId,
+    timestamp: Date.now(),
+    bids: depthPairs(bids),
+    asks: depthPairs(asks),
+  }
+}
+
+export function coingeckoTrades(trades: MarketTrade[]) {
+  return trades.map(trade => ({
+    trade_id: trade.tradeId,
+    price: decimal(trade.priceWei),
+    base_volume: decimal(trade.baseVolumeWei),
+    target_volume: decimal(trade.targetVolumeWei),
+    trade_timestamp: trade.timestamp * 1000,
+    type: trade.type,
+  }))
+}
+
+// CoinMarketCap
+
+export function cmcSummary(markets: Market[], stats: Map<string, MarketStats>) {
+  return markets.map(market => {
+    const day = stats.get(market.tickerId)
+    const { bidWei, askWei } = bestBidAsk(market)
+    return {
+      trading_pairs: market.tickerId,
+      base_currency: market.base.address,
+      base_symbol: market.base.symbol,
+      quote_currency: market.target.address,
+      quote_symbol: market.target.symbol,
+      last_price: decimal(market.priceWei),
+      lowest_ask: decimal(askWei),
+      highest_bid: decimal(bidWei),
+      base_volume: decimal(day?.baseVolumeWei ?? 0n),
+      quote_volume: decimal(day?.targetVolumeWei ?? 0n),
+      price_change_percent_24h: priceChangePercent(market, day),
+      highest_price_24h: optionalDecimal(day?.highWei ?? null),
+      lowest_price_24h: optionalDecimal(day?.lowWei ?? null),
+    }
+  })
+}
+
+export function cmcTicker(markets: Market[], stats: Map<string, MarketStats>) {
+  return Object.fromEntries(markets.map(market => {
+    const day = stats.get(market.tickerId)
+    return [market.tickerId, {
+      base_id: market.base.address,
+      quote_id: market.target.address,
+      last_price: decimal(market.priceWei),
+      base_volume: decimal(day?.baseVolumeWei ?? 0n),
+      quote_volume: decimal(day?.targetVolumeWei ?? 0n),
+      isFrozen: 0,
+    }]
+  }))
+}
+
+export function cmcOrderbook(market: Market, depth: number) {
+  const { bids, asks } = orderbookLevels(market, depth)
+  return { timestamp: Date.now(), bids: depthPairs(bids), asks: depthPairs(asks) }
+}
+
+export function cmcTrades(trades: MarketTrade[]) {
+  return trades.map(trade => ({
+    trade_id: trade.tradeId,
+    price: decimal(trade.priceWei),
+    base_volume: decimal(trade.baseVolumeWei),
+    quote_volume: decimal(trade.targetVolumeWei),
+    timestamp: trade.timestamp * 1000,
+    type: trade.type,
+  }))
+}
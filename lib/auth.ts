@@ -0,0 +1,182 @@
+// Wallet-signature sessions for the mutating API routes.
+// Nonces and sessions live in HMAC-sealed, HTTP-only cookies, so no extra tables are needed.
+// requireTokenCreator is for creator-only writes (edit-token, mark-dex-listing). Routes any trader calls after a
+// trade (update-token, dex-update-price) stay open and only persist state read from the chain.
+
+import crypto from 'crypto'
+import { ethers } from 'ethers'
+import { NextRequest, NextResponse } from 'next/server'
+import pool from './db'
+import { parseSiweMessage } from './siwe'
+
+export const SESSION_COOKIE = 'tl_session'
+export const NONCE_COOKIE = 'tl_siwe_nonce'
+
+const SESSION_TTL_SECONDS = 24 * 60 * 60 // 1 day
+const NONCE_TTL_SECONDS = 10 * 60 // 10 minutes
+
+export type WalletSession = {
+  wallet: string // lowercase
+  chainId: number
+  exp: number // unix seconds
+}
+
+// Guards either hand back the session or a ready-made error response
+export type AuthResult = { session: WalletSession } | { response: NextResponse }
+
+function authSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (!secret) throw new Error('AUTH_SECRET is not set')
+  return secret
+}
+
+function mac(value: string): string {
+  return crypto.createHmac('sha256', authSecret()).update(value).digest('base64url')
+}
+
+function seal(payload: object): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${body}.${mac(body)}`
+}
+
+function unseal<T extends { exp: number }>(value: string | undefined): T | null {
+  if (!value) return null
+  const [body, signature] = value.split('.')
+  if (!body || !signature) return null
+
+  const expected = Buffer.from(mac(body))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString()) as T
+    return payload.exp > Math.floor(Date.now() / 1000) ? payload : null
+  } catch {
+    return null
+  }
+}
+
+function cookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge,
+  }
+}
+
+export function createNonce(): string {
+  return crypto.randomBytes(16).toString('hex')
+}
+
+/**
+ * Pin a one-time nonce to the browser so /api/auth/verify can check it
+ */
+export function setNonceCookie(res: NextResponse, nonce: string) {
+  const exp = Math.floor(Date.now() / 1000) + NONCE_TTL_SECONDS
+  res.cookies.set(NONCE_COOKIE, seal({ nonce, exp }), cookieOptions(NONCE_TTL_SECONDS))
+}
+
+/**
+ * Verify a signed SIWE message against the pending nonce and request host.
+ * Returns an error message on failure.
+ */
+export function verifySignIn(
+  req: NextRequest,
+  message: string,
+  signature: string
+): { session: WalletSession } | { error: string } {
+  const fields = parseSiweMessage(message)
+  if (!fields) return { error: 'Malformed sign-in message' }
+
+  const pending = unseal<{ nonce: string; exp: number }>(req.cookies.get(NONCE_COOKIE)?.value)
+  if (!pending || pending.nonce !== fields.nonce) return { error: 'Sign-in nonce expired or invalid' }
+
+  if (fields.domain !== req.headers.get('host')) return { error: 'Sign-in domain mismatch' }
+
+  const age = Date.now() - Date.parse(fields.issuedAt)
+  if (age < -60_000 || age > NONCE_TTL_SECONDS * 1000) return { error: 'Sign-in message expired' }
+
+  let recovered: string
+  try {
+    recovered = ethers.verifyMessage(message, signature)
+  } catch {
+    return { error: 'Invalid signature' }
+  }
+  if (recovered.toLowerCase() !== fields.address.toLowerCase()) return { error: 'Invalid signature' }
+
+  return {
+    session: {
+      wallet: recovered.toLowerCase(),
+      chainId: fields.chainId,
+      exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+    },
+  }
+}
+
+export function setSessionCookie(res: NextResponse, session: WalletSession) {
+  res.cookies.set(SESSION_COOKIE, seal(session), cookieOptions(SESSION_TTL_SECONDS))
+  res.cookies.delete(NONCE_COOKIE)
+}
+
+export function clearSessionCookie(res: NextResponse) {
+  res.cookies.delete(SESSION_COOKIE)
+}
+
+export function getSession(req: NextRequest): WalletSession | null {
+  return unseal<WalletSession>(req.cookies.get(SESSION_COOKIE)?.value)
+}
+
+function deny(status: number, error: string): AuthResult {
+  return { response: NextResponse.json({ success: false, error }, { status }) }
+}
+
+/**
+ * Require any signed-in wallet
+ */
+export function requireSession(req: NextRequest): AuthResult {
+  const session = getSession(req)
+  if (!session) return deny(401, 'Wallet sign-in required')
+  return { session }
+}
+
+/**
+ * Require the signed-in wallet to be `wallet` (profiles.wallet, creatorAddress, ...)
+ */
+export function requireWallet(req: NextRequest, wallet: string | null | undefined): AuthResult {
+  const auth = requireSession(req)
+  if ('response' in auth) return auth
+  if (!wallet || wallet.toLowerCase() !== auth.session.wallet) {
+    return deny(403, 'Signed-in wallet does not match')
+  }
+  return auth
+}
+
+/**
+ * Require the signed-in wallet to be the token's creator_wallet
+ */
+export async function requireTokenCreator(
+  req: NextRequest,
+  token: { tokenId: number | string } | { contractAddress: string }
+): Promise<AuthResult> {
+  const auth = requireSession(req)
+  if ('response' in auth) return auth
+
+  const { rows } =
+    'tokenId' in token
+      ? await pool.query<{ creator_wallet: string | null }>(
+          'SELECT creator_wallet FROM tokens WHERE id = $1',
+          [token.tokenId]
+        )
+      : await pool.query<{ creator_wallet: string | null }>(
+          'SELECT creator_wallet FROM tokens WHERE LOWER(contract_address) = LOWER($1)',
+          [token.contractAddress]
+        )
+
+  if (rows.length === 0) return deny(404, 'Token not found')
+  if (rows[0].creator_wallet?.toLowerCase() !== auth.session.wallet) {
+    return deny(403, 'Only the token creator can do this')
+  }
+  return auth
+}
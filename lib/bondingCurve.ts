@@ -0,0 +1,257 @@
+// TurboToken bonding curve in BigInt, mirroring contracts/TurboToken.sol bit for bit
+// Linear curve: price(S) = basePrice + slope * S / 1e18 (wei per whole token); buys and sells are charged
+// at the average of the prices before and after, with the contract's integer rounding.
+//
+// Fees: a buy costs getPrice(amount), of which 1% is accrued as platform fee; a sell refunds
+// getSellPrice(amount) minus 1.5%. totalRaised moves by the gross amounts (cost, full refund) and the
+// token graduates once it reaches raiseTarget. Buys are capped at 70% of maxSupply (public buys and creator
+// locks together), creator locks at 20% over the token's lifetime.
+//
+// Pure module: no RPC or database access, safe to import from the browser, the API and the workers.
+
+import type { Contract } from 'ethers'
+
+const WAD = 10n ** 18n
+const BPS = 10000n
+
+export const BUY_FEE_BPS = 100n
+export const SELL_FEE_BPS = 150n
+export const MAX_SALE_BPS = 7000n
+export const MAX_CREATOR_LOCK_BPS = 2000n
+export const MAX_AIRDROP_BPS = 1000n
+
+export interface CurveParams {
+  basePrice: bigint // wei per token
+  slope: bigint // wei per token per token, 1e18-scaled
+}
+
+/** Everything a quote depends on, as read from tokenInfo() and totalSupply() */
+export interface CurveSnapshot extends CurveParams {
+  maxSupply: bigint
+  raiseTarget: bigint
+  totalSupply: bigint
+  totalRaised: bigint
+  graduated: boolean
+}
+
+export interface CurveFlow {
+  side: string // token_transfers.side
+  amountWei: bigint
+}
+
+export interface CurveState {
+  supplyWei: bigint // totalSupply()
+  totalRaisedWei: bigint // totalRaised: gross buy costs minus gross sell refunds
+}
+
+export interface BuyQuote {
+  amount: bigint // tokens minted
+  cost: bigint // getPrice(amount): the msg.value to send
+  fee: bigint // part of `cost` accrued as platform fee
+  dust: bigint // ETH refunded by the contract (exact-in quotes only)
+  priceAfter: bigint
+  exceedsSaleCap: boolean // the contract would revert with "Exceeds sale cap (70%)"
+  graduates: boolean // this buy reaches raiseTarget and creates the pool
+}
+
+export interface SellQuote {
+  amount: bigint // tokens burned
+  refund: bigint // getSellPrice(amount), gross
+  fee: bigint
+  payout: bigint // ETH received: refund - fee
+  priceAfter: bigint
+}
+
+/**
+ * Snapshot from the contract's tokenInfo() (ethers result or plain object) and totalSupply()
+ */
+export function curveSnapshot(
+  info: {
+    _raiseTarget: bigint
+    _maxSupply: bigint
+    _basePrice: bigint
+    _slope: bigint
+    _totalRaised: bigint
+    _graduated: boolean
+  },
+  totalSupply: bigint
+): CurveSnapshot {
+  return {
+    basePrice: BigInt(info._basePrice),
+    slope: BigInt(info._slope),
+    maxSupply: BigInt(info._maxSupply),
+    raiseTarget: BigInt(info._raiseTarget),
+    totalRaised: BigInt(info._totalRaised),
+    graduated: Boolean(info._graduated),
+    totalSupply: BigInt(totalSupply),
+  }
+}
+
+/**
+ * Read a snapshot through an ethers TurboToken contract (two calls, everything else is computed locally)
+ */
+export async function readCurveSnapshot(contract: Contract): Promise<CurveSnapshot> {
+  const [info, totalSupply] = await Promise.all([contract.tokenInfo(), contract.totalSupply()])
+  return curveSnapshot(info, totalSupply)
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b
+}
+
+/**
+ * Curve parameters the constructor derives from raiseTarget and maxSupply (graduation at 1249x the base price)
+ */
+export function curveParamsFor(raiseTarget: bigint, maxSupply: bigint): CurveParams {
+  const graduateSupply = (maxSupply * MAX_SALE_BPS) / BPS
+  const c = 1249n
+  const basePrice = ceilDiv(2n * raiseTarget * WAD, graduateSupply * (1n + c))
+  const slope = ceilDiv((c - 1n) * basePrice * WAD, graduateSupply)
+  return { basePrice, slope }
+}
+
+/** getCurrentPrice() at a given totalSupply */
+export function curvePrice(params: CurveParams, supplyWei: bigint): bigint {
+  return params.basePrice + (params.slope * supplyWei) / WAD
+}
+
+/** getPrice(amount): gross cost of buying `amountWei` at `supplyWei` (the 1% fee is taken out of it) */
+export function curveBuyCost(params: CurveParams, supplyWei: bigint, amountWei: bigint): bigint {
+  const c1 = curvePrice(params, supplyWei)
+  const c2 = c1 + (params.slope * amountWei) / WAD
+  return (amountWei * ((c1 + c2) / 2n)) / WAD
+}
+
+/** getSellPrice(amount): gross refund for selling `amountWei` at `supplyWei` (before the 1.5% fee) */
+export function curveSellRefund(params: CurveParams, supplyWei: bigint, amountWei: bigint): bigint {
+  if (amountWei > supplyWei) throw new Error('Amount exceeds supply')
+  const c1 = curvePrice(params, supplyWei)
+  const c2 = c1 - (params.slope * amountWei) / WAD
+  return (amountWei * ((c1 + c2) / 2n)) / WAD
+}
+
+/** Platform fee accrued from a buy costing `cost` */
+export function buyFee(cost: bigint): bigint {
+  return (cost * BUY_FEE_BPS) / BPS
+}
+
+/** Platform fee kept from a sell refunding `refund`; the seller receives refund - fee */
+export function sellFee(refund: bigint): bigint {
+  return (refund * SELL_FEE_BPS) / BPS
+}
+
+/** maxSaleSupply(): public buys and creator locks together */
+export function maxSaleSupply(maxSupply: bigint): bigint {
+  return (maxSupply * MAX_SALE_BPS) / BPS
+}
+
+/** maxCreatorLock(): lifetime creatorBuy allowance */
+export function maxCreatorLock(maxSupply: bigint): bigint {
+  return (maxSupply * MAX_CREATOR_LOCK_BPS) / BPS
+}
+
+/** Tokens still buyable before the 70% sale cap */
+export function saleCapRemaining(snapshot: CurveSnapshot): bigint {
+  const cap = maxSaleSupply(snapshot.maxSupply)
+  return cap > snapshot.totalSupply ? cap - snapshot.totalSupply : 0n
+}
+
+/** Whether raising `cost` more reaches the graduation threshold */
+export function reachesGraduation(snapshot: CurveSnapshot, cost: bigint): boolean {
+  return snapshot.totalRaised + cost >= snapshot.raiseTarget
+}
+
+/**
+ * Exact-out buy: the cost of minting exactly `amount` tokens
+ */
+export function quoteBuyExactOut(snapshot: CurveSnapshot, amount: bigint): BuyQuote {
+  const cost = curveBuyCost(snapshot, snapshot.totalSupply, amount)
+  return {
+    amount,
+    cost,
+    fee: buyFee(cost),
+    dust: 0n,
+    priceAfter: curvePrice(snapshot, snapshot.totalSupply + amount),
+    exceedsSaleCap: amount > saleCapRemaining(snapshot),
+    graduates: reachesGraduation(snapshot, cost),
+  }
+}
+
+/**
+ * Exact-in buy: the most tokens `ethIn` pays for (getPrice(amount) <= ethIn); the rest comes back as dust.
+ * getPrice is non-decreasing in the amount, so bisection finds the exact largest amount.
+ */
+export function quoteBuyExactIn(snapshot: CurveSnapshot, ethIn: bigint): BuyQuote {
+  const startPrice = curvePrice(snapshot, snapshot.totalSupply)
+  // The average price is never below the current one and getPrice floors amount * avg / 1e18,
+  // so no affordable amount reaches (ethIn + 1) * 1e18 / startPrice
+  let hi = ((ethIn + 1n) * WAD) / (startPrice > 0n ? startPrice : 1n)
+  let lo = 0n
+  while (lo < hi) {
+    const mid = (lo + hi + 1n) / 2n
+    if (curveBuyCost(snapshot, snapshot.totalSupply, mid) <= ethIn) lo = mid
+    else hi = mid - 1n
+  }
+
+  const quote = quoteBuyExactOut(snapshot, lo)
+  return { ...quote, dust: ethIn - quote.cost }
+}
+
+/**
+ * Exact-in sell: what selling exactly `amount` tokens pays out
+ */
+export function quoteSellExactIn(snapshot: CurveSnapshot, amount: bigint): SellQuote {
+  const refund = curveSellRefund(snapshot, snapshot.totalSupply, amount)
+  const fee = sellFee(refund)
+  return {
+    amount,
+    refund,
+    fee,
+    payout: refund - fee,
+    priceAfter: curvePrice(snapshot, snapshot.totalSupply - amount),
+  }
+}
+
+/**
+ * Exact-out sell: a token amount whose payout is at least `payoutOut`, or null if selling the whole supply
+ * pays less. The refund can dip by a few wei between neighbouring amounts (integer rounding), so this is the
+ * bisection boundary rather than a proven minimum; the payout guarantee always holds.
+ */
+export function quoteSellExactOut(snapshot: CurveSnapshot, payoutOut: bigint): SellQuote | null {
+  const payoutOf = (amount: bigint) => quoteSellExactIn(snapshot, amount).payout
+  if (payoutOf(snapshot.totalSupply) < payoutOut) return null
+
+  let lo = 0n
+  let hi = snapshot.totalSupply
+  while (lo < hi) {
+    const mid = (lo + hi) / 2n
+    if (payoutOf(mid) >= payoutOut) hi = mid
+    else lo = mid + 1n
+  }
+  return quoteSellExactIn(snapshot, lo)
+}
+
+/**
+ * Replay indexed bonding-curve mints and burns (oldest first) to recover totalSupply and totalRaised.
+ * BUY / BUY&LOCK add their curve cost, SELL subtracts its refund; CLAIMAIRDROP and GRADUATION only mint.
+ */
+export function replayCurve(params: CurveParams, flows: CurveFlow[]): CurveState {
+  let supplyWei = 0n
+  let totalRaisedWei = 0n
+
+  for (const { side, amountWei } of flows) {
+    if (side === 'BUY' || side === 'BUY&LOCK') {
+      totalRaisedWei += curveBuyCost(params, supplyWei, amountWei)
+      supplyWei += amountWei
+    } else if (side === 'SELL') {
+      const burned = amountWei > supplyWei ? supplyWei : amountWei
+      const refund = curveSellRefund(params, supplyWei, burned)
+      totalRaisedWei = totalRaisedWei > refund ? totalRaisedWei - refund : 0n
+      supplyWei -= burned
+    } else if (side === 'CLAIMAIRDROP' || side === 'GRADUATION') {
+      supplyWei += amountWei
+    }
+  }
+
+  return { supplyWei, totalRaisedWei }
+}
@@ -0,0 +1,110 @@
+// Continuous candle series read from token_chart_agg, shared by the chart-data route and the UDF datafeed
+// token_chart_agg only has rows for buckets with trades; empty buckets after the first trade are filled here
+// as flat candles at the previous close (zero volume), so every reader gets the same gap handling.
+
+import pool from './db'
+import { CHART_INTERVAL_SECONDS, type ChartInterval } from './chartIntervals'
+
+export type CandleQuote = 'USD' | 'ETH'
+
+export interface Candle {
+  time: number // bucket start, Unix seconds (UTC)
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+  tradesCount: number
+}
+
+export interface CandleSeriesOptions {
+  tokenId: number
+  chainId?: number
+  interval: ChartInterval
+  quote: CandleQuote
+  from: Date
+  to: Date // exclusive
+  limit: number // newest `limit` buckets before `to` at most
+}
+
+interface CandleRow {
+  ts: Date
+  open: string
+  high: string
+  low: string
+  close: string
+  volume: string
+  trades_count: string
+}
+
+function candleColumns(quote: CandleQuote): string {
+  const unit = quote === 'ETH' ? 'eth' : 'usd'
+  return `ts, price_open_${unit} AS open, price_high_${unit} AS high, price_low_${unit} AS low,
+    price_close_${unit} AS close, volume_${unit} AS volume, trades_count`
+}
+
+function toCandle(row: CandleRow): Candle {
+  return {
+    time: Math.floor(row.ts.getTime() / 1000),
+    open: parseFloat(row.open || '0'),
+    high: parseFloat(row.high || '0'),
+    low: parseFloat(row.low || '0'),
+    close: parseFloat(row.close || '0'),
+    volume: parseFloat(row.volume || '0'),
+    tradesCount: parseInt(row.trades_count || '0'),
+  }
+}
+
+/**
+ * Gap-filled candles for buckets starting in [from, to), oldest first.
+ * Buckets before the token's first candle are left out rather than zero-filled.
+ */
+export async function loadCandleSeries(options: CandleSeriesOptions): Promise<Candle[]> {
+  const { tokenId, chainId, interval, quote, limit } = options
+  const seconds = CHART_INTERVAL_SECONDS[interval]
+
+  const lastBucket = Math.ceil(options.to.getTime() / 1000 / seconds) * seconds - seconds
+  const firstBucket = Math.max(
+    Math.floor(options.from.getTime() / 1000 / seconds) * seconds,
+    lastBucket - (limit - 1) * seconds
+  )
+  if (limit <= 0 || firstBucket > lastBucket) return []
+
+  const start = new Date(firstBucket * 1000)
+  const end = new Date(lastBucket * 1000)
+  const chainFilter = (param: number) => chainId !== undefined ? `AND chain_id = $${param}` : ''
+  const chainValues = chainId !== undefined ? [chainId] : []
+
+  const [{ rows }, { rows: seedRows }] = await Promise.all([
+    pool.query<CandleRow>(`
+      SELECT ${candleColumns(quote)}
+      FROM public.token_chart_agg
+      WHERE token_id = $1 AND interval_type = $2 AND ts >= $3 AND ts <= $4 ${chainFilter(5)}
+      ORDER BY ts ASC
+    `, [tokenId, interval, start, end, ...chainValues]),
+    // Last candle before the window: its close seeds the gaps at the start
+    pool.query<CandleRow>(`
+      SELECT ${candleColumns(quote)}
+      FROM public.token_chart_agg
+      WHERE token_id = $1 AND interval_type = $2 AND ts < $3 ${chainFilter(4)}
+      ORDER BY ts DESC
+      LIMIT 1
+    `, [tokenId, interval, start, ...chainValues]),
+  ])
+
+  const byTime = new Map(rows.map(row => [Math.floor(row.ts.getTime() / 1000), toCandle(row)]))
+  let lastClose = seedRows.length > 0 ? toCandle(seedRows[0]).close : null
+
+  const series: Candle[] = []
+  for (let time = firstBucket; time <= lastBucket; time += seconds) {
+    const candle = byTime.get(time)
+    if (candle) {
+      series.push(candle)
+      lastClose = candle.close
+    } else if (lastClose !== null) {
+      series.push({ time, open: lastClose, high: lastClose, low: lastClose, close: lastClose, volume: 0, tradesCount: 0 })
+    }
+  }
+  return series
+}
+
@@ -1,84 +1,164 @@
+// Chain registry shared by the frontend, API routes and worker.
+// Defaults live in config/chains.json; CHAINS_CONFIG / NEXT_PUBLIC_CHAINS_CONFIG (JSON array) add chains
+// or override fields by id, so adding a chain is a one-place change.
+
 import type { Chain } from 'viem'
+import chainsFile from '../config/chains.json'
 
-export const megaethTestnet: Chain & { dexBaseUrl?: string } = {
-  id: 6342,
-  name: 'MegaETH Testnet',
-  nativeCurrency: {
-    name: 'ETH',
-    symbol: 'ETH',
-    decimals: 18,
-  },
-  rpcUrls: {
-    default: {
-      http: ['https://carrot.megaeth.com/rpc'],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: 'OKLink',
-      url: 'https://www.oklink.com/megaeth-testnet',
-    },
-  },
-  testnet: true,
-  dexBaseUrl: 'https://testnet.gte.xyz/trade/spot', // ✅ GTE on MegaETH Testnet
+export type RpcEndpointConfig = {
+  url: string
+  weight: number
 }
 
-export const megaethMainnet: Chain & { dexBaseUrl?: string } = {
-  id: 9999, // Replace with real ID later
-  name: 'MegaETH Mainnet (Coming Soon)',
-  nativeCurrency: {
-    name: 'ETH',
-    symbol: 'ETH',
-    decimals: 18,
-  },
-  rpcUrls: {
-    default: {
-      http: ['https://mainnet.megaeth.com/rpc'],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: 'OKLink',
-      url: 'https://www.oklink.com/megaeth',
-    },
-  },
-  testnet: false,
-  dexBaseUrl: 'https://app.gte.xyz/trade/spot', // 🔜 placeholder for future GTE Mainnet
+export type ChainConfig = {
+  id: number
+  name: string
+  enabled?: boolean // false keeps a chain in the file without exposing it anywhere
+  envPrefix?: string // e.g. MEGAETH -> MEGAETH_RPC_URLS, MEGAETH_CHUNK, ... (server-side overrides)
+  nativeCurrency: { name: string; symbol: string; decimals: number }
+  rpcUrls: RpcEndpointConfig[]
+  walletRpcUrl?: string // public RPC offered to wallets on wallet_addEthereumChain
+  explorer: { name: string; url: string }
+  testnet: boolean
+  dex?: {
+    name: string
+    router?: string
+    factory?: string // optional: skips router.factory() lookups
+    weth?: string // optional: skips router.WETH() lookups
+    pairUrl?: string // {token} and {pair} placeholders
+  }
+  blockTimeMs: number
+  deployGasLimit?: number
+  worker?: { chunk?: number; dexChunk?: number; sleepMs?: number }
+}
+
+function readEnv(name: string): string | undefined {
+  return typeof process !== 'undefined' ? process.env[name] : undefined
 }
 
-export const sepoliaTestnet: Chain & { dexBaseUrl?: string } = {
-  id: 11155111,
-  name: 'Sepolia Testnet',
-  nativeCurrency: {
-    name: 'Sepolia ETH',
-    symbol: 'ETH',
-    decimals: 18,
-  },
-  rpcUrls: {
-    default: {
-      http: ['https://sepolia.infura.io/v3/c62e2440577446019dc4fabb2e698c53'],
+function loadChainConfigs(): ChainConfig[] {
+  const configs = new Map<number, ChainConfig>()
+  for (const chain of chainsFile as ChainConfig[]) configs.set(chain.id, chain)
+
+  // NEXT_PUBLIC_ has to be read literally so Next can inline it into the browser bundle
+  const override = readEnv('CHAINS_CONFIG') ?? process.env.NEXT_PUBLIC_CHAINS_CONFIG
+  if (override) {
+    try {
+      for (const entry of JSON.parse(override) as Array<Partial<ChainConfig> & { id: number }>) {
+        const base = configs.get(entry.id)
+        configs.set(entry.id, {
+          ...base,
+          ...entry,
+          dex: base?.dex || entry.dex ? { ...base?.dex, ...entry.dex } as ChainConfig['dex'] : undefined,
+          worker: { ...base?.worker, ...entry.worker },
+        } as ChainConfig)
+      }
+    } catch (error) {
+      console.error('[chains] Ignoring invalid CHAINS_CONFIG:', error)
+    }
+  }
+
+  return [...configs.values()].filter(chain => chain.enabled !== false)
+}
+
+export const chainConfigs: ChainConfig[] = loadChainConfigs()
+
+export const chainConfigsById: Record<number, ChainConfig> = Object.fromEntries(
+  chainConfigs.map(chain => [chain.id, chain])
+)
+
+export function getChainConfig(chainId: number): ChainConfig | undefined {
+  return chainConfigsById[chainId]
+}
+
+function toViemChain(config: ChainConfig): Chain {
+  return {
+    id: config.id,
+    name: config.name,
+    nativeCurrency: config.nativeCurrency,
+    rpcUrls: {
+      default: { http: config.rpcUrls.map(rpc => rpc.url) },
     },
-  },
-  blockExplorers: {
-    default: {
-      name: 'Etherscan',
-      url: 'https://sepolia.etherscan.io',
+    blockExplorers: {
+      default: config.explorer,
     },
-  },
-  testnet: true,
-  dexBaseUrl: 'https://sepolia.etherscan.io/address', // 👁️ Explorer only (Uniswap V2 not visible here)
+    testnet: config.testnet,
+  }
+}
+
+export const supportedChains: Chain[] = chainConfigs.map(toViemChain)
+
+// Map for easier access to full config by ID
+export const chainsById: Record<number, Chain> = Object.fromEntries(
+  supportedChains.map(chain => [chain.id, chain])
+)
+
+export const chainNamesById: Record<number, string> = Object.fromEntries(
+  chainConfigs.map(chain => [chain.id, chain.name])
+)
+
+// Chain the UI starts on
+export const defaultChain: Chain = supportedChains[0]
+
+/**
+ * RPC endpoints for a chain: <PREFIX>_RPC_URLS (`url|weight,...`) > <PREFIX>_RPC_URL > registry
+ */
+export function rpcEndpointsFor(config: ChainConfig): RpcEndpointConfig[] {
+  const prefix = config.envPrefix
+  const list = prefix ? readEnv(`${prefix}_RPC_URLS`) : undefined
+  if (list) {
+    const endpoints = list
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const [url, weight] = entry.split('|')
+        return { url: url.trim(), weight: Math.max(1, Number(weight) || 1) }
+      })
+    if (endpoints.length > 0) return endpoints
+  }
+
+  // MEGAETH_MAINNET_RPC is the historical name of the mainnet override
+  const single = prefix ? readEnv(`${prefix}_RPC_URL`) ?? readEnv(`${prefix}_RPC`) : undefined
+  if (single) return [{ url: single, weight: 1 }]
+  return config.rpcUrls
 }
 
-export const chainNamesById: Record<number, string> = {
-  [megaethTestnet.id]: megaethTestnet.name,
-  [megaethMainnet.id]: megaethMainnet.name,
-  [sepoliaTestnet.id]: sepoliaTestnet.name,
+/**
+ * Worker chunk sizes and sleep: <PREFIX>_CHUNK / _DEX_CHUNK / _SLEEP_MS > registry > global defaults
+ */
+export function workerSettingsFor(
+  chainId: number,
+  defaults: { chunk: number; dexChunk: number; sleepMs: number }
+): { chunk: number; dexChunk: number; sleepMs: number } {
+  const config = getChainConfig(chainId)
+  const prefix = config?.envPrefix
+  const fromEnv = (suffix: string) => {
+    const value = prefix ? readEnv(`${prefix}_${suffix}`) : undefined
+    return value !== undefined && value !== '' ? Number(value) : undefined
+  }
+  return {
+    chunk: fromEnv('CHUNK') ?? config?.worker?.chunk ?? defaults.chunk,
+    dexChunk: fromEnv('DEX_CHUNK') ?? config?.worker?.dexChunk ?? defaults.dexChunk,
+    sleepMs: fromEnv('SLEEP_MS') ?? config?.worker?.sleepMs ?? defaults.sleepMs,
+  }
 }
 
-// Optional: map for easier access to full config by ID
-export const chainsById: Record<number, typeof megaethTestnet> = {
-  [megaethTestnet.id]: megaethTestnet,
-  [megaethMainnet.id]: megaethMainnet,
-  [sepoliaTestnet.id]: sepoliaTestnet,
+/**
+ * Link to a token's DEX pair, or null if the chain has no DEX page
+ */
+export function dexPairUrl(chainId: number, tokenAddress: string, pairAddress: string): string | null {
+  const template = getChainConfig(chainId)?.dex?.pairUrl
+  if (!template) return null
+  return template.replace('{token}', tokenAddress).replace('{pair}', pairAddress)
 }
 
+export function explorerAddressUrl(chainId: number, address: string): string | null {
+  const explorer = getChainConfig(chainId)?.explorer
+  return explorer ? `${explorer.url}/address/${address}` : null
+}
+
+export function explorerTxUrl(chainId: number, txHash: string): string | null {
+  const explorer = getChainConfig(chainId)?.explorer
+  return explorer ? `${explorer.url}/tx/${txHash}` : null
+}
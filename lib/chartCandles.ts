@@ -0,0 +1,309 @@
+// Candle builder for token_chart_agg, shared by the aggregation worker and the incremental sync
+// 1m candles are built from token_transfers; 5m..1d are rolled up from the 1m rows, so larger
+// buckets never rescan transfers. Buckets are aligned to the Unix epoch (UTC).
+//
+// Two modes:
+// - incremental (default): chart_agg_cursors keeps a (block_number, log_index) high-water mark per token;
+//   only buckets touched by trades above it are upserted
+// - full: delete and rebuild every interval over a time range (CLI, reorg rollbacks, CHART_AGG_MODE=full)
+
+import type { PoolClient } from 'pg'
+import db from './db'
+import { CHART_INTERVALS, CHART_INTERVAL_SECONDS, BASE_CHART_INTERVAL } from './chartIntervals'
+
+type Db = Pick<PoolClient, 'query'>
+
+// Every interval divides a day, so day-aligned ranges only ever contain complete buckets
+const LARGEST_INTERVAL_SECONDS = Math.max(...CHART_INTERVALS.map(interval => CHART_INTERVAL_SECONDS[interval]))
+
+// Transfers that count as trades on the chart
+const TRADE_FILTER = `
+  amount_eth_wei IS NOT NULL
+  AND amount_eth_wei <> 0
+  AND price_eth_per_token IS NOT NULL
+  AND price_eth_per_token > 0`
+
+const CANDLE_COLUMNS = `
+  (token_id, chain_id, interval_type, ts,
+   price_open_eth, price_high_eth, price_low_eth, price_close_eth,
+   price_open_usd, price_high_usd, price_low_usd, price_close_usd,
+   volume_eth, volume_usd, trades_count)`
+
+// Touched buckets are always recomputed from everything in them, so the stored row is simply replaced
+const UPSERT_CANDLE = `
+  ON CONFLICT (token_id, chain_id, interval_type, ts) DO UPDATE SET
+    price_open_eth = EXCLUDED.price_open_eth,
+    price_high_eth = EXCLUDED.price_high_eth,
+    price_low_eth = EXCLUDED.price_low_eth,
+    price_close_eth = EXCLUDED.price_close_eth,
+    price_open_usd = EXCLUDED.price_open_usd,
+    price_high_usd = EXCLUDED.price_high_usd,
+    price_low_usd = EXCLUDED.price_low_usd,
+    price_close_usd = EXCLUDED.price_close_usd,
+    volume_eth = EXCLUDED.volume_eth,
+    volume_usd = EXCLUDED.volume_usd,
+    trades_count = EXCLUDED.trades_count`
+
+function bucketOf(column: string, secondsParam: string): string {
+  return `to_timestamp(FLOOR(EXTRACT(EPOCH FROM ${column}) / ${secondsParam}::double precision) * ${secondsParam}::double precision)`
+}
+
+function alignDown(date: Date, seconds: number): Date {
+  const ms = seconds * 1000
+  return new Date(Math.floor(date.getTime() / ms) * ms)
+}
+
+function alignUp(date: Date, seconds: number): Date {
+  const ms = seconds * 1000
+  return new Date(Math.ceil((date.getTime() + 1) / ms) * ms)
+}
+
+/**
+ * Upsert base candles from trades with block_time in [start, end), optionally only the given base buckets
+ */
+async function writeBaseCandles(client: Db, tokenId: number, chainId: number, start: Date, end: Date, buckets?: Date[]): Promise<number> {
+  const { rowCount } = await client.query(`
+    INSERT INTO public.token_chart_agg ${CANDLE_COLUMNS}
+    SELECT
+      $1, $2, $3,
+      ${bucketOf('block_time', '$4')} AS bucket,
+      (ARRAY_AGG(price_eth_per_token ORDER BY block_time ASC, log_index ASC))[1],
+      MAX(price_eth_per_token),
+      MIN(price_eth_per_token),
+      (ARRAY_AGG(price_eth_per_token ORDER BY block_time DESC, log_index DESC))[1],
+      (ARRAY_AGG(price_eth_per_token * COALESCE(eth_price_usd, 0) ORDER BY block_time ASC, log_index ASC))[1],
+      MAX(price_eth_per_token * COALESCE(eth_price_usd, 0)),
+      MIN(price_eth_per_token * COALESCE(eth_price_usd, 0)),
+      (ARRAY_AGG(price_eth_per_token * COALESCE(eth_price_usd, 0) ORDER BY block_time DESC, log_index DESC))[1],
+      SUM(amount_eth_wei/1e18),
+      SUM((amount_eth_wei/1e18) * COALESCE(eth_price_usd, 0)),
+      COUNT(*)
+    FROM public.token_transfers
+    WHERE token_id = $1
+      AND chain_id = $2
+      AND block_time >= $5
+      AND block_time < $6
+      AND ${TRADE_FILTER}
+      ${buckets ? `AND ${bucketOf('block_time', '$4')} = ANY($7::timestamptz[])` : ''}
+    GROUP BY bucket
+    ${UPSERT_CANDLE}
+  `, [tokenId, chainId, BASE_CHART_INTERVAL, CHART_INTERVAL_SECONDS[BASE_CHART_INTERVAL], start, end, ...(buckets ? [buckets] : [])])
+  return rowCount ?? 0
+}
+
+/**
+ * Upsert one larger interval from the base candles in [start, end), optionally only the given buckets
+ */
+async function writeRollupCandles(client: Db, tokenId: number, chainId: number, interval: string, start: Date, end: Date, buckets?: Date[]): Promise<void> {
+  const seconds = CHART_INTERVAL_SECONDS[interval as keyof typeof CHART_INTERVAL_SECONDS]
+  await client.query(`
+    INSERT INTO public.token_chart_agg ${CANDLE_COLUMNS}
+    SELECT
+      $1, $2, $3,
+      ${bucketOf('ts', '$4')} AS bucket,
+      (ARRAY_AGG(price_open_eth ORDER BY ts ASC))[1],
+      MAX(price_high_eth),
+      MIN(price_low_eth),
+      (ARRAY_AGG(price_close_eth ORDER BY ts DESC))[1],
+      (ARRAY_AGG(price_open_usd ORDER BY ts ASC))[1],
+      MAX(price_high_usd),
+      MIN(price_low_usd),
+      (ARRAY_AGG(price_close_usd ORDER BY ts DESC))[1],
+      SUM(volume_eth),
+      SUM(volume_usd),
+      SUM(trades_count)
+    FROM public.token_chart_agg
+    WHERE token_id = $1
+      AND chain_id = $2
+      AND interval_type = $5
+      AND ts >= $6
+      AND ts < $7
+      ${buckets ? `AND ${bucketOf('ts', '$4')} = ANY($8::timestamptz[])` : ''}
+    GROUP BY bucket
+    ${UPSERT_CANDLE}
+  `, [tokenId, chainId, interval, seconds, BASE_CHART_INTERVAL, start, end, ...(buckets ? [buckets] : [])])
+}
+
+/**
+ * Recompute the base buckets starting at `baseBuckets` and every larger bucket containing them
+ */
+async function refreshBuckets(client: Db, tokenId: number, chainId: number, baseBuckets: Date[]): Promise<void> {
+  if (baseBuckets.length === 0) return
+  const times = baseBuckets.map(b => b.getTime())
+  const first = new Date(Math.min(...times))
+  const last = new Date(Math.max(...times))
+
+  await writeBaseCandles(client, tokenId, chainId, first, alignUp(last, CHART_INTERVAL_SECONDS[BASE_CHART_INTERVAL]), baseBuckets)
+
+  for (const interval of CHART_INTERVALS) {
+    if (interval === BASE_CHART_INTERVAL) continue
+    const seconds = CHART_INTERVAL_SECONDS[interval]
+    const buckets = [...new Set(baseBuckets.map(b => alignDown(b, seconds).getTime()))].map(t => new Date(t))
+    await writeRollupCandles(client, tokenId, chainId, interval, alignDown(first, seconds), alignUp(last, seconds), buckets)
+  }
+}
+
+/**
+ * Move the high-water mark to the newest trade at or below `maxBlock` and clear any pending rebuild
+ */
+async function setHighWaterMark(client: Db, tokenId: number, chainId: number, maxBlock: number): Promise<void> {
+  await client.query(`
+    INSERT INTO public.chart_agg_cursors (chain_id, token_id, last_block_number, last_log_index, rebuild_from)
+    SELECT $1, $2, COALESCE(newest.block_number, 0), COALESCE(newest.log_index, -1), NULL
+    FROM (SELECT 1) AS one
+    LEFT JOIN LATERAL (
+      SELECT block_number, log_index
+      FROM public.token_transfers
+      WHERE chain_id = $1 AND token_id = $2 AND block_number <= $3 AND ${TRADE_FILTER}
+      ORDER BY block_number DESC, log_index DESC
+      LIMIT 1
+    ) AS newest ON true
+    ON CONFLICT (chain_id, token_id) DO UPDATE SET
+      last_block_number = EXCLUDED.last_block_number,
+      last_log_index = EXCLUDED.last_log_index,
+      rebuild_from = NULL,
+      updated_at = now()
+  `, [chainId, tokenId, maxBlock])
+}
+
+// Highest block whose trades are all in token_transfers: bonding-curve and DEX cursors both count.
+// A NULL token/pool cursor means the address follows the chain cursor.
+export async function indexedThroughBlock(client: Db, tokenId: number, chainId: number): Promise<number> {
+  const { rows } = await client.query<{ block: string | null }>(`
+    SELECT LEAST(
+      COALESCE(t.last_processed_block, c.last_processed_block),
+      MIN(COALESCE(dp.last_processed_block, c.last_processed_block))
+    ) AS block
+    FROM public.tokens t
+    LEFT JOIN public.chain_cursors c ON c.chain_id = t.chain_id
+    LEFT JOIN public.dex_pools dp ON dp.chain_id = t.chain_id AND dp.token_id = t.id
+    WHERE t.chain_id = $1 AND t.id = $2
+    GROUP BY t.last_processed_block, c.last_processed_block
+  `, [chainId, tokenId])
+  return Number(rows[0]?.block ?? 0)
+}
+
+/**
+ * Full mode: rebuild every interval of a token's candles covering [from, to) (widened to whole days)
+ * in one transaction and move the high-water mark to the newest indexed trade.
+ * Returns the number of base candles written.
+ */
+export async function rebuildCandles(
+  tokenId: number,
+  chainId: number,
+  from: Date,
+  to: Date = new Date()
+): Promise<number> {
+  const start = alignDown(from, LARGEST_INTERVAL_SECONDS)
+  const end = alignUp(to, LARGEST_INTERVAL_SECONDS)
+
+  const client = await db.connect()
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      DELETE FROM public.token_chart_agg
+      WHERE token_id = $1 AND chain_id = $2 AND interval_type = ANY($3) AND ts >= $4 AND ts < $5
+    `, [tokenId, chainId, CHART_INTERVALS, start, end])
+
+    const baseCandles = await writeBaseCandles(client, tokenId, chainId, start, end)
+    for (const interval of CHART_INTERVALS) {
+      if (interval === BASE_CHART_INTERVAL) continue
+      await writeRollupCandles(client, tokenId, chainId, interval, start, end)
+    }
+
+    await setHighWaterMark(client, tokenId, chainId, await indexedThroughBlock(client, tokenId, chainId))
+
+    await client.query('COMMIT')
+    return baseCandles
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Incremental mode: upsert only the buckets touched by trades above the token's high-water mark.
+ * Trades are only taken up to the token's indexed block, so nothing the worker has yet to ingest is skipped.
+ * Tokens without a high-water mark, or flagged for rebuild by a reorg rollback, fall back to full mode.
+ * `count` is the number of new trades folded in, or of base candles written by a full rebuild.
+ */
+export async function updateCandlesIncremental(
+  tokenId: number,
+  chainId: number
+): Promise<{ mode: 'full' | 'incremental'; count: number }> {
+  const { rows: cursors } = await db.query<{ last_block_number: string; last_log_index: number; rebuild_from: Date | null }>(`
+    SELECT last_block_number, last_log_index, rebuild_from
+    FROM public.chart_agg_cursors
+    WHERE chain_id = $1 AND token_id = $2
+  `, [chainId, tokenId])
+
+  const cursor = cursors[0]
+  if (!cursor || cursor.rebuild_from) {
+    let from = cursor?.rebuild_from ?? null
+    if (!from) {
+      const { rows } = await db.query<{ first_trade: Date | null }>(`
+        SELECT MIN(block_time) AS first_trade
+        FROM public.token_transfers
+        WHERE chain_id = $1 AND token_id = $2 AND ${TRADE_FILTER}
+      `, [chainId, tokenId])
+      from = rows[0]?.first_trade ?? new Date()
+    }
+    return { mode: 'full', count: await rebuildCandles(tokenId, chainId, from) }
+  }
+
+  const client = await db.connect()
+  try {
+    await client.query('BEGIN')
+
+    // Serialises concurrent runs for the same token
+    await client.query('SELECT 1 FROM public.chart_agg_cursors WHERE chain_id = $1 AND token_id = $2 FOR UPDATE', [chainId, tokenId])
+
+    const maxBlock = await indexedThroughBlock(client, tokenId, chainId)
+    const { rows: touched } = await client.query<{ bucket: Date; trades: number }>(`
+      SELECT ${bucketOf('block_time', '$5')} AS bucket, COUNT(*)::int AS trades
+      FROM public.token_transfers
+      WHERE chain_id = $1 AND token_id = $2
+        AND (block_number, log_index) > ($3::bigint, $4::integer)
+        AND block_number <= $6
+        AND ${TRADE_FILTER}
+      GROUP BY bucket
+    `, [chainId, tokenId, cursor.last_block_number, cursor.last_log_index, CHART_INTERVAL_SECONDS[BASE_CHART_INTERVAL], maxBlock])
+
+    if (touched.length > 0) {
+      await refreshBuckets(client, tokenId, chainId, touched.map(t => t.bucket))
+      await setHighWaterMark(client, tokenId, chainId, maxBlock)
+    }
+
+    await client.query('COMMIT')
+    return { mode: 'incremental', count: touched.reduce((sum, t) => sum + t.trades, 0) }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Recompute the buckets containing the given trade times (API-side sync right after a trade).
+ * Leaves the high-water mark alone; the worker re-touching the same buckets later is harmless.
+ */
+export async function refreshCandlesAt(tokenId: number, chainId: number, tradeTimes: Date[]): Promise<void> {
+  const seconds = CHART_INTERVAL_SECONDS[BASE_CHART_INTERVAL]
+  const buckets = [...new Set(tradeTimes.map(t => alignDown(t, seconds).getTime()))].map(t => new Date(t))
+
+  const client = await db.connect()
+  try {
+    await client.query('BEGIN')
+    await refreshBuckets(client, tokenId, chainId, buckets)
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
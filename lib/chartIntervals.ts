@@ -0,0 +1,52 @@
+// Candle resolutions stored in token_chart_agg
+// Client-safe (no db imports): shared by the chart components, the chart-data route and the candle builders.
+
+export const CHART_INTERVALS = ['1m', '5m', '15m', '1h', '4h', '1d'] as const
+
+export type ChartInterval = typeof CHART_INTERVALS[number]
+
+// Finest resolution: built from token_transfers, every other interval is rolled up from it
+export const BASE_CHART_INTERVAL: ChartInterval = '1m'
+
+export const CHART_INTERVAL_SECONDS: Record<ChartInterval, number> = {
+  '1m': 60,
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '4h': 4 * 60 * 60,
+  '1d': 24 * 60 * 60,
+}
+
+export const CHART_INTERVAL_LABELS: Record<ChartInterval, string> = {
+  '1m': '1m',
+  '5m': '5m',
+  '15m': '15m',
+  '1h': '1H',
+  '4h': '4H',
+  '1d': '1D',
+}
+
+// TradingView UDF resolution strings (minutes, or D for days)
+export const CHART_INTERVAL_UDF_RESOLUTIONS: Record<ChartInterval, string> = {
+  '1m': '1',
+  '5m': '5',
+  '15m': '15',
+  '1h': '60',
+  '4h': '240',
+  '1d': '1D',
+}
+
+export const DEFAULT_CHART_INTERVAL: ChartInterval = '4h'
+
+export function isChartInterval(value: string): value is ChartInterval {
+  return (CHART_INTERVALS as readonly string[]).includes(value)
+}
+
+/**
+ * Map a UDF resolution ('60', '1D', 'D', ...) to the stored interval
+ */
+export function chartIntervalFromUdfResolution(resolution: string): ChartInterval | null {
+  const normalized = resolution === 'D' ? '1D' : resolution.toUpperCase()
+  const match = CHART_INTERVALS.find(interval => CHART_INTERVAL_UDF_RESOLUTIONS[interval] === normalized)
+  return match ?? null
+}
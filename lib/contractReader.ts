@@ -1,15 +1,6 @@
 import { createPublicClient, http } from 'viem'
 import TurboTokenABI from './abi/TurboToken.json'
-import { megaethTestnet, megaethMainnet, sepoliaTestnet } from '@/lib/chains'
-import type { Chain } from 'viem/chains'
-
-
-// Optional: helper
-const chainsById: Record<number, Chain> = {
-  6342: megaethTestnet,
-  9999: megaethMainnet,
-  11155111: sepoliaTestnet,
-}
+import { chainsById } from '@/lib/chains'
 
 
 export async function getTokenOnChainData(
@@ -2,7 +2,8 @@ import { ethers } from 'ethers'
 import { DEX_ROUTER_BY_CHAIN, routerAbi, factoryAbi } from './dex'
 import TurboTokenABI from './abi/TurboToken.json'
 import { Token } from '../types/token'
-import { chainsById } from './chains'
+import { chainsById, dexPairUrl, explorerAddressUrl } from './chains'
+import { ensureWalletSession } from './siwe'
 
 export async function createDexPool({
   token,
@@ -23,6 +24,9 @@ export async function createDexPool({
   const browserProvider = new ethers.BrowserProvider(window.ethereum)
   const signer = await browserProvider.getSigner()
 
+  // mark-dex-listing is creator-only, so sign in before any liquidity is added
+  await ensureWalletSession(address, chainId, message => signer.signMessage(message))
+
   const tokenContract = new ethers.Contract(token.contract_address, TurboTokenABI.abi, signer)
   const routerAddress = DEX_ROUTER_BY_CHAIN[chainId]
   const router = new ethers.Contract(routerAddress, routerAbi, signer)
@@ -60,10 +64,7 @@ export async function createDexPool({
   }
 
   // 4. Build DEX link
-  const dexUrl =
-    chain.id === 6342
-      ? `${chain.dexBaseUrl}/${token.contract_address}/${pairAddress}`
-      : `${chain.dexBaseUrl}/${pairAddress}`
+  const dexUrl = dexPairUrl(chain.id, token.contract_address, pairAddress) ?? explorerAddressUrl(chain.id, pairAddress)
 
   // 5. Save to DB
   const res = await fetch('/api/mark-dex-listing', {
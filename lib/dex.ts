@@ -1,15 +1,11 @@
-// ✅ Router addresses
-export const GTE_ROUTER = '0xa6b579684e943f7d00d616a48cf99b5147fc57a5'
-export const SEPOLIA_ROUTER = '0xeE567Fe1712Faf6149d80dA1E6934E354124CfE3'
+import { ethers } from 'ethers'
+import { chainConfigs, getChainConfig } from './chains'
 
-// ✅ Dynamic router mapping per chainId
-export const DEX_ROUTER_BY_CHAIN: Record<number, string> = {
-  6342: GTE_ROUTER,       // MegaETH Testnet
-  11155111: SEPOLIA_ROUTER, // Sepolia Testnet
-  // Add more if needed
-}
+// ✅ Router per chainId (from the chain registry)
+export const DEX_ROUTER_BY_CHAIN: Record<number, string> = Object.fromEntries(
+  chainConfigs.filter(chain => chain.dex?.router).map(chain => [chain.id, chain.dex!.router!])
+)
 
-// ✅ Minimal ABI for UniswapV2-style Router
 // ✅ Minimal ABI for UniswapV2-style Router
 export const routerAbi = [
   'function factory() external view returns (address)',
@@ -30,4 +26,22 @@ export const pairAbi = [
   'function token1() view returns (address)'
 ]
 
+/**
+ * Router, factory and WETH for a chain. Factory and WETH come from the registry when set,
+ * otherwise from the router itself.
+ */
+export async function getDexAddresses(
+  chainId: number,
+  runner: ethers.ContractRunner
+): Promise<{ router: string; factory: string; weth: string }> {
+  const router = DEX_ROUTER_BY_CHAIN[chainId]
+  if (!router) throw new Error(`No DEX router for chain ${chainId}`)
 
+  const dex = getChainConfig(chainId)?.dex
+  const routerContract = new ethers.Contract(router, routerAbi, runner)
+  const [factory, weth] = await Promise.all([
+    dex?.factory ?? routerContract.factory(),
+    dex?.weth ?? routerContract.WETH(),
+  ])
+  return { router, factory, weth }
+}
@@ -41,24 +41,8 @@ export function withSlippageMax(amount: bigint, slippageBps: number): bigint {
   return (amount * BigInt(10_000 + slippageBps) + 10_000n - 1n) / 10_000n; // ceil
 }
 
-// Optional: compute price impact (as basis points) for exact-in
-export function priceImpactBps(
-  amountIn: bigint,
-  amountOut: bigint,
-  reserveIn: bigint,
-  reserveOut: bigint
-): number {
-  // P_mid = reserveOut/reserveIn ; P_exec = amountOut/amountIn
-  // impact = 1 - P_exec/P_mid = 1 - (amountOut * reserveIn) / (amountIn * reserveOut)
-  const num = amountOut * reserveIn;
-  const den = amountIn * reserveOut;
-  if (den === 0n) return 0;
-  const ratioBps = Number((num * 10_000n) / den); // P_exec/P_mid in bps
-  return Math.max(0, 10_000 - ratioBps);
-}
-
 /**
- * Get DEX pool reserves for a token (client-side version)
+ * Get DEX pool reserves for a token
  */
 export async function getDexPoolReserves(
   pairAddress: string,
@@ -85,80 +69,3 @@ export async function getDexPoolReserves(
     return null
   }
 }
-
-/**
- * Calculate amount of tokens to buy from ETH amount (for ETH buttons)
- */
-export async function calculateAmountFromETH(
-  ethAmount: number,
-  pairAddress: string,
-  tokenAddress: string,
-  provider: ethers.Provider
-): Promise<number> {
-  try {
-    const reserves = await getDexPoolReserves(pairAddress, tokenAddress, provider)
-    if (!reserves) return 0
-
-    const { reserveToken, reserveETH } = reserves
-    const amountInETH = ethers.parseEther(ethAmount.toString())
-    
-    // Calculate tokens out using getAmountOut
-    const tokensOut = getAmountOut(amountInETH, reserveETH, reserveToken)
-    
-    return parseFloat(ethers.formatEther(tokensOut))
-  } catch (error) {
-    console.error('Error calculating amount from ETH:', error)
-    return 0
-  }
-}
-
-/**
- * Calculate ETH cost for token amount (for total cost display)
- */
-export async function calculateETHfromAmount(
-  tokenAmount: number,
-  pairAddress: string,
-  tokenAddress: string,
-  provider: ethers.Provider
-): Promise<number> {
-  try {
-    const reserves = await getDexPoolReserves(pairAddress, tokenAddress, provider)
-    if (!reserves) return 0
-
-    const { reserveToken, reserveETH } = reserves
-    const amountOutTokens = ethers.parseEther(tokenAmount.toString())
-    
-    // Calculate ETH in using getAmountIn
-    const ethIn = getAmountIn(amountOutTokens, reserveETH, reserveToken)
-    
-    return parseFloat(ethers.formatEther(ethIn))
-  } catch (error) {
-    console.error('Error calculating ETH from amount:', error)
-    return 0
-  }
-}
-
-/**
- * Calculate ETH out for an exact token-in sell (preferred for quoting sells)
- */
-export async function calculateETHOutFromTokens(
-  tokenAmountIn: number,
-  pairAddress: string,
-  tokenAddress: string,
-  provider: ethers.Provider
-): Promise<number> {
-  try {
-    const reserves = await getDexPoolReserves(pairAddress, tokenAddress, provider)
-    if (!reserves) return 0
-
-    const { reserveToken, reserveETH } = reserves
-    const amountInTokens = ethers.parseEther(tokenAmountIn.toString())
-
-    // Exact-in: tokens in -> ETH out
-    const ethOut = getAmountOut(amountInTokens, reserveToken, reserveETH)
-    return parseFloat(ethers.formatEther(ethOut))
-  } catch (error) {
-    console.error('Error calculating ETH out from tokens:', error)
-    return 0
-  }
-}
@@ -0,0 +1,131 @@
+// ETH/USD price history
+// eth_price_history holds one row per observed price; transfers are priced with the row nearest to their
+// block_time (public.eth_price_at, created by the worker schema). Prices come from a pluggable source:
+// ETH_PRICE_SOURCE=coingecko (default) or stub (fixed ETH_PRICE_STUB_USD, for tests and local runs).
+
+import pool from './db'
+
+export interface EthPricePoint {
+  ts: Date
+  priceUsd: number
+}
+
+export interface EthPriceSource {
+  name: string
+  current(): Promise<number | null>
+  // Points covering [from, to], oldest first
+  range(from: Date, to: Date): Promise<EthPricePoint[]>
+}
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3'
+// CoinGecko returns hourly points for ranges of up to 90 days
+const COINGECKO_RANGE_CHUNK_MS = 90 * 24 * 60 * 60 * 1000
+const STUB_POINT_INTERVAL_MS = 60 * 60 * 1000
+
+function coingeckoHeaders(): Record<string, string> {
+  const apiKey = process.env.COINGECKO_API_KEY
+  return apiKey ? { Accept: 'application/json', 'x-cg-demo-api-key': apiKey } : { Accept: 'application/json' }
+}
+
+const coingeckoSource: EthPriceSource = {
+  name: 'coingecko',
+
+  async current() {
+    const res = await fetch(`${COINGECKO_API}/simple/price?ids=ethereum&vs_currencies=usd`, {
+      headers: coingeckoHeaders(),
+      cache: 'no-store',
+    })
+    if (!res.ok) throw new Error(`CoinGecko price request failed: ${res.status}`)
+    const data = await res.json() as { ethereum?: { usd?: number } }
+    const price = data?.ethereum?.usd
+    return typeof price === 'number' && price > 0 ? price : null
+  },
+
+  async range(from, to) {
+    const points: EthPricePoint[] = []
+    for (let start = from.getTime(); start < to.getTime(); start += COINGECKO_RANGE_CHUNK_MS) {
+      const end = Math.min(start + COINGECKO_RANGE_CHUNK_MS, to.getTime())
+      const url = `${COINGECKO_API}/coins/ethereum/market_chart/range?vs_currency=usd&from=${Math.floor(start / 1000)}&to=${Math.ceil(end / 1000)}`
+      const res = await fetch(url, { headers: coingeckoHeaders(), cache: 'no-store' })
+      if (!res.ok) throw new Error(`CoinGecko range request failed: ${res.status}`)
+      const data = await res.json() as { prices?: Array<[number, number]> }
+      for (const [ms, price] of data.prices ?? []) {
+        if (price > 0) points.push({ ts: new Date(ms), priceUsd: price })
+      }
+    }
+    return points
+  },
+}
+
+const stubSource: EthPriceSource = {
+  name: 'stub',
+
+  async current() {
+    return Number(process.env.ETH_PRICE_STUB_USD ?? 3000)
+  },
+
+  async range(from, to) {
+    const price = Number(process.env.ETH_PRICE_STUB_USD ?? 3000)
+    const points: EthPricePoint[] = []
+    for (let ms = from.getTime(); ms <= to.getTime(); ms += STUB_POINT_INTERVAL_MS) {
+      points.push({ ts: new Date(ms), priceUsd: price })
+    }
+    return points
+  },
+}
+
+const SOURCES: Record<string, EthPriceSource> = {
+  coingecko: coingeckoSource,
+  stub: stubSource,
+}
+
+export function getEthPriceSource(): EthPriceSource {
+  const name = process.env.ETH_PRICE_SOURCE ?? 'coingecko'
+  const source = SOURCES[name]
+  if (!source) throw new Error(`Unknown ETH_PRICE_SOURCE "${name}" (expected ${Object.keys(SOURCES).join(' or ')})`)
+  return source
+}
+
+/**
+ * Store an observed price. The legacy single-row eth_price_cache is kept in step for older readers.
+ */
+export async function recordEthPrice(priceUsd: number, source: string, ts: Date = new Date()): Promise<void> {
+  await pool.query(`
+    INSERT INTO public.eth_price_history (ts, price_usd, source)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (ts) DO UPDATE SET price_usd = EXCLUDED.price_usd, source = EXCLUDED.source
+  `, [ts, priceUsd, source])
+  await pool.query(`
+    INSERT INTO public.eth_price_cache (id, price_usd, fetched_at)
+    VALUES (1, $1, $2)
+    ON CONFLICT (id) DO UPDATE
+    SET price_usd = EXCLUDED.price_usd,
+        fetched_at = EXCLUDED.fetched_at
+    WHERE eth_price_cache.fetched_at <= EXCLUDED.fetched_at
+  `, [priceUsd, ts])
+}
+
+export async function latestEthPrice(): Promise<number | null> {
+  const { rows } = await pool.query<{ price_usd: number }>(
+    'SELECT price_usd::float8 AS price_usd FROM public.eth_price_history ORDER BY ts DESC LIMIT 1'
+  )
+  return rows.length > 0 ? rows[0].price_usd : null
+}
+
+/**
+ * Fetch [from, to] from the configured source into eth_price_history; existing points are kept.
+ * Returns the number of points added.
+ */
+export async function backfillEthPriceHistory(from: Date, to: Date): Promise<number> {
+  const source = getEthPriceSource()
+  const points = await source.range(from, to)
+  if (points.length === 0) return 0
+
+  const { rowCount } = await pool.query(`
+    INSERT INTO public.eth_price_history (ts, price_usd, source)
+    SELECT ts, price_usd, $3
+    FROM UNNEST($1::timestamptz[], $2::numeric[]) AS p(ts, price_usd)
+    ON CONFLICT (ts) DO NOTHING
+  `, [points.map(p => p.ts), points.map(p => p.priceUsd), source.name])
+  return rowCount ?? 0
+}
@@ -0,0 +1,20 @@
+// Client helper for /api/quote (the one quote source for the trade panels and bots)
+import type { QuoteSide, TradeQuote } from './tradeQuote'
+
+export async function fetchQuote(params: {
+  tokenId: number
+  side: QuoteSide
+  amountIn?: bigint
+  amountOut?: bigint
+  slippageBps?: number
+}): Promise<TradeQuote> {
+  const search = new URLSearchParams({ tokenId: String(params.tokenId), side: params.side })
+  if (params.amountIn !== undefined) search.set('amountIn', params.amountIn.toString())
+  if (params.amountOut !== undefined) search.set('amountOut', params.amountOut.toString())
+  if (params.slippageBps !== undefined) search.set('slippageBps', String(params.slippageBps))
+
+  const res = await fetch(`/api/quote?${search}`, { cache: 'no-store' })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || 'Failed to fetch quote')
+  return data as TradeQuote
+}
@@ -20,16 +20,7 @@ export async function getUsdPrice(): Promise<number | null> {
     console.log('[getUsdPrice] CoinGecko returned:', price);
 
     if (typeof price === 'number') {
-      const saveRes = await fetch('/api/eth-price', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ price }),
-      });
-
-      console.log('[getUsdPrice] Saved price to DB. Response status:', saveRes.status);
       return price;
-    } else {
-      //console.warn('[getUsdPrice] CoinGecko price was not a number:', price);
     }
 
     return null;
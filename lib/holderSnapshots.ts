@@ -0,0 +1,370 @@
+// Daily holder distribution snapshots, kept up to date by the aggregation worker and read by /api/holder-history
+// Balances are replayed from token_transfers (same rows as token_balances) and measured at the end of every
+// UTC day with a transfer. Holders exclude the zero address, the token contract and the token's DEX pairs,
+// like the holders table. The creator's share also counts tokens locked by BUY&LOCK and not yet unlocked.
+//
+// Aggregation runs resume from holder_snapshot_cursors (balances at the end of the last day the indexer fully
+// covered) and only rewrite the days after it, normally just the current one. Rebuilds replay everything.
+
+import type { PoolClient } from 'pg'
+import db from './db'
+import { indexedThroughBlock } from './chartCandles'
+
+type Db = Pick<PoolClient, 'query'>
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+const DAY_MS = 24 * 60 * 60 * 1000
+const TOP_HOLDERS = 10
+
+// Lower bounds (share of circulating supply) of the distribution buckets
+const BUCKET_BOUNDS = [0, 0.001, 0.01, 0.05]
+
+interface SnapshotTransfer {
+  block_number: string
+  block_time: Date
+  from_address: string
+  to_address: string
+  amount_wei: string
+  side: string
+}
+
+interface Cursor {
+  day: string // YYYY-MM-DD
+  blockNumber: string
+  creatorLockedWei: bigint
+  balances: Map<string, bigint> // holders changed since the previous cursor
+}
+
+interface Snapshot {
+  day: Date
+  blockNumber: string
+  holderCount: number
+  circulatingWei: bigint
+  top10Share: number
+  creatorShare: number
+  gini: number
+  buckets: number[] // holder counts per BUCKET_BOUNDS entry
+}
+
+function dayOf(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS) * DAY_MS
+}
+
+// 0 = evenly spread, approaching 1 = held by one wallet
+function giniCoefficient(ascending: number[], total: number): number {
+  const n = ascending.length
+  if (n === 0 || total <= 0) return 0
+  let weighted = 0
+  ascending.forEach((value, i) => { weighted += (i + 1) * value })
+  return (2 * weighted) / (n * total) - (n + 1) / n
+}
+
+function measure(
+  day: number,
+  blockNumber: string,
+  balances: Map<string, bigint>,
+  excluded: Set<string>,
+  creatorWallet: string | null,
+  creatorLockedWei: bigint
+): Snapshot {
+  const held: bigint[] = []
+  let circulatingWei = 0n
+  for (const [holder, balance] of balances) {
+    if (balance <= 0n || excluded.has(holder)) continue
+    held.push(balance)
+    circulatingWei += balance
+  }
+  held.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+
+  const circulating = Number(circulatingWei)
+  const amounts = held.map(balance => Number(balance))
+  const top10 = amounts.slice(-TOP_HOLDERS).reduce((sum, value) => sum + value, 0)
+
+  const creatorHeld = creatorWallet && !excluded.has(creatorWallet) ? balances.get(creatorWallet) ?? 0n : 0n
+  const creatorWei = (creatorHeld > 0n ? creatorHeld : 0n) + creatorLockedWei
+  const creatorBase = circulating + Number(creatorLockedWei)
+
+  const buckets = BUCKET_BOUNDS.map(() => 0)
+  for (const value of amounts) {
+    const share = circulating > 0 ? value / circulating : 0
+    let bucket = 0
+    while (bucket + 1 < BUCKET_BOUNDS.length && share >= BUCKET_BOUNDS[bucket + 1]) bucket++
+    buckets[bucket]++
+  }
+
+  return {
+    day: new Date(day),
+    blockNumber,
+    holderCount: held.length,
+    circulatingWei,
+    top10Share: circulating > 0 ? top10 / circulating : 0,
+    creatorShare: creatorBase > 0 ? Number(creatorWei) / creatorBase : 0,
+    gini: giniCoefficient(amounts, circulating),
+    buckets,
+  }
+}
+
+function isoDay(day: number): string {
+  return new Date(day).toISOString().slice(0, 10)
+}
+
+/** Replace the snapshots after `afterDay` (all of them when null) */
+async function writeSnapshots(
+  client: Db,
+  tokenId: number,
+  chainId: number,
+  afterDay: string | null,
+  snapshots: Snapshot[]
+): Promise<void> {
+  await client.query(
+    'DELETE FROM public.holder_snapshots WHERE token_id = $1 AND chain_id = $2 AND ($3::date IS NULL OR day > $3::date)',
+    [tokenId, chainId, afterDay]
+  )
+  if (snapshots.length === 0) return
+
+  await client.query(`
+    INSERT INTO public.holder_snapshots
+      (chain_id, token_id, day, block_number, holder_count, circulating_wei, top10_share, creator_share, gini,
+       holders_under_0_1pct, holders_0_1_to_1pct, holders_1_to_5pct, holders_over_5pct)
+    SELECT $1, $2, s.*
+    FROM UNNEST(
+      $3::date[], $4::bigint[], $5::integer[], $6::numeric[], $7::numeric[], $8::numeric[], $9::numeric[],
+      $10::integer[], $11::integer[], $12::integer[], $13::integer[]
+    ) AS s
+  `, [
+    chainId,
+    tokenId,
+    snapshots.map(s => isoDay(s.day.getTime())),
+    snapshots.map(s => s.blockNumber),
+    snapshots.map(s => s.holderCount),
+    snapshots.map(s => s.circulatingWei.toString()),
+    snapshots.map(s => s.top10Share),
+    snapshots.map(s => s.creatorShare),
+    snapshots.map(s => s.gini),
+    ...BUCKET_BOUNDS.map((_, i) => snapshots.map(s => s.buckets[i])),
+  ])
+}
+
+async function writeCursor(client: Db, tokenId: number, chainId: number, cursor: Cursor): Promise<void> {
+  const changed = [...cursor.balances]
+  await client.query(`
+    DELETE FROM public.holder_snapshot_balances
+    WHERE chain_id = $1 AND token_id = $2 AND holder = ANY($3::text[])
+  `, [chainId, tokenId, changed.filter(([, balance]) => balance === 0n).map(([holder]) => holder)])
+  await client.query(`
+    INSERT INTO public.holder_snapshot_balances (chain_id, token_id, holder, balance_wei)
+    SELECT $1, $2, b.holder, b.balance_wei
+    FROM UNNEST($3::text[], $4::numeric[]) AS b (holder, balance_wei)
+    ON CONFLICT (chain_id, token_id, holder) DO UPDATE SET balance_wei = EXCLUDED.balance_wei
+  `, [
+    chainId,
+    tokenId,
+    changed.filter(([, balance]) => balance !== 0n).map(([holder]) => holder),
+    changed.filter(([, balance]) => balance !== 0n).map(([, balance]) => balance.toString()),
+  ])
+  await client.query(`
+    INSERT INTO public.holder_snapshot_cursors (chain_id, token_id, day, block_number, creator_locked_wei)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (chain_id, token_id) DO UPDATE
+    SET day = EXCLUDED.day, block_number = EXCLUDED.block_number, creator_locked_wei = EXCLUDED.creator_locked_wei,
+        updated_at = now()
+  `, [chainId, tokenId, cursor.day, cursor.blockNumber, cursor.creatorLockedWei.toString()])
+}
+
+async function loadCursor(tokenId: number, chainId: number): Promise<Cursor | null> {
+  const { rows } = await db.query<{ day: string; block_number: string; creator_locked_wei: string }>(`
+    SELECT to_char(day, 'YYYY-MM-DD') AS day, block_number, TRUNC(creator_locked_wei)::text AS creator_locked_wei
+    FROM public.holder_snapshot_cursors
+    WHERE chain_id = $1 AND token_id = $2
+  `, [chainId, tokenId])
+  if (rows.length === 0) return null
+
+  const { rows: balances } = await db.query<{ holder: string; balance_wei: string }>(`
+    SELECT holder, TRUNC(balance_wei)::text AS balance_wei
+    FROM public.holder_snapshot_balances
+    WHERE chain_id = $1 AND token_id = $2
+  `, [chainId, tokenId])
+  return {
+    day: rows[0].day,
+    blockNumber: rows[0].block_number,
+    creatorLockedWei: BigInt(rows[0].creator_locked_wei),
+    balances: new Map(balances.map(row => [row.holder, BigInt(row.balance_wei)])),
+  }
+}
+
+/**
+ * Replay a token's transfers after `from` (all of them when null), write the days they cover and move the cursor
+ * to the end of the last day the indexer has fully covered. Returns the number of days written.
+ */
+async function snapshotHolders(tokenId: number, chainId: number, from: Cursor | null): Promise<number> {
+  const { rows: tokens } = await db.query<{ contract_address: string; creator_wallet: string | null }>(
+    'SELECT contract_address, creator_wallet FROM public.tokens WHERE id = $1',
+    [tokenId]
+  )
+  if (tokens.length === 0) return 0
+
+  const { rows: pairs } = await db.query<{ pair_address: string }>(
+    'SELECT LOWER(pair_address) AS pair_address FROM public.dex_pools WHERE token_id = $1',
+    [tokenId]
+  )
+  const excluded = new Set([ZERO_ADDRESS, tokens[0].contract_address.toLowerCase(), ...pairs.map(p => p.pair_address)])
+  const creatorWallet = tokens[0].creator_wallet?.toLowerCase() ?? null
+  const indexedBlock = await indexedThroughBlock(db, tokenId, chainId)
+
+  const { rows: transfers } = await db.query<SnapshotTransfer>(`
+    SELECT block_number, block_time, LOWER(from_address) AS from_address, LOWER(to_address) AS to_address,
+           TRUNC(amount_wei::numeric)::text AS amount_wei, side
+    FROM public.token_transfers
+    WHERE token_id = $1 AND chain_id = $2 AND amount_wei::numeric <> 0 AND block_number > $3
+    ORDER BY block_number ASC, log_index ASC
+  `, [tokenId, chainId, from?.blockNumber ?? -1])
+
+  const balances = new Map(from?.balances)
+  const snapshots: Snapshot[] = []
+  let creatorLockedWei = from?.creatorLockedWei ?? 0n
+  let currentDay: number | null = null
+  let lastBlock = from?.blockNumber ?? '0'
+  // Holders changed since the last cursor, and the cursor to store for the last complete day
+  const touched = new Set<string>()
+  const cursorBalances = new Map<string, bigint>()
+  let cursor: Cursor | null = null
+
+  for (const transfer of transfers) {
+    const day = dayOf(transfer.block_time)
+    if (currentDay !== null && day !== currentDay) {
+      snapshots.push(measure(currentDay, lastBlock, balances, excluded, creatorWallet, creatorLockedWei))
+      // A later day's transfer at or below the indexed height means every transfer of currentDay is stored
+      if (Number(transfer.block_number) <= indexedBlock) {
+        for (const holder of touched) cursorBalances.set(holder, balances.get(holder) ?? 0n)
+        touched.clear()
+        cursor = { day: isoDay(currentDay), blockNumber: lastBlock, creatorLockedWei, balances: cursorBalances }
+      }
+    }
+    currentDay = day
+    lastBlock = transfer.block_number
+
+    const amount = BigInt(transfer.amount_wei)
+    balances.set(transfer.from_address, (balances.get(transfer.from_address) ?? 0n) - amount)
+    balances.set(transfer.to_address, (balances.get(transfer.to_address) ?? 0n) + amount)
+    touched.add(transfer.from_address)
+    touched.add(transfer.to_address)
+    if (transfer.side === 'BUY&LOCK') creatorLockedWei += amount
+    if (transfer.side === 'UNLOCK') creatorLockedWei = creatorLockedWei > amount ? creatorLockedWei - amount : 0n
+  }
+  if (currentDay !== null) {
+    snapshots.push(measure(currentDay, lastBlock, balances, excluded, creatorWallet, creatorLockedWei))
+  }
+
+  const client = await db.connect()
+  try {
+    await client.query('BEGIN')
+    if (!from) {
+      await client.query('DELETE FROM public.holder_snapshot_cursors WHERE chain_id = $1 AND token_id = $2', [chainId, tokenId])
+      await client.query('DELETE FROM public.holder_snapshot_balances WHERE chain_id = $1 AND token_id = $2', [chainId, tokenId])
+    }
+    await writeSnapshots(client, tokenId, chainId, from?.day ?? null, snapshots)
+    if (cursor) await writeCursor(client, tokenId, chainId, cursor)
+    await client.query('COMMIT')
+    return snapshots.length
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Bring a token's holder_snapshots up to date from its cursor, rewriting only the days after it.
+ * Tokens without a cursor are rebuilt. Returns the number of days written.
+ */
+export async function updateHolderSnapshots(tokenId: number, chainId: number): Promise<number> {
+  return snapshotHolders(tokenId, chainId, await loadCursor(tokenId, chainId))
+}
+
+/**
+ * Replay all of a token's transfers and replace its holder_snapshots rows and cursor (after reorgs and reindexes).
+ * Returns the number of days written.
+ */
+export async function rebuildHolderSnapshots(tokenId: number, chainId: number): Promise<number> {
+  return snapshotHolders(tokenId, chainId, null)
+}
+
+export interface HolderSnapshot {
+  time: number // UTC day start, Unix seconds
+  holderCount: number
+  top10Share: number // 0..1 of circulating supply
+  creatorShare: number // 0..1, locked creator tokens included
+  gini: number
+  buckets: {
+    under0_1pct: number
+    from0_1To1pct: number
+    from1To5pct: number
+    over5pct: number
+  }
+}
+
+interface HolderSnapshotRow {
+  day: string
+  holder_count: number
+  top10_share: number
+  creator_share: number
+  gini: number
+  holders_under_0_1pct: number
+  holders_0_1_to_1pct: number
+  holders_1_to_5pct: number
+  holders_over_5pct: number
+}
+
+function toSnapshot(row: HolderSnapshotRow, time: number): HolderSnapshot {
+  return {
+    time,
+    holderCount: row.holder_count,
+    top10Share: row.top10_share,
+    creatorShare: row.creator_share,
+    gini: row.gini,
+    buckets: {
+      under0_1pct: row.holders_under_0_1pct,
+      from0_1To1pct: row.holders_0_1_to_1pct,
+      from1To5pct: row.holders_1_to_5pct,
+      over5pct: row.holders_over_5pct,
+    },
+  }
+}
+
+/**
+ * One snapshot per UTC day over the last `days` days, oldest first. Days without transfers repeat the
+ * previous day; days before the first transfer are left out.
+ */
+export async function loadHolderSnapshots(tokenId: number, days: number): Promise<HolderSnapshot[]> {
+  const today = dayOf(new Date())
+  const firstDay = today - (days - 1) * DAY_MS
+
+  const { rows } = await db.query<HolderSnapshotRow>(`
+    (SELECT to_char(day, 'YYYY-MM-DD') AS day, holder_count, top10_share::float8 AS top10_share,
+            creator_share::float8 AS creator_share, gini::float8 AS gini,
+            holders_under_0_1pct, holders_0_1_to_1pct, holders_1_to_5pct, holders_over_5pct
+     FROM public.holder_snapshots
+     WHERE token_id = $1 AND day < $2::date
+     ORDER BY day DESC
+     LIMIT 1)
+    UNION ALL
+    (SELECT to_char(day, 'YYYY-MM-DD') AS day, holder_count, top10_share::float8, creator_share::float8, gini::float8,
+            holders_under_0_1pct, holders_0_1_to_1pct, holders_1_to_5pct, holders_over_5pct
+     FROM public.holder_snapshots
+     WHERE token_id = $1 AND day >= $2::date
+     ORDER BY day ASC)
+  `, [tokenId, new Date(firstDay).toISOString().slice(0, 10)])
+
+  const byDay = new Map(rows.map(row => [Date.parse(`${row.day}T00:00:00Z`), row]))
+  let previous = rows.length > 0 && Date.parse(`${rows[0].day}T00:00:00Z`) < firstDay ? rows[0] : null
+
+  const series: HolderSnapshot[] = []
+  for (let day = firstDay; day <= today; day += DAY_MS) {
+    const row = byDay.get(day) ?? previous
+    if (!row) continue
+    series.push(toSnapshot(row, day / 1000))
+    previous = row
+  }
+  return series
+}
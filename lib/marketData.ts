@@ -0,0 +1,401 @@
+// Markets for aggregator feeds (CoinGecko / CoinMarketCap): one market per listed token, either its bonding
+// curve (until graduation) or its UniswapV2 pair. Prices are wei per whole token and amounts are wei, as
+// bigints; the feed formatters turn them into decimal strings.
+//
+// Curve markets read base_price / slope / supply / raise_target from `tokens` and totalSupply from
+// token_balances; pair markets read the newest `pair_snapshots` row (reserve0_wei is the token side,
+// reserve1_wei the WETH side, as the indexer writes them).
+
+import db from './db'
+import { sql } from './sql'
+import {
+  SELL_FEE_BPS, curvePrice, quoteBuyExactIn, quoteBuyExactOut, quoteSellExactIn, saleCapRemaining,
+  type CurveSnapshot,
+} from './bondingCurve'
+import { FEE_DEN, FEE_NUM, getAmountIn, getAmountOut } from './dexMath'
+
+const WAD = 10n ** 18n
+const BPS = 10_000n
+
+/** Pseudo-address aggregators use for the native coin (curve markets trade against ETH, not WETH) */
+export const NATIVE_ETH_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
+
+/** Price step between synthesized orderbook levels */
+export const DEPTH_STEP_BPS = 100n
+
+export type MarketVenue = 'bonding_curve' | 'dex'
+
+export interface Market {
+  tickerId: string // `${base}_${target}`, lowercase addresses
+  tokenId: number
+  chainId: number
+  venue: MarketVenue
+  base: { address: string; symbol: string; name: string }
+  target: { address: string; symbol: 'ETH' | 'WETH' }
+  poolId: string // the token contract (curve) or the pair
+  priceWei: bigint // mid price, wei per whole token
+  liquidityWei: bigint // ETH side: curve ETH raised, or the pair's WETH reserve
+  curve: CurveSnapshot | null
+  reserves: { token: bigint; eth: bigint } | null
+}
+
+export interface MarketStats {
+  baseVolumeWei: bigint
+  targetVolumeWei: bigint
+  highWei: bigint | null
+  lowWei: bigint | null
+  openWei: bigint | null // first trade price in the window
+}
+
+export interface DepthLevel {
+  priceWei: bigint // average execution price of the level, fees included
+  amountWei: bigint // tokens
+}
+
+export interface MarketTrade {
+  tradeId: string
+  type: 'buy' | 'sell'
+  priceWei: bigint
+  baseVolumeWei: bigint
+  targetVolumeWei: bigint
+  timestamp: number // unix seconds
+}
+
+interface MarketRow {
+  token_id: number
+  chain_id: number
+  contract_address: string
+  symbol: string
+  name: string
+  is_graduated: boolean | null
+  base_price: string | null
+  slope: string | null
+  max_supply: string | null
+  raise_target: string | null
+  eth_raised: string | null
+  curve_supply: string | null
+  pair_address: string | null
+  quote_token: string | null
+  reserve_token: string | null
+  reserve_eth: string | null
+}
+
+function toMarket(row: MarketRow): Market | null {
+  const base = { address: row.contract_address.toLowerCase(), symbol: row.symbol, name: row.name }
+
+  if (!row.is_graduated) {
+    if (row.base_price === null || row.slope === null || row.max_supply === null || row.raise_target === null) return null
+    const curve: CurveSnapshot = {
+      basePrice: BigInt(row.base_price),
+      slope: BigInt(row.slope),
+      maxSupply: BigInt(row.max_supply),
+      raiseTarget: BigInt(row.raise_target),
+      totalSupply: BigInt(row.curve_supply ?? '0'),
+      totalRaised: BigInt(row.eth_raised ?? '0'),
+      graduated: false,
+    }
+    return {
+      tickerId: `${base.address}_${NATIVE_ETH_ADDRESS}`,
+      tokenId: row.token_id,
+      chainId: row.chain_id,
+      venue: 'bonding_curve',
+      base,
+      target: { address: NATIVE_ETH_ADDRESS, symbol: 'ETH' },
+      poolId: base.address,
+      priceWei: curvePrice(curve, curve.totalSupply),
+      liquidityWei: curve.totalRaised,
+      curve,
+      reserves: null,
+    }
+  }
+
+  if (!row.pair_address || !row.quote_token || !row.reserve_token || !row.reserve_eth) return null
+  const reserves = { token: BigInt(row.reserve_token), eth: BigInt(row.reserve_eth) }
+  if (reserves.token === 0n || reserves.eth === 0n) return null
+  const target = row.quote_token.toLowerCase()
+  return {
+    tickerId: `${base.address}_${target}`,
+    tokenId: row.token_id,
+    chainId: row.chain_id,
+    venue: 'dex',
+    base,
+    target: { address: target, symbol: 'WETH' },
+    poolId: row.pair_address.toLowerCase(),
+    priceWei: (reserves.eth * WAD) / reserves.token,
+    liquidityWei: reserves.eth,
+    curve: null,
+    reserves,
+  }
+}
+
+/**
+ * Every tradable market on a chain: curve tokens that haven't graduated and graduated tokens whose pair has
+ * reserves. Graduated tokens without an indexed pair yet are left out.
+ */
+export async function loadMarkets(chainId: number, tickerId?: string): Promise<Market[]> {
+  const baseAddress = tickerId?.split('_')[0] ?? null
+
+  const { rows } = await db.query<MarketRow>(sql`
+    SELECT
+      t.id AS token_id, t.chain_id, t.contract_address, t.symbol, t.name, t.is_graduated,
+      TRUNC(t.base_price::numeric)::text AS base_price,
+      TRUNC(t.slope::numeric)::text AS slope,
+      TRUNC(t.supply::numeric * 1e18)::text AS max_supply,
+      TRUNC(t.raise_target::numeric * 1e18)::text AS raise_target,
+      TRUNC(COALESCE(t.eth_raised, 0)::numeric * 1e18)::text AS eth_raised,
+      supply.total AS curve_supply,
+      dp.pair_address, dp.quote_token,
+      TRUNC(ps.reserve0_wei::numeric)::text AS reserve_token, TRUNC(ps.reserve1_wei::numeric)::text AS reserve_eth
+    FROM public.tokens t
+    LEFT JOIN LATERAL (
+      SELECT TRUNC(COALESCE(SUM(b.balance_wei::numeric), 0))::text AS total
+      FROM public.token_balances b
+      WHERE b.token_id = t.id AND NOT COALESCE(t.is_graduated, FALSE)
+        AND b.holder <> '0x0000000000000000000000000000000000000000'
+    ) supply ON TRUE
+    LEFT JOIN public.dex_pools dp ON dp.token_id = t.id AND dp.chain_id = t.chain_id
+    LEFT JOIN LATERAL (
+      SELECT s.reserve0_wei, s.reserve1_wei
+      FROM public.pair_snapshots s
+      WHERE s.chain_id = dp.chain_id AND LOWER(s.pair_address) = LOWER(dp.pair_address)
+      ORDER BY s.block_number DESC
+      LIMIT 1
+    ) ps ON TRUE
+    WHERE t.chain_id = ${chainId}
+      AND t.contract_address IS NOT NULL
+      AND (${baseAddress}::text IS NULL OR LOWER(t.contract_address) = ${baseAddress})
+    ORDER BY t.id ASC
+  `)
+
+  const markets = rows.map(toMarket).filter((market): market is Market => market !== null)
+  return tickerId ? markets.filter(market => market.tickerId === tickerId) : markets
+}
+
+export async function loadMarket(chainId: number, tickerId: string): Promise<Market | null> {
+  return (await loadMarkets(chainId, tickerId.toLowerCase()))[0] ?? null
+}
+
+/** Trade sides that count as volume; transfers, unlocks and airdrop claims don't */
+const TRADE_SIDES = ['BUY', 'BUY&LOCK', 'SELL']
+
+function venueSource(venue: MarketVenue): 'BC' | 'DEX' {
+  return venue === 'dex' ? 'DEX' : 'BC'
+}
+
+/**
+ * 24h volume, high, low and open per market, keyed by tickerId
+ */
+export async function loadMarketStats(chainId: number, markets: Market[]): Promise<Map<string, MarketStats>> {
+  const { rows } = await db.query<{
+    token_id: number
+    src: string
+    base_volume: string
+    target_volume: string
+    high: string | null
+    low: string | null
+    open: string | null
+  }>(sql`
+    SELECT
+      token_id, src,
+      TRUNC(COALESCE(SUM(amount_wei::numeric), 0))::text AS base_volume,
+      TRUNC(COALESCE(SUM(amount_eth_wei::numeric), 0))::text AS target_volume,
+      TRUNC(MAX(price_eth_per_token::numeric) * 1e18)::text AS high,
+      TRUNC(MIN(price_eth_per_token::numeric) * 1e18)::text AS low,
+      TRUNC((ARRAY_AGG(price_eth_per_token::numeric ORDER BY block_number, log_index))[1] * 1e18)::text AS open
+    FROM public.token_transfers
+    WHERE chain_id = ${chainId}
+      AND token_id = ANY(${markets.map(market => market.tokenId)}::int[])
+      AND side = ANY(${TRADE_SIDES}::text[])
+      AND amount_eth_wei IS NOT NULL
+      AND block_time >= NOW() - INTERVAL '24 hours'
+    GROUP BY token_id, src
+  `)
+
+  const stats = new Map<string, MarketStats>()
+  for (const market of markets) {
+    const row = rows.find(r => r.token_id === market.tokenId && r.src === venueSource(market.venue))
+    stats.set(market.tickerId, {
+      baseVolumeWei: BigInt(row?.base_volume ?? '0'),
+      targetVolumeWei: BigInt(row?.target_volume ?? '0'),
+      highWei: row?.high ? BigInt(row.high) : null,
+      lowWei: row?.low ? BigInt(row.low) : null,
+      openWei: row?.open ? BigInt(row.open) : null,
+    })
+  }
+  return stats
+}
+
+/**
+ * Newest trades of a market, optionally one side and a [startTime, endTime] window (unix seconds)
+ */
+export async function loadMarketTrades(market: Market, options: {
+  type: 'buy' | 'sell' | null
+  limit: number
+  startTime: number | null
+  endTime: number | null
+}): Promise<MarketTrade[]> {
+  const sides = options.type === 'buy' ? ['BUY', 'BUY&LOCK'] : options.type === 'sell' ? ['SELL'] : TRADE_SIDES
+
+  const { rows } = await db.query<{
+    tx_hash: string
+    log_index: number
+    side: string
+    amount_wei: string
+    amount_eth_wei: string
+    block_time: Date
+  }>(sql`
+    SELECT tx_hash, log_index, side, TRUNC(amount_wei::numeric)::text AS amount_wei,
+           TRUNC(amount_eth_wei::numeric)::text AS amount_eth_wei, block_time
+    FROM public.token_transfers
+    WHERE token_id = ${market.tokenId}
+      AND chain_id = ${market.chainId}
+      AND src = ${venueSource(market.venue)}
+      AND side = ANY(${sides}::text[])
+      AND amount_eth_wei IS NOT NULL AND amount_wei::numeric > 0
+      AND (${options.startTime}::bigint IS NULL OR block_time >= TO_TIMESTAMP(${options.startTime}))
+      AND (${options.endTime}::bigint IS NULL OR block_time <= TO_TIMESTAMP(${options.endTime}))
+    ORDER BY block_number DESC, log_index DESC
+    LIMIT ${options.limit}
+  `)
+
+  return rows.map(row => {
+    const baseVolumeWei = BigInt(row.amount_wei)
+    const targetVolumeWei = BigInt(row.amount_eth_wei)
+    return {
+      tradeId: `${row.tx_hash}-${row.log_index}`,
+      type: row.side === 'SELL' ? 'sell' : 'buy',
+      priceWei: (targetVolumeWei * WAD) / baseVolumeWei,
+      baseVolumeWei,
+      targetVolumeWei,
+      timestamp: Math.floor(new Date(row.block_time).getTime() / 1000),
+    }
+  })
+}
+
+/**
+ * Best bid and ask for an infinitesimal trade: the mid price with the venue's fees applied
+ */
+export function bestBidAsk(market: Market): { bidWei: bigint; askWei: bigint } {
+  if (market.venue === 'bonding_curve') {
+    // The buy fee is taken out of getPrice() rather than added to it, so the curve price is the ask
+    return { bidWei: (market.priceWei * (BPS - SELL_FEE_BPS)) / BPS, askWei: market.priceWei }
+  }
+  return {
+    bidWei: (market.priceWei * FEE_NUM) / FEE_DEN,
+    askWei: (market.priceWei * FEE_DEN + FEE_NUM - 1n) / FEE_NUM,
+  }
+}
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) return value
+  let x = value
+  let y = (x + 1n) / 2n
+  while (y < x) {
+    x = y
+    y = (x + value / x) / 2n
+  }
+  return x
+}
+
+/** Level between two cumulative points of a ladder */
+function level(amountBefore: bigint, amountAfter: bigint, ethBefore: bigint, ethAfter: bigint): DepthLevel | null {
+  const amountWei = amountAfter - amountBefore
+  if (amountWei <= 0n) return null
+  return { priceWei: ((ethAfter - ethBefore) * WAD) / amountWei, amountWei }
+}
+
+/**
+ * Pair depth: level i spans the tokens that move the pool price from (1 ± (i-1)·step) to (1 ± i·step) of
+ * mid. With x·y = k the token reserve at price p is sqrt(k·1e18 / p); ETH amounts come from the router math,
+ * so each level's price is what a swap of exactly that slice would pay, 0.3% fee included.
+ */
+function pairDepth(reserves: { token: bigint; eth: bigint }, mid: bigint, levels: number) {
+  const k = reserves.token * reserves.eth
+  const tokenReserveAt = (price: bigint) => sqrt((k * WAD) / price)
+  const asks: DepthLevel[] = []
+  const bids: DepthLevel[] = []
+
+  let boughtBefore = 0n
+  let paidBefore = 0n
+  let soldBefore = 0n
+  let receivedBefore = 0n
+  for (let i = 1n; i <= BigInt(levels); i++) {
+    const bought = reserves.token - tokenReserveAt((mid * (BPS + i * DEPTH_STEP_BPS)) / BPS)
+    if (bought > 0n && bought < reserves.token) {
+      const paid = getAmountIn(bought, reserves.eth, reserves.token)
+      const ask = level(boughtBefore, bought, paidBefore, paid)
+      if (ask) asks.push(ask)
+      boughtBefore = bought
+      paidBefore = paid
+    }
+
+    const bidPrice = (mid * (BPS - i * DEPTH_STEP_BPS)) / BPS
+    if (bidPrice > 0n) {
+      const sold = tokenReserveAt(bidPrice) - reserves.token
+      const received = getAmountOut(sold, reserves.token, reserves.eth)
+      const bid = level(soldBefore, sold, receivedBefore, received)
+      if (bid) bids.push(bid)
+      soldBefore = sold
+      receivedBefore = received
+    }
+  }
+  return { bids, asks }
+}
+
+/**
+ * Curve depth: the price is linear in supply, so the supply at price p is (p - basePrice)·1e18 / slope.
+ * Asks stop at the 70% sale cap or at the raise target (the curve closes once a buy reaches it);
+ * bids stop at zero supply. Costs and payouts use the contract formulas, fees included.
+ */
+function curveDepth(curve: CurveSnapshot, mid: bigint, levels: number) {
+  const supplyAt = (price: bigint) => (price <= curve.basePrice || curve.slope === 0n ? 0n : ((price - curve.basePrice) * WAD) / curve.slope)
+  const remainingRaise = curve.raiseTarget > curve.totalRaised ? curve.raiseTarget - curve.totalRaised : 0n
+  const graduationBuy = quoteBuyExactIn(curve, remainingRaise).amount
+  const capRemaining = saleCapRemaining(curve)
+  const maxBuy = graduationBuy < capRemaining ? graduationBuy : capRemaining
+  const asks: DepthLevel[] = []
+  const bids: DepthLevel[] = []
+
+  let boughtBefore = 0n
+  let paidBefore = 0n
+  let soldBefore = 0n
+  let receivedBefore = 0n
+  for (let i = 1n; i <= BigInt(levels); i++) {
+    let bought = supplyAt((mid * (BPS + i * DEPTH_STEP_BPS)) / BPS) - curve.totalSupply
+    if (bought > maxBuy) bought = maxBuy
+    if (bought > boughtBefore) {
+      const paid = quoteBuyExactOut(curve, bought).cost
+      const ask = level(boughtBefore, bought, paidBefore, paid)
+      if (ask) asks.push(ask)
+      boughtBefore = bought
+      paidBefore = paid
+    }
+
+    const sold = curve.totalSupply - supplyAt((mid * (BPS - i * DEPTH_STEP_BPS)) / BPS)
+    if (sold > soldBefore && sold <= curve.totalSupply) {
+      const received = quoteSellExactIn(curve, sold).payout
+      const bid = level(soldBefore, sold, receivedBefore, received)
+      if (bid) bids.push(bid)
+      soldBefore = sold
+      receivedBefore = received
+    }
+  }
+  return { bids, asks }
+}
+
+/**
+ * Orderbook synthesized from the pair reserves or the curve: up to `levelsPerSide` levels each side,
+ * DEPTH_STEP_BPS apart in price, best first
+ */
+export function synthesizeOrderbook(market: Market, levelsPerSide: number): { bids: DepthLevel[]; asks: DepthLevel[] } {
+  if (market.curve) return curveDepth(market.curve, market.priceWei, levelsPerSide)
+  if (market.reserves) return pairDepth(market.reserves, market.priceWei, levelsPerSide)
+  return { bids: [], asks: [] }
+}
+
+/** Latest ETH/USD from the price worker, or null before its first tick */
+export async function loadEthPriceUsd(): Promise<number | null> {
+  const { rows } = await db.query<{ price_usd: string | null }>('SELECT price_usd FROM public.eth_price_latest LIMIT 1')
+  const price = Number(rows[0]?.price_usd)
+  return Number.isFinite(price) && price > 0 ? price : null
+}
@@ -2,20 +2,208 @@
 // Centralizes RPC configuration to avoid duplication
 
 import { ethers } from 'ethers'
-import { megaethTestnet, megaethMainnet, sepoliaTestnet } from './chains'
+import { chainConfigs, rpcEndpointsFor, type RpcEndpointConfig } from './chains'
 
-// RPCs per chain (prefer env override, fall back to lib/chains)
-export const rpcByChain: Record<number, string> = {
-  6342: process.env.MEGAETH_RPC_URL ?? megaethTestnet.rpcUrls.default.http[0],
-  9999: process.env.MEGAETH_MAINNET_RPC ?? megaethMainnet.rpcUrls.default.http[0],
-  11155111: process.env.SEPOLIA_RPC_URL ?? sepoliaTestnet.rpcUrls.default.http[0],
+export type RpcEndpointStats = {
+  url: string
+  weight: number
+  requests: number
+  errors: number
+  rateLimits: number
+  timeouts: number
+  avgLatencyMs: number | null
+  consecutiveFailures: number
+  cooldownUntil: number // ms timestamp, 0 = healthy
+  lastError: string | null
 }
 
-// Backend provider for workers
-export function providerFor(chainId: number) {
-  const url = rpcByChain[chainId]
-  if (!url) throw new Error(`No RPC for chain ${chainId}`)
-  return new ethers.JsonRpcProvider(url, { chainId, name: `chain-${chainId}` })
+const RPC_TIMEOUT_MS = Number(process.env.RPC_TIMEOUT_MS ?? 15000)
+const RPC_COOLDOWN_BASE_MS = Number(process.env.RPC_COOLDOWN_MS ?? 2000)
+const RPC_COOLDOWN_MAX_MS = 60_000
+
+// RPC endpoints per chain (registry, with <PREFIX>_RPC_URLS / <PREFIX>_RPC_URL env overrides)
+export const rpcEndpointsByChain: Record<number, RpcEndpointConfig[]> = Object.fromEntries(
+  chainConfigs.map(chain => [chain.id, rpcEndpointsFor(chain)])
+)
+
+// Primary (highest weight) RPC per chain
+export const rpcByChain: Record<number, string> = Object.fromEntries(
+  Object.entries(rpcEndpointsByChain).map(([chainId, endpoints]) => [
+    chainId,
+    [...endpoints].sort((a, b) => b.weight - a.weight)[0].url,
+  ])
+)
+
+// JSON-RPC rate-limit errors (usually with HTTP 200) and HTTP 429 responses. ethers reports a 429 it stopped
+// retrying as a SERVER_ERROR whose message carries "429 Too Many Requests"
+export function isRateLimit(e: unknown): boolean {
+  const error = e as {
+    code?: number | string
+    status?: number
+    response?: { statusCode?: number }
+    error?: { code?: number; message?: string }
+    message?: string
+  }
+  const code = error?.code ?? error?.error?.code
+  const status = error?.status ?? error?.response?.statusCode
+  const msg = (error?.message ?? error?.error?.message ?? '').toLowerCase()
+  return (
+    code === -32016 ||
+    code === -32822 ||
+    status === 429 ||
+    msg.includes('rate limit') ||
+    msg.includes('too many requests') ||
+    msg.includes('over compute unit limit')
+  )
+}
+
+// Hosts only - RPC URLs often carry API keys in the path or query
+function redactRpcUrl(url: string): string {
+  try {
+    const { protocol, host } = new URL(url)
+    return `${protocol}//${host}`
+  } catch {
+    return 'invalid-url'
+  }
+}
+
+function isTimeout(e: unknown): boolean {
+  const error = e as { code?: string; message?: string }
+  return error?.code === 'TIMEOUT' || (error?.message ?? '').toLowerCase().includes('timeout')
+}
+
+/**
+ * JsonRpcProvider that spreads requests over several endpoints by weight.
+ * Endpoints that rate-limit, time out or fail at the transport level are put on an
+ * escalating cooldown and the request is retried on the next endpoint.
+ */
+class FailoverRpcProvider extends ethers.JsonRpcProvider {
+  readonly endpoints: RpcEndpointStats[]
+
+  constructor(chainId: number, endpoints: RpcEndpointConfig[]) {
+    const network = new ethers.Network(`chain-${chainId}`, chainId)
+    super(endpoints[0].url, network, { staticNetwork: network })
+    this.endpoints = endpoints.map(({ url, weight }) => ({
+      url,
+      weight,
+      requests: 0,
+      errors: 0,
+      rateLimits: 0,
+      timeouts: 0,
+      avgLatencyMs: null,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+      lastError: null,
+    }))
+  }
+
+  // Weighted random pick among healthy endpoints; if all are cooling down, the one that recovers first
+  private pickEndpoint(exclude: Set<RpcEndpointStats>): RpcEndpointStats | null {
+    const now = Date.now()
+    const candidates = this.endpoints.filter(e => !exclude.has(e))
+    if (candidates.length === 0) return null
+
+    const healthy = candidates.filter(e => e.cooldownUntil <= now)
+    if (healthy.length === 0) {
+      return candidates.reduce((best, e) => (e.cooldownUntil < best.cooldownUntil ? e : best))
+    }
+
+    let roll = Math.random() * healthy.reduce((sum, e) => sum + e.weight, 0)
+    for (const endpoint of healthy) {
+      roll -= endpoint.weight
+      if (roll <= 0) return endpoint
+    }
+    return healthy[healthy.length - 1]
+  }
+
+  private markSuccess(endpoint: RpcEndpointStats, latencyMs: number) {
+    endpoint.avgLatencyMs = endpoint.avgLatencyMs === null ? latencyMs : endpoint.avgLatencyMs * 0.8 + latencyMs * 0.2
+    endpoint.consecutiveFailures = 0
+    endpoint.cooldownUntil = 0
+  }
+
+  private markFailure(endpoint: RpcEndpointStats, error: unknown) {
+    endpoint.errors++
+    if (isRateLimit(error)) endpoint.rateLimits++
+    if (isTimeout(error)) endpoint.timeouts++
+    endpoint.consecutiveFailures++
+    const rpcError = error as { message?: string; error?: { message?: string } }
+    endpoint.lastError = rpcError?.message ?? rpcError?.error?.message ?? String(error)
+    const cooldown = Math.min(RPC_COOLDOWN_MAX_MS, RPC_COOLDOWN_BASE_MS * 2 ** (endpoint.consecutiveFailures - 1))
+    endpoint.cooldownUntil = Date.now() + cooldown
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const tried = new Set<RpcEndpointStats>()
+    let lastError: unknown = null
+    let limitedResults: Array<ethers.JsonRpcResult> | null = null
+
+    for (let endpoint = this.pickEndpoint(tried); endpoint; endpoint = this.pickEndpoint(tried)) {
+      tried.add(endpoint)
+      endpoint.requests++
+
+      const request = new ethers.FetchRequest(endpoint.url)
+      request.timeout = RPC_TIMEOUT_MS
+      request.setThrottleParams({ maxAttempts: 1 }) // rotate instead of waiting out a 429
+      request.body = JSON.stringify(payload)
+      request.setHeader('content-type', 'application/json')
+
+      const started = Date.now()
+      try {
+        const response = await request.send()
+        response.assertOk()
+        const body = response.bodyJson
+        const results = (Array.isArray(body) ? body : [body]) as Array<ethers.JsonRpcResult | ethers.JsonRpcError>
+
+        // Rate limits usually come back as a JSON-RPC error with HTTP 200
+        const limited = results.find(r => 'error' in r && isRateLimit(r))
+        if (limited) {
+          limitedResults = results as Array<ethers.JsonRpcResult>
+          throw limited
+        }
+
+        this.markSuccess(endpoint, Date.now() - started)
+        return results as Array<ethers.JsonRpcResult>
+      } catch (error) {
+        this.markFailure(endpoint, error)
+        lastError = error
+        if (this.endpoints.length > 1) {
+          console.warn(`[rpc] ${redactRpcUrl(endpoint.url)} failed (${endpoint.lastError}) - trying another endpoint`)
+        }
+      }
+    }
+
+    // Every endpoint failed: hand a rate limit back as JSON-RPC errors so callers' isRateLimit backoff still works
+    if (limitedResults) return limitedResults
+    throw lastError
+  }
+}
+
+// One failover provider per chain, shared by the worker, API routes and lib helpers
+const providerCache: Map<number, FailoverRpcProvider> = new Map()
+
+// Backend provider for workers and API routes
+export function providerFor(chainId: number): ethers.JsonRpcProvider {
+  const cached = providerCache.get(chainId)
+  if (cached) return cached
+
+  const endpoints = rpcEndpointsByChain[chainId]
+  if (!endpoints?.length) throw new Error(`No RPC for chain ${chainId}`)
+
+  const provider = new FailoverRpcProvider(chainId, endpoints)
+  providerCache.set(chainId, provider)
+  return provider
+}
+
+/**
+ * Per-endpoint counters for every chain that has been used in this process (URLs redacted)
+ */
+export function getRpcStats(): Record<number, RpcEndpointStats[]> {
+  const stats: Record<number, RpcEndpointStats[]> = {}
+  for (const [chainId, provider] of providerCache) {
+    stats[chainId] = provider.endpoints.map(e => ({ ...e, url: redactRpcUrl(e.url) }))
+  }
+  return stats
 }
 
 // Frontend RPC URLs for Wagmi
@@ -0,0 +1,320 @@
+// Public response DTOs for /api/v1, their row mappers and the JSON schemas the OpenAPI document is built from
+// Keep each interface and its schema next to each other: the schema is what partners code against.
+// Wei amounts are decimal strings; ETH and USD values are numbers.
+
+import { sql } from '../sql'
+
+export const TRADE_SIDES = ['BUY', 'SELL', 'BUY&LOCK', 'UNLOCK', 'CLAIMAIRDROP', 'GRADUATION', 'TRANSFER'] as const
+export type TradeSide = typeof TRADE_SIDES[number]
+
+export const TOKEN_STATUSES = ['bonding', 'graduated', 'on_dex'] as const
+export type TokenStatus = typeof TOKEN_STATUSES[number]
+
+type JsonSchema = Record<string, unknown>
+
+const nullable = (schema: JsonSchema): JsonSchema => ({ ...schema, nullable: true })
+const weiString: JsonSchema = { type: 'string', pattern: '^[0-9]+$', description: 'Integer amount in wei (18 decimals)' }
+const address: JsonSchema = { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' }
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' }
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+function toIso(value: unknown): string | null {
+  if (value === null || value === undefined) return null
+  const date = value instanceof Date ? value : new Date(String(value))
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+// ---------- Token ----------
+
+export interface TokenDto {
+  id: number
+  chainId: number
+  contractAddress: string
+  name: string
+  symbol: string
+  description: string | null
+  imageUrl: string | null
+  links: { website: string | null; twitter: string | null; telegram: string | null }
+  creator: { wallet: string; displayName: string | null }
+  createdAt: string | null
+  status: TokenStatus
+  raiseTargetEth: number | null
+  ethRaised: number | null
+  priceEth: number | null
+  marketCapEth: number | null
+  fdvEth: number | null
+  totalSupply: number | null
+  maxSupply: number | null
+  holderCount: number | null
+  volume24hEth: number | null
+  liquidityEth: number | null
+  dexListingUrl: string | null
+}
+
+export interface TokenRow {
+  id: number
+  chain_id: number
+  contract_address: string
+  name: string
+  symbol: string
+  description: string | null
+  image: string | null
+  website: string | null
+  twitter: string | null
+  telegram: string | null
+  creator_wallet: string
+  display_name: string | null
+  created_at: Date | string | null
+  is_graduated: boolean | null
+  on_dex: boolean | null
+  raise_target: unknown
+  eth_raised: unknown
+  current_price: unknown
+  market_cap: unknown
+  fdv: unknown
+  total_supply: unknown
+  supply: unknown
+  holder_count: unknown
+  volume_24h_eth: unknown
+  liquidity_eth: unknown
+  dex_listing_url: string | null
+}
+
+/** Columns a TokenRow needs, for `SELECT ${TOKEN_COLUMNS} FROM tokens t LEFT JOIN profiles p ...` */
+export const TOKEN_COLUMNS = sql`
+  t.id, t.chain_id, t.contract_address, t.name, t.symbol, t.description, t.image, t.website, t.twitter,
+  t.telegram, t.creator_wallet, p.display_name, t.created_at, t.is_graduated, t.on_dex, t.raise_target,
+  t.eth_raised, t.current_price, t.market_cap, t.fdv, t.total_supply, t.supply, t.holder_count,
+  t.volume_24h_eth, t.liquidity_eth, t.dex_listing_url
+`
+
+export function toTokenDto(row: TokenRow): TokenDto {
+  return {
+    id: row.id,
+    chainId: row.chain_id,
+    contractAddress: row.contract_address,
+    name: row.name,
+    symbol: row.symbol,
+    description: row.description || null,
+    imageUrl: row.image || null,
+    links: { website: row.website || null, twitter: row.twitter || null, telegram: row.telegram || null },
+    creator: { wallet: row.creator_wallet, displayName: row.display_name || null },
+    createdAt: toIso(row.created_at),
+    status: row.on_dex ? 'on_dex' : row.is_graduated ? 'graduated' : 'bonding',
+    raiseTargetEth: toNumber(row.raise_target),
+    ethRaised: toNumber(row.eth_raised),
+    priceEth: toNumber(row.current_price),
+    marketCapEth: toNumber(row.market_cap),
+    fdvEth: toNumber(row.fdv),
+    totalSupply: toNumber(row.total_supply),
+    maxSupply: toNumber(row.supply),
+    holderCount: toNumber(row.holder_count),
+    volume24hEth: toNumber(row.volume_24h_eth),
+    liquidityEth: toNumber(row.liquidity_eth),
+    dexListingUrl: row.dex_listing_url || null,
+  }
+}
+
+export const tokenSchema: JsonSchema = {
+  type: 'object',
+  required: ['id', 'chainId', 'contractAddress', 'name', 'symbol', 'creator', 'status'],
+  properties: {
+    id: { type: 'integer' },
+    chainId: { type: 'integer' },
+    contractAddress: address,
+    name: { type: 'string' },
+    symbol: { type: 'string' },
+    description: nullable({ type: 'string' }),
+    imageUrl: nullable({ type: 'string' }),
+    links: {
+      type: 'object',
+      properties: {
+        website: nullable({ type: 'string' }),
+        twitter: nullable({ type: 'string' }),
+        telegram: nullable({ type: 'string' }),
+      },
+    },
+    creator: {
+      type: 'object',
+      properties: { wallet: address, displayName: nullable({ type: 'string' }) },
+    },
+    createdAt: nullable(dateTime),
+    status: { type: 'string', enum: [...TOKEN_STATUSES] },
+    raiseTargetEth: nullable({ type: 'number' }),
+    ethRaised: nullable({ type: 'number' }),
+    priceEth: nullable({ type: 'number', description: 'ETH per whole token' }),
+    marketCapEth: nullable({ type: 'number' }),
+    fdvEth: nullable({ type: 'number' }),
+    totalSupply: nullable({ type: 'number', description: 'Whole tokens' }),
+    maxSupply: nullable({ type: 'number', description: 'Whole tokens' }),
+    holderCount: nullable({ type: 'integer' }),
+    volume24hEth: nullable({ type: 'number' }),
+    liquidityEth: nullable({ type: 'number' }),
+    dexListingUrl: nullable({ type: 'string' }),
+  },
+}
+
+// ---------- Trade ----------
+
+export interface TradeDto {
+  txHash: string
+  logIndex: number
+  blockNumber: number
+  blockTime: string | null
+  side: string
+  venue: 'bonding_curve' | 'dex'
+  from: string
+  to: string
+  amountWei: string
+  amountEthWei: string | null
+  priceEth: number | null
+  ethPriceUsd: number | null
+}
+
+export interface TradeRow {
+  tx_hash: string
+  log_index: number
+  block_number: string | number
+  block_time: Date | string | null
+  side: string
+  src: string | null
+  from_address: string
+  to_address: string
+  amount_wei: string
+  amount_eth_wei: string | null
+  price_eth_per_token: unknown
+  eth_price_usd: unknown
+}
+
+export function toTradeDto(row: TradeRow): TradeDto {
+  return {
+    txHash: row.tx_hash,
+    logIndex: Number(row.log_index),
+    blockNumber: Number(row.block_number),
+    blockTime: toIso(row.block_time),
+    side: row.side,
+    venue: row.src === 'DEX' ? 'dex' : 'bonding_curve',
+    from: row.from_address,
+    to: row.to_address,
+    amountWei: row.amount_wei,
+    amountEthWei: row.amount_eth_wei,
+    priceEth: toNumber(row.price_eth_per_token),
+    ethPriceUsd: toNumber(row.eth_price_usd),
+  }
+}
+
+export const tradeSchema: JsonSchema = {
+  type: 'object',
+  required: ['txHash', 'logIndex', 'blockNumber', 'side', 'venue', 'from', 'to', 'amountWei'],
+  properties: {
+    txHash: { type: 'string', pattern: '^0x[0-9a-fA-F]{64}$' },
+    logIndex: { type: 'integer' },
+    blockNumber: { type: 'integer' },
+    blockTime: nullable(dateTime),
+    side: { type: 'string', enum: [...TRADE_SIDES] },
+    venue: { type: 'string', enum: ['bonding_curve', 'dex'] },
+    from: address,
+    to: address,
+    amountWei: weiString,
+    amountEthWei: nullable({ ...weiString, description: 'ETH side of the trade in wei' }),
+    priceEth: nullable({ type: 'number', description: 'ETH per whole token' }),
+    ethPriceUsd: nullable({ type: 'number', description: 'ETH/USD at the block time' }),
+  },
+}
+
+// ---------- Holder ----------
+
+export interface HolderDto {
+  wallet: string
+  displayName: string | null
+  balanceWei: string
+  share: number | null // of the circulating supply (pairs and the contract excluded), 0..1
+}
+
+export interface HolderRow {
+  holder: string
+  display_name: string | null
+  balance_wei: string
+  circulating_wei: string | null
+}
+
+export function toHolderDto(row: HolderRow): HolderDto {
+  const circulating = Number(row.circulating_wei ?? 0)
+  return {
+    wallet: row.holder,
+    displayName: row.display_name || null,
+    balanceWei: row.balance_wei,
+    share: circulating > 0 ? Number(row.balance_wei) / circulating : null,
+  }
+}
+
+export const holderSchema: JsonSchema = {
+  type: 'object',
+  required: ['wallet', 'balanceWei'],
+  properties: {
+    wallet: address,
+    displayName: nullable({ type: 'string' }),
+    balanceWei: weiString,
+    share: nullable({ type: 'number', minimum: 0, maximum: 1, description: 'Share of the circulating supply' }),
+  },
+}
+
+// ---------- Leaderboard ----------
+
+export const LEADERBOARD_SORTS = [
+  'gainers_24h', 'volume_24h', 'liquidity', 'top_raise', 'raise_progress', 'market_cap', 'trades_24h', 'newcomers',
+] as const
+export type LeaderboardSort = typeof LEADERBOARD_SORTS[number]
+
+export interface LeaderboardEntryDto {
+  rank: number
+  token: TokenDto
+  priceChange24hPct: number | null
+  volume24hUsd: number | null
+  liquidityUsd: number | null
+  trades24h: number | null
+  raiseProgressPct: number | null
+  marketCapUsd: number | null
+}
+
+export interface LeaderboardRow extends TokenRow {
+  price_change_24h_pct: unknown
+  volume_24h_usd: unknown
+  liquidity_effective_usd: unknown
+  trades_24h: unknown
+  raise_progress_pct: unknown
+  market_cap_usd: unknown
+}
+
+export function toLeaderboardEntryDto(row: LeaderboardRow, rank: number): LeaderboardEntryDto {
+  return {
+    rank,
+    token: toTokenDto(row),
+    priceChange24hPct: toNumber(row.price_change_24h_pct),
+    volume24hUsd: toNumber(row.volume_24h_usd),
+    liquidityUsd: toNumber(row.liquidity_effective_usd),
+    trades24h: toNumber(row.trades_24h),
+    raiseProgressPct: toNumber(row.raise_progress_pct),
+    marketCapUsd: toNumber(row.market_cap_usd),
+  }
+}
+
+export const leaderboardEntrySchema: JsonSchema = {
+  type: 'object',
+  required: ['rank', 'token'],
+  properties: {
+    rank: { type: 'integer', minimum: 1 },
+    token: { $ref: '#/components/schemas/Token' },
+    priceChange24hPct: nullable({ type: 'number' }),
+    volume24hUsd: nullable({ type: 'number' }),
+    liquidityUsd: nullable({ type: 'number' }),
+    trades24h: nullable({ type: 'integer' }),
+    raiseProgressPct: nullable({ type: 'number' }),
+    marketCapUsd: nullable({ type: 'number' }),
+  },
+}
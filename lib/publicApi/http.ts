@@ -0,0 +1,77 @@
+// Response envelopes, cursors and error handling for /api/v1
+//   list:   { data: T[], pagination: { nextCursor, pageSize } }
+//   single: { data: T }
+//   error:  { error: { code, message } }
+
+import { NextResponse } from 'next/server'
+import { RequestParamError } from '../requestParams'
+
+export type ApiErrorCode = 'bad_request' | 'not_found' | 'internal_error'
+
+export interface ApiErrorBody {
+  error: { code: ApiErrorCode; message: string }
+}
+
+export interface Pagination {
+  nextCursor: string | null // pass back as ?cursor= for the next page; null on the last page
+  pageSize: number
+}
+
+export function errorResponse(status: number, code: ApiErrorCode, message: string) {
+  return NextResponse.json<ApiErrorBody>({ error: { code, message } }, { status })
+}
+
+export function dataResponse<T>(data: T) {
+  return NextResponse.json({ data })
+}
+
+export function listResponse<T>(data: T[], nextCursor: string | null, pageSize: number) {
+  const pagination: Pagination = { nextCursor, pageSize }
+  return NextResponse.json({ data, pagination })
+}
+
+/**
+ * Opaque cursor: base64url JSON of the last row's sort key
+ */
+export function encodeCursor(key: Record<string, string | number>): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url')
+}
+
+type CursorField = 'number' | 'decimal' | 'address'
+
+const CURSOR_CHECKS: Record<CursorField, (value: unknown) => boolean> = {
+  number: value => Number.isSafeInteger(value) && (value as number) >= 0,
+  decimal: value => typeof value === 'string' && /^\d{1,78}$/.test(value), // wei amounts
+  address: value => typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value),
+}
+
+export function decodeCursor<K extends Record<string, string | number>>(
+  value: string | null,
+  fields: Record<keyof K, CursorField>
+): K | null {
+  if (value === null || value === '') return null
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    for (const [field, type] of Object.entries(fields) as [string, CursorField][]) {
+      if (!CURSOR_CHECKS[type](parsed?.[field])) throw new Error(`bad ${field}`)
+    }
+    return parsed as K
+  } catch {
+    throw new RequestParamError('cursor', 'cursor is invalid or expired')
+  }
+}
+
+/**
+ * Run a v1 handler, mapping validation errors to 400 and anything unexpected to 500
+ */
+export async function handlePublicApi(label: string, handler: () => Promise<NextResponse>): Promise<NextResponse> {
+  try {
+    return await handler()
+  } catch (error) {
+    if (error instanceof RequestParamError) {
+      return errorResponse(400, 'bad_request', error.message)
+    }
+    console.error(`[API v1] ${label} failed:`, error)
+    return errorResponse(500, 'internal_error', 'Internal server error')
+  }
+}
@@ -0,0 +1,189 @@
+// OpenAPI 3 document for /api/v1, generated from the DTO schemas in ./dto and the route table below.
+// Adding a v1 route means adding it here too; /api/v1/openapi.json serves the result.
+
+import { MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE } from '../requestParams'
+import { chainConfigsById } from '../chains'
+import {
+  LEADERBOARD_SORTS, TOKEN_STATUSES, TRADE_SIDES,
+  holderSchema, leaderboardEntrySchema, tokenSchema, tradeSchema,
+} from './dto'
+
+type JsonSchema = Record<string, unknown>
+
+interface ParameterSpec {
+  name: string
+  in: 'query' | 'path'
+  description: string
+  required?: boolean
+  schema: JsonSchema
+}
+
+interface RouteSpec {
+  path: string
+  operationId: string
+  summary: string
+  parameters: ParameterSpec[]
+  response: { schema: string; list: boolean } | { raw: JsonSchema }
+  notFound?: boolean
+}
+
+const chainIdParam: ParameterSpec = {
+  name: 'chainId',
+  in: 'query',
+  description: 'Only tokens on this chain',
+  schema: { type: 'integer', enum: Object.keys(chainConfigsById).map(Number) },
+}
+const tokenIdParam: ParameterSpec = {
+  name: 'id', in: 'path', required: true, description: 'Token id', schema: { type: 'integer', minimum: 1 },
+}
+const pageSizeParam: ParameterSpec = {
+  name: 'pageSize',
+  in: 'query',
+  description: 'Items per page',
+  schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+}
+const cursorParam: ParameterSpec = {
+  name: 'cursor', in: 'query', description: 'pagination.nextCursor from the previous page', schema: { type: 'string' },
+}
+
+const ROUTES: RouteSpec[] = [
+  {
+    path: '/tokens',
+    operationId: 'listTokens',
+    summary: 'List launched tokens',
+    parameters: [
+      chainIdParam,
+      { name: 'status', in: 'query', description: 'Lifecycle filter', schema: { type: 'string', enum: [...TOKEN_STATUSES] } },
+      { name: 'order', in: 'query', description: 'By launch order', schema: { type: 'string', enum: ['newest', 'oldest'], default: 'newest' } },
+      pageSizeParam,
+      cursorParam,
+    ],
+    response: { schema: 'Token', list: true },
+  },
+  {
+    path: '/tokens/{id}',
+    operationId: 'getToken',
+    summary: 'One token',
+    parameters: [tokenIdParam],
+    response: { schema: 'Token', list: false },
+    notFound: true,
+  },
+  {
+    path: '/tokens/{id}/trades',
+    operationId: 'listTokenTrades',
+    summary: 'Trades and transfers of a token, newest first',
+    parameters: [
+      tokenIdParam,
+      { name: 'side', in: 'query', description: 'Only this trade side', schema: { type: 'string', enum: [...TRADE_SIDES] } },
+      { name: 'wallet', in: 'query', description: 'Only trades from or to this wallet', schema: { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' } },
+      pageSizeParam,
+      cursorParam,
+    ],
+    response: { schema: 'Trade', list: true },
+    notFound: true,
+  },
+  {
+    path: '/tokens/{id}/holders',
+    operationId: 'listTokenHolders',
+    summary: 'Holders of a token by balance (DEX pairs and the token contract excluded)',
+    parameters: [tokenIdParam, pageSizeParam, cursorParam],
+    response: { schema: 'Holder', list: true },
+    notFound: true,
+  },
+  {
+    path: '/leaderboard',
+    operationId: 'listLeaderboard',
+    summary: 'Ranked tokens',
+    parameters: [
+      { name: 'sort', in: 'query', description: 'Ranking', schema: { type: 'string', enum: [...LEADERBOARD_SORTS], default: 'gainers_24h' } },
+      chainIdParam,
+      { name: 'excludeGraduated', in: 'query', description: 'Only tokens still on the bonding curve', schema: { type: 'boolean', default: false } },
+      pageSizeParam,
+      cursorParam,
+    ],
+    response: { schema: 'LeaderboardEntry', list: true },
+  },
+  {
+    path: '/openapi.json',
+    operationId: 'getOpenApiDocument',
+    summary: 'This document',
+    parameters: [],
+    response: { raw: { type: 'object' } },
+  },
+]
+
+const errorSchema: JsonSchema = {
+  type: 'object',
+  required: ['error'],
+  properties: {
+    error: {
+      type: 'object',
+      required: ['code', 'message'],
+      properties: {
+        code: { type: 'string', enum: ['bad_request', 'not_found', 'internal_error'] },
+        message: { type: 'string' },
+      },
+    },
+  },
+}
+
+const paginationSchema: JsonSchema = {
+  type: 'object',
+  required: ['nextCursor', 'pageSize'],
+  properties: {
+    nextCursor: { type: 'string', nullable: true, description: 'Null on the last page' },
+    pageSize: { type: 'integer' },
+  },
+}
+
+function errorResponse(description: string) {
+  return { description, content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } }
+}
+
+function successSchema(response: RouteSpec['response']): JsonSchema {
+  if ('raw' in response) return response.raw
+  const item = { $ref: `#/components/schemas/${response.schema}` }
+  if (!response.list) return { type: 'object', required: ['data'], properties: { data: item } }
+  return {
+    type: 'object',
+    required: ['data', 'pagination'],
+    properties: { data: { type: 'array', items: item }, pagination: { $ref: '#/components/schemas/Pagination' } },
+  }
+}
+
+export function buildOpenApiDocument(serverUrl = '/api/v1') {
+  const paths: Record<string, unknown> = {}
+  for (const route of ROUTES) {
+    const responses: Record<string, unknown> = {
+      200: { description: 'OK', content: { 'application/json': { schema: successSchema(route.response) } } },
+      500: errorResponse('Internal error'),
+    }
+    if (route.parameters.length > 0) responses[400] = errorResponse('Invalid parameter')
+    if (route.notFound) responses[404] = errorResponse('Token not found')
+
+    paths[route.path] = {
+      get: { operationId: route.operationId, summary: route.summary, parameters: route.parameters, responses },
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Turbo Launchpad Public API',
+      version: '1.0.0',
+      description: 'Stable, versioned read API. Wei amounts are decimal strings; lists use cursor pagination.',
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: {
+      schemas: {
+        Token: tokenSchema,
+        Trade: tradeSchema,
+        Holder: holderSchema,
+        LeaderboardEntry: leaderboardEntrySchema,
+        Pagination: paginationSchema,
+        Error: errorSchema,
+      },
+    },
+  }
+}
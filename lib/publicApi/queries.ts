@@ -0,0 +1,188 @@
+// Read queries behind /api/v1, built with lib/sql so every value is a bind parameter.
+// Lists fetch pageSize + 1 rows to know whether there is a next page.
+
+import db from '../db'
+import { orderBy, sql, where, type Sql } from '../sql'
+import { decodeCursor, encodeCursor } from './http'
+import {
+  TOKEN_COLUMNS, toHolderDto, toLeaderboardEntryDto, toTokenDto, toTradeDto,
+  type HolderDto, type HolderRow, type LeaderboardEntryDto, type LeaderboardRow, type LeaderboardSort,
+  type TokenDto, type TokenRow, type TokenStatus, type TradeDto, type TradeRow, type TradeSide,
+} from './dto'
+
+export interface Page<T> {
+  data: T[]
+  nextCursor: string | null
+}
+
+function paginate<R, T>(rows: R[], pageSize: number, toDto: (row: R) => T, keyOf: (row: R) => Record<string, string | number>): Page<T> {
+  const hasMore = rows.length > pageSize
+  const pageRows = hasMore ? rows.slice(0, pageSize) : rows
+  return {
+    data: pageRows.map(toDto),
+    nextCursor: hasMore ? encodeCursor(keyOf(pageRows[pageRows.length - 1])) : null,
+  }
+}
+
+const STATUS_FILTERS: Record<TokenStatus, Sql> = {
+  bonding: sql`COALESCE(t.is_graduated, FALSE) = FALSE`,
+  graduated: sql`COALESCE(t.is_graduated, FALSE) = TRUE AND COALESCE(t.on_dex, FALSE) = FALSE`,
+  on_dex: sql`COALESCE(t.on_dex, FALSE) = TRUE`,
+}
+
+export async function listTokens(options: {
+  chainId: number | null
+  status: TokenStatus | null
+  order: 'newest' | 'oldest'
+  pageSize: number
+  cursor: string | null
+}): Promise<Page<TokenDto>> {
+  const after = decodeCursor<{ id: number }>(options.cursor, { id: 'number' })
+  const newest = options.order === 'newest'
+
+  const { rows } = await db.query<TokenRow>(sql`
+    SELECT ${TOKEN_COLUMNS}
+    FROM public.tokens t
+    LEFT JOIN public.profiles p ON LOWER(p.wallet) = LOWER(t.creator_wallet)
+    ${where([
+      options.chainId !== null && sql`t.chain_id = ${options.chainId}`,
+      options.status && STATUS_FILTERS[options.status],
+      after && (newest ? sql`t.id < ${after.id}` : sql`t.id > ${after.id}`),
+    ])}
+    ${newest ? sql`ORDER BY t.id DESC` : sql`ORDER BY t.id ASC`}
+    LIMIT ${options.pageSize + 1}
+  `)
+
+  return paginate(rows, options.pageSize, toTokenDto, row => ({ id: row.id }))
+}
+
+export async function getToken(id: number): Promise<TokenDto | null> {
+  const { rows } = await db.query<TokenRow>(sql`
+    SELECT ${TOKEN_COLUMNS}
+    FROM public.tokens t
+    LEFT JOIN public.profiles p ON LOWER(p.wallet) = LOWER(t.creator_wallet)
+    WHERE t.id = ${id}
+  `)
+  return rows[0] ? toTokenDto(rows[0]) : null
+}
+
+export async function tokenExists(id: number): Promise<boolean> {
+  const { rowCount } = await db.query('SELECT 1 FROM public.tokens WHERE id = $1', [id])
+  return (rowCount ?? 0) > 0
+}
+
+/** Newest first; MINT rows are bookkeeping and never exposed */
+export async function listTrades(options: {
+  tokenId: number
+  side: TradeSide | null
+  wallet: string | null
+  pageSize: number
+  cursor: string | null
+}): Promise<Page<TradeDto>> {
+  const after = decodeCursor<{ block: number; log: number }>(options.cursor, { block: 'number', log: 'number' })
+
+  const { rows } = await db.query<TradeRow>(sql`
+    SELECT tx_hash, log_index, block_number, block_time, side, src, from_address, to_address,
+           amount_wei::text AS amount_wei, amount_eth_wei::text AS amount_eth_wei, price_eth_per_token, eth_price_usd
+    FROM public.token_transfers
+    ${where([
+      sql`token_id = ${options.tokenId}`,
+      sql`side <> 'MINT'`,
+      options.side && sql`side = ${options.side}`,
+      options.wallet !== null && sql`(LOWER(from_address) = ${options.wallet} OR LOWER(to_address) = ${options.wallet})`,
+      after && sql`(block_number, log_index) < (${after.block}, ${after.log})`,
+    ])}
+    ORDER BY block_number DESC, log_index DESC
+    LIMIT ${options.pageSize + 1}
+  `)
+
+  return paginate(rows, options.pageSize, toTradeDto, row => ({ block: Number(row.block_number), log: Number(row.log_index) }))
+}
+
+/** Largest balance first; DEX pairs and the token contract itself are not holders */
+export async function listHolders(options: {
+  tokenId: number
+  pageSize: number
+  cursor: string | null
+}): Promise<Page<HolderDto>> {
+  const after = decodeCursor<{ balance: string; holder: string }>(options.cursor, { balance: 'decimal', holder: 'address' })
+
+  const { rows } = await db.query<HolderRow>(sql`
+    WITH holders AS (
+      SELECT b.holder, b.balance_wei
+      FROM public.token_balances b
+      JOIN public.tokens t ON t.id = b.token_id
+      WHERE b.token_id = ${options.tokenId}
+        AND b.balance_wei > 0
+        AND LOWER(b.holder) <> LOWER(t.contract_address)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.dex_pools d
+          WHERE d.token_id = b.token_id AND LOWER(d.pair_address) = LOWER(b.holder)
+        )
+    ),
+    circulating AS (SELECT SUM(balance_wei) AS total FROM holders)
+    SELECT b.holder, p.display_name, b.balance_wei::text AS balance_wei, c.total::text AS circulating_wei
+    FROM holders b
+    CROSS JOIN circulating c
+    LEFT JOIN public.profiles p ON LOWER(p.wallet) = LOWER(b.holder)
+    ${where([
+      after && sql`(b.balance_wei < ${after.balance}::numeric
+        OR (b.balance_wei = ${after.balance}::numeric AND LOWER(b.holder) > ${after.holder.toLowerCase()}))`,
+    ])}
+    ORDER BY b.balance_wei DESC, LOWER(b.holder) ASC
+    LIMIT ${options.pageSize + 1}
+  `)
+
+  return paginate(rows, options.pageSize, toHolderDto, row => ({ balance: row.balance_wei, holder: row.holder.toLowerCase() }))
+}
+
+/** Leaderboard sorts over `tokens_leaderboard_fast tlf JOIN tokens t` (shared with /api/leaderboard) */
+export const LEADERBOARD_ORDER: Record<LeaderboardSort, Sql> = {
+  gainers_24h: sql`tlf.price_change_24h_pct DESC NULLS LAST`,
+  volume_24h: sql`tlf.volume_24h_usd DESC NULLS LAST`,
+  liquidity: sql`tlf.liquidity_effective_usd DESC NULLS LAST`,
+  top_raise: sql`t.eth_raised DESC NULLS LAST`,
+  raise_progress: sql`tlf.raise_progress_pct DESC NULLS LAST`,
+  market_cap: sql`t.market_cap DESC NULLS LAST`,
+  trades_24h: sql`tlf.trades_24h DESC NULLS LAST`,
+  newcomers: sql`t.created_at DESC NULLS LAST`,
+}
+
+/**
+ * Ranked from the leaderboard materialization, so the cursor is an offset into the ranking
+ * (tie-broken on id to keep pages stable between refreshes of equal values)
+ */
+export async function listLeaderboard(options: {
+  sort: LeaderboardSort
+  chainId: number | null
+  excludeGraduated: boolean
+  pageSize: number
+  cursor: string | null
+}): Promise<Page<LeaderboardEntryDto>> {
+  const after = decodeCursor<{ offset: number }>(options.cursor, { offset: 'number' })
+  const offset = after?.offset ?? 0
+
+  const { rows } = await db.query<LeaderboardRow>(sql`
+    SELECT ${TOKEN_COLUMNS},
+           tlf.price_change_24h_pct, tlf.volume_24h_usd, tlf.liquidity_effective_usd, tlf.trades_24h,
+           tlf.raise_progress_pct, t.market_cap * epc.price_usd AS market_cap_usd
+    FROM public.tokens_leaderboard_fast tlf
+    JOIN public.tokens t ON t.id = tlf.id
+    LEFT JOIN public.profiles p ON LOWER(p.wallet) = LOWER(t.creator_wallet)
+    LEFT JOIN public.eth_price_latest epc ON TRUE
+    ${where([
+      options.excludeGraduated && sql`COALESCE(t.is_graduated, FALSE) = FALSE`,
+      options.chainId !== null && sql`t.chain_id = ${options.chainId}`,
+      options.sort === 'gainers_24h' && sql`tlf.price_change_24h_pct IS NOT NULL AND tlf.price_change_24h_pct <> 0`,
+    ])}
+    ${orderBy(LEADERBOARD_ORDER, options.sort)}, t.id ASC
+    LIMIT ${options.pageSize + 1} OFFSET ${offset}
+  `)
+
+  const hasMore = rows.length > options.pageSize
+  const pageRows = hasMore ? rows.slice(0, options.pageSize) : rows
+  return {
+    data: pageRows.map((row, i) => toLeaderboardEntryDto(row, offset + i + 1)),
+    nextCursor: hasMore ? encodeCursor({ offset: offset + options.pageSize }) : null,
+  }
+}
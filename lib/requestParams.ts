@@ -0,0 +1,104 @@
+// Query-string validation shared by the API routes (internal and /api/v1)
+// Parsers throw RequestParamError for bad input; routes turn it into a 400 instead of passing it to SQL.
+
+import { chainConfigsById } from './chains'
+
+export class RequestParamError extends Error {
+  readonly param: string
+
+  constructor(param: string, message: string) {
+    super(message)
+    this.name = 'RequestParamError'
+    this.param = param
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/
+
+function parseInteger(name: string, value: string): number {
+  if (!/^-?\d{1,15}$/.test(value.trim())) {
+    throw new RequestParamError(name, `${name} must be an integer`)
+  }
+  return Number(value)
+}
+
+/** Positive integer id (tokenId, id path segments) */
+export function parseIdParam(name: string, value: string | null): number {
+  if (value === null || value === '') throw new RequestParamError(name, `${name} is required`)
+  const id = parseInteger(name, value)
+  if (id <= 0 || id > 2147483647) throw new RequestParamError(name, `${name} must be a positive integer`)
+  return id
+}
+
+/** Optional chainId; must be a chain from the registry */
+export function parseChainIdParam(value: string | null): number | null {
+  if (value === null || value === '') return null
+  const chainId = parseInteger('chainId', value)
+  if (!chainConfigsById[chainId]) throw new RequestParamError('chainId', `Unsupported chainId ${chainId}`)
+  return chainId
+}
+
+/** 1-based page number, defaults to 1 */
+export function parsePageParam(value: string | null): number {
+  if (value === null || value === '') return 1
+  const page = parseInteger('page', value)
+  if (page < 1 || page > 100000) throw new RequestParamError('page', 'page must be between 1 and 100000')
+  return page
+}
+
+export function parsePageSizeParam(value: string | null, defaultSize = DEFAULT_PAGE_SIZE, maxSize = MAX_PAGE_SIZE): number {
+  if (value === null || value === '') return defaultSize
+  const pageSize = parseInteger('pageSize', value)
+  if (pageSize < 1 || pageSize > maxSize) throw new RequestParamError('pageSize', `pageSize must be between 1 and ${maxSize}`)
+  return pageSize
+}
+
+/** Optional value from a fixed set */
+export function parseEnumParam<T extends string>(name: string, value: string | null, allowed: readonly T[]): T | null {
+  if (value === null || value === '') return null
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new RequestParamError(name, `${name} must be one of ${allowed.join(', ')}`)
+  }
+  return value as T
+}
+
+/** Optional 0x address, lowercased */
+export function parseAddressParam(name: string, value: string | null): string | null {
+  if (value === null || value === '') return null
+  if (!ADDRESS_RE.test(value)) throw new RequestParamError(name, `${name} must be a 0x address`)
+  return value.toLowerCase()
+}
+
+/** Optional free text (search boxes, symbols); NUL and control characters would make Postgres reject the query */
+export function parseTextParam(name: string, value: string | null, maxLength = 200): string | null {
+  if (value === null || value === '') return null
+  if (value.length > maxLength) throw new RequestParamError(name, `${name} must be at most ${maxLength} characters`)
+  if (/[\u0000-\u001f\u007f]/.test(value)) throw new RequestParamError(name, `${name} contains invalid characters`)
+  return value
+}
+
+export function parseBooleanParam(name: string, value: string | null): boolean | null {
+  if (value === null || value === '') return null
+  if (value === 'true') return true
+  if (value === 'false') return false
+  throw new RequestParamError(name, `${name} must be true or false`)
+}
+
+/** Optional count (limit, depth) between 1 and `max` */
+export function parseLimitParam(name: string, value: string | null, defaultValue: number, max: number): number {
+  if (value === null || value === '') return defaultValue
+  const limit = parseInteger(name, value)
+  if (limit < 1 || limit > max) throw new RequestParamError(name, `${name} must be between 1 and ${max}`)
+  return limit
+}
+
+/** Optional unix timestamp in seconds */
+export function parseTimestampParam(name: string, value: string | null): number | null {
+  if (value === null || value === '') return null
+  const timestamp = parseInteger(name, value)
+  if (timestamp < 0 || timestamp > 253402300799) throw new RequestParamError(name, `${name} must be a unix timestamp in seconds`)
+  return timestamp
+}
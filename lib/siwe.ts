@@ -0,0 +1,91 @@
+// Sign-In-With-Ethereum (EIP-4361) helpers shared by the browser and the API routes.
+// Only the fields we actually verify are supported; everything else is rejected.
+
+export const SIWE_STATEMENT = 'Sign in to Turbo Launchpad to manage your tokens and profile.'
+
+export type SiweFields = {
+  domain: string
+  address: string
+  uri: string
+  chainId: number
+  nonce: string
+  issuedAt: string
+}
+
+export function buildSiweMessage(fields: SiweFields): string {
+  return [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+    SIWE_STATEMENT,
+    '',
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  ].join('\n')
+}
+
+export function parseSiweMessage(message: string): SiweFields | null {
+  const lines = message.split('\n')
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/)
+  const address = lines[1]
+  if (!header || !address || !/^0x[a-fA-F0-9]{40}$/.test(address)) return null
+
+  const field = (name: string) => {
+    const line = lines.find(l => l.startsWith(`${name}: `))
+    return line ? line.slice(name.length + 2) : null
+  }
+
+  const uri = field('URI')
+  const version = field('Version')
+  const chainId = Number(field('Chain ID'))
+  const nonce = field('Nonce')
+  const issuedAt = field('Issued At')
+
+  if (!uri || version !== '1' || !Number.isInteger(chainId) || !nonce || !issuedAt) return null
+  if (isNaN(Date.parse(issuedAt))) return null
+
+  return { domain: header[1], address, uri, chainId, nonce, issuedAt }
+}
+
+/**
+ * Make sure the browser holds a session cookie for `address`.
+ * Reuses an existing session, otherwise asks the wallet to sign a fresh SIWE message.
+ */
+export async function ensureWalletSession(
+  address: string,
+  chainId: number,
+  signMessage: (message: string) => Promise<string>
+): Promise<void> {
+  const sessionRes = await fetch('/api/auth/session')
+  if (sessionRes.ok) {
+    const { wallet } = await sessionRes.json()
+    if (wallet && wallet.toLowerCase() === address.toLowerCase()) return
+  }
+
+  const nonceRes = await fetch('/api/auth/nonce')
+  if (!nonceRes.ok) throw new Error('Failed to start wallet sign-in')
+  const { nonce } = await nonceRes.json()
+
+  const message = buildSiweMessage({
+    domain: window.location.host,
+    address,
+    uri: window.location.origin,
+    chainId,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  })
+  const signature = await signMessage(message)
+
+  const verifyRes = await fetch('/api/auth/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature }),
+  })
+  if (!verifyRes.ok) {
+    const err = await verifyRes.json().catch(() => ({}))
+    throw new Error(err.error || 'Wallet sign-in failed')
+  }
+}
@@ -0,0 +1,63 @@
+// Tagged-template SQL builder for queries assembled from request input.
+//
+//   const query = sql`SELECT * FROM tokens t ${where([chainId !== null && sql`t.chain_id = ${chainId}`])} LIMIT ${limit}`
+//   await pool.query(query)  // { text: 'SELECT ... t.chain_id = $1 LIMIT $2', values: [chainId, limit] }
+//
+// Interpolated values always become $n placeholders; nested `sql` fragments are spliced in and renumbered.
+// The only way to put caller-chosen text into the statement is orderBy(), which picks from a fixed map.
+
+export type SqlValue = string | number | bigint | boolean | Date | null | readonly (string | number)[]
+
+export class Sql {
+  readonly strings: string[]
+  readonly values: SqlValue[]
+
+  constructor(strings: readonly string[], values: readonly (SqlValue | Sql)[]) {
+    this.strings = [strings[0]]
+    this.values = []
+    values.forEach((value, i) => {
+      if (value instanceof Sql) {
+        this.strings[this.strings.length - 1] += value.strings[0]
+        this.strings.push(...value.strings.slice(1))
+        this.values.push(...value.values)
+        this.strings[this.strings.length - 1] += strings[i + 1]
+      } else {
+        this.values.push(value)
+        this.strings.push(strings[i + 1])
+      }
+    })
+  }
+
+  /** Statement text with $1..$n placeholders (what pg's query config reads) */
+  get text(): string {
+    return this.strings.reduce((text, part, i) => `${text}$${i}${part}`)
+  }
+}
+
+export function sql(strings: TemplateStringsArray, ...values: (SqlValue | Sql)[]): Sql {
+  return new Sql(strings, values)
+}
+
+export const empty = new Sql([''], [])
+
+/** Joins fragments with a fixed separator; falsy entries are dropped so conditions can be inline */
+export function join(fragments: (Sql | false | null | undefined)[], separator: ', ' | ' AND ' | ' OR ' | ' UNION ALL ' = ', '): Sql {
+  const parts = fragments.filter((fragment): fragment is Sql => fragment instanceof Sql)
+  if (parts.length === 0) return empty
+  return new Sql(['', ...parts.slice(1).map(() => separator), ''], parts)
+}
+
+/** `WHERE a AND b`, or nothing when every condition is falsy */
+export function where(conditions: (Sql | false | null | undefined)[]): Sql {
+  const clause = join(conditions, ' AND ')
+  return clause === empty ? empty : sql`WHERE ${clause}`
+}
+
+/**
+ * `ORDER BY` from a whitelist: `sorts` maps each public sort key to its SQL, so unknown keys can't reach the
+ * statement. Validate the key first (parseEnumParam) or pass the fallback.
+ */
+export function orderBy<K extends string>(sorts: Record<K, Sql>, key: K): Sql {
+  if (!Object.prototype.hasOwnProperty.call(sorts, key)) throw new Error(`Unknown sort key ${key}`)
+  return sql`ORDER BY ${sorts[key]}`
+}
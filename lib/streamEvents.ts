@@ -0,0 +1,48 @@
+// Live token events delivered over /api/stream
+// Payloads are built by the Postgres triggers in workers-v2/core/schema.ts and forwarded unchanged.
+// Client-safe (no db imports): shared by the SSE route and useTokenStream.
+
+export const STREAM_CHANNEL = 'token_stream'
+
+// A row inserted into token_transfers
+export interface TradeStreamEvent {
+  type: 'trade'
+  chainId: number
+  tokenId: number
+  txHash: string
+  logIndex: number
+  blockNumber: number
+  blockTime: string
+  side: string
+  from: string
+  to: string
+  amountWei: string
+  amountEthWei: string | null
+  priceEthPerToken: number | null
+  ethPriceUsd: number | null
+  src: string
+}
+
+// Market fields of a tokens row that changed
+export interface TokenStreamEvent {
+  type: 'token'
+  chainId: number
+  tokenId: number
+  currentPrice: number | null
+  marketCap: number | null
+  fdv: number | null
+  ethRaised: number | null
+  holderCount: number | null
+  volume24hEth: number | null
+  isGraduated: boolean
+  onDex: boolean
+}
+
+// The server's listener reconnected and events may have been missed: refetch
+export interface ResyncStreamEvent {
+  type: 'resync'
+}
+
+export type StreamEvent = TradeStreamEvent | TokenStreamEvent | ResyncStreamEvent
+
+export const STREAM_EVENT_TYPES: StreamEvent['type'][] = ['trade', 'token', 'resync']
@@ -0,0 +1,106 @@
+// Fan-out of Postgres notifications to /api/stream subscribers
+// One dedicated connection per server process LISTENs on STREAM_CHANNEL; it is opened by the first
+// subscriber and reopened with backoff while anyone is subscribed.
+
+import { Client } from 'pg'
+import { STREAM_CHANNEL, type StreamEvent } from './streamEvents'
+
+export interface StreamFilter {
+  chainId: number | null
+  tokenId: number | null
+}
+
+interface Subscriber extends StreamFilter {
+  send: (event: StreamEvent) => void
+}
+
+const RECONNECT_MIN_MS = 1000
+const RECONNECT_MAX_MS = 30000
+
+const subscribers = new Set<Subscriber>()
+let listener: Client | null = null
+let connecting: Promise<void> | null = null
+let reconnectDelayMs = RECONNECT_MIN_MS
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+function matches(subscriber: Subscriber, event: StreamEvent): boolean {
+  if (event.type === 'resync') return true
+  if (subscriber.chainId !== null && event.chainId !== subscriber.chainId) return false
+  if (subscriber.tokenId !== null && event.tokenId !== subscriber.tokenId) return false
+  return true
+}
+
+function broadcast(event: StreamEvent) {
+  for (const subscriber of subscribers) {
+    if (matches(subscriber, event)) subscriber.send(event)
+  }
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer || subscribers.size === 0) return
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null
+    ensureListener()
+      .then(() => broadcast({ type: 'resync' }))
+      .catch(() => scheduleReconnect())
+  }, reconnectDelayMs)
+  reconnectDelayMs = Math.min(reconnectDelayMs * 2, RECONNECT_MAX_MS)
+}
+
+function dropListener(client: Client) {
+  if (listener !== client) return
+  listener = null
+  client.end().catch(() => {})
+  scheduleReconnect()
+}
+
+async function connect(): Promise<void> {
+  const client = new Client({ connectionString: process.env.DATABASE_URL })
+  client.on('notification', message => {
+    if (message.channel !== STREAM_CHANNEL || !message.payload) return
+    try {
+      broadcast(JSON.parse(message.payload) as StreamEvent)
+    } catch (error) {
+      console.error('[stream] Ignoring malformed notification:', error)
+    }
+  })
+  client.on('error', error => {
+    console.error('[stream] Listener connection error:', error)
+    dropListener(client)
+  })
+  client.on('end', () => dropListener(client))
+
+  try {
+    await client.connect()
+    await client.query(`LISTEN ${STREAM_CHANNEL}`)
+  } catch (error) {
+    client.end().catch(() => {})
+    throw error
+  }
+
+  listener = client
+  reconnectDelayMs = RECONNECT_MIN_MS
+}
+
+function ensureListener(): Promise<void> {
+  if (listener) return Promise.resolve()
+  if (!connecting) {
+    connecting = connect().finally(() => {
+      connecting = null
+    })
+  }
+  return connecting
+}
+
+/**
+ * Receive events for a chain and/or token; rejects when the listener connection cannot be opened.
+ * Returns the unsubscribe function.
+ */
+export async function subscribeToStream(filter: StreamFilter, send: (event: StreamEvent) => void): Promise<() => void> {
+  await ensureListener()
+  const subscriber: Subscriber = { ...filter, send }
+  subscribers.add(subscriber)
+  return () => {
+    subscribers.delete(subscriber)
+  }
+}
@@ -1,5 +1,7 @@
 // switchNetwork.ts
 
+import { getChainConfig } from './chains'
+
 type EthereumProvider = {
   request: (args: { method: string; params?: unknown[] }) => Promise<unknown>
 }
@@ -10,78 +12,16 @@ declare global {
   }
 }
 
-export async function switchToMegaTestnet(): Promise<boolean> {
-  const megaChainId = '0x18c6' // 6342 in hex
-
-  const ethereum = window.ethereum
-  if (!ethereum) {
-    alert('Ethereum provider not found.')
+/**
+ * Switch the injected wallet to a registry chain, adding it to the wallet first if needed
+ */
+export async function switchToChain(chainId: number): Promise<boolean> {
+  const chain = getChainConfig(chainId)
+  if (!chain) {
+    alert('Unsupported network.')
     return false
   }
-
-  try {
-    await ethereum.request({
-      method: 'wallet_switchEthereumChain',
-      params: [{ chainId: megaChainId }],
-    })
-    console.log('Switched to Mega Testnet')
-    return true
-  } catch (switchError: unknown) {
-    if (
-      typeof switchError === 'object' &&
-      switchError !== null &&
-      'code' in switchError &&
-      typeof (switchError as { code: number }).code === 'number'
-    ) {
-      const errorCode = (switchError as { code: number }).code
-
-      if (errorCode === 4902) {
-        try {
-          await ethereum.request({
-            method: 'wallet_addEthereumChain',
-            params: [
-              {
-                chainId: megaChainId,
-                chainName: 'Mega Testnet',
-                rpcUrls: ['https://carrot.megaeth.com/rpc'],
-                nativeCurrency: {
-                  name: 'ETH',
-                  symbol: 'ETH',
-                  decimals: 18,
-                },
-                blockExplorerUrls: ['https://megaexplorer.xyz'],
-              },
-            ],
-          })
-
-          await ethereum.request({
-            method: 'wallet_switchEthereumChain',
-            params: [{ chainId: megaChainId }],
-          })
-
-          console.log('Added and switched to Mega Testnet')
-          return true
-        } catch (addError) {
-          alert('Failed to add MegaETH network.')
-          console.error('Add chain error:', addError)
-          return false
-        }
-      } else {
-        alert('Failed to switch network.')
-        console.error('Switch error:', switchError)
-        return false
-      }
-    } else {
-      alert('Unexpected error switching network.')
-      console.error('Unexpected error:', switchError)
-      return false
-    }
-  }
-}
-
-
-export async function switchToSepolia(): Promise<boolean> {
-  const sepoliaChainId = '0xaa36a7' // 11155111 in hex
+  const hexChainId = `0x${chain.id.toString(16)}`
 
   const ethereum = window.ethereum
   if (!ethereum) {
@@ -92,9 +32,9 @@ export async function switchToSepolia(): Promise<boolean> {
   try {
     await ethereum.request({
       method: 'wallet_switchEthereumChain',
-      params: [{ chainId: sepoliaChainId }],
+      params: [{ chainId: hexChainId }],
     })
-    console.log('Switched to Sepolia Testnet')
+    console.log(`Switched to ${chain.name}`)
     return true
   } catch (switchError: unknown) {
     if (
@@ -111,28 +51,24 @@ export async function switchToSepolia(): Promise<boolean> {
             method: 'wallet_addEthereumChain',
             params: [
               {
-                chainId: sepoliaChainId,
-                chainName: 'Sepolia Testnet',
-                rpcUrls: ['https://rpc.sepolia.org'],
-                nativeCurrency: {
-                  name: 'Sepolia ETH',
-                  symbol: 'ETH',
-                  decimals: 18,
-                },
-                blockExplorerUrls: ['https://sepolia.etherscan.io'],
+                chainId: hexChainId,
+                chainName: chain.name,
+                rpcUrls: [chain.walletRpcUrl ?? chain.rpcUrls[0].url],
+                nativeCurrency: chain.nativeCurrency,
+                blockExplorerUrls: [chain.explorer.url],
               },
             ],
           })
 
           await ethereum.request({
             method: 'wallet_switchEthereumChain',
-            params: [{ chainId: sepoliaChainId }],
+            params: [{ chainId: hexChainId }],
           })
 
-          console.log('Added and switched to Sepolia Testnet')
+          console.log(`Added and switched to ${chain.name}`)
           return true
         } catch (addError) {
-          alert('Failed to add Sepolia network.')
+          alert(`Failed to add ${chain.name} network.`)
           console.error('Add chain error:', addError)
           return false
         }
@@ -149,8 +85,10 @@ export async function switchToSepolia(): Promise<boolean> {
   }
 }
 
+export async function switchToMegaTestnet(): Promise<boolean> {
+  return switchToChain(6342)
+}
 
-
-
-
-
+export async function switchToSepolia(): Promise<boolean> {
+  return switchToChain(11155111)
+}
@@ -2,7 +2,8 @@ import { ethers } from 'ethers'
 import { DEX_ROUTER_BY_CHAIN, routerAbi, factoryAbi, pairAbi } from './dex'
 import TurboTokenABI from './abi/TurboToken.json'
 import { Token } from '../types/token'
-import { chainsById } from './chains'
+import { chainsById, dexPairUrl } from './chains'
+import { providerFor } from './providers'
 import db from './db'
 
 /**
@@ -128,7 +129,7 @@ export async function syncDexState(
       return
     }
 
-    const provider = new ethers.JsonRpcProvider(chain.rpcUrls.default.http[0])
+    const provider = providerFor(chainId)
     const routerAddress = DEX_ROUTER_BY_CHAIN[chainId]
     const router = new ethers.Contract(routerAddress, routerAbi, provider)
 
@@ -184,10 +185,8 @@ export async function syncDexState(
     }
 
     // === Mark token as on DEX and save DEX URL ===
-    if (!token.on_dex && chain.dexBaseUrl) {
-      const dexUrl = chain.id === 6342
-        ? `${chain.dexBaseUrl}/${token.contract_address}/${pairAddress}`
-        : `${chain.dexBaseUrl}/${pairAddress}`
+    const dexUrl = dexPairUrl(chain.id, token.contract_address, pairAddress)
+    if (!token.on_dex && dexUrl) {
 
       console.log('[syncDexState] Marking token as on DEX:', dexUrl)
 
@@ -1,8 +1,8 @@
 import { ethers, formatUnits } from 'ethers'
 import TurboTokenABI from './abi/TurboToken.json'
 import db from './db'
-import { megaethTestnet, megaethMainnet, sepoliaTestnet } from './chains'
-import { DEX_ROUTER_BY_CHAIN, routerAbi, factoryAbi, pairAbi } from './dex'
+import { providerFor } from './providers'
+import { getDexAddresses, factoryAbi, pairAbi } from './dex'
 import { parseBCTransfer, parseDEXSwap } from './syncTransactionParsers'
 import { updateTokenBalances, updateTokenChart } from './syncIncrementalUpdates'
 
@@ -36,33 +36,19 @@ type SyncFields = {
   liquidity_usd: number
 }
 
-// RPCs by chain
-const rpcUrlsByChainId: Record<number, string> = {
-  6342: megaethTestnet.rpcUrls.default.http[0],
-  9999: megaethMainnet.rpcUrls.default.http[0],
-  11155111: sepoliaTestnet.rpcUrls.default.http[0],
-}
-
 // DISABLED: Provider cache and getProvider function removed
 // These were only used by the removed getTokenHoldersCount function
 
 // DISABLED: getTokenHoldersCount function removed
-// Holder count is now only calculated on manual user request via /api/token-holders
+// Holder count is maintained by the aggregation worker from token_balances (served by /api/token-holders)
 
 
 /**
  * Gets DEX price for a graduated token
  */
 async function getDexPrice(contractAddress: string, chainId: number): Promise<number> {
-  const rpcUrl = rpcUrlsByChainId[chainId]
-  if (!rpcUrl) throw new Error(`Unsupported chain ID: ${chainId}`)
-
-  const provider = new ethers.JsonRpcProvider(rpcUrl)
-  const routerAddress = DEX_ROUTER_BY_CHAIN[chainId]
-  const router = new ethers.Contract(routerAddress, routerAbi, provider)
-
-  const factoryAddress = await router.factory()
-  const wethAddress = await router.WETH()
+  const provider = providerFor(chainId)
+  const { factory: factoryAddress, weth: wethAddress } = await getDexAddresses(chainId, provider)
   
   const factory = new ethers.Contract(factoryAddress, factoryAbi, provider)
   const pairAddress = await factory.getPair(contractAddress, wethAddress)
@@ -107,10 +93,7 @@ export async function syncTokenState(
 ): Promise<void> {
   console.log(`[syncTokenState] Syncing token ${tokenId}...`)
   
-  const rpcUrl = rpcUrlsByChainId[chainId]
-  if (!rpcUrl) throw new Error(`Unsupported chain ID: ${chainId}`)
-
-  const provider = new ethers.JsonRpcProvider(rpcUrl)
+  const provider = providerFor(chainId)
   const contract = new ethers.Contract(contractAddress, TurboTokenABI.abi, provider)
 
   try {
@@ -310,10 +293,9 @@ export async function syncTokenState(
       console.log(`[syncTokenState] Parsing ${operationType} transaction: ${txHash}`)
       
       try {
-        // Get ETH price once for all parsing functions
+        // Newest ETH price: the parsers price transfers at block_time and only fall back to this when eth_price_history is empty
         const { rows: ethPriceRows } = await db.query(`
-          SELECT price_usd FROM public.eth_price_cache 
-          ORDER BY fetched_at DESC LIMIT 1
+          SELECT price_usd FROM public.eth_price_latest
         `)
         let ethPriceUsd: number | null = null
         if (ethPriceRows.length > 0 && ethPriceRows[0].price_usd) {
@@ -1,6 +1,6 @@
 import { ethers } from 'ethers'
 import db from './db'
-import { megaethTestnet, megaethMainnet, sepoliaTestnet } from './chains'
+import { providerFor } from './providers'
 import { DEX_ROUTER_BY_CHAIN } from './dex'
 
 // Event topics
@@ -22,15 +22,8 @@ export async function parseBCTransfer(
 ): Promise<void> {
   console.log(`[parseBCTransfer] Token ${tokenId}, ${operationType}`)
   
-  // RPCs by chain (same as syncTokenState)
-  const rpcUrlsByChainId: Record<number, string> = {
-    6342: megaethTestnet.rpcUrls.default.http[0],
-    9999: megaethMainnet.rpcUrls.default.http[0],
-    11155111: sepoliaTestnet.rpcUrls.default.http[0],
-  }
-  
   console.log(`[parseBCTransfer] Creating provider for chain ${chainId}`)
-  const provider = new ethers.JsonRpcProvider(rpcUrlsByChainId[chainId])
+  const provider = providerFor(chainId)
   
   try {
     console.log(`[parseBCTransfer] Getting transaction receipt for ${txHash}`)
@@ -173,7 +166,7 @@ async function parseSimpleTransfer(
   await db.query(`
     INSERT INTO public.token_transfers
       (token_id, chain_id, contract_address, block_number, block_time, tx_hash, log_index, from_address, to_address, amount_wei, amount_eth_wei, price_eth_per_token, side, src, eth_price_usd)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, COALESCE(public.eth_price_at($5), $15))
     ON CONFLICT (chain_id, tx_hash, log_index) DO UPDATE SET
       side = EXCLUDED.side,
       src = EXCLUDED.src,
@@ -301,7 +294,7 @@ async function parseGraduationTransfers(
     await run(`
       INSERT INTO public.token_transfers
         (token_id, chain_id, contract_address, block_number, block_time, tx_hash, log_index, from_address, to_address, amount_wei, amount_eth_wei, price_eth_per_token, side, src, graduation_metadata, eth_price_usd)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, COALESCE(public.eth_price_at($5), $16))
       ON CONFLICT (chain_id, tx_hash, log_index) DO NOTHING
     `, [
       tokenId, chainId, contractAddress, receipt.blockNumber, blockTime, receipt.hash,
@@ -321,7 +314,7 @@ async function parseGraduationTransfers(
     await run(`
       INSERT INTO public.token_transfers
         (token_id, chain_id, contract_address, block_number, block_time, tx_hash, log_index, from_address, to_address, amount_wei, amount_eth_wei, price_eth_per_token, side, src, eth_price_usd)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, COALESCE(public.eth_price_at($5), $15))
       ON CONFLICT (chain_id, tx_hash, log_index) DO NOTHING
     `, [
       tokenId, chainId, contractAddress, receipt.blockNumber, blockTime, receipt.hash,
@@ -340,7 +333,7 @@ async function parseGraduationTransfers(
     await run(`
       INSERT INTO public.token_transfers
         (token_id, chain_id, contract_address, block_number, block_time, tx_hash, log_index, from_address, to_address, amount_wei, amount_eth_wei, price_eth_per_token, side, src, graduation_metadata, eth_price_usd)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, COALESCE(public.eth_price_at($5), $16))
       ON CONFLICT (chain_id, tx_hash, log_index) DO NOTHING
     `, [
       tokenId, chainId, contractAddress, receipt.blockNumber, blockTime, receipt.hash,
@@ -371,14 +364,7 @@ export async function parseDEXSwap(
   operationType: string,
   ethPriceUsd: number | null
 ): Promise<void> {
-  // RPCs by chain (same as syncTokenState)
-  const rpcUrlsByChainId: Record<number, string> = {
-    6342: megaethTestnet.rpcUrls.default.http[0],
-    9999: megaethMainnet.rpcUrls.default.http[0],
-    11155111: sepoliaTestnet.rpcUrls.default.http[0],
-  }
-  
-  const provider = new ethers.JsonRpcProvider(rpcUrlsByChainId[chainId])
+  const provider = providerFor(chainId)
   
   try {
     const receipt = await provider.getTransactionReceipt(txHash)
@@ -561,7 +547,7 @@ async function parseSwapLog(
   await db.query(`
     INSERT INTO public.token_transfers
       (token_id, chain_id, contract_address, block_number, block_time, tx_hash, log_index, from_address, to_address, amount_wei, amount_eth_wei, price_eth_per_token, side, src, eth_price_usd)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, COALESCE(public.eth_price_at($5), $15))
     ON CONFLICT (chain_id, tx_hash, log_index) DO UPDATE SET
       side = EXCLUDED.side,
       src = EXCLUDED.src,
@@ -0,0 +1,197 @@
+// Token holders from indexed data, behind /api/token-holders
+// token_balances is rebuilt by the aggregation worker up to the block recorded in token_balance_heights; transfers
+// indexed since then (token_transfers above that block) are applied on read, so the result reflects every indexed
+// transfer without waiting for the next aggregation run. Holders exclude the zero address, the token contract and
+// the token's DEX pairs, like the holders table and holder_count.
+//
+// verifyHolderBalances is the opt-in RPC check: balanceOf for a sample of holders, compared with the stored
+// balances at the block the indexer has fully covered.
+
+import { ethers } from 'ethers'
+import db from './db'
+import { indexedThroughBlock } from './chartCandles'
+import { providerFor } from './providers'
+import { sql, type Sql } from './sql'
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+const ERC20_BALANCE_ABI = ['function balanceOf(address) view returns (uint256)']
+
+export interface HolderToken {
+  id: number
+  chainId: number
+  contractAddress: string
+  holderCountUpdatedAt: Date | null
+}
+
+export interface Holder {
+  address: string
+  balanceWei: string
+  share: number // of circulating supply
+}
+
+/** Block heights the response is consistent with */
+export interface HolderConsistency {
+  indexedBlock: number // every transfer up to here is in token_transfers (token and pool cursors)
+  balancesBlock: number | null // token_balances covers transfers up to here; null when they aren't usable
+  latestTransferBlock: number | null // newest transfer applied, can be past indexedBlock (API-side sync)
+  transfersApplied: number // transfers above balancesBlock applied on read
+}
+
+export interface TokenHolders {
+  holderCount: number
+  circulatingWei: string
+  holders: Holder[]
+  consistency: HolderConsistency
+}
+
+export interface HolderDrift {
+  address: string
+  storedWei: string
+  onChainWei: string
+  driftWei: string // on chain minus stored
+}
+
+export interface HolderVerification {
+  blockNumber: number
+  checked: number
+  mismatches: HolderDrift[]
+  absoluteDriftWei: string
+}
+
+export async function loadHolderToken(tokenId: number): Promise<HolderToken | null> {
+  const { rows } = await db.query<{ id: number; chain_id: number; contract_address: string | null; holder_count_updated_at: Date | null }>(
+    'SELECT id, chain_id, contract_address, holder_count_updated_at FROM public.tokens WHERE id = $1',
+    [tokenId]
+  )
+  const row = rows[0]
+  if (!row?.contract_address) return null
+  return {
+    id: Number(row.id),
+    chainId: Number(row.chain_id),
+    contractAddress: row.contract_address.toLowerCase(),
+    holderCountUpdatedAt: row.holder_count_updated_at,
+  }
+}
+
+/**
+ * Stored balances as of `baseBlock` (none when null) plus the transfers in (baseBlock, upToBlock],
+ * as a `holders (holder, balance_wei)` CTE of positive balances that count as holders
+ */
+function holderBalances(token: HolderToken, baseBlock: number | null, upToBlock: number | null): Sql {
+  const after = baseBlock ?? -1
+  return sql`
+    holders AS (
+      SELECT holder, SUM(balance_wei) AS balance_wei
+      FROM (
+        SELECT LOWER(holder) AS holder, balance_wei::numeric AS balance_wei
+        FROM public.token_balances
+        WHERE token_id = ${token.id} AND chain_id = ${token.chainId} AND ${baseBlock !== null}
+        UNION ALL
+        SELECT LOWER(from_address), -amount_wei::numeric
+        FROM public.token_transfers
+        WHERE token_id = ${token.id} AND chain_id = ${token.chainId} AND amount_wei != '0'
+          AND block_number > ${after} AND (${upToBlock}::bigint IS NULL OR block_number <= ${upToBlock})
+        UNION ALL
+        SELECT LOWER(to_address), amount_wei::numeric
+        FROM public.token_transfers
+        WHERE token_id = ${token.id} AND chain_id = ${token.chainId} AND amount_wei != '0'
+          AND block_number > ${after} AND (${upToBlock}::bigint IS NULL OR block_number <= ${upToBlock})
+      ) changes
+      WHERE holder <> ${ZERO_ADDRESS}
+        AND holder <> ${token.contractAddress}
+        AND holder NOT IN (
+          SELECT LOWER(pair_address) FROM public.dex_pools WHERE chain_id = ${token.chainId} AND pair_address IS NOT NULL
+        )
+      GROUP BY holder
+      HAVING SUM(balance_wei) > 0
+    )
+  `
+}
+
+/**
+ * token_balances is usable when it was rebuilt at or below the indexed height; above it a reorg rolled the
+ * transfers back and the balances still count them, so everything is replayed from token_transfers instead
+ */
+async function balancesBase(token: HolderToken, indexedBlock: number): Promise<number | null> {
+  const { rows } = await db.query<{ block_number: string }>(
+    'SELECT block_number FROM public.token_balance_heights WHERE chain_id = $1 AND token_id = $2',
+    [token.chainId, token.id]
+  )
+  if (rows.length === 0) return null
+  const balancesBlock = Number(rows[0].block_number)
+  return balancesBlock <= indexedBlock ? balancesBlock : null
+}
+
+/**
+ * Largest holders first, with the holder count and circulating supply over all of them
+ */
+export async function loadTokenHolders(token: HolderToken, limit: number): Promise<TokenHolders> {
+  const indexedBlock = await indexedThroughBlock(db, token.id, token.chainId)
+  const balancesBlock = await balancesBase(token, indexedBlock)
+
+  const [{ rows }, { rows: [applied] }] = await Promise.all([
+    db.query<{ holder: string; balance_wei: string; holder_count: number; circulating_wei: string | null }>(sql`
+      WITH ${holderBalances(token, balancesBlock, null)},
+      totals AS (SELECT COUNT(*)::int AS holder_count, SUM(balance_wei) AS circulating_wei FROM holders)
+      SELECT totals.holder_count, totals.circulating_wei::text AS circulating_wei, h.holder, h.balance_wei::text AS balance_wei
+      FROM totals
+      LEFT JOIN LATERAL (SELECT * FROM holders ORDER BY balance_wei DESC, holder ASC LIMIT ${limit}) h ON TRUE
+    `),
+    db.query<{ transfers: number; latest_block: string | null }>(`
+      SELECT COUNT(*) FILTER (WHERE block_number > $3)::int AS transfers, MAX(block_number) AS latest_block
+      FROM public.token_transfers
+      WHERE token_id = $1 AND chain_id = $2
+    `, [token.id, token.chainId, balancesBlock ?? -1]),
+  ])
+
+  const circulating = BigInt(rows[0]?.circulating_wei ?? '0')
+  return {
+    holderCount: rows[0]?.holder_count ?? 0,
+    circulatingWei: circulating.toString(),
+    holders: rows.filter(row => row.holder !== null).map(row => ({
+      address: row.holder,
+      balanceWei: row.balance_wei,
+      share: circulating > 0n ? Number((BigInt(row.balance_wei) * 1_000_000n) / circulating) / 1_000_000 : 0,
+    })),
+    consistency: {
+      indexedBlock,
+      balancesBlock,
+      latestTransferBlock: applied.latest_block === null ? null : Number(applied.latest_block),
+      transfersApplied: applied.transfers,
+    },
+  }
+}
+
+/**
+ * Compare balanceOf for `sample` holders (half the largest, half random) with the stored balances at the
+ * indexed height, so transfers the indexer hasn't reached yet don't show up as drift
+ */
+export async function verifyHolderBalances(token: HolderToken, sample: number): Promise<HolderVerification> {
+  const blockNumber = await indexedThroughBlock(db, token.id, token.chainId)
+  if (blockNumber <= 0) throw new Error(`Token ${token.id} has not been indexed yet`)
+  const balancesBlock = await balancesBase(token, blockNumber)
+
+  const largest = Math.ceil(sample / 2)
+  const { rows } = await db.query<{ holder: string; balance_wei: string }>(sql`
+    WITH ${holderBalances(token, balancesBlock, blockNumber)},
+    ranked AS (SELECT holder, balance_wei, ROW_NUMBER() OVER (ORDER BY balance_wei DESC, holder) AS rank FROM holders)
+    SELECT holder, balance_wei::text AS balance_wei
+    FROM ranked
+    ORDER BY rank <= ${largest} DESC, random()
+    LIMIT ${sample}
+  `)
+
+  const contract = new ethers.Contract(token.contractAddress, ERC20_BALANCE_ABI, providerFor(token.chainId))
+  const onChain: bigint[] = await Promise.all(rows.map(row => contract.balanceOf(row.holder, { blockTag: blockNumber })))
+
+  const mismatches: HolderDrift[] = []
+  let absoluteDrift = 0n
+  rows.forEach((row, i) => {
+    const drift = onChain[i] - BigInt(row.balance_wei)
+    if (drift === 0n) return
+    absoluteDrift += drift < 0n ? -drift : drift
+    mismatches.push({ address: row.holder, storedWei: row.balance_wei, onChainWei: onChain[i].toString(), driftWei: drift.toString() })
+  })
+
+  return { blockNumber, checked: rows.length, mismatches, absoluteDriftWei: absoluteDrift.toString() }
+}
@@ -0,0 +1,108 @@
+// Server-side reads of token state straight from the chain.
+// Used by routes that must only persist what the contract or pair confirms.
+
+import { ethers } from 'ethers'
+import TurboTokenABI from './abi/TurboToken.json'
+import db from './db'
+import { providerFor } from './providers'
+import { getDexAddresses, factoryAbi, pairAbi } from './dex'
+
+export type TokenRef = {
+  id: number
+  chain_id: number
+  contract_address: string
+}
+
+/**
+ * Resolve a token from either its DB id or a tx hash sent to its contract
+ */
+export async function resolveTokenRef({
+  tokenId,
+  chainId,
+  txHash,
+}: {
+  tokenId?: number | string
+  chainId?: number
+  txHash?: string
+}): Promise<TokenRef | null> {
+  if (tokenId !== undefined && tokenId !== null && !isNaN(Number(tokenId))) {
+    const { rows } = await db.query<TokenRef>(
+      'SELECT id, chain_id, contract_address FROM tokens WHERE id = $1',
+      [Number(tokenId)]
+    )
+    return rows[0] ?? null
+  }
+
+  if (txHash && typeof chainId === 'number') {
+    const receipt = await providerFor(chainId).getTransactionReceipt(txHash)
+    if (!receipt?.to) return null
+    const { rows } = await db.query<TokenRef>(
+      'SELECT id, chain_id, contract_address FROM tokens WHERE chain_id = $1 AND LOWER(contract_address) = LOWER($2)',
+      [chainId, receipt.to]
+    )
+    return rows[0] ?? null
+  }
+
+  return null
+}
+
+/**
+ * Bonding-curve state as reported by the contract
+ */
+export async function readCurveState(
+  contractAddress: string,
+  chainId: number
+): Promise<{ totalRaised: number; graduated: boolean }> {
+  const contract = new ethers.Contract(contractAddress, TurboTokenABI.abi, providerFor(chainId))
+  const [totalRaised, graduated] = await Promise.all([
+    contract.totalRaised(),
+    contract.graduated(),
+  ])
+  return {
+    totalRaised: Number(ethers.formatEther(totalRaised)),
+    graduated: Boolean(graduated),
+  }
+}
+
+/**
+ * DEX price, FDV and market cap derived from the UniswapV2 pair reserves.
+ * Circulating supply excludes the pair itself and tokens held by the token contract (locks).
+ * Returns null if the token has no pair yet.
+ */
+export async function readDexPriceState(
+  contractAddress: string,
+  chainId: number
+): Promise<{ pairAddress: string; price: number; fdv: number; marketCap: number } | null> {
+  const provider = providerFor(chainId)
+  const { factory: factoryAddress, weth: wethAddress } = await getDexAddresses(chainId, provider)
+
+  const factory = new ethers.Contract(factoryAddress, factoryAbi, provider)
+  const pairAddress: string = await factory.getPair(contractAddress, wethAddress)
+  if (!pairAddress || pairAddress === ethers.ZeroAddress) return null
+
+  const pair = new ethers.Contract(pairAddress, pairAbi, provider)
+  const token = new ethers.Contract(contractAddress, TurboTokenABI.abi, provider)
+  const [[reserve0, reserve1], token0, totalSupply, pairBalance, lockedBalance] = await Promise.all([
+    pair.getReserves(),
+    pair.token0(),
+    token.totalSupply(),
+    token.balanceOf(pairAddress),
+    token.balanceOf(contractAddress),
+  ])
+
+  const isWeth0 = (token0 as string).toLowerCase() === (wethAddress as string).toLowerCase()
+  const reserveEth = Number(ethers.formatEther(isWeth0 ? reserve0 : reserve1))
+  const reserveToken = Number(ethers.formatUnits(isWeth0 ? reserve1 : reserve0, 18))
+  if (reserveToken === 0) return null
+
+  const price = reserveEth / reserveToken
+  const totalSupplyTokens = Number(ethers.formatUnits(totalSupply, 18))
+  const circulatingTokens = Number(ethers.formatUnits(totalSupply - pairBalance - lockedBalance, 18))
+
+  return {
+    pairAddress,
+    price,
+    fdv: totalSupplyTokens * price,
+    marketCap: circulatingTokens * price,
+  }
+}
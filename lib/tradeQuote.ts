@@ -0,0 +1,187 @@
+// Trade quotes for /api/quote, routed to the bonding curve or the token's UniswapV2 pair
+// The curve is read from the contract (tokenInfo + totalSupply) and priced with lib/bondingCurve, so quotes
+// match getPrice/getSellPrice to the wei. After graduation the pair reserves are read and priced with lib/dexMath.
+// All amounts are wei (18 decimals for both the token and ETH).
+
+import { ethers } from 'ethers'
+import db from './db'
+import TurboTokenABI from './abi/TurboToken.json'
+import { providerFor } from './providers'
+import { factoryAbi, getDexAddresses } from './dex'
+import { FEE_DEN, FEE_NUM, getAmountIn, getAmountOut, getDexPoolReserves, withSlippageMax, withSlippageMin } from './dexMath'
+import {
+  BUY_FEE_BPS,
+  SELL_FEE_BPS,
+  curvePrice,
+  quoteBuyExactIn,
+  quoteBuyExactOut,
+  quoteSellExactIn,
+  quoteSellExactOut,
+  readCurveSnapshot,
+} from './bondingCurve'
+
+const WAD = 10n ** 18n
+const DEX_FEE_BPS = Number(((FEE_DEN - FEE_NUM) * 10000n) / FEE_DEN)
+
+export type QuoteSide = 'buy' | 'sell'
+
+export interface TradeQuoteRequest {
+  tokenId: number
+  side: QuoteSide
+  amountIn?: bigint // exact-in: ETH for buys, tokens for sells
+  amountOut?: bigint // exact-out: tokens for buys, ETH for sells
+  slippageBps: number
+}
+
+export interface TradeQuote {
+  tokenId: number
+  chainId: number
+  venue: 'bonding_curve' | 'dex'
+  side: QuoteSide
+  exactIn: boolean
+  amountIn: string
+  amountOut: string
+  minAmountOut: string // amountOut less slippage (equals amountOut for exact-out quotes)
+  maxAmountIn: string // amountIn plus slippage (equals amountIn for exact-in quotes)
+  slippageBps: number
+  priceImpactBps: number // execution price vs. the spot price, fees excluded
+  fee: {
+    amount: string
+    asset: 'ETH' | 'TOKEN'
+    bps: number
+  }
+  spotPriceWei: string // ETH per whole token before the trade
+  willGraduate: boolean // curve buy that reaches the raise target and creates the pool
+  exceedsSaleCap: boolean // curve buy the contract would reject ("Exceeds sale cap (70%)")
+  pairAddress: string | null
+}
+
+export type TradeQuoteResult = { quote: TradeQuote } | { error: string; status: 400 | 404 }
+
+type Amounts = Pick<TradeQuote, 'amountIn' | 'amountOut' | 'priceImpactBps' | 'fee' | 'spotPriceWei' | 'willGraduate' | 'exceedsSaleCap'>
+
+/**
+ * Shortfall of `amountOut` against what `effectiveIn` would buy at the spot price (midNum / midDen out per in)
+ */
+function impactBps(effectiveIn: bigint, amountOut: bigint, midNum: bigint, midDen: bigint): number {
+  const spotOut = (effectiveIn * midNum) / midDen
+  if (spotOut <= 0n || amountOut >= spotOut) return 0
+  return Number(((spotOut - amountOut) * 10000n) / spotOut)
+}
+
+async function quoteCurve(contract: ethers.Contract, request: TradeQuoteRequest): Promise<Amounts | string> {
+  const snapshot = await readCurveSnapshot(contract)
+  const spot = curvePrice(snapshot, snapshot.totalSupply)
+
+  if (request.side === 'buy') {
+    const buy = request.amountIn !== undefined
+      ? quoteBuyExactIn(snapshot, request.amountIn)
+      : quoteBuyExactOut(snapshot, request.amountOut!)
+    return {
+      amountIn: buy.cost.toString(),
+      amountOut: buy.amount.toString(),
+      // The 1% fee is taken out of the cost, so the buyer's execution price is the curve's
+      priceImpactBps: impactBps(buy.cost, buy.amount, WAD, spot),
+      fee: { amount: buy.fee.toString(), asset: 'ETH', bps: Number(BUY_FEE_BPS) },
+      spotPriceWei: spot.toString(),
+      willGraduate: buy.graduates && !buy.exceedsSaleCap,
+      exceedsSaleCap: buy.exceedsSaleCap,
+    }
+  }
+
+  if (request.amountIn !== undefined && request.amountIn > snapshot.totalSupply) {
+    return 'Amount exceeds supply'
+  }
+  const sell = request.amountIn !== undefined
+    ? quoteSellExactIn(snapshot, request.amountIn)
+    : quoteSellExactOut(snapshot, request.amountOut!)
+  if (!sell) return 'Requested ETH exceeds what the curve can pay out'
+
+  return {
+    amountIn: sell.amount.toString(),
+    amountOut: sell.payout.toString(),
+    priceImpactBps: impactBps(sell.amount, sell.refund, spot, WAD),
+    fee: { amount: sell.fee.toString(), asset: 'ETH', bps: Number(SELL_FEE_BPS) },
+    spotPriceWei: spot.toString(),
+    willGraduate: false,
+    exceedsSaleCap: false,
+  }
+}
+
+function quoteDex(reserves: { reserveToken: bigint; reserveETH: bigint }, request: TradeQuoteRequest): Amounts | string {
+  const [reserveIn, reserveOut] = request.side === 'buy'
+    ? [reserves.reserveETH, reserves.reserveToken]
+    : [reserves.reserveToken, reserves.reserveETH]
+  if (reserveIn <= 0n || reserveOut <= 0n) return 'Pool has no liquidity'
+  if (request.amountOut !== undefined && request.amountOut >= reserveOut) return 'Requested amount exceeds pool reserves'
+
+  const amountIn = request.amountIn ?? getAmountIn(request.amountOut!, reserveIn, reserveOut)
+  const amountOut = request.amountOut ?? getAmountOut(amountIn, reserveIn, reserveOut)
+  const effectiveIn = (amountIn * FEE_NUM) / FEE_DEN
+
+  return {
+    amountIn: amountIn.toString(),
+    amountOut: amountOut.toString(),
+    priceImpactBps: impactBps(effectiveIn, amountOut, reserveOut, reserveIn),
+    fee: { amount: (amountIn - effectiveIn).toString(), asset: request.side === 'buy' ? 'ETH' : 'TOKEN', bps: DEX_FEE_BPS },
+    spotPriceWei: ((reserves.reserveETH * WAD) / reserves.reserveToken).toString(),
+    willGraduate: false,
+    exceedsSaleCap: false,
+  }
+}
+
+async function findPair(chainId: number, tokenId: number, contractAddress: string, provider: ethers.Provider): Promise<string | null> {
+  const { rows } = await db.query<{ pair_address: string }>(
+    'SELECT pair_address FROM public.dex_pools WHERE token_id = $1 AND chain_id = $2',
+    [tokenId, chainId]
+  )
+  if (rows[0]?.pair_address) return rows[0].pair_address
+
+  const { factory, weth } = await getDexAddresses(chainId, provider)
+  const pair: string = await new ethers.Contract(factory, factoryAbi, provider).getPair(contractAddress, weth)
+  return pair && pair !== ethers.ZeroAddress ? pair : null
+}
+
+/**
+ * Quote a buy or sell of a token. Graduation is read from the contract, so the venue is always the one a
+ * transaction sent now would trade on.
+ */
+export async function quoteTrade(request: TradeQuoteRequest): Promise<TradeQuoteResult> {
+  const { rows } = await db.query<{ contract_address: string; chain_id: number }>(
+    'SELECT contract_address, chain_id FROM public.tokens WHERE id = $1',
+    [request.tokenId]
+  )
+  if (rows.length === 0) return { error: 'Token not found', status: 404 }
+
+  const { contract_address: contractAddress, chain_id: chainId } = rows[0]
+  const provider = providerFor(chainId)
+  const contract = new ethers.Contract(contractAddress, TurboTokenABI.abi, provider)
+  const graduated: boolean = await contract.graduated()
+
+  let pairAddress: string | null = null
+  let amounts: Amounts | string
+  if (!graduated) {
+    amounts = await quoteCurve(contract, request)
+  } else {
+    pairAddress = await findPair(chainId, request.tokenId, contractAddress, provider)
+    const reserves = pairAddress ? await getDexPoolReserves(pairAddress, contractAddress, provider) : null
+    amounts = reserves ? quoteDex(reserves, request) : 'DEX pool not found'
+  }
+  if (typeof amounts === 'string') return { error: amounts, status: 400 }
+
+  const exactIn = request.amountIn !== undefined
+  return {
+    quote: {
+      tokenId: request.tokenId,
+      chainId,
+      venue: graduated ? 'dex' : 'bonding_curve',
+      side: request.side,
+      exactIn,
+      ...amounts,
+      minAmountOut: exactIn ? withSlippageMin(BigInt(amounts.amountOut), request.slippageBps).toString() : amounts.amountOut,
+      maxAmountIn: exactIn ? amounts.amountIn : withSlippageMax(BigInt(amounts.amountIn), request.slippageBps).toString(),
+      slippageBps: request.slippageBps,
+      pairAddress,
+    },
+  }
+}
@@ -0,0 +1,160 @@
+// TradingView UDF datafeed: symbol grammar, lookup and symbol info for the /api/udf routes
+// Tickers look like `6342:0xabc.../USD` (chain id, contract address, quote). Clients may also send a bare
+// symbol or contract address, optionally prefixed with a chain id or chain name and suffixed with /USD or /ETH.
+
+import pool from './db'
+import { chainConfigs, chainNamesById } from './chains'
+import { CHART_INTERVALS, CHART_INTERVAL_UDF_RESOLUTIONS } from './chartIntervals'
+import type { CandleQuote } from './candleSeries'
+
+export const UDF_QUOTES: CandleQuote[] = ['USD', 'ETH']
+
+export const UDF_SUPPORTED_RESOLUTIONS = CHART_INTERVALS.map(interval => CHART_INTERVAL_UDF_RESOLUTIONS[interval])
+
+export interface UdfSymbolRef {
+  chainId: number | null
+  query: string // token symbol or contract address
+  quote: CandleQuote
+}
+
+export interface UdfToken {
+  id: number
+  chain_id: number
+  name: string
+  symbol: string
+  contract_address: string
+  last_close: string | null // latest daily close in the requested quote
+}
+
+function chainIdFromExchange(exchange: string): number | null {
+  if (/^\d+$/.test(exchange)) return chainNamesById[Number(exchange)] ? Number(exchange) : null
+  const chain = chainConfigs.find(c => c.name.toLowerCase() === exchange.toLowerCase())
+  return chain ? chain.id : null
+}
+
+/**
+ * Parse `[chain:]symbol-or-address[/QUOTE]`; the quote defaults to USD. Returns null for unknown chains or quotes.
+ */
+export function parseUdfSymbol(raw: string): UdfSymbolRef | null {
+  if (raw.length > 200 || /[\u0000-\u001f\u007f]/.test(raw)) return null
+  let rest = raw.trim()
+  let chainId: number | null = null
+  let quote: CandleQuote = 'USD'
+
+  const colon = rest.indexOf(':')
+  if (colon >= 0) {
+    chainId = chainIdFromExchange(rest.slice(0, colon))
+    if (chainId === null) return null
+    rest = rest.slice(colon + 1)
+  }
+
+  const slash = rest.lastIndexOf('/')
+  if (slash >= 0) {
+    const suffix = rest.slice(slash + 1).toUpperCase()
+    if (!UDF_QUOTES.includes(suffix as CandleQuote)) return null
+    quote = suffix as CandleQuote
+    rest = rest.slice(0, slash)
+  }
+
+  return rest ? { chainId, query: rest, quote } : null
+}
+
+export function udfTicker(token: Pick<UdfToken, 'chain_id' | 'contract_address'>, quote: CandleQuote): string {
+  return `${token.chain_id}:${token.contract_address.toLowerCase()}/${quote}`
+}
+
+function exchangeName(chainId: number): string {
+  return chainNamesById[chainId] ?? String(chainId)
+}
+
+/**
+ * Find the token for a parsed symbol: an exact contract address wins, otherwise the symbol with the largest market cap
+ */
+export async function resolveUdfSymbol(ref: UdfSymbolRef): Promise<UdfToken | null> {
+  const unit = ref.quote === 'ETH' ? 'eth' : 'usd'
+  const { rows } = await pool.query<UdfToken>(`
+    SELECT t.id, t.chain_id, t.name, t.symbol, t.contract_address,
+      (SELECT c.price_close_${unit} FROM public.token_chart_agg c
+       WHERE c.token_id = t.id AND c.chain_id = t.chain_id AND c.interval_type = '1d'
+       ORDER BY c.ts DESC LIMIT 1) AS last_close
+    FROM public.tokens t
+    WHERE t.contract_address IS NOT NULL
+      AND (LOWER(t.contract_address) = LOWER($1) OR LOWER(t.symbol) = LOWER($1))
+      AND ($2::integer IS NULL OR t.chain_id = $2)
+    ORDER BY (LOWER(t.contract_address) = LOWER($1)) DESC, t.market_cap DESC NULLS LAST, t.id ASC
+    LIMIT 1
+  `, [ref.query, ref.chainId])
+  return rows[0] ?? null
+}
+
+// LIKE pattern matching `value` literally anywhere (for ... LIKE $n ESCAPE '\')
+function containsPattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, char => `\\${char}`)}%`
+}
+
+/**
+ * Tokens whose symbol, name or contract address contains `query`, optionally on one chain (UDF `exchange`)
+ */
+export async function searchUdfTokens(query: string, exchange: string, limit: number): Promise<Omit<UdfToken, 'last_close'>[]> {
+  const chainId = exchange ? chainIdFromExchange(exchange) : null
+  if (exchange && chainId === null) return []
+
+  const { rows } = await pool.query<Omit<UdfToken, 'last_close'>>(`
+    SELECT t.id, t.chain_id, t.name, t.symbol, t.contract_address
+    FROM public.tokens t
+    WHERE t.contract_address IS NOT NULL
+      AND (LOWER(t.symbol) LIKE $1 ESCAPE '\\' OR LOWER(t.name) LIKE $1 ESCAPE '\\' OR LOWER(t.contract_address) LIKE $1 ESCAPE '\\')
+      AND ($2::integer IS NULL OR t.chain_id = $2)
+    ORDER BY (LOWER(t.symbol) = $3) DESC, t.market_cap DESC NULLS LAST, t.id DESC
+    LIMIT $4
+  `, [containsPattern(query.toLowerCase()), chainId, query.toLowerCase(), limit])
+  return rows
+}
+
+// Enough decimals for ~4 significant digits of the latest price
+function priceScale(lastClose: string | null): number {
+  const price = lastClose ? parseFloat(lastClose) : 0
+  if (!(price > 0)) return 100
+  const decimals = Math.min(16, Math.max(2, Math.ceil(-Math.log10(price)) + 4))
+  return 10 ** decimals
+}
+
+export function udfSymbolInfo(token: UdfToken, quote: CandleQuote) {
+  const exchange = exchangeName(token.chain_id)
+  return {
+    name: `${token.symbol}/${quote}`,
+    ticker: udfTicker(token, quote),
+    description: `${token.name} / ${quote}`,
+    type: 'crypto',
+    session: '24x7',
+    timezone: 'Etc/UTC',
+    exchange,
+    listed_exchange: exchange,
+    format: 'price',
+    minmov: 1,
+    pricescale: priceScale(token.last_close),
+    has_intraday: true,
+    intraday_multipliers: UDF_SUPPORTED_RESOLUTIONS.filter(resolution => !resolution.endsWith('D')),
+    has_daily: true,
+    daily_multipliers: ['1'],
+    has_weekly_and_monthly: false,
+    supported_resolutions: UDF_SUPPORTED_RESOLUTIONS,
+    volume_precision: 2,
+    data_status: 'streaming',
+    currency_code: quote,
+  }
+}
+
+export function udfSearchResults(tokens: Omit<UdfToken, 'last_close'>[]) {
+  return tokens.flatMap(token => UDF_QUOTES.map(quote => {
+    const exchange = exchangeName(token.chain_id)
+    return {
+      symbol: `${token.symbol}/${quote}`,
+      full_name: `${exchange}:${token.symbol}/${quote}`,
+      description: `${token.name} / ${quote}`,
+      exchange,
+      ticker: udfTicker(token, quote),
+      type: 'crypto',
+    }
+  }))
+}
@@ -0,0 +1,104 @@
+// Server-side verification of a TurboToken deployment.
+// /api/create-token trusts these on-chain facts instead of whatever the browser sends.
+
+import { ethers } from 'ethers'
+import TurboTokenABI from './abi/TurboToken.json'
+import { providerFor } from './providers'
+import { DEX_ROUTER_BY_CHAIN } from './dex'
+
+export type VerifiedDeployment = {
+  contractAddress: string
+  deploymentBlock: number
+  deployer: string
+  name: string
+  symbol: string
+  creator: string // lowercase
+  supply: number // whole tokens (maxSupply / 1e18)
+  raiseTarget: number // ETH
+  basePrice: number // wei
+  slope: number // wei
+  minTokenAgeForUnlockSeconds: number
+  creatorUnlockTime: number // unix seconds
+}
+
+const turboInterface = new ethers.Interface(TurboTokenABI.abi)
+
+/**
+ * Fetch the deployment receipt for `txHash`, check it created a genuine TurboToken
+ * and read back the parameters the contract was actually initialised with.
+ */
+export async function verifyTokenDeployment(
+  chainId: number,
+  txHash: string
+): Promise<{ deployment: VerifiedDeployment } | { error: string }> {
+  let provider: ethers.JsonRpcProvider
+  try {
+    provider = providerFor(chainId)
+  } catch {
+    return { error: `Unsupported chain ID: ${chainId}` }
+  }
+
+  const [receipt, tx] = await Promise.all([
+    provider.getTransactionReceipt(txHash),
+    provider.getTransaction(txHash),
+  ])
+
+  if (!receipt || !tx) return { error: 'Deployment transaction not found or not yet mined' }
+  if (receipt.status !== 1) return { error: 'Deployment transaction failed' }
+  if (tx.to !== null || !receipt.contractAddress) return { error: 'Transaction is not a contract deployment' }
+
+  // Creation code = compiled bytecode followed by ABI-encoded constructor args
+  const creationCode = TurboTokenABI.bytecode.toLowerCase()
+  const txData = tx.data.toLowerCase()
+  if (!txData.startsWith(creationCode)) return { error: 'Deployed bytecode does not match TurboToken' }
+
+  const constructorArgs = turboInterface.deploy.inputs
+  let args: ethers.Result
+  try {
+    args = ethers.AbiCoder.defaultAbiCoder().decode(constructorArgs, '0x' + txData.slice(creationCode.length))
+  } catch {
+    return { error: 'Could not decode constructor arguments' }
+  }
+
+  const expectedRouter = DEX_ROUTER_BY_CHAIN[chainId]
+  const dexRouter = args[6] as string
+  if (!expectedRouter || dexRouter.toLowerCase() !== expectedRouter.toLowerCase()) {
+    return { error: 'Token was deployed with an unknown DEX router' }
+  }
+
+  const expectedFeeRecipient = process.env.NEXT_PUBLIC_PLATFORM_FEE_RECIPIENT
+  const platformFeeRecipient = args[5] as string
+  if (expectedFeeRecipient && platformFeeRecipient.toLowerCase() !== expectedFeeRecipient.toLowerCase()) {
+    return { error: 'Token was deployed with an unknown platform fee recipient' }
+  }
+
+  const contractAddress = ethers.getAddress(receipt.contractAddress)
+  const code = await provider.getCode(contractAddress)
+  if (code === '0x') return { error: 'No contract code at deployed address' }
+
+  const contract = new ethers.Contract(contractAddress, TurboTokenABI.abi, provider)
+  const [info, creatorUnlockTime, minTokenAgeSecs, name, symbol] = await Promise.all([
+    contract.tokenInfo(),
+    contract.creatorUnlockTime(),
+    contract.minTokenAgeForUnlockSeconds(),
+    contract.name(),
+    contract.symbol(),
+  ])
+
+  return {
+    deployment: {
+      contractAddress,
+      deploymentBlock: receipt.blockNumber,
+      deployer: tx.from.toLowerCase(),
+      name,
+      symbol,
+      creator: (info._creator as string).toLowerCase(),
+      supply: Number(ethers.formatUnits(info._maxSupply, 18)),
+      raiseTarget: Number(ethers.formatEther(info._raiseTarget)),
+      basePrice: Number(info._basePrice),
+      slope: Number(info._slope),
+      minTokenAgeForUnlockSeconds: Number(minTokenAgeSecs),
+      creatorUnlockTime: Number(creatorUnlockTime),
+    },
+  }
+}
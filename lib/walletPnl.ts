@@ -0,0 +1,356 @@
+// Per-wallet PnL, built from token_transfers by the aggregation worker and read by /api/pnl/[wallet]
+// Average cost basis: buys add their full ETH cost (fees included) to the position; a sell removes the
+// average cost of the tokens sold and realizes net proceeds minus that cost. Unrealized PnL is only known at
+// read time, so wallet_pnl stores the remaining position and cost basis and the reader values them at the
+// token's current price.
+//
+// Who the trade belongs to:
+// - BUY (BC and DEX), CLAIMAIRDROP: to_address (airdrops have zero cost)
+// - SELL (BC and DEX): from_address
+// - BUY&LOCK: the token's creator (the tokens are minted to the contract); UNLOCK only releases them
+// Plain wallet-to-wallet transfers are not recorded, so a sell larger than the known position realizes the
+// excess at zero cost.
+
+import type { PoolClient } from 'pg'
+import db from './db'
+
+type Db = Pick<PoolClient, 'query'>
+
+// Fees in basis points: TurboToken.sol buy (1% of cost) and sell (1.5% of the refund), Uniswap V2 LP fee (0.3% of input)
+const BC_BUY_FEE_BPS = 100n
+const BC_SELL_FEE_BPS = 150n
+const DEX_FEE_BPS = 30n
+const BPS = 10000n
+
+const PNL_SIDES = ['BUY', 'BUY&LOCK', 'SELL', 'CLAIMAIRDROP']
+
+interface LedgerTransfer {
+  block_time: Date
+  from_address: string
+  to_address: string
+  amount_wei: string
+  amount_eth_wei: string | null
+  eth_price_usd: string | null
+  side: string
+  src: string
+}
+
+interface Ledger {
+  wallet: string
+  boughtWei: bigint
+  soldWei: bigint
+  positionWei: bigint
+  costBasisEthWei: bigint
+  costBasisUsd: number
+  realizedPnlEthWei: bigint
+  realizedPnlUsd: number
+  feesPaidEthWei: bigint
+  feesPaidUsd: number
+  buys: number
+  sells: number
+  firstTradeAt: Date
+  lastTradeAt: Date
+}
+
+function newLedger(wallet: string, at: Date): Ledger {
+  return {
+    wallet,
+    boughtWei: 0n,
+    soldWei: 0n,
+    positionWei: 0n,
+    costBasisEthWei: 0n,
+    costBasisUsd: 0,
+    realizedPnlEthWei: 0n,
+    realizedPnlUsd: 0,
+    feesPaidEthWei: 0n,
+    feesPaidUsd: 0,
+    buys: 0,
+    sells: 0,
+    firstTradeAt: at,
+    lastTradeAt: at,
+  }
+}
+
+function weiToUsd(wei: bigint, ethPriceUsd: number): number {
+  return Number(wei) / 1e18 * ethPriceUsd
+}
+
+// ETH fee included in a trade's recorded ETH amount (BC sells record the gross refund, DEX sells the net output)
+function tradeFeeWei(side: string, src: string, ethWei: bigint): bigint {
+  if (src === 'DEX') {
+    return side === 'SELL' ? ethWei * DEX_FEE_BPS / (BPS - DEX_FEE_BPS) : ethWei * DEX_FEE_BPS / BPS
+  }
+  return side === 'SELL' ? ethWei * BC_SELL_FEE_BPS / BPS : ethWei * BC_BUY_FEE_BPS / BPS
+}
+
+function ledgerWallet(transfer: LedgerTransfer, creatorWallet: string | null): string | null {
+  if (transfer.side === 'SELL') return transfer.from_address
+  if (transfer.side === 'BUY&LOCK') return creatorWallet
+  return transfer.to_address
+}
+
+function applyTransfer(ledger: Ledger, transfer: LedgerTransfer): void {
+  const amount = BigInt(transfer.amount_wei)
+  const ethWei = BigInt(transfer.amount_eth_wei ?? '0')
+  const ethPriceUsd = parseFloat(transfer.eth_price_usd ?? '0') || 0
+  ledger.lastTradeAt = transfer.block_time
+
+  if (transfer.side === 'CLAIMAIRDROP') {
+    ledger.positionWei += amount
+    return
+  }
+
+  const feeWei = tradeFeeWei(transfer.side, transfer.src, ethWei)
+  ledger.feesPaidEthWei += feeWei
+  ledger.feesPaidUsd += weiToUsd(feeWei, ethPriceUsd)
+
+  if (transfer.side !== 'SELL') {
+    ledger.buys++
+    ledger.boughtWei += amount
+    ledger.positionWei += amount
+    ledger.costBasisEthWei += ethWei
+    ledger.costBasisUsd += weiToUsd(ethWei, ethPriceUsd)
+    return
+  }
+
+  ledger.sells++
+  ledger.soldWei += amount
+  const proceedsWei = transfer.src === 'DEX' ? ethWei : ethWei - feeWei
+
+  // Cost of the sold tokens at the average price; only the part of the sell covered by the known position has any
+  const covered = amount < ledger.positionWei ? amount : ledger.positionWei
+  let costEthWei = 0n
+  let costUsd = 0
+  if (covered > 0n) {
+    costEthWei = ledger.costBasisEthWei * covered / ledger.positionWei
+    costUsd = ledger.costBasisUsd * (Number(covered) / Number(ledger.positionWei))
+  }
+
+  ledger.positionWei -= covered
+  ledger.costBasisEthWei -= costEthWei
+  ledger.costBasisUsd -= costUsd
+  if (ledger.positionWei === 0n) {
+    ledger.costBasisEthWei = 0n
+    ledger.costBasisUsd = 0
+  }
+  ledger.realizedPnlEthWei += proceedsWei - costEthWei
+  ledger.realizedPnlUsd += weiToUsd(proceedsWei, ethPriceUsd) - costUsd
+}
+
+async function writeLedgers(client: Db, tokenId: number, chainId: number, ledgers: Ledger[]): Promise<void> {
+  await client.query('DELETE FROM public.wallet_pnl WHERE token_id = $1 AND chain_id = $2', [tokenId, chainId])
+  if (ledgers.length === 0) return
+
+  await client.query(`
+    INSERT INTO public.wallet_pnl
+      (chain_id, token_id, wallet, bought_wei, sold_wei, position_wei, cost_basis_eth_wei, cost_basis_usd,
+       realized_pnl_eth_wei, realized_pnl_usd, fees_paid_eth_wei, fees_paid_usd, buys_count, sells_count,
+       first_trade_at, last_trade_at)
+    SELECT $1, $2, l.*
+    FROM UNNEST(
+      $3::text[], $4::numeric[], $5::numeric[], $6::numeric[], $7::numeric[], $8::numeric[],
+      $9::numeric[], $10::numeric[], $11::numeric[], $12::numeric[], $13::integer[], $14::integer[],
+      $15::timestamptz[], $16::timestamptz[]
+    ) AS l
+  `, [
+    chainId,
+    tokenId,
+    ledgers.map(l => l.wallet),
+    ledgers.map(l => l.boughtWei.toString()),
+    ledgers.map(l => l.soldWei.toString()),
+    ledgers.map(l => l.positionWei.toString()),
+    ledgers.map(l => l.costBasisEthWei.toString()),
+    ledgers.map(l => l.costBasisUsd),
+    ledgers.map(l => l.realizedPnlEthWei.toString()),
+    ledgers.map(l => l.realizedPnlUsd),
+    ledgers.map(l => l.feesPaidEthWei.toString()),
+    ledgers.map(l => l.feesPaidUsd),
+    ledgers.map(l => l.buys),
+    ledgers.map(l => l.sells),
+    ledgers.map(l => l.firstTradeAt),
+    ledgers.map(l => l.lastTradeAt),
+  ])
+}
+
+/**
+ * Replay every trade of a token and replace its wallet_pnl rows. Returns the number of wallets written.
+ */
+export async function rebuildWalletPnl(tokenId: number, chainId: number): Promise<number> {
+  const { rows: tokens } = await db.query<{ creator_wallet: string | null }>(
+    'SELECT creator_wallet FROM public.tokens WHERE id = $1',
+    [tokenId]
+  )
+  const creatorWallet = tokens[0]?.creator_wallet?.toLowerCase() ?? null
+
+  const { rows: transfers } = await db.query<LedgerTransfer>(`
+    SELECT block_time, LOWER(from_address) AS from_address, LOWER(to_address) AS to_address,
+           TRUNC(amount_wei::numeric)::text AS amount_wei, TRUNC(amount_eth_wei::numeric)::text AS amount_eth_wei,
+           COALESCE(eth_price_usd, public.eth_price_at(block_time)) AS eth_price_usd,
+           side, src
+    FROM public.token_transfers
+    WHERE token_id = $1 AND chain_id = $2 AND side = ANY($3) AND amount_wei::numeric <> 0
+    ORDER BY block_number ASC, log_index ASC
+  `, [tokenId, chainId, PNL_SIDES])
+
+  const ledgers = new Map<string, Ledger>()
+  for (const transfer of transfers) {
+    const wallet = ledgerWallet(transfer, creatorWallet)
+    if (!wallet) continue
+    let ledger = ledgers.get(wallet)
+    if (!ledger) {
+      ledger = newLedger(wallet, transfer.block_time)
+      ledgers.set(wallet, ledger)
+    }
+    applyTransfer(ledger, transfer)
+  }
+
+  const client = await db.connect()
+  try {
+    await client.query('BEGIN')
+    await writeLedgers(client, tokenId, chainId, [...ledgers.values()])
+    await client.query('COMMIT')
+    return ledgers.size
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export interface WalletPnlPosition {
+  tokenId: number
+  chainId: number
+  symbol: string
+  name: string
+  logoUrl?: string
+  position: number // tokens still held according to the trade ledger
+  avgCostEth: number // per token, fees included
+  costBasisEth: number
+  costBasisUsd: number
+  valueEth: number // position at the token's current price
+  valueUsd: number
+  realizedPnlEth: number
+  realizedPnlUsd: number
+  unrealizedPnlEth: number
+  unrealizedPnlUsd: number
+  feesPaidEth: number
+  feesPaidUsd: number
+  buys: number
+  sells: number
+  lastTradeAt: string | null
+}
+
+export interface WalletPnlTotals {
+  costBasisEth: number
+  costBasisUsd: number
+  valueEth: number
+  valueUsd: number
+  realizedPnlEth: number
+  realizedPnlUsd: number
+  unrealizedPnlEth: number
+  unrealizedPnlUsd: number
+  feesPaidEth: number
+  feesPaidUsd: number
+}
+
+export interface WalletPnl {
+  wallet: string
+  chainId: number | null
+  ethPriceUsd: number
+  totals: WalletPnlTotals
+  positions: WalletPnlPosition[]
+}
+
+interface WalletPnlRow {
+  token_id: number
+  chain_id: number
+  symbol: string
+  name: string
+  token_logo_asset_id: string | null
+  image: string | null
+  position: number
+  cost_basis_eth: number
+  cost_basis_usd: number
+  value_eth: number
+  realized_pnl_eth: number
+  realized_pnl_usd: number
+  fees_paid_eth: number
+  fees_paid_usd: number
+  buys_count: number
+  sells_count: number
+  last_trade_at: Date | null
+  eth_price_usd: number | null
+}
+
+/**
+ * Stored PnL of a wallet, valued at current token prices and the newest ETH/USD price; optionally one chain only
+ */
+export async function loadWalletPnl(wallet: string, chainId: number | null = null): Promise<WalletPnl> {
+  const { rows } = await db.query<WalletPnlRow>(`
+    SELECT
+      p.token_id, p.chain_id, t.symbol, t.name, t.token_logo_asset_id, t.image,
+      (p.position_wei / 1e18)::float8 AS position,
+      (p.cost_basis_eth_wei / 1e18)::float8 AS cost_basis_eth,
+      p.cost_basis_usd::float8 AS cost_basis_usd,
+      (p.position_wei / 1e18 * COALESCE(t.current_price, 0))::float8 AS value_eth,
+      (p.realized_pnl_eth_wei / 1e18)::float8 AS realized_pnl_eth,
+      p.realized_pnl_usd::float8 AS realized_pnl_usd,
+      (p.fees_paid_eth_wei / 1e18)::float8 AS fees_paid_eth,
+      p.fees_paid_usd::float8 AS fees_paid_usd,
+      p.buys_count, p.sells_count, p.last_trade_at,
+      e.price_usd::float8 AS eth_price_usd
+    FROM public.wallet_pnl p
+    JOIN public.tokens t ON t.id = p.token_id
+    LEFT JOIN public.eth_price_latest e ON true
+    WHERE p.wallet = LOWER($1)
+      AND ($2::integer IS NULL OR p.chain_id = $2)
+    ORDER BY (p.position_wei > 0) DESC, p.last_trade_at DESC NULLS LAST
+  `, [wallet, chainId])
+
+  const ethPriceUsd = rows[0]?.eth_price_usd ?? 0
+  const totals: WalletPnlTotals = {
+    costBasisEth: 0,
+    costBasisUsd: 0,
+    valueEth: 0,
+    valueUsd: 0,
+    realizedPnlEth: 0,
+    realizedPnlUsd: 0,
+    unrealizedPnlEth: 0,
+    unrealizedPnlUsd: 0,
+    feesPaidEth: 0,
+    feesPaidUsd: 0,
+  }
+
+  const positions = rows.map((row): WalletPnlPosition => {
+    const valueUsd = row.value_eth * ethPriceUsd
+    const position: WalletPnlPosition = {
+      tokenId: row.token_id,
+      chainId: row.chain_id,
+      symbol: row.symbol,
+      name: row.name,
+      logoUrl: row.token_logo_asset_id ? `/api/media/${row.token_logo_asset_id}?v=thumb` : row.image || undefined,
+      position: row.position,
+      avgCostEth: row.position > 0 ? row.cost_basis_eth / row.position : 0,
+      costBasisEth: row.cost_basis_eth,
+      costBasisUsd: row.cost_basis_usd,
+      valueEth: row.value_eth,
+      valueUsd,
+      realizedPnlEth: row.realized_pnl_eth,
+      realizedPnlUsd: row.realized_pnl_usd,
+      unrealizedPnlEth: row.value_eth - row.cost_basis_eth,
+      unrealizedPnlUsd: valueUsd - row.cost_basis_usd,
+      feesPaidEth: row.fees_paid_eth,
+      feesPaidUsd: row.fees_paid_usd,
+      buys: row.buys_count,
+      sells: row.sells_count,
+      lastTradeAt: row.last_trade_at ? row.last_trade_at.toISOString() : null,
+    }
+    for (const key of Object.keys(totals) as (keyof WalletPnlTotals)[]) {
+      totals[key] += position[key]
+    }
+    return position
+  })
+
+  return { wallet: wallet.toLowerCase(), chainId, ethPriceUsd, totals, positions }
+}
@@ -0,0 +1,100 @@
+// Outbound webhooks: event payloads and request signing
+// Events are queued by the Postgres triggers in workers-v2/core/schema.ts and delivered by
+// workers-v2/core/webhooks.ts. Receivers (partners, our Telegram bot) can verify requests with
+// verifyWebhookSignature below.
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const WEBHOOK_EVENT_TYPES = [
+  'token.created', // row inserted by /api/create-token
+  'token.trade', // BUY, SELL, BUY&LOCK transfer
+  'token.unlock', // UNLOCK transfer
+  'token.airdrop_claim', // CLAIMAIRDROP transfer
+  'token.graduated', // GRADUATION transfer written when detectGraduation matches
+  'pool.created', // dex_pools row for the graduated token's pair
+] as const
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number]
+
+export const SIGNATURE_HEADER = 'x-turbo-signature'
+export const EVENT_HEADER = 'x-turbo-event'
+export const DELIVERY_HEADER = 'x-turbo-delivery'
+
+/** Requests older than this are rejected by verifyWebhookSignature (replay protection) */
+export const SIGNATURE_TOLERANCE_SECONDS = 300
+
+export interface TokenCreatedData {
+  name: string
+  symbol: string
+  contractAddress: string
+  creator: string
+  supply: number
+  raiseTarget: number
+  createdAt: string
+}
+
+export interface TransferData {
+  txHash: string
+  logIndex: number
+  blockNumber: number
+  blockTime: string
+  side: string
+  from: string
+  to: string
+  amountWei: string
+  amountEthWei: string | null
+  priceEthPerToken: number | null
+  ethPriceUsd: number | null
+  src: string
+}
+
+export interface PoolCreatedData {
+  pairAddress: string
+  token0: string
+  token1: string
+  quoteToken: string
+}
+
+interface EventEnvelope<T extends WebhookEventType, D> {
+  id: string // webhook_events.id; the same event is never sent twice to one subscription unless retried
+  type: T
+  createdAt: string
+  chainId: number
+  tokenId: number
+  data: D
+}
+
+export type WebhookEvent =
+  | EventEnvelope<'token.created', TokenCreatedData>
+  | EventEnvelope<'token.trade' | 'token.unlock' | 'token.airdrop_claim' | 'token.graduated', TransferData>
+  | EventEnvelope<'pool.created', PoolCreatedData>
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Signature header for a request body: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`
+}
+
+/**
+ * Checks a signature header against the raw request body and the subscription secret
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries((header ?? '').split(',').map(part => part.split('=', 2) as [string, string]))
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || !parts.v1) return false
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'hex')
+  const received = Buffer.from(parts.v1, 'hex')
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
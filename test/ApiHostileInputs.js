@@ -0,0 +1,208 @@
+const { expect } = require("chai");
+const { Pool } = require("pg");
+const { sql, where, orderBy, join, empty } = require("../lib/sql");
+
+// Hostile query strings must never reach SQL: lib/sql only emits placeholders, and the routes reject
+// malformed params with a 400. The route suite runs against a live app backed by a local Postgres:
+//
+//   API_TEST_URL=http://localhost:3000 DATABASE_URL=postgres://localhost/launchpad npx hardhat test test/ApiHostileInputs.js
+//
+// It is skipped when either variable is missing. It only reads, and checks that nothing changed.
+
+const HOSTILE = [
+  "1 OR 1=1",
+  "1; DROP TABLE tokens; --",
+  "' OR '1'='1",
+  "1) UNION SELECT NULL, version() --",
+  "1'; UPDATE tokens SET name = 'pwned'; --",
+  "$1",
+  "-1",
+  "0",
+  "1e3",
+  "1.5",
+  "NaN",
+  "99999999999999999999999",
+  "0x' OR 1=1 --",
+  "\u0000",
+  "%",
+  "a".repeat(4096),
+];
+
+// Postgres error text that would mean input reached a statement
+const SQL_ERROR = /syntax error|invalid input syntax|out of range|does not exist|unterminated|operator does not exist/i;
+
+const UNKNOWN_TOKEN = "2147483647";
+
+describe("SQL builder", function () {
+  it("Should bind every interpolated value as a placeholder", function () {
+    const hostile = "1; DROP TABLE tokens; --";
+    const query = sql`SELECT * FROM tokens WHERE chain_id = ${hostile} AND id > ${5}`;
+
+    expect(query.text).to.equal("SELECT * FROM tokens WHERE chain_id = $1 AND id > $2");
+    expect(query.values).to.deep.equal([hostile, 5]);
+  });
+
+  it("Should renumber nested fragments", function () {
+    const filter = sql`a = ${1} AND b = ${2}`;
+    const query = sql`SELECT ${"x"} WHERE ${filter} LIMIT ${3}`;
+
+    expect(query.text).to.equal("SELECT $1 WHERE a = $2 AND b = $3 LIMIT $4");
+    expect(query.values).to.deep.equal(["x", 1, 2, 3]);
+  });
+
+  it("Should drop falsy conditions in where() and join()", function () {
+    expect(where([false, null, undefined]).text).to.equal("");
+    expect(where([sql`a = ${1}`, false, sql`b = ${2}`]).text).to.equal("WHERE a = $1 AND b = $2");
+    expect(join([sql`${1}`, sql`${2}`]).text).to.equal("$1, $2");
+    expect(join([])).to.equal(empty);
+  });
+
+  it("Should bind arrays as a single parameter", function () {
+    const query = sql`SELECT 1 WHERE wallet = ANY(${["0xa", "0xb"]}::text[])`;
+
+    expect(query.text).to.equal("SELECT 1 WHERE wallet = ANY($1::text[])");
+    expect(query.values).to.deep.equal([["0xa", "0xb"]]);
+  });
+
+  it("Should only order by whitelisted keys", function () {
+    const sorts = { newest: sql`t.id DESC` };
+
+    expect(orderBy(sorts, "newest").text).to.equal("ORDER BY t.id DESC");
+    expect(() => orderBy(sorts, "id; DROP TABLE tokens")).to.throw("Unknown sort key");
+    expect(() => orderBy(sorts, "constructor")).to.throw("Unknown sort key");
+  });
+});
+
+describe("API routes with hostile input", function () {
+  const baseUrl = process.env.API_TEST_URL;
+  let pool;
+  let token;
+  let countsBefore;
+
+  async function tableCounts() {
+    const { rows } = await pool.query(`
+      SELECT
+        (SELECT COUNT(*) FROM public.tokens)::int AS tokens,
+        (SELECT COUNT(*) FROM public.token_transfers)::int AS transfers,
+        (SELECT COUNT(*) FROM public.token_balances)::int AS balances,
+        (SELECT COUNT(*) FROM public.profiles)::int AS profiles,
+        (SELECT md5(string_agg(id || name || symbol, ',' ORDER BY id)) FROM public.tokens) AS token_names
+    `);
+    return rows[0];
+  }
+
+  // [path, base query, params to attack]
+  function routes() {
+    const id = String(token.id);
+    const chainId = String(token.chain_id);
+    const wallet = token.creator_wallet;
+    const tickerId = `${token.contract_address.toLowerCase()}_0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee`;
+    return [
+      ["/api/all-tokens", {}, ["chainId", "page", "pageSize", "search", "creator", "address", "status", "sort"]],
+      ["/api/transactions", { tokenId: id }, ["tokenId", "page", "pageSize", "side", "maker", "creatorWallet"]],
+      ["/api/holders", { tokenId: id }, ["tokenId", "page", "pageSize"]],
+      ["/api/leaderboard", {}, ["sort", "limit", "chainId", "excludeGraduated"]],
+      ["/api/backers", {}, ["chainId"]],
+      [`/api/backers/${wallet}/held`, {}, ["chainId"]],
+      [`/api/backers/${wallet}/created`, {}, ["chainId"]],
+      ["/api/newest-transactions", { chainId }, ["chainId"]],
+      ["/api/dex-pool-info", { tokenId: id, chainId }, ["tokenId", "chainId"]],
+      ["/api/holder-history", { tokenId: id }, ["tokenId", "days"]],
+      ["/api/token-holders", { tokenId: UNKNOWN_TOKEN, contractAddress: token.contract_address, chainId }, ["tokenId", "contractAddress", "chainId", "limit", "verify", "sample"]],
+      ["/api/tokens", {}, ["creator"]],
+      [`/api/chart-data/${id}/1h`, {}, ["timeRange"]],
+      [`/api/pnl/${wallet}`, {}, ["chainId"]],
+      ["/api/profile", {}, ["wallet", "wallets"]],
+      ["/api/quote", { tokenId: UNKNOWN_TOKEN, side: "buy", amountIn: "1000" }, ["tokenId", "side", "amountIn", "slippageBps"]],
+      ["/api/udf/search", {}, ["query", "exchange", "type", "limit"]],
+      ["/api/udf/symbols", {}, ["symbol"]],
+      ["/api/udf/history", { symbol: token.symbol, resolution: "60", from: "0", to: "1" }, ["symbol", "resolution", "from", "to", "countback"]],
+      ["/api/v1/tokens", {}, ["chainId", "status", "order", "pageSize", "cursor"]],
+      [`/api/v1/tokens/${id}/trades`, {}, ["side", "wallet", "pageSize", "cursor"]],
+      [`/api/v1/tokens/${id}/holders`, {}, ["pageSize", "cursor"]],
+      ["/api/v1/leaderboard", {}, ["sort", "chainId", "excludeGraduated", "pageSize", "cursor"]],
+      ["/api/aggregator/coingecko/tickers", {}, ["chainId"]],
+      ["/api/aggregator/coingecko/orderbook", { ticker_id: tickerId, chainId }, ["ticker_id", "depth", "chainId"]],
+      ["/api/aggregator/coingecko/historical_trades", { ticker_id: tickerId, chainId }, ["ticker_id", "type", "limit", "start_time", "end_time"]],
+      ["/api/aggregator/cmc/summary", {}, ["chainId"]],
+      [`/api/aggregator/cmc/trades/${tickerId}`, { chainId }, ["limit", "chainId"]],
+    ];
+  }
+
+  // Path segments parsed by dynamic routes
+  function pathTemplates() {
+    return [
+      (value) => `/api/tokens/${value}`,
+      (value) => `/api/chart-data/${value}/1h`,
+      (value) => `/api/backers/${value}/held`,
+      (value) => `/api/backers/${value}/created`,
+      (value) => `/api/pnl/${value}`,
+      (value) => `/api/v1/tokens/${value}`,
+      (value) => `/api/v1/tokens/${value}/trades`,
+      (value) => `/api/v1/tokens/${value}/holders`,
+      (value) => `/api/aggregator/cmc/orderbook/${value}`,
+      (value) => `/api/aggregator/cmc/trades/${value}`,
+    ];
+  }
+
+  async function expectHandled(url) {
+    const res = await fetch(url);
+    const body = await res.text();
+    expect(res.status, `${url} -> ${res.status} ${body.slice(0, 200)}`).to.be.below(500);
+    expect(body, url).to.not.match(SQL_ERROR);
+  }
+
+  beforeEach(function () {
+    if (!baseUrl || !process.env.DATABASE_URL) this.skip();
+  });
+
+  it("Should answer every hostile query parameter without a server or SQL error", async function () {
+    this.timeout(600_000);
+    pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    try {
+      const { rows } = await pool.query(
+        "SELECT id, chain_id, contract_address, creator_wallet, symbol FROM public.tokens WHERE contract_address IS NOT NULL ORDER BY id LIMIT 1"
+      );
+      expect(rows, "seed at least one token in the test database").to.have.length(1);
+      token = rows[0];
+      countsBefore = await tableCounts();
+
+      for (const [path, base, params] of routes()) {
+        for (const param of params) {
+          for (const value of HOSTILE) {
+            const search = new URLSearchParams({ ...base, [param]: value });
+            await expectHandled(`${baseUrl}${path}?${search}`);
+          }
+        }
+      }
+
+      for (const template of pathTemplates()) {
+        for (const value of HOSTILE.filter((value) => value !== "\u0000")) {
+          await expectHandled(`${baseUrl}${template(encodeURIComponent(value))}`);
+        }
+      }
+
+      expect(await tableCounts()).to.deep.equal(countsBefore);
+    } finally {
+      await pool.end();
+    }
+  });
+
+  it("Should reject malformed chainId, page and pageSize with a 400", async function () {
+    const cases = [
+      "/api/all-tokens?chainId=1%20OR%201%3D1",
+      "/api/all-tokens?page=abc",
+      "/api/all-tokens?pageSize=-5",
+      "/api/leaderboard?chainId=1;DROP%20TABLE%20tokens",
+      "/api/backers?chainId=0x1",
+      "/api/transactions?tokenId=1&pageSize=100000",
+      "/api/holders?tokenId=1&page=0",
+      "/api/v1/tokens?chainId=999999",
+      "/api/v1/tokens?cursor=not-a-cursor",
+    ];
+    for (const path of cases) {
+      const res = await fetch(`${baseUrl}${path}`);
+      expect(res.status, path).to.equal(400);
+    }
+  });
+});
@@ -0,0 +1,191 @@
+const { loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+const { expect } = require("chai");
+const curve = require("../lib/bondingCurve");
+
+// lib/bondingCurve.ts must agree with TurboToken to the wei: every quote below is
+// checked against the contract's own view functions or the state after the trade.
+describe("BondingCurve library", function () {
+  const RAISE_TARGET = ethers.parseEther("10");
+  const MAX_SUPPLY = ethers.parseUnits("1000000000", 18);
+
+  async function deployTurboTokenFixture() {
+    const [creator, platform, alice, bob] = await ethers.getSigners();
+
+    const Router = await ethers.getContractFactory("MockUniswapV2Router");
+    const router = await Router.deploy();
+
+    const TurboToken = await ethers.getContractFactory("TurboToken");
+    const token = await TurboToken.deploy(
+      "Curve Test",
+      "CURVE",
+      RAISE_TARGET,
+      creator.address,
+      MAX_SUPPLY,
+      platform.address,
+      await router.getAddress(),
+      7
+    );
+
+    return { token, router, creator, platform, alice, bob };
+  }
+
+  async function buyExactOut(token, signer, amount) {
+    const quote = curve.quoteBuyExactOut(await curve.readCurveSnapshot(token), amount);
+    await token.connect(signer).buy(amount, { value: quote.cost });
+    return quote;
+  }
+
+  describe("Parameters", function () {
+    it("Should derive basePrice and slope like the constructor", async function () {
+      const { token } = await loadFixture(deployTurboTokenFixture);
+      const params = curve.curveParamsFor(RAISE_TARGET, MAX_SUPPLY);
+
+      expect(params.basePrice).to.equal(await token.basePrice());
+      expect(params.slope).to.equal(await token.slope());
+    });
+
+    it("Should read the same caps as the contract", async function () {
+      const { token } = await loadFixture(deployTurboTokenFixture);
+
+      expect(curve.maxSaleSupply(MAX_SUPPLY)).to.equal(await token.maxSaleSupply());
+      expect(curve.maxCreatorLock(MAX_SUPPLY)).to.equal(await token.maxCreatorLock());
+      expect(curve.MAX_SALE_BPS).to.equal(await token.MAX_SALE_BPS());
+      expect(curve.MAX_CREATOR_LOCK_BPS).to.equal(await token.MAX_CREATOR_LOCK_BPS());
+    });
+  });
+
+  describe("Prices", function () {
+    it("Should match getPrice, getSellPrice and getCurrentPrice along the curve", async function () {
+      const { token, alice } = await loadFixture(deployTurboTokenFixture);
+      const amounts = [1n, 999n, ethers.parseUnits("1", 18), ethers.parseUnits("123456.789", 18), ethers.parseUnits("25000000", 18)];
+
+      for (const step of amounts) {
+        const snapshot = await curve.readCurveSnapshot(token);
+        expect(curve.curvePrice(snapshot, snapshot.totalSupply)).to.equal(await token.getCurrentPrice());
+
+        for (const amount of amounts) {
+          expect(curve.curveBuyCost(snapshot, snapshot.totalSupply, amount)).to.equal(await token.getPrice(amount));
+          if (amount <= snapshot.totalSupply) {
+            expect(curve.curveSellRefund(snapshot, snapshot.totalSupply, amount)).to.equal(await token.getSellPrice(amount));
+          }
+        }
+
+        await buyExactOut(token, alice, step);
+      }
+    });
+  });
+
+  describe("Buys", function () {
+    it("Should charge the quoted cost and accrue the 1% fee", async function () {
+      const { token, alice } = await loadFixture(deployTurboTokenFixture);
+      const amount = ethers.parseUnits("5000000", 18);
+      const quote = curve.quoteBuyExactOut(await curve.readCurveSnapshot(token), amount);
+
+      await expect(token.connect(alice).buy(amount, { value: quote.cost + 12345n }))
+        .to.changeEtherBalances([alice, token], [-quote.cost, quote.cost]);
+      expect(await token.feesAccruedWei()).to.equal(quote.fee);
+      expect(await token.totalRaised()).to.equal(quote.cost);
+      expect(await token.getCurrentPrice()).to.equal(quote.priceAfter);
+    });
+
+    it("Should solve exact-in buys to the largest affordable amount", async function () {
+      const { token, alice, bob } = await loadFixture(deployTurboTokenFixture);
+      await buyExactOut(token, bob, ethers.parseUnits("1000000", 18));
+
+      const ethIn = ethers.parseEther("0.5");
+      const quote = curve.quoteBuyExactIn(await curve.readCurveSnapshot(token), ethIn);
+
+      expect(await token.getPrice(quote.amount)).to.be.lte(ethIn);
+      expect(await token.getPrice(quote.amount + 1n)).to.be.gt(ethIn);
+      await expect(token.connect(alice).buy(quote.amount, { value: ethIn }))
+        .to.changeEtherBalance(alice, -(ethIn - quote.dust));
+      expect(await token.balanceOf(alice.address)).to.equal(quote.amount);
+    });
+
+    it("Should flag and match the 70% sale cap", async function () {
+      const { token, alice } = await loadFixture(deployTurboTokenFixture);
+      const snapshot = await curve.readCurveSnapshot(token);
+      const over = curve.quoteBuyExactOut(snapshot, curve.saleCapRemaining(snapshot) + 1n);
+
+      expect(over.exceedsSaleCap).to.equal(true);
+      await expect(token.connect(alice).buy(over.amount, { value: over.cost }))
+        .to.be.revertedWith("Exceeds sale cap (70%)");
+    });
+
+    it("Should graduate exactly when the quote says so", async function () {
+      const { token, alice, bob } = await loadFixture(deployTurboTokenFixture);
+
+      // Largest buy that stays one wei short of the raise target
+      const before = curve.quoteBuyExactIn(await curve.readCurveSnapshot(token), RAISE_TARGET - 1n);
+      expect(before.graduates).to.equal(false);
+      await token.connect(alice).buy(before.amount, { value: before.cost });
+      expect(await token.graduated()).to.equal(false);
+      expect(await token.totalRaised()).to.equal(before.cost);
+
+      const next = curve.quoteBuyExactOut(await curve.readCurveSnapshot(token), ethers.parseUnits("1", 18));
+      expect(next.graduates).to.equal(true);
+      expect(next.exceedsSaleCap).to.equal(false);
+      await token.connect(bob).buy(next.amount, { value: next.cost });
+      expect(await token.graduated()).to.equal(true);
+    });
+
+    it("Should quote creator buys against the same curve", async function () {
+      const { token, creator, alice } = await loadFixture(deployTurboTokenFixture);
+      await buyExactOut(token, alice, ethers.parseUnits("2000000", 18));
+
+      const amount = ethers.parseUnits("3000000", 18);
+      const quote = curve.quoteBuyExactOut(await curve.readCurveSnapshot(token), amount);
+      await expect(token.connect(creator).creatorBuy(amount, { value: quote.cost }))
+        .to.changeEtherBalance(token, quote.cost);
+      expect(await token.lockedBalances(creator.address)).to.equal(amount);
+    });
+  });
+
+  describe("Sells", function () {
+    it("Should pay out the refund minus the 1.5% fee", async function () {
+      const { token, alice } = await loadFixture(deployTurboTokenFixture);
+      const bought = await buyExactOut(token, alice, ethers.parseUnits("8000000", 18));
+
+      const amount = ethers.parseUnits("3333333.333333333333333333", 18);
+      const quote = curve.quoteSellExactIn(await curve.readCurveSnapshot(token), amount);
+      expect(quote.refund).to.equal(await token.getSellPrice(amount));
+
+      await expect(token.connect(alice).sell(amount))
+        .to.changeEtherBalances([alice, token], [quote.payout, -quote.payout]);
+      expect(await token.feesAccruedWei()).to.equal(bought.fee + quote.fee);
+      expect(await token.totalRaised()).to.equal(bought.cost - quote.refund);
+      expect(await token.getCurrentPrice()).to.equal(quote.priceAfter);
+    });
+
+    it("Should solve exact-out sells to at least the requested payout", async function () {
+      const { token, alice } = await loadFixture(deployTurboTokenFixture);
+      await buyExactOut(token, alice, ethers.parseUnits("100000000", 18));
+
+      const target = ethers.parseEther("0.05");
+      const quote = curve.quoteSellExactOut(await curve.readCurveSnapshot(token), target);
+      expect(quote.payout).to.be.gte(target);
+
+      await expect(token.connect(alice).sell(quote.amount))
+        .to.changeEtherBalance(alice, quote.payout);
+    });
+
+    it("Should replay trades to the contract's supply and totalRaised", async function () {
+      const { token, alice, bob } = await loadFixture(deployTurboTokenFixture);
+      const flows = [
+        { side: "BUY", amountWei: ethers.parseUnits("4000000", 18), signer: alice },
+        { side: "BUY", amountWei: ethers.parseUnits("1500000", 18), signer: bob },
+        { side: "SELL", amountWei: ethers.parseUnits("2500000", 18), signer: alice },
+        { side: "BUY", amountWei: ethers.parseUnits("777777", 18), signer: bob },
+      ];
+
+      for (const flow of flows) {
+        if (flow.side === "BUY") await buyExactOut(token, flow.signer, flow.amountWei);
+        else await token.connect(flow.signer).sell(flow.amountWei);
+      }
+
+      const state = curve.replayCurve(curve.curveParamsFor(RAISE_TARGET, MAX_SUPPLY), flows);
+      expect(state.supplyWei).to.equal(await token.totalSupply());
+      expect(state.totalRaisedWei).to.equal(await token.totalRaised());
+    });
+  });
+});
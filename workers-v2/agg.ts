@@ -1,5 +1,11 @@
 import 'dotenv/config'
 import pool from '../lib/db'
+import { chainConfigs } from '../lib/chains'
+import { indexedThroughBlock, rebuildCandles, updateCandlesIncremental } from '../lib/chartCandles'
+import { CHART_INTERVALS, BASE_CHART_INTERVAL } from '../lib/chartIntervals'
+import { rebuildWalletPnl } from '../lib/walletPnl'
+import { rebuildHolderSnapshots, updateHolderSnapshots } from '../lib/holderSnapshots'
+import { curvePrice, replayCurve } from '../lib/bondingCurve'
 import { 
   TOKEN_ID, 
   TOKEN_ID_FROM, 
@@ -9,17 +15,27 @@ import {
   UNGRADUATED_ONLY, 
   HAS_TEST_FILTERS 
 } from './core/config'
+import { timeAggregation } from './core/metrics'
 
 // Aggregation configuration
-const CHART_AGG_UPDATE_DAYS = Number(process.env.CHART_AGG_UPDATE_DAYS ?? 20)  // Update last 20 days by default (covers oldest token)
+const CHART_AGG_UPDATE_DAYS = Number(process.env.CHART_AGG_UPDATE_DAYS ?? 20)  // Window rebuilt on every run in full mode
+const CHART_AGG_MODE = process.env.CHART_AGG_MODE === 'full' ? 'full' : 'incremental'  // incremental: only buckets touched since the chart high-water mark
+
+// Start of the full-mode chart window
+function defaultChartCutoff(): Date {
+  const cutoffDate = new Date()
+  cutoffDate.setDate(cutoffDate.getDate() - CHART_AGG_UPDATE_DAYS)
+  return cutoffDate
+}
 
 /**
  * Aggregation Worker
  * 
  * Processes token_transfers to update:
- * 1. token_balances table
- * 2. token_chart_agg (1m, 1d, 1w, 1M intervals with dual currency OHLC)
+ * 1. token_balances table (and daily holder_snapshots)
+ * 2. token_chart_agg (1m, 5m, 15m, 1h, 4h, 1d intervals with dual currency OHLC)
  * 3. tokens table (holder_count, current stats)
+ * 4. wallet_pnl (per-wallet cost basis, realized PnL and fees)
  */
 
 interface TokenRow {
@@ -50,205 +66,34 @@ interface TransferRow {
 
 
 /**
- * Process token chart aggregations (1m, 1d, 1w, 1M intervals with dual currency OHLC)
+ * Process token chart aggregations (1m base candles rolled up to 5m, 15m, 1h, 4h, 1d; dual currency OHLC)
  */
 async function processTokenChartAgg(
   token: TokenRow,
-  chainId: number
+  chainId: number,
+  since?: Date
 ): Promise<void> {
-  console.log(`\n📊 Processing token ${token.id} (${token.contract_address}) for chart aggregations (last ${CHART_AGG_UPDATE_DAYS} days)...`)
-  
-  // Calculate the cutoff date for incremental updates
-  const cutoffDate = new Date()
-  cutoffDate.setDate(cutoffDate.getDate() - CHART_AGG_UPDATE_DAYS)
-  
-  // Get trading data for this token (only transactions with ETH volume)
-  const { rows: tradingData } = await pool.query(`
-    SELECT 
-      token_id,
-      side,
-      src,
-      amount_eth_wei/1e18 as volume_eth,
-      price_eth_per_token as price_eth,
-      eth_price_usd,
-      block_time
-    FROM token_transfers 
-    WHERE token_id = $1 
-      AND chain_id = $2
-      AND block_time >= $3
-      AND amount_eth_wei IS NOT NULL 
-      AND amount_eth_wei <> 0
-      AND price_eth_per_token IS NOT NULL
-      AND price_eth_per_token > 0
-    ORDER BY block_time ASC
-  `, [token.id, chainId, cutoffDate])
-  
-  console.log(`Token ${token.id}: Found ${tradingData.length} trading transactions to process (last ${CHART_AGG_UPDATE_DAYS} days)`)
-  
-  if (tradingData.length === 0) {
-    console.log(`Token ${token.id}: No recent trading data found. Skipping.`)
+  const rollups = CHART_INTERVALS.filter(i => i !== BASE_CHART_INTERVAL).join('/')
+
+  // Explicit rebuild (`since`) or full mode: delete and rebuild the whole window
+  if (since || CHART_AGG_MODE === 'full') {
+    const cutoffDate = since ?? defaultChartCutoff()
+    console.log(`\n📊 Processing token ${token.id} (${token.contract_address}) for chart aggregations (full rebuild since ${cutoffDate.toISOString()})...`)
+
+    const baseCandles = await rebuildCandles(token.id, chainId, cutoffDate)
+
+    console.log(`✅ Token ${token.id}: Rebuilt ${baseCandles} ${BASE_CHART_INTERVAL} candles and their ${rollups} roll-ups`)
     return
   }
-  
-  // Clear existing chart aggregations for this token (only recent days)
-  await pool.query(`
-    DELETE FROM public.token_chart_agg 
-    WHERE token_id = $1 AND chain_id = $2 AND ts >= $3
-  `, [token.id, chainId, cutoffDate])
-  
-  // Process 4-hour interval only
-  const intervals = [
-    { type: '4h', trunc: 'hour', interval: '4 hours' }
-  ]
-  
-  for (const interval of intervals) {
-    // Generate continuous time series with filled gaps
-    const { rows: intervalData } = await pool.query(`
-      WITH time_series AS (
-        -- Generate continuous standard 4-hour intervals (00:00, 04:00, 08:00, 12:00, 16:00, 20:00)
-        SELECT generate_series(
-          DATE_TRUNC('day', $3::timestamp) + 
-            (FLOOR(EXTRACT(hour FROM $3::timestamp) / 4) * 4) * interval '1 hour',
-          DATE_TRUNC('day', NOW()) + interval '1 day' - interval '1 second',
-          '4 hours'::interval
-        ) as ts
-      ),
-      trading_data AS (
-        -- Get actual trading data grouped by standard 4-hour intervals (0-4, 4-8, 8-12, 12-16, 16-20, 20-24)
-        SELECT 
-          DATE_TRUNC('day', block_time) + 
-            (FLOOR(EXTRACT(hour FROM block_time) / 4) * 4) * interval '1 hour' as ts,
-          COUNT(*) as trades_count,
-          SUM(amount_eth_wei/1e18) as volume_eth,
-          SUM((amount_eth_wei/1e18) * COALESCE(eth_price_usd, 0)) as volume_usd,
-          MIN(price_eth_per_token) as price_low_eth,
-          MAX(price_eth_per_token) as price_high_eth,
-          (ARRAY_AGG(price_eth_per_token ORDER BY block_time ASC, log_index ASC))[1] as price_open_eth,
-          (ARRAY_AGG(price_eth_per_token ORDER BY block_time DESC, log_index DESC))[1] as price_close_eth,
-          (ARRAY_AGG(price_eth_per_token * COALESCE(eth_price_usd, 0) ORDER BY block_time ASC, log_index ASC))[1] as price_open_usd,
-          (ARRAY_AGG(price_eth_per_token * COALESCE(eth_price_usd, 0) ORDER BY block_time DESC, log_index DESC))[1] as price_close_usd,
-          MIN(price_eth_per_token * COALESCE(eth_price_usd, 0)) as price_low_usd,
-          MAX(price_eth_per_token * COALESCE(eth_price_usd, 0)) as price_high_usd
-        FROM token_transfers 
-        WHERE token_id = $1 
-          AND chain_id = $2
-          AND block_time >= $3
-          AND amount_eth_wei IS NOT NULL 
-          AND amount_eth_wei <> 0
-          AND price_eth_per_token IS NOT NULL
-          AND price_eth_per_token > 0
-        GROUP BY DATE_TRUNC('day', block_time) + 
-          (FLOOR(EXTRACT(hour FROM block_time) / 4) * 4) * interval '1 hour'
-      ),
-      -- Get all trading data with prices for progressive forward-filling
-      all_trades AS (
-        SELECT 
-          block_time,
-          price_eth_per_token as price_eth,
-          price_eth_per_token * COALESCE(eth_price_usd, 0) as price_usd
-        FROM token_transfers 
-        WHERE token_id = $1 
-          AND chain_id = $2
-          AND price_eth_per_token IS NOT NULL
-          AND price_eth_per_token > 0
-        ORDER BY block_time ASC
-      ),
-      -- Create price timeline for forward-filling
-      price_timeline AS (
-        SELECT 
-          ts.ts,
-          -- Get the last price before or at this timestamp
-          (SELECT price_eth FROM all_trades 
-           WHERE block_time <= ts.ts 
-           ORDER BY block_time DESC 
-           LIMIT 1) as forward_price_eth,
-          (SELECT price_usd FROM all_trades 
-           WHERE block_time <= ts.ts 
-           ORDER BY block_time DESC 
-           LIMIT 1) as forward_price_usd
-        FROM time_series ts
-      )
-      -- Combine time series with trading data, filling gaps with zero volume and progressive forward-filled prices
-      SELECT 
-        ts.ts,
-        COALESCE(td.trades_count, 0) as trades_count,
-        COALESCE(td.volume_eth, 0) as volume_eth,
-        COALESCE(td.volume_usd, 0) as volume_usd,
-        -- For gaps: all OHLC prices equal to forward-filled price (flat candle)
-        -- For actual data: use real OHLC values
-        CASE 
-          WHEN td.ts IS NULL THEN COALESCE(pt.forward_price_eth, 0)  -- Gap: flat candle with forward-filled price
-          ELSE td.price_low_eth 
-        END as price_low_eth,
-        CASE 
-          WHEN td.ts IS NULL THEN COALESCE(pt.forward_price_eth, 0)  -- Gap: flat candle with forward-filled price
-          ELSE td.price_high_eth 
-        END as price_high_eth,
-        CASE 
-          WHEN td.ts IS NULL THEN COALESCE(pt.forward_price_eth, 0)  -- Gap: flat candle with forward-filled price
-          ELSE td.price_open_eth 
-        END as price_open_eth,
-        CASE 
-          WHEN td.ts IS NULL THEN COALESCE(pt.forward_price_eth, 0)  -- Gap: flat candle with forward-filled price
-          ELSE td.price_close_eth 
-        END as price_close_eth,
-        CASE 
-          WHEN td.ts IS NULL THEN COALESCE(pt.forward_price_usd, 0)  -- Gap: flat candle with forward-filled price
-          ELSE td.price_open_usd 
-        END as price_open_usd,
-        CASE 
-          WHEN td.ts IS NULL THEN COALESCE(pt.forward_price_usd, 0)  -- Gap: flat candle with forward-filled price
-          ELSE td.price_high_usd 
-        END as price_high_usd,
-        CASE 
-          WHEN td.ts IS NULL THEN COALESCE(pt.forward_price_usd, 0)  -- Gap: flat candle with forward-filled price
-          ELSE td.price_low_usd 
-        END as price_low_usd,
-        CASE 
-          WHEN td.ts IS NULL THEN COALESCE(pt.forward_price_usd, 0)  -- Gap: flat candle with forward-filled price
-          ELSE td.price_close_usd 
-        END as price_close_usd
-      FROM time_series ts
-      LEFT JOIN trading_data td ON ts.ts = td.ts
-      LEFT JOIN price_timeline pt ON ts.ts = pt.ts
-      ORDER BY ts.ts ASC
-    `, [token.id, chainId, cutoffDate])
-    
-    console.log(`Token ${token.id}: Found ${intervalData.length} ${interval.type} candles to process`)
-    
-    // Filter to only insert records with activity (sparse storage)
-    const activeCandles = intervalData.filter(candle => 
-      candle.volume_usd > 0 || candle.trades_count > 0
-    )
-    
-    console.log(`Token ${token.id}: Filtering to ${activeCandles.length} active candles (from ${intervalData.length} total)`)
-    
-    // Delete existing records for this token and time range, then insert fresh data
-    await pool.query(`
-      DELETE FROM public.token_chart_agg 
-      WHERE token_id = $1 AND chain_id = $2 AND interval_type = $3 AND ts >= $4
-    `, [token.id, chainId, interval.type, cutoffDate])
-    
-    console.log(`Token ${token.id}: Deleted existing records from ${cutoffDate.toISOString()}`)
-    
-    // Insert only active candles
-    for (const candle of activeCandles) {
-      await pool.query(`
-        INSERT INTO public.token_chart_agg 
-        (token_id, chain_id, interval_type, ts, 
-         price_open_eth, price_high_eth, price_low_eth, price_close_eth,
-         price_open_usd, price_high_usd, price_low_usd, price_close_usd,
-         volume_eth, volume_usd, trades_count)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
-      `, [
-        token.id, chainId, interval.type, candle.ts,
-        candle.price_open_eth, candle.price_high_eth, candle.price_low_eth, candle.price_close_eth,
-        candle.price_open_usd, candle.price_high_usd, candle.price_low_usd, candle.price_close_usd,
-        candle.volume_eth, candle.volume_usd, candle.trades_count
-      ])
-    }
-    
-    console.log(`✅ Token ${token.id}: Processed ${activeCandles.length} active ${interval.type} candles`)
+
+  console.log(`\n📊 Processing token ${token.id} (${token.contract_address}) for chart aggregations (incremental)...`)
+
+  const { mode, count } = await updateCandlesIncremental(token.id, chainId)
+
+  if (mode === 'full') {
+    console.log(`✅ Token ${token.id}: No usable chart high-water mark - rebuilt ${count} ${BASE_CHART_INTERVAL} candles and their ${rollups} roll-ups`)
+  } else {
+    console.log(`✅ Token ${token.id}: Upserted ${count} touched ${BASE_CHART_INTERVAL} candles and their ${rollups} roll-ups`)
   }
 }
 
@@ -278,6 +123,9 @@ async function processTokenBalances(
     return
   }
   
+  // Balances cover whole indexed blocks; newer transfers (API-side sync) are applied on read by /api/token-holders
+  const throughBlock = await indexedThroughBlock(pool, token.id, chainId)
+
   // Clear existing balances for this token to start fresh
   await pool.query(`
     DELETE FROM public.token_balances 
@@ -301,6 +149,7 @@ async function processTokenBalances(
       WHERE token_id = $1 AND chain_id = $2
         AND amount_wei != '0'
         AND from_address != '0x0000000000000000000000000000000000000000'
+        AND block_number <= $3
       
       UNION ALL
       
@@ -312,10 +161,11 @@ async function processTokenBalances(
       WHERE token_id = $1 AND chain_id = $2
         AND amount_wei != '0'
         AND to_address != '0x0000000000000000000000000000000000000000'
+        AND block_number <= $3
     ) balance_changes
     GROUP BY holder
     HAVING SUM(balance_change) != 0
-  `, [token.id, chainId])
+  `, [token.id, chainId, throughBlock])
   
   // Clean up zero balances
   await pool.query(`
@@ -323,6 +173,12 @@ async function processTokenBalances(
     WHERE token_id = $1 AND chain_id = $2 AND balance_wei::numeric <= 0
   `, [token.id, chainId])
   
+  await pool.query(`
+    INSERT INTO public.token_balance_heights (chain_id, token_id, block_number)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (chain_id, token_id) DO UPDATE SET block_number = EXCLUDED.block_number, updated_at = now()
+  `, [chainId, token.id, throughBlock])
+  
   // Update holder count (exclude LP pools via subquery to handle empty sets, zero address, and token contract address)
   const { rows: [{ holders }] } = await pool.query(`
     SELECT COUNT(*)::int AS holders
@@ -346,7 +202,57 @@ async function processTokenBalances(
 }
 
 /**
- * Process token statistics (current_price, market_cap, fdv, total_supply, liquidity, 24h volume)
+ * Process daily holder distribution snapshots (holder count, concentration, creator share).
+ * Runs resume from the snapshot cursor; `rebuild` replays all transfers instead
+ */
+async function processTokenHolderSnapshots(
+  token: TokenRow,
+  chainId: number,
+  rebuild = false
+): Promise<void> {
+  console.log(`\n👥 Processing token ${token.id} (${token.contract_address}) for holder snapshots${rebuild ? ' (rebuild)' : ''}...`)
+
+  const days = rebuild ? await rebuildHolderSnapshots(token.id, chainId) : await updateHolderSnapshots(token.id, chainId)
+
+  console.log(`✅ Token ${token.id}: Wrote ${days} daily holder snapshots`)
+}
+
+/**
+ * Bonding-curve price and raise progress of an ungraduated token, replayed from its indexed BC flows with the
+ * contract's formula. Null when the token has graduated or its curve parameters were never stored.
+ */
+async function loadCurveState(
+  token: TokenRow,
+  chainId: number
+): Promise<{ priceEth: number; totalRaisedEth: number } | null> {
+  const { rows: [params] } = await pool.query<{ base_price: string | null; slope: string | null; is_graduated: boolean }>(`
+    SELECT TRUNC(base_price::numeric)::text AS base_price, TRUNC(slope::numeric)::text AS slope, is_graduated
+    FROM public.tokens
+    WHERE id = $1
+  `, [token.id])
+
+  if (!params || params.is_graduated || !params.base_price || params.slope === null) return null
+
+  const { rows: flows } = await pool.query<{ side: string; amount_wei: string }>(`
+    SELECT side, TRUNC(amount_wei::numeric)::text AS amount_wei
+    FROM public.token_transfers
+    WHERE token_id = $1 AND chain_id = $2 AND src = 'BC'
+      AND side IN ('BUY', 'BUY&LOCK', 'SELL', 'CLAIMAIRDROP', 'GRADUATION')
+    ORDER BY block_number ASC, log_index ASC
+  `, [token.id, chainId])
+
+  const curve = { basePrice: BigInt(params.base_price), slope: BigInt(params.slope) }
+  const { supplyWei, totalRaisedWei } = replayCurve(curve, flows.map(f => ({ side: f.side, amountWei: BigInt(f.amount_wei) })))
+
+  return {
+    priceEth: Number(curvePrice(curve, supplyWei)) / 1e18,
+    totalRaisedEth: Number(totalRaisedWei) / 1e18,
+  }
+}
+
+/**
+ * Process token statistics (current_price, market_cap, fdv, total_supply, liquidity, 24h volume, eth_raised)
+ * Price comes from the newest pair snapshot, or from the bonding curve for tokens still on it
  */
 async function processTokenStats(
   token: TokenRow,
@@ -387,8 +293,7 @@ async function processTokenStats(
   
   // Get current ETH price for USD calculations
   const { rows: ethPriceData } = await pool.query(`
-    SELECT price_usd FROM public.eth_price_cache 
-    ORDER BY fetched_at DESC LIMIT 1
+    SELECT price_usd FROM public.eth_price_latest
   `)
   const eth_price_usd = ethPriceData.length > 0 && ethPriceData[0].price_usd ? Number(ethPriceData[0].price_usd) : null
   
@@ -431,7 +336,7 @@ async function processTokenStats(
   const circulating_supply_tokens = Number(circulating_supply) / 1e18
   const total_supply_tokens = Number(total_supply) / 1e18
   
-  // Only update price-related fields if we have valid price data from pair_snapshots
+  // DEX price from pair_snapshots
   if (priceData.length > 0) {
     const market_cap = circulating_supply_tokens * current_price
     const fdv = total_supply_tokens * current_price
@@ -457,6 +362,34 @@ async function processTokenStats(
     ])
     
     console.log(`✅ Token ${token.id}: Updated statistics - Price: ${current_price}, Market Cap: $${market_cap.toFixed(2)}, FDV: $${fdv.toFixed(2)}`)
+    return
+  }
+
+  // No pair yet: price and raise progress from the bonding curve
+  const curve = await loadCurveState(token, chainId)
+  if (curve) {
+    const market_cap = circulating_supply_tokens * curve.priceEth
+    const fdv = total_supply_tokens * curve.priceEth
+
+    await pool.query(`
+      UPDATE public.tokens 
+      SET 
+        current_price = $1,
+        market_cap = $2,
+        fdv = $3,
+        total_supply = $4,
+        eth_raised = $5,
+        volume_24h_eth = $6,
+        volume_24h_updated_at = NOW(),
+        updated_at = NOW()
+      WHERE id = $7 AND chain_id = $8
+    `, [
+      curve.priceEth, market_cap, fdv, total_supply,
+      curve.totalRaisedEth, volume_24h_eth,
+      token.id, chainId
+    ])
+
+    console.log(`✅ Token ${token.id}: Updated bonding-curve statistics - Price: ${curve.priceEth}, Raised: ${curve.totalRaisedEth} ETH, Market Cap: $${market_cap.toFixed(2)}, FDV: $${fdv.toFixed(2)}`)
   } else {
     // No price data available - use existing current_price for calculations
     const existing_price = token.current_price || 0
@@ -484,20 +417,40 @@ async function processTokenStats(
 }
 
 /**
- * Process a single token
+ * Process per-wallet PnL (average cost basis replayed over all trades)
+ */
+async function processTokenPnl(
+  token: TokenRow,
+  chainId: number
+): Promise<void> {
+  console.log(`\n💰 Processing token ${token.id} (${token.contract_address}) for wallet PnL...`)
+
+  const wallets = await rebuildWalletPnl(token.id, chainId)
+
+  console.log(`✅ Token ${token.id}: Updated PnL for ${wallets} wallets`)
+}
+
+/**
+ * Process a single token (`rebuild` replays the holder snapshots instead of resuming them)
  */
-async function processToken(token: TokenRow, chainId: number): Promise<void> {
+async function processToken(token: TokenRow, chainId: number, chartSince?: Date, rebuild = false): Promise<void> {
   console.log(`\n🪙 Processing token ${token.id} (${token.contract_address})...`)
   
   try {
     // Process token balances (processes ALL transfers from the beginning)
-    await processTokenBalances(token, chainId)
+    await timeAggregation('balances', () => processTokenBalances(token, chainId))
+
+    // Process holder distribution history (resumes from the end of the last fully indexed day)
+    await timeAggregation('holders', () => processTokenHolderSnapshots(token, chainId, rebuild))
     
-    // Process chart aggregations (1m, 1d, 1w, 1M intervals with dual currency OHLC)
-    await processTokenChartAgg(token, chainId)
+    // Process chart aggregations (1m candles rolled up to 5m, 15m, 1h, 4h, 1d)
+    await timeAggregation('chart', () => processTokenChartAgg(token, chainId, chartSince))
     
     // Process token statistics
-    await processTokenStats(token, chainId)
+    await timeAggregation('stats', () => processTokenStats(token, chainId))
+
+    // Process per-wallet PnL (processes ALL trades from the beginning)
+    await timeAggregation('pnl', () => processTokenPnl(token, chainId))
     
     console.log(`✅ Token ${token.id}: Completed all aggregations`)
       
@@ -579,6 +532,52 @@ async function processChain(chainId: number): Promise<void> {
   }
 }
 
+async function loadTokens(chainId: number, tokenIds: number[]): Promise<TokenRow[]> {
+  const { rows: tokens } = await pool.query<TokenRow>(`
+    SELECT id, chain_id, contract_address, deployment_block, last_processed_block, is_graduated, creator_wallet, current_price
+    FROM public.tokens 
+    WHERE chain_id = $1 AND id = ANY($2)
+    ORDER BY id DESC
+  `, [chainId, tokenIds])
+  return tokens
+}
+
+/**
+ * Re-aggregate specific tokens regardless of filters (e.g. after a reorg rollback or reindex).
+ * Charts are rebuilt from `chartSince` when given, otherwise over the usual incremental window. Holder snapshots
+ * are replayed from the first transfer, since the rollback may reach below their cursor.
+ */
+export async function aggregateTokens(chainId: number, tokenIds: number[], chartSince?: Date): Promise<void> {
+  if (tokenIds.length === 0) return
+
+  for (const token of await loadTokens(chainId, tokenIds)) {
+    try {
+      await processToken(token, chainId, chartSince, true)
+    } catch (error) {
+      console.error(`❌ Token ${token.id}: Failed to re-aggregate:`, error)
+    }
+  }
+}
+
+/**
+ * Rebuild token_balances (and holder counts and snapshots) for specific tokens; errors propagate to the caller
+ */
+export async function rebuildTokenBalances(chainId: number, tokenIds: number[]): Promise<void> {
+  for (const token of await loadTokens(chainId, tokenIds)) {
+    await timeAggregation('balances', () => processTokenBalances(token, chainId))
+    await timeAggregation('holders', () => processTokenHolderSnapshots(token, chainId, true))
+  }
+}
+
+/**
+ * Rebuild token_chart_agg from `since` for specific tokens; errors propagate to the caller
+ */
+export async function rebuildTokenCharts(chainId: number, tokenIds: number[], since: Date): Promise<void> {
+  for (const token of await loadTokens(chainId, tokenIds)) {
+    await timeAggregation('chart', () => processTokenChartAgg(token, chainId, since))
+  }
+}
+
 /**
  * Main function
  */
@@ -588,7 +587,7 @@ export async function main(): Promise<boolean> {
   
   try {
     // Get all supported chains
-    const supportedChains = [6342, 11155111] // MegaETH, Sepolia
+    const supportedChains = chainConfigs.map(chain => chain.id)
     
     let hasHealthyChains = false
     
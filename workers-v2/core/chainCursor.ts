@@ -0,0 +1,80 @@
+// Per-chain scan cursor for Worker V2
+// The scanner fetches logs for every token and pair of a chain at once, so progress lives in chain_cursors.
+// tokens.last_processed_block and the dex_pools cursors are NULL while an address follows the chain cursor.
+// They only hold a block for addresses off it: behind (newly registered, earlier failures), which are caught
+// up before the main scan, or ahead (filtered runs).
+
+import pool from '../../lib/db'
+
+/**
+ * Current chain cursor; on first run seeded from the least advanced token of the chain
+ */
+export async function getChainCursor(chainId: number): Promise<number> {
+  const cursor = await readChainCursor(chainId)
+  if (cursor !== null) return cursor
+
+  const { rows: seed } = await pool.query<{ block: string | null }>(`
+    SELECT MIN(COALESCE(last_processed_block, deployment_block - 1)) AS block
+    FROM public.tokens
+    WHERE chain_id = $1
+  `, [chainId])
+  const start = Number(seed[0]?.block ?? 0)
+
+  await pool.query(`
+    INSERT INTO public.chain_cursors (chain_id, last_processed_block)
+    VALUES ($1, $2)
+    ON CONFLICT (chain_id) DO NOTHING
+  `, [chainId, start])
+  console.log(`📍 Chain ${chainId}: Initialised chain cursor at block ${start}`)
+  return start
+}
+
+/**
+ * Current chain cursor without seeding it (null before the first unfiltered run)
+ */
+export async function readChainCursor(chainId: number): Promise<number | null> {
+  const { rows } = await pool.query<{ last_processed_block: string }>(
+    'SELECT last_processed_block FROM public.chain_cursors WHERE chain_id = $1',
+    [chainId]
+  )
+  return rows.length > 0 ? Number(rows[0].last_processed_block) : null
+}
+
+/**
+ * Move the chain cursor forward (never backwards - rollbacks rewind it explicitly)
+ */
+export async function advanceChainCursor(chainId: number, block: number): Promise<void> {
+  await pool.query(`
+    INSERT INTO public.chain_cursors (chain_id, last_processed_block)
+    VALUES ($1, $2)
+    ON CONFLICT (chain_id) DO UPDATE SET
+      last_processed_block = GREATEST(public.chain_cursors.last_processed_block, EXCLUDED.last_processed_block),
+      updated_at = now()
+  `, [chainId, block])
+}
+
+/**
+ * Store tokens' own cursor; null puts them back on the chain cursor
+ */
+export async function storeTokenCursors(chainId: number, tokenIds: number[], block: number | null): Promise<void> {
+  if (tokenIds.length === 0) return
+  await pool.query(`
+    UPDATE public.tokens
+    SET last_processed_block = $3,
+        updated_at = now()
+    WHERE chain_id = $1 AND id = ANY($2)
+  `, [chainId, tokenIds, block])
+}
+
+/**
+ * Store pools' own Swap and Sync cursors; null puts them back on the chain cursor
+ */
+export async function storePoolCursors(chainId: number, pairAddresses: string[], swapBlock: number | null, syncBlock: number | null): Promise<void> {
+  if (pairAddresses.length === 0) return
+  await pool.query(`
+    UPDATE public.dex_pools
+    SET last_processed_block = $3,
+        last_processed_sync_block = $4
+    WHERE chain_id = $1 AND LOWER(pair_address) = ANY($2::text[])
+  `, [chainId, pairAddresses.map(a => a.toLowerCase()), swapBlock, syncBlock])
+}
@@ -1,6 +1,8 @@
 // Worker V2 Configuration
 // Clean, focused configuration for the new worker
 
+import { workerSettingsFor } from '../../lib/chains'
+
 // Environment variables
 export const TOKEN_ID = process.env.TOKEN_ID ? Number(process.env.TOKEN_ID) : undefined
 export const TOKEN_ID_FROM = process.env.TOKEN_ID_FROM ? Number(process.env.TOKEN_ID_FROM) : undefined
@@ -17,27 +19,25 @@ export const DEFAULT_CHUNK = Number(process.env.WORKER_CHUNK ?? 10000)
 export const DEFAULT_DEX_CHUNK = Number(process.env.DEX_CHUNK ?? 500)
 export const HEADER_SLEEP_MS = Number(process.env.WORKER_SLEEP_MS ?? 200)
 
-// Chain-specific rate limiting (configurable via environment variables)
+// Chain-specific rate limiting: <PREFIX>_CHUNK etc. env > config/chains.json `worker` > defaults above
+const WORKER_DEFAULTS = { chunk: DEFAULT_CHUNK, dexChunk: DEFAULT_DEX_CHUNK, sleepMs: HEADER_SLEEP_MS }
+
 export function getChunkSize(chainId: number): number {
-  if (chainId === 6342) return Number(process.env.MEGAETH_CHUNK ?? 10000)   // MegaETH: larger chunks for BC transfers (restored from old worker)
-  if (chainId === 11155111) return Number(process.env.SEPOLIA_CHUNK ?? 20000)  // Sepolia: larger chunks for BC transfers (restored from old worker)
-  return DEFAULT_CHUNK
+  return workerSettingsFor(chainId, WORKER_DEFAULTS).chunk      // BC transfers: larger chunks
 }
 
 export function getDexChunkSize(chainId: number): number {
-  if (chainId === 6342) return Number(process.env.MEGAETH_DEX_CHUNK ?? 1000)    // MegaETH: smaller chunks for DEX events (restored from old worker)
-  if (chainId === 11155111) return Number(process.env.SEPOLIA_DEX_CHUNK ?? 1000)   // Sepolia: smaller chunks for DEX events (restored from old worker)
-  return DEFAULT_DEX_CHUNK
+  return workerSettingsFor(chainId, WORKER_DEFAULTS).dexChunk   // DEX events: smaller chunks
 }
 
 export function getSleepMs(chainId: number): number {
-  if (chainId === 6342) return Number(process.env.MEGAETH_SLEEP_MS ?? 3000)    // MegaETH: very conservative delays
-  if (chainId === 11155111) return Number(process.env.SEPOLIA_SLEEP_MS ?? 500)    // Sepolia: more conservative delays
-  return HEADER_SLEEP_MS
+  return workerSettingsFor(chainId, WORKER_DEFAULTS).sleepMs
 }
 
 // Other settings
-export const REORG_CUSHION = Math.max(0, Number(process.env.REORG_CUSHION ?? 5))
+export const REORG_CUSHION = Math.max(0, Number(process.env.REORG_CUSHION ?? 5))      // Stay this many blocks behind head
+export const REORG_CHECK_DEPTH = Math.max(1, Number(process.env.REORG_CHECK_DEPTH ?? 64))  // Stored block hashes re-checked per cycle
+export const REORG_HASH_RETENTION = Math.max(REORG_CHECK_DEPTH, Number(process.env.REORG_HASH_RETENTION ?? 5000)) // Stored block hashes kept per chain
 export const ADDR_BATCH_LIMIT = Math.max(1, Number(process.env.ADDR_BATCH_LIMIT ?? 200))
 export const SKIP_HEALTH_CHECK = process.env.SKIP_HEALTH_CHECK === 'true'
 export const HEALTH_CHECK_TIMEOUT = Number(process.env.HEALTH_CHECK_TIMEOUT ?? 10000)
@@ -45,6 +45,22 @@ export const HEALTH_CHECK_TIMEOUT = Number(process.env.HEALTH_CHECK_TIMEOUT ?? 1
 // Retry configuration
 export const MAX_RETRY_ATTEMPTS = Math.max(1, Number(process.env.MAX_RETRY_ATTEMPTS ?? 9))
 
+// Daemon mode: keep running and follow new blocks instead of one cycle per cron run (ignored with test filters)
+export const DAEMON_MODE = process.env.WORKER_DAEMON === 'true' || process.argv.includes('--daemon')
+export const DAEMON_TICK_MS = Math.max(250, Number(process.env.WORKER_TICK_MS ?? 5000))              // Pause between ticks
+export const AGG_INTERVAL_MS = Math.max(DAEMON_TICK_MS, Number(process.env.AGG_INTERVAL_MS ?? 60000))  // Aggregation cadence in daemon mode
+export const ETH_PRICE_REFRESH_MS = Number(process.env.ETH_PRICE_REFRESH_MS ?? 300000)               // ETH/USD refresh cadence in daemon mode
+
+// Outbound webhooks: delivered every tick (daemon) or once per cycle, retried with exponential backoff
+export const WEBHOOK_BATCH_SIZE = Math.max(1, Number(process.env.WEBHOOK_BATCH_SIZE ?? 50))                  // Deliveries sent concurrently
+export const WEBHOOK_TIMEOUT_MS = Math.max(1000, Number(process.env.WEBHOOK_TIMEOUT_MS ?? 10000))           // Per-request timeout
+export const WEBHOOK_MAX_ATTEMPTS = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 8))              // Then dead-lettered
+export const WEBHOOK_RETRY_BASE_MS = Math.max(1000, Number(process.env.WEBHOOK_RETRY_BASE_MS ?? 30000))    // First retry delay, doubled per attempt
+export const WEBHOOK_RETRY_MAX_MS = Math.max(WEBHOOK_RETRY_BASE_MS, Number(process.env.WEBHOOK_RETRY_MAX_MS ?? 3600000)) // Retry delay cap
+
+// Worker /healthz and /metrics HTTP server (off when unset)
+export const METRICS_PORT = process.env.METRICS_PORT ? Number(process.env.METRICS_PORT) : undefined
+
 // Singleton advisory lock (prevent overlapping runs)
 export const LOCK_NS = 42
 export const LOCK_ID = 1 // Same as old worker to prevent overlapping runs
\ No newline at end of file
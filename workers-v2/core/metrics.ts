@@ -0,0 +1,214 @@
+// Worker metrics and health endpoint
+// In-process counters and gauges, served as Prometheus text on /metrics and a JSON summary on /healthz.
+// Nothing here talks to the database or RPC: values are recorded by the worker as it runs.
+
+import http from 'http'
+import { getRpcStats } from '../../lib/providers'
+
+type Labels = Record<string, string | number>
+
+interface ChainLag {
+  headBlock: number
+  cursorBlock: number
+  updatedAt: number
+}
+
+interface AggregationTiming {
+  sum: number
+  count: number
+  last: number
+}
+
+const startedAt = Date.now()
+let lastSuccessfulCycleAt: number | null = null
+let lastCycleDurationMs: number | null = null
+
+const chainLag = new Map<number, ChainLag>()
+const tokenLag = new Map<number, Map<number, number>>() // chainId -> tokenId -> blocks behind head
+const rpcCalls = new Map<number, number>()
+const rpcRateLimits = new Map<number, number>()
+const rowsInserted = new Map<string, number>() // `${table}|${chainId}`
+const aggregationTimings = new Map<string, AggregationTiming>()
+
+const HEALTH_MAX_CYCLE_AGE_MS = Number(process.env.HEALTH_MAX_CYCLE_AGE_MS ?? 600000)
+const HEALTH_MAX_BLOCKS_BEHIND = Number(process.env.HEALTH_MAX_BLOCKS_BEHIND ?? 1000)
+
+function increment(map: Map<number, number>, key: number, by = 1) {
+  map.set(key, (map.get(key) ?? 0) + by)
+}
+
+/**
+ * One RPC call made through withRateLimit (retries count as separate calls)
+ */
+export function recordRpcCall(chainId?: number) {
+  increment(rpcCalls, chainId ?? 0)
+}
+
+export function recordRateLimitHit(chainId?: number) {
+  increment(rpcRateLimits, chainId ?? 0)
+}
+
+export function recordRowsInserted(table: 'token_transfers' | 'pair_snapshots', chainId: number, count: number | null) {
+  if (!count) return
+  const key = `${table}|${chainId}`
+  rowsInserted.set(key, (rowsInserted.get(key) ?? 0) + count)
+}
+
+/**
+ * Chain head vs. cursor after a pass, plus how far each scanned token is behind the head
+ */
+export function recordChainLag(chainId: number, headBlock: number, cursorBlock: number, tokenCursors: Array<{ tokenId: number; cursor: number }>) {
+  chainLag.set(chainId, { headBlock, cursorBlock, updatedAt: Date.now() })
+  const tokens = tokenLag.get(chainId) ?? new Map<number, number>()
+  for (const { tokenId, cursor } of tokenCursors) {
+    tokens.set(tokenId, Math.max(0, headBlock - cursor))
+  }
+  tokenLag.set(chainId, tokens)
+}
+
+export function recordCycleSuccess(durationMs: number) {
+  lastSuccessfulCycleAt = Date.now()
+  lastCycleDurationMs = durationMs
+}
+
+export function recordAggregationDuration(stage: string, durationMs: number) {
+  const timing = aggregationTimings.get(stage) ?? { sum: 0, count: 0, last: 0 }
+  timing.sum += durationMs / 1000
+  timing.count++
+  timing.last = durationMs / 1000
+  aggregationTimings.set(stage, timing)
+}
+
+/**
+ * Time an async aggregation step under `stage`, whether it succeeds or throws
+ */
+export async function timeAggregation<T>(stage: string, step: () => Promise<T>): Promise<T> {
+  const started = Date.now()
+  try {
+    return await step()
+  } finally {
+    recordAggregationDuration(stage, Date.now() - started)
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  return `{${entries.map(([k, v]) => `${k}="${String(v).replace(/["\\\n]/g, '\\$&')}"`).join(',')}}`
+}
+
+function renderMetrics(): string {
+  const lines: string[] = []
+  const metric = (name: string, type: 'gauge' | 'counter', help: string, samples: Array<[Labels, number]>) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`)
+    for (const [labels, value] of samples) lines.push(`${name}${formatLabels(labels)} ${value}`)
+  }
+
+  metric('worker_up_seconds', 'gauge', 'Seconds since the worker process started', [[{}, (Date.now() - startedAt) / 1000]])
+  metric('worker_last_successful_cycle_timestamp_seconds', 'gauge', 'Unix time of the last completed worker cycle',
+    lastSuccessfulCycleAt ? [[{}, lastSuccessfulCycleAt / 1000]] : [])
+  metric('worker_last_cycle_duration_seconds', 'gauge', 'Duration of the last completed worker cycle',
+    lastCycleDurationMs !== null ? [[{}, lastCycleDurationMs / 1000]] : [])
+
+  const chains = [...chainLag.entries()]
+  metric('worker_chain_head_block', 'gauge', 'Chain head at the last pass', chains.map(([chain_id, c]) => [{ chain_id }, c.headBlock]))
+  metric('worker_chain_cursor_block', 'gauge', 'Last block fully indexed for the chain', chains.map(([chain_id, c]) => [{ chain_id }, c.cursorBlock]))
+  metric('worker_chain_blocks_behind', 'gauge', 'Blocks between the chain head and the chain cursor',
+    chains.map(([chain_id, c]) => [{ chain_id }, Math.max(0, c.headBlock - c.cursorBlock)]))
+
+  const tokens: Array<[Labels, number]> = []
+  for (const [chain_id, byToken] of tokenLag) {
+    for (const [token_id, behind] of byToken) tokens.push([{ chain_id, token_id }, behind])
+  }
+  metric('worker_token_blocks_behind', 'gauge', 'Blocks between the chain head and the token cursor', tokens)
+
+  metric('worker_rpc_calls_total', 'counter', 'RPC calls made through withRateLimit', [...rpcCalls].map(([chain_id, v]) => [{ chain_id }, v]))
+  metric('worker_rpc_rate_limits_total', 'counter', 'Rate-limit responses seen by withRateLimit', [...rpcRateLimits].map(([chain_id, v]) => [{ chain_id }, v]))
+
+  const endpoints: Record<string, Array<[Labels, number]>> = { requests: [], errors: [], rate_limits: [], timeouts: [] }
+  for (const [chain_id, stats] of Object.entries(getRpcStats())) {
+    for (const e of stats) {
+      const labels = { chain_id, endpoint: e.url }
+      endpoints.requests.push([labels, e.requests])
+      endpoints.errors.push([labels, e.errors])
+      endpoints.rate_limits.push([labels, e.rateLimits])
+      endpoints.timeouts.push([labels, e.timeouts])
+    }
+  }
+  metric('worker_rpc_endpoint_requests_total', 'counter', 'HTTP requests sent per RPC endpoint', endpoints.requests)
+  metric('worker_rpc_endpoint_errors_total', 'counter', 'Failed requests per RPC endpoint', endpoints.errors)
+  metric('worker_rpc_endpoint_rate_limits_total', 'counter', 'Rate-limited requests per RPC endpoint', endpoints.rate_limits)
+  metric('worker_rpc_endpoint_timeouts_total', 'counter', 'Timed out requests per RPC endpoint', endpoints.timeouts)
+
+  metric('worker_rows_inserted_total', 'counter', 'Rows written (inserted or upserted) by the indexer',
+    [...rowsInserted].map(([key, v]) => {
+      const [table, chain_id] = key.split('|')
+      return [{ table, chain_id }, v]
+    }))
+
+  const timings = [...aggregationTimings.entries()]
+  lines.push('# HELP worker_aggregation_duration_seconds Time spent in agg.ts steps', '# TYPE worker_aggregation_duration_seconds summary')
+  for (const [stage, t] of timings) {
+    lines.push(`worker_aggregation_duration_seconds_sum${formatLabels({ stage })} ${t.sum}`)
+    lines.push(`worker_aggregation_duration_seconds_count${formatLabels({ stage })} ${t.count}`)
+  }
+  metric('worker_aggregation_last_duration_seconds', 'gauge', 'Duration of the most recent run of each agg.ts step',
+    timings.map(([stage, t]) => [{ stage }, t.last]))
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Health summary: unhealthy when no cycle completed within HEALTH_MAX_CYCLE_AGE_MS
+ * (counted from startup until the first cycle) or a chain is more than HEALTH_MAX_BLOCKS_BEHIND behind
+ */
+export function getHealth() {
+  const now = Date.now()
+  const cycleAgeMs = now - (lastSuccessfulCycleAt ?? startedAt)
+  const chains = Object.fromEntries(
+    [...chainLag].map(([chainId, c]) => [chainId, {
+      headBlock: c.headBlock,
+      cursorBlock: c.cursorBlock,
+      blocksBehind: Math.max(0, c.headBlock - c.cursorBlock),
+      updatedAt: new Date(c.updatedAt).toISOString(),
+    }])
+  )
+  const lagging = Object.entries(chains).filter(([, c]) => c.blocksBehind > HEALTH_MAX_BLOCKS_BEHIND).map(([chainId]) => Number(chainId))
+  const stale = cycleAgeMs > HEALTH_MAX_CYCLE_AGE_MS
+
+  return {
+    ok: !stale && lagging.length === 0,
+    lastSuccessfulCycleAt: lastSuccessfulCycleAt ? new Date(lastSuccessfulCycleAt).toISOString() : null,
+    cycleAgeMs,
+    stale,
+    laggingChains: lagging,
+    chains,
+  }
+}
+
+/**
+ * Serve /healthz and /metrics; returns the server so callers can close it on shutdown
+ */
+export function startMetricsServer(port: number): http.Server {
+  const server = http.createServer((req, res) => {
+    const path = (req.url ?? '/').split('?')[0]
+    if (req.method !== 'GET') {
+      res.writeHead(405).end()
+      return
+    }
+    if (path === '/metrics') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' }).end(renderMetrics())
+      return
+    }
+    if (path === '/healthz') {
+      const health = getHealth()
+      res.writeHead(health.ok ? 200 : 503, { 'Content-Type': 'application/json' }).end(JSON.stringify(health))
+      return
+    }
+    res.writeHead(404).end()
+  })
+
+  server.on('error', error => console.error('❌ Metrics server error:', error))
+  server.listen(port, () => console.log(`📈 Metrics server listening on :${port} (/healthz, /metrics)`))
+  return server
+}
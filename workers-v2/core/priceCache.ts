@@ -1,65 +1,37 @@
-import pool from '../../lib/db'
+import { getEthPriceSource, recordEthPrice, latestEthPrice } from '../../lib/ethPrices'
 
 /**
  * Get current ETH price in USD for workers
- * Tries to fetch from CoinGecko first, then falls back to cache
+ * Asks the configured price source (recording the point in eth_price_history), then falls back to the newest stored point
  */
 export async function getCurrentEthPrice(): Promise<number | null> {
+  const source = getEthPriceSource()
   try {
-    console.log('[getCurrentEthPrice] Fetching ETH price from CoinGecko...');
-
-    const res = await fetch(
-      'https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd',
-      {
-        method: 'GET',
-        headers: { Accept: 'application/json' },
-        cache: 'no-store',
-      }
-    );
-
-    if (!res.ok) throw new Error('CoinGecko fetch failed');
-
-    const data = await res.json() as { ethereum?: { usd?: number } };
-    const price = data?.ethereum?.usd;
-
-    console.log('[getCurrentEthPrice] CoinGecko returned:', price);
-
-    if (typeof price === 'number') {
-      // Save to database directly (no HTTP API needed)
-      await pool.query(
-        `INSERT INTO eth_price_cache (id, price_usd, fetched_at)
-         VALUES (1, $1, NOW())
-         ON CONFLICT (id) DO UPDATE
-         SET price_usd = EXCLUDED.price_usd,
-             fetched_at = NOW()`,
-        [price]
-      );
-
-      console.log('[getCurrentEthPrice] Saved price to DB');
-      return price;
+    console.log(`[getCurrentEthPrice] Fetching ETH price from ${source.name}...`)
+    const price = await source.current()
+    console.log(`[getCurrentEthPrice] ${source.name} returned:`, price)
+
+    if (price !== null) {
+      await recordEthPrice(price, source.name)
+      console.log('[getCurrentEthPrice] Saved price to eth_price_history')
+      return price
     }
-
-    return null;
   } catch (err) {
-    console.warn('[getCurrentEthPrice] CoinGecko fetch failed:', err);
+    console.warn(`[getCurrentEthPrice] ${source.name} fetch failed:`, err)
   }
 
-  // Fallback: Load from DB
+  // Fallback: newest stored price
   try {
-    const { rows } = await pool.query(
-      `SELECT price_usd::float8 AS price_usd FROM eth_price_cache WHERE id = 1`
-    );
-    
-    const price = rows[0]?.price_usd;
-    if (typeof price === 'number' && !isNaN(price)) {
-      console.log('[getCurrentEthPrice] Using cached price:', price);
-      return price;
+    const price = await latestEthPrice()
+    if (price !== null && !isNaN(price)) {
+      console.log('[getCurrentEthPrice] Using stored price:', price)
+      return price
     }
-    
-    console.warn('[getCurrentEthPrice] No valid price found in cache');
-    return null;
+
+    console.warn('[getCurrentEthPrice] No stored ETH price found')
+    return null
   } catch (error) {
-    console.error('[getCurrentEthPrice] Database fallback failed:', error);
-    return null;
+    console.error('[getCurrentEthPrice] Database fallback failed:', error)
+    return null
   }
 }
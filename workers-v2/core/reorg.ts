@@ -0,0 +1,171 @@
+// Reorg detection and rollback for Worker V2
+// Every block we index data from gets its hash stored in indexed_blocks.
+// On the next cycle the newest stored hashes are compared with the chain; on mismatch
+// everything above the common ancestor is deleted and the cursors are rewound.
+
+import { ethers } from 'ethers'
+import pool from '../../lib/db'
+import { withRateLimit } from './rateLimiting'
+import { MAX_RETRY_ATTEMPTS, REORG_CHECK_DEPTH, REORG_HASH_RETENTION } from './config'
+
+interface IndexedBlock {
+  number: number
+  hash: string | null | undefined
+}
+
+/**
+ * Remember the hashes of blocks we just indexed
+ */
+export async function recordBlockHashes(chainId: number, blocks: IndexedBlock[]): Promise<void> {
+  const unique = new Map<number, string>()
+  for (const block of blocks) {
+    if (block.hash) unique.set(block.number, block.hash)
+  }
+  if (unique.size === 0) return
+
+  await pool.query(`
+    INSERT INTO public.indexed_blocks (chain_id, block_number, block_hash)
+    SELECT $1, UNNEST($2::bigint[]), UNNEST($3::text[])
+    ON CONFLICT (chain_id, block_number) DO UPDATE SET
+      block_hash = EXCLUDED.block_hash,
+      indexed_at = now()
+  `, [chainId, [...unique.keys()], [...unique.values()]])
+}
+
+/**
+ * Convenience wrapper for log batches (each log carries its block hash)
+ */
+export async function recordLogBlocks(chainId: number, logs: ethers.Log[]): Promise<void> {
+  await recordBlockHashes(chainId, logs.map(log => ({ number: log.blockNumber, hash: log.blockHash })))
+}
+
+/**
+ * Compare the newest stored hashes with the chain.
+ * Returns the common ancestor block if a reorg happened, otherwise null.
+ */
+export async function detectReorg(chainId: number, provider: ethers.JsonRpcProvider): Promise<number | null> {
+  const { rows } = await pool.query<{ block_number: string; block_hash: string }>(`
+    SELECT block_number, block_hash
+    FROM public.indexed_blocks
+    WHERE chain_id = $1
+    ORDER BY block_number DESC
+    LIMIT $2
+  `, [chainId, REORG_CHECK_DEPTH])
+
+  if (rows.length === 0) return null
+
+  for (let i = 0; i < rows.length; i++) {
+    const blockNumber = Number(rows[i].block_number)
+    const block = await withRateLimit(() => provider.getBlock(blockNumber), MAX_RETRY_ATTEMPTS, chainId)
+
+    // RPC node lagging behind our stored head - can't tell yet, check again next cycle
+    if (!block && i === 0) return null
+
+    if (block?.hash === rows[i].block_hash) {
+      // Newest stored block still canonical - no reorg
+      if (i === 0) return null
+      console.warn(`⚠️ Chain ${chainId}: Reorg detected - common ancestor at block ${blockNumber}`)
+      return blockNumber
+    }
+  }
+
+  // Reorg deeper than the check window: roll back below the oldest hash we compared
+  const oldest = Number(rows[rows.length - 1].block_number) - 1
+  console.error(`❌ Chain ${chainId}: Reorg deeper than ${REORG_CHECK_DEPTH} stored blocks - rolling back to ${oldest}`)
+  return oldest
+}
+
+/**
+ * Delete indexed data above `ancestor` and rewind every cursor on the chain.
+ * Returns the ids of tokens that lost rows and need re-aggregation.
+ */
+export async function rollbackToBlock(chainId: number, ancestor: number): Promise<number[]> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const { rows: deletedTransfers } = await client.query<{ token_id: number; block_time: Date }>(`
+      DELETE FROM public.token_transfers
+      WHERE chain_id = $1 AND block_number > $2
+      RETURNING token_id, block_time
+    `, [chainId, ancestor])
+
+    // Candles can't un-merge deleted trades: flag the affected range for a full candle rebuild
+    await client.query(`
+      UPDATE public.chart_agg_cursors c
+      SET rebuild_from = LEAST(COALESCE(c.rebuild_from, d.first_time), d.first_time),
+          updated_at = now()
+      FROM (
+        SELECT t.token_id, MIN(t.block_time) AS first_time
+        FROM UNNEST($2::bigint[], $3::timestamptz[]) AS t(token_id, block_time)
+        GROUP BY t.token_id
+      ) d
+      WHERE c.chain_id = $1 AND c.token_id = d.token_id
+    `, [chainId, deletedTransfers.map(r => r.token_id), deletedTransfers.map(r => r.block_time)])
+
+    const { rows: deletedSnapshots } = await client.query<{ token_id: number }>(`
+      WITH deleted AS (
+        DELETE FROM public.pair_snapshots
+        WHERE chain_id = $1 AND block_number > $2
+        RETURNING pair_address
+      )
+      SELECT DISTINCT dp.token_id
+      FROM deleted d
+      JOIN public.dex_pools dp ON dp.chain_id = $1 AND LOWER(dp.pair_address) = LOWER(d.pair_address)
+    `, [chainId, ancestor])
+
+    await client.query(`
+      UPDATE public.tokens
+      SET last_processed_block = $2, updated_at = now()
+      WHERE chain_id = $1 AND last_processed_block > $2
+    `, [chainId, ancestor])
+
+    // NULL cursors follow chain_cursors and stay NULL (LEAST would replace them with the ancestor)
+    await client.query(`
+      UPDATE public.dex_pools
+      SET last_processed_block = CASE WHEN last_processed_block > $2 THEN $2 ELSE last_processed_block END,
+          last_processed_sync_block = CASE WHEN last_processed_sync_block > $2 THEN $2 ELSE last_processed_sync_block END
+      WHERE chain_id = $1
+        AND (last_processed_block > $2 OR last_processed_sync_block > $2)
+    `, [chainId, ancestor])
+
+    await client.query(`
+      UPDATE public.chain_cursors
+      SET last_processed_block = $2, updated_at = now()
+      WHERE chain_id = $1 AND last_processed_block > $2
+    `, [chainId, ancestor])
+
+    await client.query(`
+      DELETE FROM public.indexed_blocks
+      WHERE chain_id = $1 AND block_number > $2
+    `, [chainId, ancestor])
+
+    await client.query('COMMIT')
+
+    const affected = [...new Set([...deletedTransfers, ...deletedSnapshots].map(r => r.token_id))]
+    console.log(`🔄 Chain ${chainId}: Rolled back to block ${ancestor} - removed ${deletedTransfers.length} transfers, affected tokens: ${affected.join(', ') || 'none'}`)
+    return affected
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error(`❌ Chain ${chainId}: Rollback to block ${ancestor} failed:`, error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Keep indexed_blocks bounded
+ */
+export async function pruneBlockHashes(chainId: number): Promise<void> {
+  await pool.query(`
+    DELETE FROM public.indexed_blocks
+    WHERE chain_id = $1
+      AND block_number < (
+        SELECT block_number FROM public.indexed_blocks
+        WHERE chain_id = $1
+        ORDER BY block_number DESC
+        OFFSET $2 LIMIT 1
+      )
+  `, [chainId, REORG_HASH_RETENTION])
+}
@@ -0,0 +1,423 @@
+// Worker-owned tables
+// Idempotent DDL, run once at worker startup so a fresh database needs no manual migration
+
+import pool from '../../lib/db'
+import { STREAM_CHANNEL } from '../../lib/streamEvents'
+import { WEBHOOK_EVENT_TYPES } from '../../lib/webhooks'
+
+export async function ensureWorkerSchema(): Promise<void> {
+  // Block hashes of every block the worker indexed data from (reorg detection)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS public.indexed_blocks (
+      chain_id     integer NOT NULL,
+      block_number bigint  NOT NULL,
+      block_hash   text    NOT NULL,
+      indexed_at   timestamptz NOT NULL DEFAULT now(),
+      PRIMARY KEY (chain_id, block_number)
+    )
+  `)
+
+  // Scan progress per chain (the scanner fetches logs for all tokens and pairs at once)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS public.chain_cursors (
+      chain_id             integer NOT NULL PRIMARY KEY,
+      last_processed_block bigint  NOT NULL,
+      updated_at           timestamptz NOT NULL DEFAULT now()
+    )
+  `)
+
+  // Block height token_balances was rebuilt at: every transfer up to it is folded in. /api/token-holders applies the
+  // transfers above it on read (lib/tokenHolders.ts)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS public.token_balance_heights (
+      chain_id     integer NOT NULL,
+      token_id     bigint  NOT NULL,
+      block_number bigint  NOT NULL,
+      updated_at   timestamptz NOT NULL DEFAULT now(),
+      PRIMARY KEY (chain_id, token_id)
+    )
+  `)
+
+  // Candle resolutions written by lib/chartCandles (older databases only allow 1m, 4h, 1d, 1w, 1M)
+  await pool.query(`
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'token_chart_agg_interval_check'
+          AND pg_get_constraintdef(oid) NOT LIKE '%15m%'
+      ) THEN
+        ALTER TABLE public.token_chart_agg DROP CONSTRAINT token_chart_agg_interval_check;
+        ALTER TABLE public.token_chart_agg ADD CONSTRAINT token_chart_agg_interval_check
+          CHECK (interval_type IN ('1m', '5m', '15m', '1h', '4h', '1d', '1w', '1M'));
+      END IF;
+    END $$
+  `)
+
+  // Chart high-water mark per token: newest (block_number, log_index) folded into token_chart_agg.
+  // rebuild_from is set by reorg rollbacks - the next run rebuilds candles from there instead
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS public.chart_agg_cursors (
+      chain_id          integer NOT NULL,
+      token_id          bigint  NOT NULL,
+      last_block_number bigint  NOT NULL,
+      last_log_index    integer NOT NULL,
+      rebuild_from      timestamptz,
+      updated_at        timestamptz NOT NULL DEFAULT now(),
+      PRIMARY KEY (chain_id, token_id)
+    )
+  `)
+
+  // Candle upserts need one row per bucket; drop duplicates left by older delete-and-insert runs first
+  await pool.query(`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND indexname = 'token_chart_agg_bucket_key') THEN
+        DELETE FROM public.token_chart_agg a
+        USING public.token_chart_agg b
+        WHERE a.token_id = b.token_id AND a.chain_id = b.chain_id AND a.interval_type = b.interval_type
+          AND a.ts = b.ts AND a.ctid < b.ctid;
+        CREATE UNIQUE INDEX token_chart_agg_bucket_key ON public.token_chart_agg (token_id, chain_id, interval_type, ts);
+      END IF;
+    END $$
+  `)
+
+  // Live events for /api/stream (lib/streamHub.ts): one NOTIFY per inserted transfer and per market update of a token.
+  // Bulk rewrites (reindex) run with SET LOCAL stream.notify = 'off' so clients don't see replayed trades.
+  await pool.query(`
+    CREATE OR REPLACE FUNCTION public.notify_token_transfer() RETURNS trigger AS $$
+    BEGIN
+      IF current_setting('stream.notify', true) = 'off' THEN
+        RETURN NULL;
+      END IF;
+      PERFORM pg_notify('${STREAM_CHANNEL}', json_build_object(
+        'type', 'trade',
+        'chainId', NEW.chain_id,
+        'tokenId', NEW.token_id,
+        'txHash', NEW.tx_hash,
+        'logIndex', NEW.log_index,
+        'blockNumber', NEW.block_number,
+        'blockTime', NEW.block_time,
+        'side', NEW.side,
+        'from', NEW.from_address,
+        'to', NEW.to_address,
+        'amountWei', NEW.amount_wei::text,
+        'amountEthWei', NEW.amount_eth_wei::text,
+        'priceEthPerToken', NEW.price_eth_per_token,
+        'ethPriceUsd', NEW.eth_price_usd,
+        'src', NEW.src
+      )::text);
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE OR REPLACE FUNCTION public.notify_token_update() RETURNS trigger AS $$
+    BEGIN
+      IF current_setting('stream.notify', true) = 'off' THEN
+        RETURN NULL;
+      END IF;
+      PERFORM pg_notify('${STREAM_CHANNEL}', json_build_object(
+        'type', 'token',
+        'chainId', NEW.chain_id,
+        'tokenId', NEW.id,
+        'currentPrice', NEW.current_price,
+        'marketCap', NEW.market_cap,
+        'fdv', NEW.fdv,
+        'ethRaised', NEW.eth_raised,
+        'holderCount', NEW.holder_count,
+        'volume24hEth', NEW.volume_24h_eth,
+        'isGraduated', NEW.is_graduated,
+        'onDex', NEW.on_dex
+      )::text);
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS token_transfers_notify ON public.token_transfers;
+    CREATE TRIGGER token_transfers_notify
+      AFTER INSERT ON public.token_transfers
+      FOR EACH ROW EXECUTE FUNCTION public.notify_token_transfer();
+
+    DROP TRIGGER IF EXISTS tokens_notify ON public.tokens;
+    CREATE TRIGGER tokens_notify
+      AFTER UPDATE ON public.tokens
+      FOR EACH ROW
+      WHEN (
+        OLD.current_price IS DISTINCT FROM NEW.current_price
+        OR OLD.market_cap IS DISTINCT FROM NEW.market_cap
+        OR OLD.fdv IS DISTINCT FROM NEW.fdv
+        OR OLD.eth_raised IS DISTINCT FROM NEW.eth_raised
+        OR OLD.holder_count IS DISTINCT FROM NEW.holder_count
+        OR OLD.volume_24h_eth IS DISTINCT FROM NEW.volume_24h_eth
+        OR OLD.is_graduated IS DISTINCT FROM NEW.is_graduated
+        OR OLD.on_dex IS DISTINCT FROM NEW.on_dex
+      )
+      EXECUTE FUNCTION public.notify_token_update();
+  `)
+
+  // Outbound webhooks (workers-v2/core/webhooks.ts delivers them). Subscriptions filter by event type, chain, token and
+  // minimum trade size in wei; event_types NULL means every type. Deliveries are the pending (event, subscription) pairs,
+  // retried with backoff and moved to webhook_dead_letters once WEBHOOK_MAX_ATTEMPTS is used up
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS public.webhook_subscriptions (
+      id              bigserial   PRIMARY KEY,
+      url             text        NOT NULL,
+      secret          text        NOT NULL,
+      description     text,
+      event_types     text[],
+      chain_id        integer,
+      token_id        bigint,
+      min_eth_wei     numeric,
+      active          boolean     NOT NULL DEFAULT TRUE,
+      last_success_at timestamptz,
+      created_at      timestamptz NOT NULL DEFAULT now(),
+      CHECK (event_types IS NULL OR event_types <@ ARRAY[${WEBHOOK_EVENT_TYPES.map(type => `'${type}'`).join(', ')}]::text[])
+    );
+
+    CREATE TABLE IF NOT EXISTS public.webhook_events (
+      id         bigserial   PRIMARY KEY,
+      event_type text        NOT NULL,
+      chain_id   integer     NOT NULL,
+      token_id   bigint      NOT NULL,
+      data       jsonb       NOT NULL,
+      created_at timestamptz NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+      id              bigserial   PRIMARY KEY,
+      event_id        bigint      NOT NULL REFERENCES public.webhook_events (id) ON DELETE CASCADE,
+      subscription_id bigint      NOT NULL REFERENCES public.webhook_subscriptions (id) ON DELETE CASCADE,
+      attempts        integer     NOT NULL DEFAULT 0,
+      next_attempt_at timestamptz NOT NULL DEFAULT now(),
+      last_status     integer,
+      last_error      text,
+      created_at      timestamptz NOT NULL DEFAULT now(),
+      UNIQUE (event_id, subscription_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON public.webhook_deliveries (next_attempt_at);
+
+    CREATE TABLE IF NOT EXISTS public.webhook_dead_letters (
+      id              bigserial   PRIMARY KEY,
+      event_id        bigint      NOT NULL REFERENCES public.webhook_events (id) ON DELETE CASCADE,
+      subscription_id bigint      NOT NULL REFERENCES public.webhook_subscriptions (id) ON DELETE CASCADE,
+      attempts        integer     NOT NULL,
+      last_status     integer,
+      last_error      text,
+      failed_at       timestamptz NOT NULL DEFAULT now()
+    );
+  `)
+
+  // Webhook events are queued by triggers, so the worker and the API-side sync both produce them. An event is only
+  // stored when a subscription matches; it gets one delivery row per matching subscription, paused ones included (they
+  // hold their deliveries until resumed). p_eth_wei is the trade
+  // size for min_eth_wei (NULL for events that aren't trades). Bulk rewrites run with SET LOCAL webhooks.enqueue = 'off'
+  await pool.query(`
+    CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(
+      p_type text, p_chain_id integer, p_token_id bigint, p_eth_wei numeric, p_data jsonb
+    ) RETURNS void AS $$
+    BEGIN
+      IF current_setting('webhooks.enqueue', true) = 'off' THEN
+        RETURN;
+      END IF;
+      WITH matched AS (
+        SELECT s.id FROM public.webhook_subscriptions s
+        WHERE (s.event_types IS NULL OR p_type = ANY(s.event_types))
+          AND (s.chain_id IS NULL OR s.chain_id = p_chain_id)
+          AND (s.token_id IS NULL OR s.token_id = p_token_id)
+          AND (s.min_eth_wei IS NULL OR p_eth_wei IS NULL OR p_eth_wei >= s.min_eth_wei)
+      ),
+      queued AS (
+        INSERT INTO public.webhook_events (event_type, chain_id, token_id, data)
+        SELECT p_type, p_chain_id, p_token_id, p_data
+        WHERE EXISTS (SELECT 1 FROM matched)
+        RETURNING id
+      )
+      INSERT INTO public.webhook_deliveries (event_id, subscription_id)
+      SELECT queued.id, matched.id FROM queued CROSS JOIN matched;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE OR REPLACE FUNCTION public.webhook_token_created() RETURNS trigger AS $$
+    BEGIN
+      PERFORM public.enqueue_webhook_event('token.created', NEW.chain_id, NEW.id, NULL, jsonb_build_object(
+        'name', NEW.name,
+        'symbol', NEW.symbol,
+        'contractAddress', NEW.contract_address,
+        'creator', NEW.creator_wallet,
+        'supply', NEW.supply,
+        'raiseTarget', NEW.raise_target,
+        'createdAt', NEW.created_at
+      ));
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE OR REPLACE FUNCTION public.webhook_token_transfer() RETURNS trigger AS $$
+    DECLARE
+      event_type text := CASE NEW.side
+        WHEN 'BUY' THEN 'token.trade'
+        WHEN 'SELL' THEN 'token.trade'
+        WHEN 'BUY&LOCK' THEN 'token.trade'
+        WHEN 'UNLOCK' THEN 'token.unlock'
+        WHEN 'CLAIMAIRDROP' THEN 'token.airdrop_claim'
+        WHEN 'GRADUATION' THEN 'token.graduated'
+      END;
+    BEGIN
+      IF event_type IS NULL THEN
+        RETURN NULL;
+      END IF;
+      PERFORM public.enqueue_webhook_event(
+        event_type,
+        NEW.chain_id,
+        NEW.token_id,
+        CASE WHEN event_type = 'token.trade' THEN COALESCE(NEW.amount_eth_wei, 0) END,
+        jsonb_build_object(
+          'txHash', NEW.tx_hash,
+          'logIndex', NEW.log_index,
+          'blockNumber', NEW.block_number,
+          'blockTime', NEW.block_time,
+          'side', NEW.side,
+          'from', NEW.from_address,
+          'to', NEW.to_address,
+          'amountWei', NEW.amount_wei::text,
+          'amountEthWei', NEW.amount_eth_wei::text,
+          'priceEthPerToken', NEW.price_eth_per_token,
+          'ethPriceUsd', NEW.eth_price_usd,
+          'src', NEW.src
+        )
+      );
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE OR REPLACE FUNCTION public.webhook_pool_created() RETURNS trigger AS $$
+    BEGIN
+      PERFORM public.enqueue_webhook_event('pool.created', NEW.chain_id, NEW.token_id, NULL, jsonb_build_object(
+        'pairAddress', NEW.pair_address,
+        'token0', NEW.token0,
+        'token1', NEW.token1,
+        'quoteToken', NEW.quote_token
+      ));
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS tokens_webhook ON public.tokens;
+    CREATE TRIGGER tokens_webhook
+      AFTER INSERT ON public.tokens
+      FOR EACH ROW EXECUTE FUNCTION public.webhook_token_created();
+
+    DROP TRIGGER IF EXISTS token_transfers_webhook ON public.token_transfers;
+    CREATE TRIGGER token_transfers_webhook
+      AFTER INSERT ON public.token_transfers
+      FOR EACH ROW EXECUTE FUNCTION public.webhook_token_transfer();
+
+    DROP TRIGGER IF EXISTS dex_pools_webhook ON public.dex_pools;
+    CREATE TRIGGER dex_pools_webhook
+      AFTER INSERT ON public.dex_pools
+      FOR EACH ROW EXECUTE FUNCTION public.webhook_pool_created();
+  `)
+
+  // ETH/USD time series (lib/ethPrices.ts); seeded once from the legacy single-row eth_price_cache
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS public.eth_price_history (
+      ts        timestamptz NOT NULL PRIMARY KEY,
+      price_usd numeric     NOT NULL CHECK (price_usd > 0),
+      source    text        NOT NULL
+    )
+  `)
+  await pool.query(`
+    DO $$
+    BEGIN
+      IF to_regclass('public.eth_price_cache') IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.eth_price_history) THEN
+        INSERT INTO public.eth_price_history (ts, price_usd, source)
+        SELECT fetched_at, price_usd, 'eth_price_cache' FROM public.eth_price_cache WHERE price_usd > 0
+        ON CONFLICT (ts) DO NOTHING;
+      END IF;
+    END $$
+  `)
+
+  // Price nearest to a point in time (transfer inserts and re-pricing), and the newest price (current valuations)
+  await pool.query(`
+    CREATE OR REPLACE FUNCTION public.eth_price_at(at_time timestamptz) RETURNS numeric AS $$
+      SELECT nearest.price_usd
+      FROM (
+        (SELECT ts, price_usd FROM public.eth_price_history WHERE ts <= at_time ORDER BY ts DESC LIMIT 1)
+        UNION ALL
+        (SELECT ts, price_usd FROM public.eth_price_history WHERE ts > at_time ORDER BY ts ASC LIMIT 1)
+      ) nearest
+      ORDER BY abs(EXTRACT(EPOCH FROM nearest.ts - at_time))
+      LIMIT 1
+    $$ LANGUAGE sql STABLE;
+
+    CREATE OR REPLACE VIEW public.eth_price_latest AS
+      SELECT ts, price_usd FROM public.eth_price_history ORDER BY ts DESC LIMIT 1;
+  `)
+
+  // Per-wallet PnL ledger (lib/walletPnl.ts), rebuilt per token by the aggregation worker. Amounts in wei;
+  // unrealized PnL is computed when read, from the remaining position and cost basis
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS public.wallet_pnl (
+      chain_id             integer     NOT NULL,
+      token_id             bigint      NOT NULL,
+      wallet               text        NOT NULL,
+      bought_wei           numeric     NOT NULL,
+      sold_wei             numeric     NOT NULL,
+      position_wei         numeric     NOT NULL,
+      cost_basis_eth_wei   numeric     NOT NULL,
+      cost_basis_usd       numeric     NOT NULL,
+      realized_pnl_eth_wei numeric     NOT NULL,
+      realized_pnl_usd     numeric     NOT NULL,
+      fees_paid_eth_wei    numeric     NOT NULL,
+      fees_paid_usd        numeric     NOT NULL,
+      buys_count           integer     NOT NULL,
+      sells_count          integer     NOT NULL,
+      first_trade_at       timestamptz,
+      last_trade_at        timestamptz,
+      updated_at           timestamptz NOT NULL DEFAULT now(),
+      PRIMARY KEY (chain_id, token_id, wallet)
+    );
+
+    CREATE INDEX IF NOT EXISTS wallet_pnl_wallet_idx ON public.wallet_pnl (wallet);
+  `)
+
+  // End-of-day holder distribution per token (lib/holderSnapshots.ts), kept up to date by the aggregation worker.
+  // Shares are fractions of circulating supply (holders other than the contract and DEX pairs)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS public.holder_snapshots (
+      chain_id             integer NOT NULL,
+      token_id             bigint  NOT NULL,
+      day                  date    NOT NULL,
+      block_number         bigint  NOT NULL,
+      holder_count         integer NOT NULL,
+      circulating_wei      numeric NOT NULL,
+      top10_share          numeric NOT NULL,
+      creator_share        numeric NOT NULL,
+      gini                 numeric NOT NULL,
+      holders_under_0_1pct integer NOT NULL,
+      holders_0_1_to_1pct  integer NOT NULL,
+      holders_1_to_5pct    integer NOT NULL,
+      holders_over_5pct    integer NOT NULL,
+      PRIMARY KEY (chain_id, token_id, day)
+    );
+
+    CREATE INDEX IF NOT EXISTS holder_snapshots_token_day_idx ON public.holder_snapshots (token_id, day);
+  `)
+
+  // Where incremental holder snapshot runs resume: raw balances (zero address and pairs included) and the creator's
+  // locked tokens at the end of the last UTC day the indexer fully covered. Later days are replayed from token_transfers
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS public.holder_snapshot_cursors (
+      chain_id           integer NOT NULL,
+      token_id           bigint  NOT NULL,
+      day                date    NOT NULL,
+      block_number       bigint  NOT NULL,
+      creator_locked_wei numeric NOT NULL,
+      updated_at         timestamptz NOT NULL DEFAULT now(),
+      PRIMARY KEY (chain_id, token_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS public.holder_snapshot_balances (
+      chain_id    integer NOT NULL,
+      token_id    bigint  NOT NULL,
+      holder      text    NOT NULL,
+      balance_wei numeric NOT NULL,
+      PRIMARY KEY (chain_id, token_id, holder)
+    );
+  `)
+}
@@ -0,0 +1,228 @@
+// Outbound webhook delivery for Worker V2
+// Triggers (core/schema.ts) queue one webhook_deliveries row per event and matching subscription. Each pass POSTs
+// the due ones, signed with the subscription secret; failures are retried with exponential backoff and moved to
+// webhook_dead_letters after WEBHOOK_MAX_ATTEMPTS. Subscriptions are managed with the maintenance CLI (reindex.ts).
+
+import { randomBytes } from 'crypto'
+import pool from '../../lib/db'
+import {
+  DELIVERY_HEADER, EVENT_HEADER, SIGNATURE_HEADER, WEBHOOK_EVENT_TYPES, signWebhookPayload,
+  type WebhookEvent, type WebhookEventType,
+} from '../../lib/webhooks'
+import {
+  WEBHOOK_BATCH_SIZE, WEBHOOK_MAX_ATTEMPTS, WEBHOOK_RETRY_BASE_MS, WEBHOOK_RETRY_MAX_MS, WEBHOOK_TIMEOUT_MS,
+} from './config'
+
+// Passes per run stop after this many full batches so a backlog can't hold up the scan
+const MAX_BATCHES_PER_PASS = 10
+
+interface DueDelivery {
+  id: string
+  attempts: number
+  subscription_id: string
+  url: string
+  secret: string
+  event_id: string
+  event_type: WebhookEventType
+  chain_id: number
+  token_id: string
+  data: WebhookEvent['data']
+  created_at: Date
+}
+
+interface DeliveryResult {
+  ok: boolean
+  status: number | null
+  error: string | null
+}
+
+export interface WebhookSubscription {
+  id: string
+  url: string
+  description: string | null
+  event_types: WebhookEventType[] | null
+  chain_id: number | null
+  token_id: string | null
+  min_eth_wei: string | null
+  active: boolean
+  last_success_at: Date | null
+  pending: number
+  dead_letters: number
+}
+
+/**
+ * Delay before the next attempt once `attempts` have failed: base, 2x base, 4x base ... capped
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), WEBHOOK_RETRY_MAX_MS)
+}
+
+async function post(delivery: DueDelivery): Promise<DeliveryResult> {
+  const event = {
+    id: delivery.event_id,
+    type: delivery.event_type,
+    createdAt: new Date(delivery.created_at).toISOString(),
+    chainId: delivery.chain_id,
+    tokenId: Number(delivery.token_id),
+    data: delivery.data,
+  } as WebhookEvent
+  const body = JSON.stringify(event)
+
+  try {
+    const res = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TurboLaunchpad-Webhooks/1.0',
+        [SIGNATURE_HEADER]: signWebhookPayload(delivery.secret, body),
+        [EVENT_HEADER]: delivery.event_type,
+        [DELIVERY_HEADER]: delivery.id,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    })
+    if (res.ok) return { ok: true, status: res.status, error: null }
+    const text = await res.text().catch(() => '')
+    return { ok: false, status: res.status, error: `HTTP ${res.status}${text ? `: ${text.slice(0, 200)}` : ''}` }
+  } catch (error) {
+    return { ok: false, status: null, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+async function recordResult(delivery: DueDelivery, result: DeliveryResult): Promise<'delivered' | 'retrying' | 'dead'> {
+  if (result.ok) {
+    await pool.query('DELETE FROM public.webhook_deliveries WHERE id = $1', [delivery.id])
+    await pool.query('UPDATE public.webhook_subscriptions SET last_success_at = now() WHERE id = $1', [delivery.subscription_id])
+    return 'delivered'
+  }
+
+  const attempts = delivery.attempts + 1
+  if (attempts < WEBHOOK_MAX_ATTEMPTS) {
+    await pool.query(`
+      UPDATE public.webhook_deliveries
+      SET attempts = $2, last_status = $3, last_error = $4, next_attempt_at = now() + make_interval(secs => $5::double precision / 1000)
+      WHERE id = $1
+    `, [delivery.id, attempts, result.status, result.error, retryDelayMs(attempts)])
+    return 'retrying'
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    await client.query(`
+      INSERT INTO public.webhook_dead_letters (event_id, subscription_id, attempts, last_status, last_error)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [delivery.event_id, delivery.subscription_id, attempts, result.status, result.error])
+    await client.query('DELETE FROM public.webhook_deliveries WHERE id = $1', [delivery.id])
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+  console.warn(`🪦 Webhook delivery ${delivery.id} to subscription ${delivery.subscription_id} dead-lettered after ${attempts} attempts: ${result.error}`)
+  return 'dead'
+}
+
+/**
+ * Send every due delivery (paused subscriptions hold theirs until resumed) and drop events nobody
+ * still needs
+ */
+export async function deliverWebhooks(): Promise<void> {
+  const counts = { delivered: 0, retrying: 0, dead: 0 }
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_PASS; batch++) {
+    const { rows } = await pool.query<DueDelivery>(`
+      SELECT d.id, d.attempts, d.subscription_id, s.url, s.secret,
+             e.id AS event_id, e.event_type, e.chain_id, e.token_id, e.data, e.created_at
+      FROM public.webhook_deliveries d
+      JOIN public.webhook_subscriptions s ON s.id = d.subscription_id
+      JOIN public.webhook_events e ON e.id = d.event_id
+      WHERE s.active AND d.next_attempt_at <= now()
+      ORDER BY d.next_attempt_at, d.id
+      LIMIT $1
+    `, [WEBHOOK_BATCH_SIZE])
+    if (rows.length === 0) break
+
+    const results = await Promise.all(rows.map(async delivery => recordResult(delivery, await post(delivery))))
+    for (const result of results) counts[result]++
+    if (rows.length < WEBHOOK_BATCH_SIZE) break
+  }
+
+  await pool.query(`
+    DELETE FROM public.webhook_events e
+    WHERE NOT EXISTS (SELECT 1 FROM public.webhook_deliveries d WHERE d.event_id = e.id)
+      AND NOT EXISTS (SELECT 1 FROM public.webhook_dead_letters l WHERE l.event_id = e.id)
+  `)
+
+  if (counts.delivered + counts.retrying + counts.dead > 0) {
+    console.log(`🪝 Webhooks: ${counts.delivered} delivered, ${counts.retrying} to retry, ${counts.dead} dead-lettered`)
+  }
+}
+
+// ---- Subscription management (maintenance CLI) ----
+
+export async function addSubscription(options: {
+  url: string
+  description: string | null
+  eventTypes: WebhookEventType[] | null
+  chainId: number | null
+  tokenId: number | null
+  minEthWei: bigint | null
+}): Promise<{ id: string; secret: string }> {
+  const url = new URL(options.url)
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('--url must be an http(s) URL')
+  const unknown = options.eventTypes?.filter(type => !WEBHOOK_EVENT_TYPES.includes(type)) ?? []
+  if (unknown.length > 0) throw new Error(`Unknown event type(s) ${unknown.join(', ')}; expected ${WEBHOOK_EVENT_TYPES.join(', ')}`)
+
+  const secret = randomBytes(32).toString('hex')
+  const { rows } = await pool.query<{ id: string }>(`
+    INSERT INTO public.webhook_subscriptions (url, secret, description, event_types, chain_id, token_id, min_eth_wei)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    RETURNING id
+  `, [url.toString(), secret, options.description, options.eventTypes, options.chainId, options.tokenId, options.minEthWei?.toString() ?? null])
+  return { id: rows[0].id, secret }
+}
+
+export async function listSubscriptions(): Promise<WebhookSubscription[]> {
+  const { rows } = await pool.query<WebhookSubscription>(`
+    SELECT s.id, s.url, s.description, s.event_types, s.chain_id, s.token_id, s.min_eth_wei::text AS min_eth_wei,
+           s.active, s.last_success_at,
+           (SELECT COUNT(*)::int FROM public.webhook_deliveries d WHERE d.subscription_id = s.id) AS pending,
+           (SELECT COUNT(*)::int FROM public.webhook_dead_letters l WHERE l.subscription_id = s.id) AS dead_letters
+    FROM public.webhook_subscriptions s
+    ORDER BY s.id
+  `)
+  return rows
+}
+
+/** Pause or resume a subscription; paused subscriptions still get deliveries queued and are sent them on resume */
+export async function setSubscriptionActive(id: number, active: boolean): Promise<boolean> {
+  const { rowCount } = await pool.query('UPDATE public.webhook_subscriptions SET active = $2 WHERE id = $1', [id, active])
+  return (rowCount ?? 0) > 0
+}
+
+/** Delete a subscription with its pending deliveries and dead letters */
+export async function removeSubscription(id: number): Promise<boolean> {
+  const { rowCount } = await pool.query('DELETE FROM public.webhook_subscriptions WHERE id = $1', [id])
+  return (rowCount ?? 0) > 0
+}
+
+/**
+ * Queue dead letters for delivery again (one subscription's, or all) with a fresh attempt budget
+ */
+export async function retryDeadLetters(subscriptionId: number | null): Promise<number> {
+  const { rowCount } = await pool.query(`
+    WITH revived AS (
+      DELETE FROM public.webhook_dead_letters
+      WHERE $1::bigint IS NULL OR subscription_id = $1
+      RETURNING event_id, subscription_id
+    )
+    INSERT INTO public.webhook_deliveries (event_id, subscription_id)
+    SELECT event_id, subscription_id FROM revived
+    ON CONFLICT (event_id, subscription_id) DO NOTHING
+  `, [subscriptionId])
+  return rowCount ?? 0
+}
@@ -4,7 +4,8 @@
  * Turbo Launchpad Worker V2
  * 
  * New implementation with:
- * - Per-token processing loop
+ * - Chain-level log scanning (one batched getLogs per block range for all tokens and pairs)
+ * - Single cycle per run (cron) or daemon mode (WORKER_DAEMON=true / --daemon) following new blocks
  * - Proper rate limiting
  * - Clean graduation logic
  * - Better error handling
@@ -13,12 +14,17 @@
 
 import 'dotenv/config'
 import { ethers } from 'ethers'
-import type { PoolClient } from 'pg'
+import type { Pool, PoolClient } from 'pg'
 import pool from '../lib/db'
-import { providerFor } from '../lib/providers'
+import { providerFor, getRpcStats } from '../lib/providers'
 import { withRateLimit } from './core/rateLimiting'
 import { getCurrentEthPrice } from './core/priceCache'
-import { getChunkSize, getDexChunkSize, SKIP_HEALTH_CHECK, HEALTH_CHECK_TIMEOUT, MAX_RETRY_ATTEMPTS, LOCK_NS, LOCK_ID, TOKEN_ID, TOKEN_ID_FROM, TOKEN_ID_TO, CHAIN_ID_FILTER, GRADUATED_ONLY, UNGRADUATED_ONLY, HAS_TEST_FILTERS } from './core/config'
+import { ensureWorkerSchema } from './core/schema'
+import { detectReorg, rollbackToBlock, recordBlockHashes, recordLogBlocks, pruneBlockHashes } from './core/reorg'
+import { getChainCursor, readChainCursor, advanceChainCursor, storeTokenCursors, storePoolCursors } from './core/chainCursor'
+import { deliverWebhooks } from './core/webhooks'
+import { recordRowsInserted, recordChainLag, recordCycleSuccess, timeAggregation, startMetricsServer } from './core/metrics'
+import { getChunkSize, getDexChunkSize, REORG_CUSHION, ADDR_BATCH_LIMIT, DAEMON_MODE, DAEMON_TICK_MS, AGG_INTERVAL_MS, ETH_PRICE_REFRESH_MS, METRICS_PORT, SKIP_HEALTH_CHECK, HEALTH_CHECK_TIMEOUT, MAX_RETRY_ATTEMPTS, LOCK_NS, LOCK_ID, TOKEN_ID, TOKEN_ID_FROM, TOKEN_ID_TO, CHAIN_ID_FILTER, GRADUATED_ONLY, UNGRADUATED_ONLY, HAS_TEST_FILTERS } from './core/config'
 
 // Event topics
 const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
@@ -32,7 +38,7 @@ interface TokenRow {
   chain_id: number
   contract_address: string
   deployment_block: number
-  last_processed_block: number
+  last_processed_block: number | null
   is_graduated: boolean
   creator_wallet: string | null
 }
@@ -42,7 +48,7 @@ interface DexPoolRow {
   chain_id: number
   pair_address: string
   deployment_block: number
-  last_processed_block: number
+  last_processed_block: number | null
   last_processed_sync_block: number | null
   token0: string
   token1: string
@@ -52,6 +58,37 @@ interface DexPoolRow {
   quote_decimals: number | null
 }
 
+// Scan state for one chain; cursors are kept in memory. The stored* fields hold what the DB has for the
+// address: null while it follows the chain cursor, its own block while it is behind or ahead of it
+interface TokenScanTarget {
+  token: TokenRow
+  cursor: number // last block whose Transfer logs are indexed
+  storedCursor: number | null
+}
+
+interface PoolScanTarget {
+  token: TokenRow
+  dexPool: DexPoolRow
+  swapCursor: number
+  syncCursor: number
+  storedSwapCursor: number | null
+  storedSyncCursor: number | null
+}
+
+// Where scan results are written: the pool, or a client inside a caller's transaction (reindex CLI)
+type ScanDb = Pick<Pool, 'query'>
+
+interface ChainScan {
+  db: ScanDb
+  saveCursors: boolean // false when re-ingesting already indexed ranges (cursors stay where they are)
+  chainCursor: number | null // null before the chain's first unfiltered run
+  tokens: TokenScanTarget[]
+  pools: PoolScanTarget[]
+  dexPoolByTokenId: Map<number, DexPoolRow>
+  failedTokens: Set<TokenScanTarget>
+  failedPools: Set<PoolScanTarget>
+}
+
 // ---- Singleton advisory lock helpers ----
 async function acquireGlobalLock(): Promise<null | { release: () => Promise<void> }> {
   const lockClient: PoolClient = await pool.connect()
@@ -118,27 +155,64 @@ async function checkChainHealth(chainId: number, provider: ethers.JsonRpcProvide
 /**
  * Main worker function
  */
-// Global ETH price for this worker run
+// Global ETH price for this worker run (also recorded in eth_price_history)
 let currentEthPriceUsd: number | null = null
 
 /**
- * Get current ETH price for transfer recording
+ * Fallback ETH price for transfer recording: inserts use the history point nearest to block_time
+ * (public.eth_price_at) and only fall back to this when the history is empty
  */
 function getEthPriceForTransfer(): number | null {
   return currentEthPriceUsd
 }
 
-async function main(): Promise<boolean> {
-  console.log('🚀 Starting Turbo Launchpad Worker V2...')
-  console.log('📋 Version: [400] - Adding USD price support to transfers')
-  
-  // Get current ETH price once at the beginning of worker run
+async function refreshEthPrice() {
   currentEthPriceUsd = await getCurrentEthPrice()
   if (currentEthPriceUsd) {
     console.log(`💰 Current ETH price: $${currentEthPriceUsd.toFixed(2)}`)
   } else {
     console.warn('⚠️ Could not fetch ETH price - USD calculations will be skipped')
   }
+}
+
+async function runAggregations() {
+  console.log('\n📊 Running aggregations...')
+  try {
+    // Import and run aggregation functions directly
+    const { main: runAgg } = await import('./agg')
+    await timeAggregation('total', runAgg)
+    console.log('✅ Aggregations completed successfully!')
+  } catch (aggError) {
+    console.error('❌ Failed to run aggregations:', aggError)
+    // Don't fail the entire worker if aggregations fail
+  }
+}
+
+async function runWebhookDeliveries() {
+  try {
+    await deliverWebhooks()
+  } catch (webhookError) {
+    console.error('❌ Failed to deliver webhooks:', webhookError)
+    // Deliveries stay queued and are retried next time
+  }
+}
+
+function logRpcStats() {
+  for (const [chainId, endpoints] of Object.entries(getRpcStats())) {
+    for (const e of endpoints) {
+      console.log(`📡 Chain ${chainId}: ${e.url} (weight ${e.weight}) - ${e.requests} requests, ${e.errors} errors (${e.rateLimits} rate limits, ${e.timeouts} timeouts), avg latency ${e.avgLatencyMs?.toFixed(0) ?? '-'}ms`)
+    }
+  }
+}
+
+async function main(): Promise<boolean> {
+  console.log('🚀 Starting Turbo Launchpad Worker V2...')
+  console.log('📋 Version: [400] - Adding USD price support to transfers')
+  
+  const cycleStartedAt = Date.now()
+  
+  // Get current ETH price once at the beginning of worker run
+  await refreshEthPrice()
   
   // Acquire global lock to prevent overlapping runs
   const lock = await acquireGlobalLock()
@@ -148,6 +222,8 @@ async function main(): Promise<boolean> {
   }
   
   try {
+    await ensureWorkerSchema()
+
     // Get all chains
     console.log('📊 Querying database for chains...')
     const { rows: chains } = await pool.query('SELECT DISTINCT chain_id FROM public.tokens ORDER BY chain_id')
@@ -193,16 +269,14 @@ async function main(): Promise<boolean> {
     }
     
     // Run aggregations after all data processing is complete
-    console.log('\n📊 Running aggregations...')
-    try {
-      // Import and run aggregation functions directly
-      const { main: runAggregations } = await import('./agg')
-      await runAggregations()
-      console.log('✅ Aggregations completed successfully!')
-    } catch (aggError) {
-      console.error('❌ Failed to run aggregations:', aggError)
-      // Don't fail the entire worker if aggregations fail
-    }
+    await runAggregations()
+
+    // Push the events this cycle queued (and retries that came due)
+    await runWebhookDeliveries()
+    
+    // RPC endpoint health for this cycle
+    logRpcStats()
+    recordCycleSuccess(Date.now() - cycleStartedAt)
     
     console.log('\n✅ Worker V2 cycle completed successfully!')
     return true // Indicate successful completion
@@ -216,8 +290,110 @@ async function main(): Promise<boolean> {
 }
 
 
+// ---- Daemon mode ----
+let shuttingDown = false
+let wakeUp: (() => void) | null = null
+
+function requestShutdown(signal: string) {
+  if (shuttingDown) return
+  console.log(`\n🛑 ${signal} received - finishing current chunk and shutting down...`)
+  shuttingDown = true
+  wakeUp?.()
+}
+
+// Sleep that a shutdown signal cuts short
+function sleepUntilNextTick(ms: number): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      wakeUp = null
+      resolve()
+    }, ms)
+    wakeUp = () => {
+      clearTimeout(timer)
+      wakeUp = null
+      resolve()
+    }
+  })
+}
+
 /**
- * Process all tokens for a specific chain
+ * Long-running loop: holds the advisory lock for its whole lifetime, scans every chain whose
+ * head moved each tick and runs aggregations / ETH price refreshes on their own cadence.
+ */
+async function runDaemon(): Promise<boolean> {
+  console.log('🚀 Starting Turbo Launchpad Worker V2 in daemon mode...')
+  console.log(`⏱️ Tick: ${DAEMON_TICK_MS}ms, aggregations every ${AGG_INTERVAL_MS}ms, ETH price every ${ETH_PRICE_REFRESH_MS}ms`)
+  
+  process.on('SIGTERM', () => requestShutdown('SIGTERM'))
+  process.on('SIGINT', () => requestShutdown('SIGINT'))
+  
+  const metricsServer = METRICS_PORT ? startMetricsServer(METRICS_PORT) : null
+  
+  const lock = await acquireGlobalLock()
+  if (!lock) {
+    console.log('Another worker run is in progress. Exiting.')
+    return false
+  }
+  
+  try {
+    await ensureWorkerSchema()
+    
+    const lastHeadByChain = new Map<number, number>()
+    let lastAggAt = 0
+    let lastEthPriceAt = 0
+    
+    while (!shuttingDown) {
+      const tickStartedAt = Date.now()
+      
+      if (tickStartedAt - lastEthPriceAt >= ETH_PRICE_REFRESH_MS) {
+        await refreshEthPrice()
+        lastEthPriceAt = tickStartedAt
+      }
+      
+      // Re-read chains every tick so a chain's first token is picked up without a restart
+      const { rows: chains } = await pool.query<{ chain_id: number }>('SELECT DISTINCT chain_id FROM public.tokens ORDER BY chain_id')
+      let tickFailed = false
+      for (const { chain_id } of chains) {
+        if (shuttingDown) break
+        try {
+          // Only follow chains that produced new blocks since the last tick
+          const head = await withRateLimit(() => providerFor(chain_id).getBlockNumber(), 2, chain_id)
+          if (lastHeadByChain.get(chain_id) === head) continue
+          
+          await processChain(chain_id)
+          lastHeadByChain.set(chain_id, head)
+        } catch (error) {
+          // Unhealthy chain or failed pass - retried next tick, other chains keep going
+          console.error(`❌ Chain ${chain_id}: Tick failed - retrying next tick:`, error)
+          tickFailed = true
+        }
+      }
+      if (!tickFailed && !shuttingDown) recordCycleSuccess(Date.now() - tickStartedAt)
+      
+      if (!shuttingDown) await runWebhookDeliveries()
+      
+      if (!shuttingDown && Date.now() - lastAggAt >= AGG_INTERVAL_MS) {
+        await runAggregations()
+        lastAggAt = Date.now()
+      }
+      
+      if (!shuttingDown) {
+        await sleepUntilNextTick(Math.max(0, DAEMON_TICK_MS - (Date.now() - tickStartedAt)))
+      }
+    }
+    
+    logRpcStats()
+    return true
+  } finally {
+    metricsServer?.close()
+    await lock.release()
+    console.log('🔓 Released worker lock')
+  }
+}
+
+
+/**
+ * Process all tokens and DEX pairs for a specific chain
  */
 async function processChain(chainId: number) {
   console.log(`🔗 Setting up provider for chain ${chainId}...`)
@@ -229,6 +405,14 @@ async function processChain(chainId: number) {
     return
   }
 
+  // Roll back anything indexed from orphaned blocks before moving cursors forward
+  let reorgedTokenIds: number[] = []
+  const ancestor = await detectReorg(chainId, provider)
+  if (ancestor !== null) {
+    reorgedTokenIds = await rollbackToBlock(chainId, ancestor)
+  }
+  await pruneBlockHashes(chainId)
+
   console.log(`📊 Processing tokens for chain ${chainId}...`)
   
   // Build the WHERE clause based on filters
@@ -277,205 +461,307 @@ async function processChain(chainId: number) {
   `, params)
   
   console.log(`📊 Found ${tokens.length} tokens to process:`, tokens.map(t => t.id))
-  
-  // Process each token individually
-  for (const token of tokens) {
-    try {
-      console.log(`\n🪙 Processing token ${token.id} (${token.contract_address})...`)
-      await processToken(token, provider, chainId)
-    } catch (error) {
-      // Any error that reaches here means all retry attempts were exhausted
-      console.error(`🔄 Token ${token.id}: All retry attempts exhausted - skipping to next token:`, error)
-      // Continue with next token instead of failing entire chain
-    }
-  }
-}
 
-/**
- * Process a single token
- */
-async function processToken(token: TokenRow, provider: ethers.JsonRpcProvider, chainId: number) {
-  const currentBlock = await withRateLimit(() => provider.getBlockNumber(), 2, chainId)
+  // DEX pools are only followed for graduated tokens
+  const graduatedIds = tokens.filter(t => t.is_graduated).map(t => t.id)
+  const { rows: dexPools } = await pool.query<DexPoolRow>(`
+    SELECT token_id, chain_id, pair_address, deployment_block, last_processed_block, last_processed_sync_block, token0, token1, quote_token, token_decimals, weth_decimals, quote_decimals
+    FROM public.dex_pools 
+    WHERE chain_id = $1 AND token_id = ANY($2)
+  `, [chainId, graduatedIds])
   
-  // Determine processing range
-  const startBlock = token.last_processed_block + 1
-  const endBlock = currentBlock
+  // Filtered runs leave chain_cursors untouched, so they don't seed it either
+  const chainCursor = HAS_TEST_FILTERS ? await readChainCursor(chainId) : await getChainCursor(chainId)
+  const storedCursor = (block: number | null) => block === null ? null : Number(block)
+  const ownCursor = (block: number | null) => storedCursor(block) ?? chainCursor ?? 0
   
-  if (startBlock > endBlock) {
-    console.log(`Token ${token.id}: Already up to date (${startBlock} > ${endBlock})`)
-    return
+  const tokenById = new Map(tokens.map(t => [Number(t.id), t]))
+  const scan: ChainScan = {
+    db: pool,
+    saveCursors: true,
+    chainCursor,
+    tokens: tokens.map(token => ({
+      token,
+      cursor: ownCursor(token.last_processed_block),
+      storedCursor: storedCursor(token.last_processed_block),
+    })),
+    pools: dexPools.map(dexPool => ({
+      dexPool,
+      token: tokenById.get(Number(dexPool.token_id))!,
+      swapCursor: ownCursor(dexPool.last_processed_block),
+      syncCursor: ownCursor(dexPool.last_processed_sync_block),
+      storedSwapCursor: storedCursor(dexPool.last_processed_block),
+      storedSyncCursor: storedCursor(dexPool.last_processed_sync_block),
+    })),
+    dexPoolByTokenId: new Map(dexPools.map(p => [Number(p.token_id), p])),
+    failedTokens: new Set(),
+    failedPools: new Set(),
   }
+  console.log(`📊 Found ${scan.pools.length} DEX pools to process`)
   
-  console.log(`Token ${token.id}: Processing blocks ${startBlock} to ${endBlock}`)
-  
-  // Get DEX pool info if graduated
-  let dexPool: DexPoolRow | null = null
-  // console.log(`Token ${token.id}: is_graduated = ${token.is_graduated}`)
-  
-  if (token.is_graduated) {
-    const { rows } = await pool.query<DexPoolRow>(`
-      SELECT token_id, chain_id, pair_address, deployment_block, last_processed_block, last_processed_sync_block, token0, token1, quote_token, token_decimals, weth_decimals, quote_decimals
-      FROM public.dex_pools 
-      WHERE token_id = $1 AND chain_id = $2
-    `, [token.id, chainId])
-    
-    if (rows.length > 0) {
-      dexPool = rows[0]
-      console.log(`Token ${token.id}: Found DEX pool ${dexPool.pair_address}`)
+  // Put addresses sitting exactly on the chain cursor back on it (also clears copies left by older workers)
+  await saveScanCursors(chainId, scan)
+
+  let currentBlock: number | null = null
+  try {
+    currentBlock = await withRateLimit(() => provider.getBlockNumber(), 2, chainId)
+    const endBlock = currentBlock - REORG_CUSHION // stay REORG_CUSHION blocks behind head
+
+    if (HAS_TEST_FILTERS) {
+      // Filtered runs only move the selected tokens' own cursors - the chain cursor is left alone
+      await scanChain(chainId, provider, scan, endBlock)
     } else {
-      console.log(`Token ${token.id}: No DEX pool record found despite being graduated`)
+      // Catch up tokens and pools behind the chain cursor (new registrations, earlier failures)
+      console.log(`📍 Chain ${chainId}: Chain cursor at block ${chainCursor}`)
+      const caughtUp = await scanChain(chainId, provider, scan, Math.min(chainCursor!, endBlock))
+      
+      // Main scan: everything together from the chain cursor to head
+      if (caughtUp && await scanChain(chainId, provider, scan, endBlock, true)) {
+        await moveChainCursor(chainId, scan, endBlock)
+      }
     }
+  } catch (error) {
+    // Any error that reaches here means log fetching exhausted its retry attempts
+    console.error(`🔄 Chain ${chainId}: Log scan stopped - will resume from last saved cursor:`, error)
+  }
+
+  if (currentBlock !== null) {
+    // Lag is measured against the real head, so REORG_CUSHION shows up as the floor
+    const cursors = [...scan.tokens.map(t => t.cursor), ...scan.pools.map(poolCursor)]
+    const indexedBlock = cursors.length > 0 ? Math.min(...cursors) : currentBlock - REORG_CUSHION
+    recordChainLag(chainId, currentBlock, indexedBlock, scan.tokens.map(t => ({ tokenId: Number(t.token.id), cursor: t.cursor })))
+  }
+
+  if (scan.failedTokens.size > 0 || scan.failedPools.size > 0) {
+    console.log(`🔄 Chain ${chainId}: Failed this cycle (retried next cycle) - tokens: ${[...scan.failedTokens].map(t => t.token.id).join(', ') || 'none'}, pools: ${[...scan.failedPools].map(p => p.token.id).join(', ') || 'none'}`)
+  }
+
+  // Tokens hit by a rollback are re-aggregated even if the filters excluded them above
+  if (reorgedTokenIds.length > 0) {
+    console.log(`🔄 Chain ${chainId}: Re-aggregating tokens affected by reorg: ${reorgedTokenIds.join(', ')}`)
+    const { aggregateTokens } = await import('./agg')
+    await aggregateTokens(chainId, reorgedTokenIds)
+  }
+}
+
+/**
+ * Fetch Transfer/Swap/Sync logs for many addresses with one getLogs per ADDR_BATCH_LIMIT addresses
+ */
+async function getLogsForAddresses(
+  provider: ethers.JsonRpcProvider,
+  chainId: number,
+  addresses: string[],
+  fromBlock: number,
+  toBlock: number
+): Promise<ethers.Log[]> {
+  const logs: ethers.Log[] = []
+  for (let i = 0; i < addresses.length; i += ADDR_BATCH_LIMIT) {
+    const batch = addresses.slice(i, i + ADDR_BATCH_LIMIT)
+    const batchLogs = await withRateLimit(() => provider.getLogs({
+      address: batch,
+      topics: [[TRANSFER_TOPIC, SWAP_TOPIC, SYNC_TOPIC]],
+      fromBlock,
+      toBlock
+    }), MAX_RETRY_ATTEMPTS, chainId)
+    logs.push(...batchLogs)
   }
   
-  // Process in chunks: transfers first, then DEX for each chunk
+  // Batches come back separately - restore chain order
+  return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+}
+
+/**
+ * Scan every token and pool whose cursor is behind `targetBlock` up to it, one block range at a time.
+ * Each range is one batched getLogs whose results are fanned out to the per-token handlers.
+ * A token or pool whose handler fails keeps its old cursor and is skipped for the rest of the cycle;
+ * the next cycle's catch-up retries it.
+ */
+async function scanChain(
+  chainId: number,
+  provider: ethers.JsonRpcProvider,
+  scan: ChainScan,
+  targetBlock: number,
+  advancesChainCursor = false
+): Promise<boolean> {
   const bcChunkSize = getChunkSize(chainId)        // BC transfers: larger chunks
   const dexChunkSize = getDexChunkSize(chainId)    // DEX events: smaller chunks
-  let lastSuccessfulBlock = startBlock - 1 // Track last successfully processed block
-  let hasFinalRetryFailure = false // Track if we had a final retry failure
-  let hasDexFinalRetryFailure = false // Track if we had a final retry failure in DEX processing
   
-  // Continue processing until all processes are up to date
   while (true) {
-    let anyProcessNeedsWork = false
+    // Stop between chunks on shutdown; every finished chunk is already saved
+    if (shuttingDown) return false
+    
+    const pendingTokens = scan.tokens.filter(t => !scan.failedTokens.has(t) && t.cursor < targetBlock)
+    const pendingPools = scan.pools.filter(p => !scan.failedPools.has(p) && poolCursor(p) < targetBlock)
+    if (pendingTokens.length === 0 && pendingPools.length === 0) return true
+    
+    const fromBlock = Math.min(...pendingTokens.map(t => t.cursor), ...pendingPools.map(poolCursor)) + 1
+    const chunkSize = pendingPools.length > 0 ? Math.min(bcChunkSize, dexChunkSize) : bcChunkSize
+    const toBlock = Math.min(fromBlock + chunkSize, targetBlock)
+    
+    // Only addresses whose cursor is inside this range take part
+    const chunkTokens = pendingTokens.filter(t => t.cursor < toBlock)
+    const chunkPools = pendingPools.filter(p => poolCursor(p) < toBlock)
     
-    // Check if BC transfers need work
-    const bcNeedsWork = lastSuccessfulBlock < endBlock
-    if (bcNeedsWork) {
-      anyProcessNeedsWork = true
-      const bcFrom = lastSuccessfulBlock + 1
-      const bcTo = Math.min(bcFrom + bcChunkSize, endBlock)
+    // Get timestamp for the last block in range for better debugging
+    const toBlockInfo = await withRateLimit(() => provider.getBlock(toBlock), 2, chainId)
+    const toBlockTimestamp = toBlockInfo ? new Date(Number(toBlockInfo.timestamp) * 1000).toISOString() : 'unknown'
+    console.log(`Chain ${chainId}: Processing chunk ${fromBlock} to ${toBlock} for ${chunkTokens.length} tokens and ${chunkPools.length} pools (last block timestamp: ${toBlockTimestamp})`)
+    
+    const logs = await getLogsForAddresses(
+      provider,
+      chainId,
+      [...chunkTokens.map(t => t.token.contract_address), ...chunkPools.map(p => p.dexPool.pair_address)],
+      fromBlock,
+      toBlock
+    )
+    
+    // Fan out by emitting address; logs at or below an address's own cursor were already indexed
+    const tokenByAddress = new Map(chunkTokens.map(t => [t.token.contract_address.toLowerCase(), t]))
+    const poolByAddress = new Map(chunkPools.map(p => [p.dexPool.pair_address.toLowerCase(), p]))
+    const transferLogs = new Map<TokenScanTarget, ethers.Log[]>()
+    const pairLogs = new Map<PoolScanTarget, ethers.Log[]>()
+    
+    for (const log of logs) {
+      const address = log.address.toLowerCase()
+      const topic = log.topics[0]
       
-      // Get timestamp for the last block in range for better debugging
-      const toBlockInfo = await withRateLimit(() => provider.getBlock(bcTo), 2, chainId)
-      const toBlockTimestamp = toBlockInfo ? new Date(Number(toBlockInfo.timestamp) * 1000).toISOString() : 'unknown'
-      console.log(`Token ${token.id}: Processing BC chunk ${bcFrom} to ${bcTo} (last block timestamp: ${toBlockTimestamp})`)
+      const tokenTarget = tokenByAddress.get(address)
+      if (tokenTarget && topic === TRANSFER_TOPIC && log.blockNumber > tokenTarget.cursor) {
+        if (!transferLogs.has(tokenTarget)) transferLogs.set(tokenTarget, [])
+        transferLogs.get(tokenTarget)!.push(log)
+      }
       
+      // Pairs also emit LP-token Transfer events - only Swap and Sync matter here
+      const poolTarget = poolByAddress.get(address)
+      if (poolTarget && (
+        (topic === SWAP_TOPIC && log.blockNumber > poolTarget.swapCursor) ||
+        (topic === SYNC_TOPIC && log.blockNumber > poolTarget.syncCursor)
+      )) {
+        if (!pairLogs.has(poolTarget)) pairLogs.set(poolTarget, [])
+        pairLogs.get(poolTarget)!.push(log)
+      }
+    }
+    
+    console.log(`Chain ${chainId}: Found ${logs.length} logs (${transferLogs.size} tokens with transfers, ${pairLogs.size} pools with DEX events)`)
+    
+    // Transfers first, then DEX events, like the old per-token loop
+    for (const [target, tokenLogs] of transferLogs) {
       try {
-        await processTransferChunk(token, dexPool, provider, chainId, bcFrom, bcTo)
-        lastSuccessfulBlock = bcTo
-        console.log(`✅ Token ${token.id}: Processed BC chunk ${bcFrom} to ${bcTo}`)
-        
-        // Update last_processed_block in database after each successful BC chunk
-        console.log(`🔄 Token ${token.id}: Updating database last_processed_block to ${bcTo}`)
-        try {
-          const updateResult = await pool.query(`
-            INSERT INTO public.tokens (id, last_processed_block, name, symbol, supply, raise_target, dex, creator_wallet, chain_id)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-            ON CONFLICT (id) DO UPDATE SET 
-              last_processed_block = EXCLUDED.last_processed_block,
-              updated_at = now()
-          `, [token.id, bcTo, `Token ${token.id}`, `TKN${token.id}`, 1000000, 100, 'uniswap', token.creator_wallet || '', token.chain_id])
-          
-          console.log(`✅ Token ${token.id}: Successfully processed BC chunk ${bcFrom} to ${bcTo} and updated DB to block ${bcTo} (rows affected: ${updateResult.rowCount})`)
-        } catch (updateError) {
-          console.error(`❌ Token ${token.id}: Failed to update last_processed_block:`, updateError)
-          throw updateError
-        }
+        await processTransferLogs(
+          target.token,
+          scan.dexPoolByTokenId.get(Number(target.token.id)) ?? null,
+          tokenLogs,
+          provider,
+          chainId,
+          Math.max(fromBlock, target.cursor + 1),
+          scan.db
+        )
       } catch (error) {
-        console.error(`❌ Token ${token.id}: Error processing BC chunk ${bcFrom} to ${bcTo}:`, error)
-        hasFinalRetryFailure = true
-        // Don't throw - continue with other operations (SWAP, SYNC)
+        console.error(`❌ Token ${target.token.id}: Error processing BC chunk ${fromBlock} to ${toBlock}:`, error)
+        scan.failedTokens.add(target)
       }
     }
     
-    // Check if SWAP events need work (if graduated)
-      if (dexPool) {
-      // Refresh dexPool data to get latest cursor values
-      const { rows: freshDexPools } = await pool.query<DexPoolRow>(`
-        SELECT token_id, chain_id, pair_address, deployment_block, last_processed_block, last_processed_sync_block, token0, token1, quote_token, token_decimals, weth_decimals, quote_decimals
-        FROM public.dex_pools 
-        WHERE token_id = $1 AND chain_id = $2
-      `, [token.id, chainId])
-      
-      if (freshDexPools.length > 0) {
-        const freshDexPool = freshDexPools[0]
-        const swapLastProcessed = freshDexPool.last_processed_block || 0
-        const swapNeedsWork = swapLastProcessed < endBlock
-        if (swapNeedsWork) {
-          anyProcessNeedsWork = true
-          const swapFrom = swapLastProcessed + 1
-          const swapTo = Math.min(swapFrom + dexChunkSize, endBlock)
-          
-          console.log(`Token ${token.id}: Processing SWAP chunk ${swapFrom} to ${swapTo}`)
-          try {
-            await processSwapChunk(token, freshDexPool, provider, chainId, swapFrom, swapTo)
-            console.log(`✅ Token ${token.id}: Processed SWAP chunk ${swapFrom} to ${swapTo}`)
-          } catch (error) {
-            console.error(`❌ Token ${token.id}: Error processing SWAP chunk ${swapFrom} to ${swapTo}:`, error)
-            hasDexFinalRetryFailure = true
-            // Don't throw - continue with other operations (SYNC)
+    for (const [target, dexLogs] of pairLogs) {
+      try {
+        for (const log of dexLogs) {
+          if (log.topics[0] === SWAP_TOPIC) {
+            await processDexLog(target.token, target.dexPool, log, provider, chainId, scan.db)
+          } else {
+            await processSyncLog(target.token, target.dexPool, log, provider, chainId, scan.db)
           }
         }
+        console.log(`✅ Token ${target.token.id}: Processed ${dexLogs.length} DEX events for blocks ${fromBlock} to ${toBlock}`)
+      } catch (error) {
+        console.error(`❌ Token ${target.token.id}: Error processing DEX chunk ${fromBlock} to ${toBlock}:`, error)
+        scan.failedPools.add(target)
       }
     }
     
-    // Check if SYNC events need work (if graduated)
-    if (dexPool) {
-      // Refresh dexPool data to get latest cursor values
-      const { rows: freshDexPools } = await pool.query<DexPoolRow>(`
-        SELECT token_id, chain_id, pair_address, deployment_block, last_processed_block, last_processed_sync_block, token0, token1, quote_token, token_decimals, weth_decimals, quote_decimals
-        FROM public.dex_pools 
-        WHERE token_id = $1 AND chain_id = $2
-      `, [token.id, chainId])
-      
-      if (freshDexPools.length > 0) {
-        const freshDexPool = freshDexPools[0]
-        const syncLastProcessed = Number(freshDexPool.last_processed_sync_block) || 0
-        const syncNeedsWork = syncLastProcessed < endBlock
-        if (syncNeedsWork) {
-          anyProcessNeedsWork = true
-          const syncFrom = syncLastProcessed + 1
-          const syncTo = Math.min(syncFrom + dexChunkSize, endBlock)
-          
-          console.log(`Token ${token.id}: Processing SYNC chunk ${syncFrom} to ${syncTo}`)
-          try {
-            await processSyncChunk(token, freshDexPool, provider, chainId, syncFrom, syncTo)
-            console.log(`✅ Token ${token.id}: Processed SYNC chunk ${syncFrom} to ${syncTo}`)
-    } catch (error) {
-            console.error(`❌ Token ${token.id}: Error processing SYNC chunk ${syncFrom} to ${syncTo}:`, error)
-            hasDexFinalRetryFailure = true
-            // Don't throw - continue with next token
-          }
-        }
-      }
+    await recordLogBlocks(chainId, logs)
+    await recordBlockHashes(chainId, [{ number: toBlock, hash: toBlockInfo?.hash }])
+    
+    // Advance every address that made it through this range
+    const doneTokens = chunkTokens.filter(t => !scan.failedTokens.has(t))
+    const donePools = chunkPools.filter(p => !scan.failedPools.has(p))
+    for (const t of doneTokens) t.cursor = toBlock
+    for (const p of donePools) {
+      p.swapCursor = Math.max(p.swapCursor, toBlock)
+      p.syncCursor = Math.max(p.syncCursor, toBlock)
     }
     
-    // If no process needs work, we're done
-    if (!anyProcessNeedsWork) {
-      console.log(`Token ${token.id}: All processes up to date`)
-      break
+    if (advancesChainCursor) {
+      await moveChainCursor(chainId, scan, toBlock)
+    } else {
+      await saveScanCursors(chainId, scan)
     }
+    console.log(`✅ Chain ${chainId}: Processed chunk ${fromBlock} to ${toBlock}`)
   }
+}
+
+function poolCursor(target: PoolScanTarget): number {
+  return Math.min(target.swapCursor, target.syncCursor)
+}
+
+/**
+ * Move the chain cursor to `block`. Addresses left behind (failed this cycle) get their own cursor
+ * stored first, so the chain cursor never passes a block they haven't indexed.
+ */
+async function moveChainCursor(chainId: number, scan: ChainScan, block: number): Promise<void> {
+  scan.chainCursor = block
+  await saveScanCursors(chainId, scan)
+  await advanceChainCursor(chainId, block)
+}
+
+/**
+ * Write the per-address cursors that changed: NULL for addresses on the chain cursor, their own block otherwise
+ */
+async function saveScanCursors(chainId: number, scan: ChainScan): Promise<void> {
+  if (!scan.saveCursors) return
+  const stored = (cursor: number) => cursor === scan.chainCursor ? null : cursor
   
-  // Log final status
-  if (hasFinalRetryFailure || hasDexFinalRetryFailure) {
-    console.log(`🔄 Token ${token.id}: Final retry failure occurred (transfer: ${hasFinalRetryFailure}, DEX: ${hasDexFinalRetryFailure}) - processing stopped`)
-  } else if (lastSuccessfulBlock >= startBlock) {
-    console.log(`✅ Token ${token.id}: Completed processing up to block ${lastSuccessfulBlock}`)
-  } else {
-    console.log(`❌ Token ${token.id}: No blocks processed successfully`)
+  const tokensByCursor = new Map<number | null, TokenScanTarget[]>()
+  for (const t of scan.tokens) {
+    const cursor = stored(t.cursor)
+    if (cursor === t.storedCursor) continue
+    tokensByCursor.set(cursor, [...(tokensByCursor.get(cursor) ?? []), t])
+  }
+  for (const [cursor, targets] of tokensByCursor) {
+    await storeTokenCursors(chainId, targets.map(t => t.token.id), cursor)
+    for (const t of targets) t.storedCursor = cursor
+  }
+  
+  const poolsByCursors = new Map<string, PoolScanTarget[]>()
+  for (const p of scan.pools) {
+    const swapCursor = stored(p.swapCursor)
+    const syncCursor = stored(p.syncCursor)
+    if (swapCursor === p.storedSwapCursor && syncCursor === p.storedSyncCursor) continue
+    const key = `${swapCursor}:${syncCursor}`
+    poolsByCursors.set(key, [...(poolsByCursors.get(key) ?? []), p])
+  }
+  for (const targets of poolsByCursors.values()) {
+    const swapCursor = stored(targets[0].swapCursor)
+    const syncCursor = stored(targets[0].syncCursor)
+    await storePoolCursors(chainId, targets.map(p => p.dexPool.pair_address), swapCursor, syncCursor)
+    for (const p of targets) {
+      p.storedSwapCursor = swapCursor
+      p.storedSyncCursor = syncCursor
+    }
   }
 }
 
 /**
- * Process transfer logs for a chunk of blocks
+ * Process the transfer logs of one token for a chunk of blocks
  */
-async function processTransferChunk(
+async function processTransferLogs(
   token: TokenRow,
   dexPool: DexPoolRow | null,
+  transferLogs: ethers.Log[],
   provider: ethers.JsonRpcProvider,
   chainId: number,
   fromBlock: number,
-  toBlock: number
+  db: ScanDb
 ) {
-  // Get transfer logs for token
-  const transferLogs = await withRateLimit(() => provider.getLogs({
-    address: token.contract_address,
-    topics: [TRANSFER_TOPIC],
-    fromBlock,
-    toBlock
-  }), MAX_RETRY_ATTEMPTS, chainId)
-  
   // console.log(`Token ${token.id}: Found ${transferLogs.length} transfer logs`)
   
   // Check if this block range contains graduation transactions
@@ -543,104 +829,22 @@ async function processTransferChunk(
         console.log(`Token ${token.id}: Processing graduation transaction ${tx.hash}`)
         const block = await withRateLimit(() => provider.getBlock(firstLog.blockNumber), MAX_RETRY_ATTEMPTS, chainId)
         const blockTime = new Date(Number(block!.timestamp) * 1000)
-        await createGraduationRecords(token, firstLog, tx, blockTime, provider, chainId, dexPool)
+        await createGraduationRecords(token, firstLog, tx, blockTime, provider, chainId, dexPool, db)
         // Skip processing individual logs - graduation handles all logs in this transaction
       } else {
         // Process each regular transfer log
         // console.log(`Token ${token.id}: Processing ${logs.length} regular transfer logs`)
         for (const log of logs) {
-          await processTransferLog(token, dexPool, log, provider, chainId)
+          await processTransferLog(token, dexPool, log, provider, chainId, db)
         }
       }
     }
   } else {
     // Regular block range - process each log individually
     for (const log of transferLogs) {
-      await processTransferLog(token, dexPool, log, provider, chainId)
+      await processTransferLog(token, dexPool, log, provider, chainId, db)
     }
   }
-  
-  // DEX processing is now handled separately in the main loop
-}
-
-
-
-/**
- * Process DEX logs for a specific token's DEX pool
- * Now handles separate cursors for SWAP and SYNC events
- */
-async function processSwapChunk(
-  token: TokenRow,
-  dexPool: DexPoolRow,
-  provider: ethers.JsonRpcProvider,
-  chainId: number,
-  fromBlock: number,
-  toBlock: number
-) {
-  const pairAddress = ethers.getAddress(dexPool.pair_address)
-  console.log(`Token ${token.id}: Processing SWAP events for blocks ${fromBlock} to ${toBlock}`)
-  
-  const swapLogs = await withRateLimit(() => provider.getLogs({
-    address: pairAddress,
-    topics: [SWAP_TOPIC],
-    fromBlock: fromBlock,
-    toBlock: toBlock
-  }), MAX_RETRY_ATTEMPTS, chainId)
-  
-  console.log(`Token ${token.id}: Found ${swapLogs.length} DEX swaps`)
-  
-  for (const log of swapLogs) {
-    await processDexLog(token, dexPool, log, provider, chainId)
-  }
-  
-  console.log(`✅ Token ${token.id}: Processed SWAP events for blocks ${fromBlock} to ${toBlock}`)
-  
-  // Update SWAP cursor
-  await pool.query(`
-    INSERT INTO public.dex_pools (token_id, chain_id, pair_address, last_processed_block, last_processed_sync_block, token0, token1, quote_token, token_decimals, weth_decimals, quote_decimals, deployment_block)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-    ON CONFLICT (chain_id, pair_address) DO UPDATE SET 
-      last_processed_block = EXCLUDED.last_processed_block
-  `, [token.id, chainId, dexPool.pair_address, toBlock, dexPool.last_processed_sync_block, dexPool.token0, dexPool.token1, dexPool.quote_token, dexPool.token_decimals, dexPool.weth_decimals, dexPool.quote_decimals, dexPool.deployment_block])
-  
-  console.log(`✅ Token ${token.id}: Updated SWAP cursor to block ${toBlock}`)
-}
-
-async function processSyncChunk(
-  token: TokenRow,
-  dexPool: DexPoolRow,
-  provider: ethers.JsonRpcProvider,
-  chainId: number,
-  fromBlock: number,
-  toBlock: number
-) {
-  const pairAddress = ethers.getAddress(dexPool.pair_address)
-  console.log(`Token ${token.id}: Processing SYNC events for blocks ${fromBlock} to ${toBlock}`)
-  
-  const syncLogs = await withRateLimit(() => provider.getLogs({
-    address: pairAddress,
-    topics: [SYNC_TOPIC],
-    fromBlock: fromBlock,
-    toBlock: toBlock
-  }), MAX_RETRY_ATTEMPTS, chainId)
-  
-  console.log(`Token ${token.id}: Found ${syncLogs.length} DEX sync events`)
-  
-  for (const log of syncLogs) {
-    await processSyncLog(token, dexPool, log, provider, chainId)
-  }
-  
-  console.log(`✅ Token ${token.id}: Processed SYNC events for blocks ${fromBlock} to ${toBlock}`)
-  
-  // Update SYNC cursor
-  await pool.query(`
-    INSERT INTO public.dex_pools (token_id, chain_id, pair_address, last_processed_block, last_processed_sync_block, token0, token1, quote_token, token_decimals, weth_decimals, quote_decimals, deployment_block)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-    ON CONFLICT (chain_id, pair_address) DO UPDATE SET 
-      last_processed_sync_block = EXCLUDED.last_processed_sync_block
-  `, [token.id, chainId, dexPool.pair_address, dexPool.last_processed_block, toBlock, dexPool.token0, dexPool.token1, dexPool.quote_token, dexPool.token_decimals, dexPool.weth_decimals, dexPool.quote_decimals, dexPool.deployment_block])
-  
-  console.log(`✅ Token ${token.id}: Updated SYNC cursor to block ${toBlock}`)
 }
 
 /**
@@ -651,7 +855,8 @@ async function processTransferLog(
   dexPool: DexPoolRow | null,
   log: ethers.Log,
   provider: ethers.JsonRpcProvider,
-  chainId: number
+  chainId: number,
+  db: ScanDb
 ) {
   try {
     // Parse transfer log
@@ -678,7 +883,7 @@ async function processTransferLog(
     const blockTime = new Date(Number(block!.timestamp) * 1000)
     
     // Process regular transfer (graduation is handled in main loop)
-        await processRegularTransfer(token, dexPool, log, tx, fromAddress, toAddress, amount, blockTime, chainId, provider)
+        await processRegularTransfer(token, dexPool, log, tx, fromAddress, toAddress, amount, blockTime, chainId, provider, db)
   } catch (error) {
     console.error(`❌ Failed to process transfer log ${log.transactionHash}:`, error)
     throw error // Re-throw to stop processing and prevent cursor advancement
@@ -760,7 +965,8 @@ async function createGraduationRecords(
   blockTime: Date,
   provider: ethers.JsonRpcProvider,
   chainId: number,
-  dexPool: DexPoolRow | null
+  dexPool: DexPoolRow | null,
+  db: ScanDb
 ) {
   // Get all transfer logs for this transaction to find the correct amounts
   const allLogs = await withRateLimit(() => provider.getLogs({
@@ -899,15 +1105,17 @@ async function createGraduationRecords(
   const graduationPriceEthPerToken = liquidityEthAmount > 0n && liquidityTokenAmount > 0n ? Number(liquidityEthAmount) / Number(liquidityTokenAmount) : 0
   
   // Insert all 3 GRADUATION records in a single transaction for atomicity
-  const client = await pool.connect()
+  // (a savepoint when the caller already holds a transaction)
+  const ownClient = db === pool ? await pool.connect() : null
+  const client: ScanDb = ownClient ?? db
   try {
-    await client.query('BEGIN')
+    await client.query(ownClient ? 'BEGIN' : 'SAVEPOINT graduation_records')
     
     // Record 1: MINT (zero address to contract) - comes first chronologically
     await client.query(`
       INSERT INTO public.token_transfers
         (token_id, chain_id, contract_address, block_number, block_time, tx_hash, log_index, from_address, to_address, amount_wei, amount_eth_wei, price_eth_per_token, side, src, graduation_metadata, eth_price_usd)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, COALESCE(public.eth_price_at($5), $16))
       ON CONFLICT (chain_id, tx_hash, log_index) DO UPDATE SET
         side = EXCLUDED.side,
         src = EXCLUDED.src,
@@ -939,7 +1147,7 @@ async function createGraduationRecords(
     await client.query(`
       INSERT INTO public.token_transfers
         (token_id, chain_id, contract_address, block_number, block_time, tx_hash, log_index, from_address, to_address, amount_wei, amount_eth_wei, price_eth_per_token, side, src, eth_price_usd)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, COALESCE(public.eth_price_at($5), $15))
       ON CONFLICT (chain_id, tx_hash, log_index) DO UPDATE SET
         side = EXCLUDED.side,
         src = EXCLUDED.src,
@@ -964,7 +1172,7 @@ async function createGraduationRecords(
     await client.query(`
       INSERT INTO public.token_transfers
         (token_id, chain_id, contract_address, block_number, block_time, tx_hash, log_index, from_address, to_address, amount_wei, amount_eth_wei, price_eth_per_token, side, src, graduation_metadata, eth_price_usd)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, COALESCE(public.eth_price_at($5), $16))
       ON CONFLICT (chain_id, tx_hash, log_index) DO UPDATE SET
         side = EXCLUDED.side,
         src = EXCLUDED.src,
@@ -999,14 +1207,15 @@ async function createGraduationRecords(
       getEthPriceForTransfer()
     ])
     
-    await client.query('COMMIT')
+    await client.query(ownClient ? 'COMMIT' : 'RELEASE SAVEPOINT graduation_records')
+    recordRowsInserted('token_transfers', chainId, 3)
     console.log(`✅ Token ${token.id}: Successfully inserted 3 graduation records in transaction`)
   } catch (error) {
-    await client.query('ROLLBACK')
+    await client.query(ownClient ? 'ROLLBACK' : 'ROLLBACK TO SAVEPOINT graduation_records')
     console.error(`❌ Token ${token.id}: Error inserting graduation records:`, error)
     throw error
   } finally {
-    client.release()
+    ownClient?.release()
   }
   
 }
@@ -1074,7 +1283,8 @@ async function processRegularTransfer(
   amount: bigint,
   blockTime: Date,
   chainId: number,
-  provider: ethers.JsonRpcProvider
+  provider: ethers.JsonRpcProvider,
+  db: ScanDb
 ) {
   // Determine transfer type
   const transferType = determineTransferType(token, tx, fromAddress, toAddress)
@@ -1135,10 +1345,10 @@ async function processRegularTransfer(
   
   // Insert transfer record
   try {
-  await pool.query(`
+  const { rowCount } = await db.query(`
     INSERT INTO public.token_transfers
       (token_id, chain_id, contract_address, block_number, block_time, tx_hash, log_index, from_address, to_address, amount_wei, amount_eth_wei, price_eth_per_token, side, src, eth_price_usd)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, COALESCE(public.eth_price_at($5), $15))
     ON CONFLICT (chain_id, tx_hash, log_index) DO UPDATE SET
       side = EXCLUDED.side,
       src = EXCLUDED.src,
@@ -1151,6 +1361,7 @@ async function processRegularTransfer(
     log.index, fromAddress, toAddress, amount.toString(), ethAmount.toString(), priceEthPerToken,
     side, src, getEthPriceForTransfer()
   ])
+  recordRowsInserted('token_transfers', chainId, rowCount)
   
   console.log(`✅ Token ${token.id}: Recorded ${side} transfer (${src})`)
   } catch (dbError) {
@@ -1168,7 +1379,8 @@ async function processDexLog(
   dexPool: DexPoolRow,
   log: ethers.Log,
   provider: ethers.JsonRpcProvider,
-  chainId: number
+  chainId: number,
+  db: ScanDb
 ) {
   try {
     // Get transaction details
@@ -1295,10 +1507,10 @@ async function processDexLog(
 
     // Insert into token_transfers
     try {
-    await pool.query(`
+    const { rowCount } = await db.query(`
       INSERT INTO public.token_transfers
         (token_id, chain_id, contract_address, block_number, block_time, tx_hash, log_index, from_address, to_address, amount_wei, amount_eth_wei, price_eth_per_token, side, src, eth_price_usd)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, COALESCE(public.eth_price_at($5), $15))
       ON CONFLICT (chain_id, tx_hash, log_index) DO UPDATE SET
         side = EXCLUDED.side,
         src = EXCLUDED.src,
@@ -1318,6 +1530,7 @@ async function processDexLog(
       'DEX',
       getEthPriceForTransfer()
     ])
+    recordRowsInserted('token_transfers', chainId, rowCount)
 
     console.log(`Token ${token.id}: Inserted DEX ${side} record`)
     } catch (dbError) {
@@ -1338,7 +1551,8 @@ async function processSyncLog(
   dexPool: DexPoolRow,
   log: ethers.Log,
   provider: ethers.JsonRpcProvider,
-  chainId: number
+  chainId: number,
+  db: ScanDb
 ) {
   try {
     // Get block details
@@ -1396,7 +1610,7 @@ async function processSyncLog(
 
     // Insert into pair_snapshots
     try {
-      await pool.query(`
+      const { rowCount } = await db.query(`
         INSERT INTO public.pair_snapshots
           (chain_id, pair_address, block_number, block_time, reserve0_wei, reserve1_wei, price_eth_per_token)
         VALUES ($1, $2, $3, $4, $5, $6, $7)
@@ -1410,6 +1624,7 @@ async function processSyncLog(
         chainId, dexPool.pair_address, log.blockNumber, blockTime,
         reserveTokenWei.toString(), reserveQuoteWei.toString(), priceEthPerToken
       ])
+      recordRowsInserted('pair_snapshots', chainId, rowCount)
 
       console.log(`Token ${token.id}: Inserted SYNC snapshot record`)
     } catch (dbError) {
@@ -1429,20 +1644,23 @@ async function processSyncLog(
 
 // Run the worker
 if (require.main === module) {
-  if (HAS_TEST_FILTERS) {
-    console.log('🧪 Test filters detected - running single cycle only')
-    main().then(success => {
+  if (DAEMON_MODE && !HAS_TEST_FILTERS) {
+    runDaemon().then(success => {
       if (!success) {
-        console.log('🛑 Single cycle aborted - another worker is running')
+        console.log('🛑 Daemon not started - another worker is running')
       }
-      console.log('✅ Worker V2 cycle completed successfully!')
+      console.log('👋 Worker V2 daemon stopped')
       process.exit(0)
     }).catch(error => {
-      console.error('❌ Worker V2 failed:', error)
+      console.error('❌ Worker V2 daemon failed:', error)
       process.exit(1)
     })
   } else {
-    console.log('🔄 No test filters - running single cycle only')
+    if (HAS_TEST_FILTERS) {
+      console.log(DAEMON_MODE ? '🧪 Test filters detected - ignoring daemon mode, running single cycle only' : '🧪 Test filters detected - running single cycle only')
+    } else {
+      console.log('🔄 No test filters - running single cycle only')
+    }
     main().then(success => {
       if (!success) {
         console.log('🛑 Single cycle aborted - another worker is running')
@@ -1456,4 +1674,5 @@ if (require.main === module) {
   }
 }
 
-export { main }
+export { main, runDaemon, scanChain, acquireGlobalLock, refreshEthPrice }
+export type { TokenRow, DexPoolRow, ChainScan }
@@ -0,0 +1,550 @@
+#!/usr/bin/env node
+
+/**
+ * Worker V2 maintenance CLI
+ *
+ * Re-ingests indexed data and rebuilds derived tables without hand-editing cursors:
+ *   reindex --token <id> [--from <block>] [--to <block>]
+ *   reindex --chain <id> --from <block> [--to <block>]
+ *   rebuild-balances (--token <id> | --chain <id>)
+ *   rebuild-charts (--token <id> | --chain <id>) [--since <date>]
+ *   verify (--token <id> | --chain <id>) [--limit <holders per token>]
+ *   backfill-eth-prices (--token <id> | --chain <id>) [--since <date>] [--skip-fetch]
+ *   webhooks (list | add | pause | resume | remove | retry-dead) ...
+ *
+ * Writing commands hold the worker's advisory lock, so they never run alongside a worker cycle.
+ */
+
+import 'dotenv/config'
+import { parseArgs } from 'node:util'
+import { ethers } from 'ethers'
+import pool from '../lib/db'
+import { providerFor } from '../lib/providers'
+import { withRateLimit } from './core/rateLimiting'
+import { ensureWorkerSchema } from './core/schema'
+import { REORG_CUSHION, MAX_RETRY_ATTEMPTS } from './core/config'
+import { readChainCursor } from './core/chainCursor'
+import { scanChain, acquireGlobalLock, refreshEthPrice, type TokenRow, type DexPoolRow, type ChainScan } from './index'
+import { aggregateTokens, rebuildTokenBalances, rebuildTokenCharts } from './agg'
+import { backfillEthPriceHistory, getEthPriceSource } from '../lib/ethPrices'
+import { addSubscription, listSubscriptions, removeSubscription, retryDeadLetters, setSubscriptionActive } from './core/webhooks'
+import type { WebhookEventType } from '../lib/webhooks'
+
+const USAGE = `Usage:
+  reindex --token <id> [--from <block>] [--to <block>]   Re-ingest one token (default: deployment block to its cursor)
+  reindex --chain <id> --from <block> [--to <block>]     Re-ingest every token and pool of a chain in a block range
+  rebuild-balances (--token <id> | --chain <id>)         Recompute token_balances, holder counts and snapshots
+  rebuild-charts (--token <id> | --chain <id>) [--since <date>]
+                                                         Recompute token_chart_agg (default: from the first trade)
+  verify (--token <id> | --chain <id>) [--limit <n>]     Compare the largest stored balances with balanceOf on chain
+  backfill-eth-prices (--token <id> | --chain <id>) [--since <date>] [--skip-fetch]
+                                                         Fetch ETH/USD history, re-price transfers at their block_time
+                                                         and rebuild charts (default: from the first transfer)
+  webhooks list                                          Subscriptions with pending and dead-lettered deliveries
+  webhooks add --url <url> [--events <type,...>] [--chain <id>] [--token <id>] [--min-eth <eth>] [--description <text>]
+                                                         Subscribe; prints the signing secret once
+  webhooks pause|resume|remove --id <subscription>       Hold or release deliveries, or delete the subscription
+  webhooks retry-dead [--id <subscription>]              Queue dead-lettered deliveries again`
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+const ERC20_BALANCE_ABI = ['function balanceOf(address) view returns (uint256)']
+
+interface Target {
+  chainId: number
+  tokens: TokenRow[]
+}
+
+interface TokenSummary {
+  transfers: number
+  sides: Record<string, number>
+  snapshots: number
+  holders: number
+  candles: number
+}
+
+function toInt(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`--${flag} must be a non-negative integer`)
+  return parsed
+}
+
+// Midnight UTC, which is also a 4h candle boundary
+function startOfDay(date: Date): Date {
+  const day = new Date(date)
+  day.setUTCHours(0, 0, 0, 0)
+  return day
+}
+
+async function resolveTarget(tokenId?: number, chainId?: number): Promise<Target> {
+  if (tokenId === undefined && chainId === undefined) throw new Error('Pass --token or --chain')
+
+  const { rows: tokens } = await pool.query<TokenRow>(`
+    SELECT id, chain_id, contract_address, deployment_block, last_processed_block, is_graduated, creator_wallet
+    FROM public.tokens
+    WHERE ($1::bigint IS NULL OR id = $1) AND ($2::integer IS NULL OR chain_id = $2)
+    ORDER BY id
+  `, [tokenId ?? null, chainId ?? null])
+
+  if (tokens.length === 0) {
+    throw new Error(tokenId !== undefined ? `Token ${tokenId} not found${chainId !== undefined ? ` on chain ${chainId}` : ''}` : `No tokens on chain ${chainId}`)
+  }
+  return { chainId: Number(tokens[0].chain_id), tokens }
+}
+
+async function loadDexPools(chainId: number, tokens: TokenRow[]): Promise<DexPoolRow[]> {
+  const graduatedIds = tokens.filter(t => t.is_graduated).map(t => t.id)
+  const { rows } = await pool.query<DexPoolRow>(`
+    SELECT token_id, chain_id, pair_address, deployment_block, last_processed_block, last_processed_sync_block, token0, token1, quote_token, token_decimals, weth_decimals, quote_decimals
+    FROM public.dex_pools
+    WHERE chain_id = $1 AND token_id = ANY($2)
+  `, [chainId, graduatedIds])
+  return rows
+}
+
+/**
+ * Row counts per token, used for the before/after diff
+ */
+async function summarize(chainId: number, tokenIds: number[], fromBlock = 0, toBlock = Number.MAX_SAFE_INTEGER): Promise<Map<number, TokenSummary>> {
+  const summaries = new Map<number, TokenSummary>(
+    tokenIds.map(id => [Number(id), { transfers: 0, sides: {}, snapshots: 0, holders: 0, candles: 0 }])
+  )
+
+  const { rows: transfers } = await pool.query<{ token_id: string; side: string; count: number }>(`
+    SELECT token_id, side, COUNT(*)::int AS count
+    FROM public.token_transfers
+    WHERE chain_id = $1 AND token_id = ANY($2) AND block_number BETWEEN $3 AND $4
+    GROUP BY token_id, side
+  `, [chainId, tokenIds, fromBlock, toBlock])
+  for (const row of transfers) {
+    const summary = summaries.get(Number(row.token_id))!
+    summary.transfers += row.count
+    summary.sides[row.side] = row.count
+  }
+
+  const { rows: snapshots } = await pool.query<{ token_id: string; count: number }>(`
+    SELECT dp.token_id, COUNT(*)::int AS count
+    FROM public.dex_pools dp
+    JOIN public.pair_snapshots ps ON ps.chain_id = dp.chain_id AND LOWER(ps.pair_address) = LOWER(dp.pair_address)
+    WHERE dp.chain_id = $1 AND dp.token_id = ANY($2) AND ps.block_number BETWEEN $3 AND $4
+    GROUP BY dp.token_id
+  `, [chainId, tokenIds, fromBlock, toBlock])
+  for (const row of snapshots) summaries.get(Number(row.token_id))!.snapshots = row.count
+
+  const { rows: holders } = await pool.query<{ token_id: string; count: number }>(`
+    SELECT token_id, COUNT(*)::int AS count
+    FROM public.token_balances
+    WHERE chain_id = $1 AND token_id = ANY($2) AND balance_wei::numeric > 0
+    GROUP BY token_id
+  `, [chainId, tokenIds])
+  for (const row of holders) summaries.get(Number(row.token_id))!.holders = row.count
+
+  const { rows: candles } = await pool.query<{ token_id: string; count: number }>(`
+    SELECT token_id, COUNT(*)::int AS count
+    FROM public.token_chart_agg
+    WHERE chain_id = $1 AND token_id = ANY($2)
+    GROUP BY token_id
+  `, [chainId, tokenIds])
+  for (const row of candles) summaries.get(Number(row.token_id))!.candles = row.count
+
+  return summaries
+}
+
+function printDiff(before: Map<number, TokenSummary>, after: Map<number, TokenSummary>) {
+  const change = (a: number, b: number) => (a === b ? `${b}` : `${a} → ${b} (${b > a ? '+' : ''}${b - a})`)
+  const rows = []
+  for (const [tokenId, b] of before) {
+    const a = after.get(tokenId)!
+    const sides = [...new Set([...Object.keys(b.sides), ...Object.keys(a.sides)])]
+      .filter(side => (b.sides[side] ?? 0) !== (a.sides[side] ?? 0))
+      .map(side => `${side} ${change(b.sides[side] ?? 0, a.sides[side] ?? 0)}`)
+    const changed = sides.length > 0 || b.transfers !== a.transfers || b.snapshots !== a.snapshots ||
+      b.holders !== a.holders || b.candles !== a.candles
+    if (!changed) continue
+    rows.push({
+      token: tokenId,
+      transfers: change(b.transfers, a.transfers),
+      sides: sides.join(', ') || '-',
+      snapshots: change(b.snapshots, a.snapshots),
+      holders: change(b.holders, a.holders),
+      candles: change(b.candles, a.candles),
+    })
+  }
+
+  if (rows.length === 0) {
+    console.log(`\n✅ No differences across ${before.size} token(s)`)
+    return
+  }
+  console.log(`\n📋 ${rows.length} of ${before.size} token(s) changed:`)
+  console.table(rows)
+}
+
+/**
+ * Delete and re-ingest transfers and pair snapshots in [fromBlock, toBlock] inside one transaction,
+ * then rebuild balances and charts. Cursors are left untouched; a failed token rolls everything back.
+ */
+async function reindex(target: Target, fromBlock: number, toBlock: number): Promise<void> {
+  const { chainId, tokens } = target
+  const provider = providerFor(chainId)
+  const tokenIds = tokens.map(t => t.id)
+  const dexPools = await loadDexPools(chainId, tokens)
+  const pairAddresses = dexPools.map(p => p.pair_address.toLowerCase())
+
+  console.log(`🔁 Chain ${chainId}: Re-indexing ${tokens.length} token(s) and ${dexPools.length} pool(s) for blocks ${fromBlock} to ${toBlock}`)
+  const before = await summarize(chainId, tokenIds, fromBlock, toBlock)
+
+  // Re-ingested transfers are priced from eth_price_history at their block_time (run backfill-eth-prices first for old ranges)
+  await refreshEthPrice()
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    // Re-inserted transfers are not new trades: keep them off the live stream and out of webhooks
+    await client.query("SET LOCAL stream.notify = 'off'")
+    await client.query("SET LOCAL webhooks.enqueue = 'off'")
+
+    const { rowCount: deletedTransfers } = await client.query(`
+      DELETE FROM public.token_transfers
+      WHERE chain_id = $1 AND token_id = ANY($2) AND block_number BETWEEN $3 AND $4
+    `, [chainId, tokenIds, fromBlock, toBlock])
+    const { rowCount: deletedSnapshots } = await client.query(`
+      DELETE FROM public.pair_snapshots
+      WHERE chain_id = $1 AND LOWER(pair_address) = ANY($2::text[]) AND block_number BETWEEN $3 AND $4
+    `, [chainId, pairAddresses, fromBlock, toBlock])
+    console.log(`🗑️ Deleted ${deletedTransfers} transfers and ${deletedSnapshots} pair snapshots`)
+
+    const tokenById = new Map(tokens.map(t => [Number(t.id), t]))
+    const scan: ChainScan = {
+      db: client,
+      saveCursors: false,
+      chainCursor: null,
+      tokens: tokens
+        .filter(token => Number(token.deployment_block) <= toBlock)
+        .map(token => ({ token, cursor: Math.max(fromBlock, Number(token.deployment_block)) - 1, storedCursor: null })),
+      pools: dexPools
+        .filter(dexPool => Number(dexPool.deployment_block) <= toBlock)
+        .map(dexPool => {
+          const cursor = Math.max(fromBlock, Number(dexPool.deployment_block)) - 1
+          return {
+            dexPool,
+            token: tokenById.get(Number(dexPool.token_id))!,
+            swapCursor: cursor,
+            syncCursor: cursor,
+            storedSwapCursor: null,
+            storedSyncCursor: null,
+          }
+        }),
+      dexPoolByTokenId: new Map(dexPools.map(p => [Number(p.token_id), p])),
+      failedTokens: new Set(),
+      failedPools: new Set(),
+    }
+
+    const completed = await scanChain(chainId, provider, scan, toBlock)
+    if (!completed || scan.failedTokens.size > 0 || scan.failedPools.size > 0) {
+      const failed = [...scan.failedTokens].map(t => t.token.id).concat([...scan.failedPools].map(p => p.token.id))
+      throw new Error(`Re-ingestion failed for token(s) ${[...new Set(failed)].join(', ') || '-'} - nothing was changed`)
+    }
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+
+  // Rebuild derived tables from the day the range starts
+  const fromTime = await withRateLimit(() => provider.getBlock(fromBlock), MAX_RETRY_ATTEMPTS, chainId)
+  const chartSince = startOfDay(new Date(Number(fromTime?.timestamp ?? 0) * 1000))
+  console.log(`\n📊 Rebuilding balances, charts (since ${chartSince.toISOString()}) and stats...`)
+  await aggregateTokens(chainId, tokenIds, chartSince)
+
+  printDiff(before, await summarize(chainId, tokenIds, fromBlock, toBlock))
+}
+
+async function rebuildBalances(target: Target): Promise<void> {
+  const { chainId, tokens } = target
+  const tokenIds = tokens.map(t => t.id)
+  const before = await summarize(chainId, tokenIds)
+  await rebuildTokenBalances(chainId, tokenIds)
+  printDiff(before, await summarize(chainId, tokenIds))
+}
+
+async function rebuildCharts(target: Target, since?: Date): Promise<void> {
+  const { chainId, tokens } = target
+  const tokenIds = tokens.map(t => t.id)
+  const before = await summarize(chainId, tokenIds)
+
+  for (const token of tokens) {
+    let tokenSince = since
+    if (!tokenSince) {
+      const { rows } = await pool.query<{ first_trade: Date | null }>(`
+        SELECT MIN(block_time) AS first_trade
+        FROM public.token_transfers
+        WHERE chain_id = $1 AND token_id = $2
+      `, [chainId, token.id])
+      tokenSince = rows[0]?.first_trade ?? new Date()
+    }
+    await rebuildTokenCharts(chainId, [token.id], startOfDay(tokenSince))
+  }
+
+  printDiff(before, await summarize(chainId, tokenIds))
+}
+
+/**
+ * Fill eth_price_history from the price source, re-price transfers with the point nearest to their block_time,
+ * then rebuild charts and stats from the start of the range
+ */
+async function backfillEthPrices(target: Target, since: Date | undefined, skipFetch: boolean): Promise<void> {
+  const { chainId, tokens } = target
+  const tokenIds = tokens.map(t => t.id)
+
+  let from = since
+  if (!from) {
+    const { rows } = await pool.query<{ first_transfer: Date | null }>(`
+      SELECT MIN(block_time) AS first_transfer
+      FROM public.token_transfers
+      WHERE chain_id = $1 AND token_id = ANY($2)
+    `, [chainId, tokenIds])
+    if (!rows[0]?.first_transfer) {
+      console.log('✅ No transfers to re-price')
+      return
+    }
+    from = rows[0].first_transfer
+  }
+
+  if (!skipFetch) {
+    const added = await backfillEthPriceHistory(from, new Date())
+    console.log(`💰 Added ${added} ETH/USD point(s) from ${getEthPriceSource().name} since ${from.toISOString()}`)
+  }
+
+  const before = await summarize(chainId, tokenIds)
+  const { rowCount: repriced } = await pool.query(`
+    UPDATE public.token_transfers t
+    SET eth_price_usd = p.price_usd
+    FROM (
+      SELECT chain_id, tx_hash, log_index, public.eth_price_at(block_time) AS price_usd
+      FROM public.token_transfers
+      WHERE chain_id = $1 AND token_id = ANY($2) AND block_time >= $3
+    ) p
+    WHERE t.chain_id = p.chain_id AND t.tx_hash = p.tx_hash AND t.log_index = p.log_index
+      AND p.price_usd IS NOT NULL AND t.eth_price_usd IS DISTINCT FROM p.price_usd
+  `, [chainId, tokenIds, from])
+  console.log(`💰 Re-priced ${repriced} transfer(s)`)
+
+  const chartSince = startOfDay(from)
+  console.log(`\n📊 Rebuilding balances, charts (since ${chartSince.toISOString()}) and stats...`)
+  await aggregateTokens(chainId, tokenIds, chartSince)
+
+  printDiff(before, await summarize(chainId, tokenIds))
+}
+
+/**
+ * Compare the largest stored balances of each token with balanceOf on chain (read-only)
+ */
+async function verify(target: Target, limit: number): Promise<boolean> {
+  const { chainId, tokens } = target
+  const provider = providerFor(chainId)
+
+  const chainCursor = await readChainCursor(chainId)
+  const head = await withRateLimit(() => provider.getBlockNumber(), MAX_RETRY_ATTEMPTS, chainId)
+
+  const mismatches: Array<{ token: number; holder: string; stored: string; onChain: string }> = []
+  const behind: Array<{ token: number; cursor: number; chainCursor: number | null; head: number }> = []
+
+  for (const token of tokens) {
+    // NULL: the token follows the chain cursor
+    const cursor = Number(token.last_processed_block ?? chainCursor ?? 0)
+    if (cursor < (chainCursor ?? head - REORG_CUSHION)) {
+      behind.push({ token: Number(token.id), cursor, chainCursor, head })
+    }
+
+    const { rows: balances } = await pool.query<{ holder: string; balance_wei: string }>(`
+      SELECT holder, balance_wei
+      FROM public.token_balances
+      WHERE chain_id = $1 AND token_id = $2 AND holder <> $3
+      ORDER BY balance_wei::numeric DESC
+      LIMIT $4
+    `, [chainId, token.id, ZERO_ADDRESS, limit])
+
+    // Balances are compared at the token's cursor, which is what the stored data reflects
+    const contract = new ethers.Contract(token.contract_address, ERC20_BALANCE_ABI, provider)
+    for (const { holder, balance_wei } of balances) {
+      const onChain: bigint = await withRateLimit(() => contract.balanceOf(holder, { blockTag: cursor || 'latest' }), MAX_RETRY_ATTEMPTS, chainId)
+      if (onChain !== BigInt(balance_wei)) {
+        mismatches.push({ token: Number(token.id), holder, stored: balance_wei, onChain: onChain.toString() })
+      }
+    }
+    console.log(`🔍 Token ${token.id}: Checked ${balances.length} holder(s) at block ${cursor || 'latest'}`)
+  }
+
+  if (behind.length > 0) {
+    console.log(`\n⏳ ${behind.length} token(s) behind the chain cursor:`)
+    console.table(behind)
+  }
+  if (mismatches.length > 0) {
+    console.log(`\n❌ ${mismatches.length} balance mismatch(es):`)
+    console.table(mismatches)
+  } else {
+    console.log(`\n✅ Stored balances match the chain for ${tokens.length} token(s)`)
+  }
+  return mismatches.length === 0
+}
+
+/**
+ * Webhook subscriptions. These don't take the worker lock (the daemon holds it for its lifetime); the tables are
+ * created by the worker's first start
+ */
+async function webhooks(action: string | undefined, values: Record<string, string | boolean | undefined>): Promise<boolean> {
+  const str = (flag: string) => (typeof values[flag] === 'string' ? values[flag] as string : undefined)
+  const id = toInt(str('id'), 'id')
+
+  if (action === 'list') {
+    const subscriptions = await listSubscriptions()
+    if (subscriptions.length === 0) console.log('No webhook subscriptions')
+    for (const s of subscriptions) {
+      const filters = [
+        s.event_types ? `events ${s.event_types.join(',')}` : 'all events',
+        s.chain_id !== null ? `chain ${s.chain_id}` : null,
+        s.token_id !== null ? `token ${s.token_id}` : null,
+        s.min_eth_wei !== null ? `min ${ethers.formatEther(s.min_eth_wei)} ETH` : null,
+      ].filter(Boolean).join(', ')
+      console.log(`#${s.id} ${s.active ? '🟢' : '⏸️ '} ${s.url}${s.description ? ` (${s.description})` : ''}`)
+      console.log(`    ${filters} - ${s.pending} pending, ${s.dead_letters} dead-lettered, last success ${s.last_success_at?.toISOString() ?? 'never'}`)
+    }
+    return true
+  }
+
+  if (action === 'add') {
+    const url = str('url')
+    if (!url) throw new Error('webhooks add needs --url')
+    const minEth = str('min-eth')
+    const { id: subscriptionId, secret } = await addSubscription({
+      url,
+      description: str('description') ?? null,
+      eventTypes: str('events') ? str('events')!.split(',').map(type => type.trim()) as WebhookEventType[] : null,
+      chainId: toInt(str('chain'), 'chain') ?? null,
+      tokenId: toInt(str('token'), 'token') ?? null,
+      minEthWei: minEth !== undefined ? ethers.parseEther(minEth) : null,
+    })
+    console.log(`✅ Added webhook subscription #${subscriptionId}`)
+    console.log(`🔑 Signing secret (shown once): ${secret}`)
+    return true
+  }
+
+  if (action === 'pause' || action === 'resume' || action === 'remove') {
+    if (id === undefined) throw new Error(`webhooks ${action} needs --id`)
+    const found = action === 'remove' ? await removeSubscription(id) : await setSubscriptionActive(id, action === 'resume')
+    if (!found) throw new Error(`Webhook subscription ${id} not found`)
+    console.log(`✅ Subscription #${id}: ${action === 'remove' ? 'removed' : action === 'pause' ? 'paused' : 'resumed'}`)
+    return true
+  }
+
+  if (action === 'retry-dead') {
+    const queued = await retryDeadLetters(id ?? null)
+    console.log(`🔁 Queued ${queued} dead-lettered deliveries again`)
+    return true
+  }
+
+  console.error(`Unknown webhooks action: ${action ?? '-'}\n\n${USAGE}`)
+  return false
+}
+
+async function main(argv: string[]): Promise<boolean> {
+  const { positionals, values } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      token: { type: 'string' },
+      chain: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      since: { type: 'string' },
+      limit: { type: 'string' },
+      'skip-fetch': { type: 'boolean' },
+      id: { type: 'string' },
+      url: { type: 'string' },
+      events: { type: 'string' },
+      'min-eth': { type: 'string' },
+      description: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const command = positionals[0]
+  if (!command || values.help) {
+    console.log(USAGE)
+    return !!values.help
+  }
+
+  if (command === 'webhooks') {
+    return webhooks(positionals[1], values)
+  }
+
+  const tokenId = toInt(values.token, 'token')
+  const chainId = toInt(values.chain, 'chain')
+
+  if (command === 'verify') {
+    const limit = toInt(values.limit, 'limit') ?? 50
+    return verify(await resolveTarget(tokenId, chainId), limit)
+  }
+
+  if (!['reindex', 'rebuild-balances', 'rebuild-charts', 'backfill-eth-prices'].includes(command)) {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`)
+    return false
+  }
+
+  const lock = await acquireGlobalLock()
+  if (!lock) {
+    console.log('Another worker run is in progress. Try again when it has finished.')
+    return false
+  }
+
+  try {
+    await ensureWorkerSchema()
+    const target = await resolveTarget(tokenId, chainId)
+
+    if (command === 'rebuild-balances') {
+      await rebuildBalances(target)
+    } else if (command === 'rebuild-charts' || command === 'backfill-eth-prices') {
+      const since = values.since ? new Date(values.since) : undefined
+      if (since && Number.isNaN(since.getTime())) throw new Error('--since must be a date, e.g. 2025-01-31')
+      if (command === 'rebuild-charts') {
+        await rebuildCharts(target, since)
+      } else {
+        await backfillEthPrices(target, since, values['skip-fetch'] ?? false)
+      }
+    } else {
+      let fromBlock = toInt(values.from, 'from')
+      let toBlock = toInt(values.to, 'to')
+      if (tokenId === undefined && fromBlock === undefined) throw new Error('reindex --chain needs --from')
+
+      // A single token defaults to everything it has indexed so far
+      if (tokenId !== undefined) {
+        fromBlock ??= Number(target.tokens[0].deployment_block)
+        const cursor = target.tokens[0].last_processed_block ?? await readChainCursor(target.chainId)
+        toBlock ??= Number(cursor) || undefined
+      }
+
+      const head = await withRateLimit(() => providerFor(target.chainId).getBlockNumber(), MAX_RETRY_ATTEMPTS, target.chainId)
+      toBlock = Math.min(toBlock ?? head - REORG_CUSHION, head - REORG_CUSHION)
+      if (fromBlock! > toBlock) throw new Error(`Empty block range ${fromBlock} to ${toBlock}`)
+
+      await reindex(target, fromBlock!, toBlock)
+    }
+    return true
+  } finally {
+    await lock.release()
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(success => {
+    process.exit(success ? 0 : 1)
+  }).catch(error => {
+    console.error('❌', error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
+
+export { main }